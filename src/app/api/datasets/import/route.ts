@@ -1,7 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import Papa from "papaparse";
 import { z } from "zod";
-import type { Dataset, DatasetItem, DatasetSlice, DatasetVersion } from "@/lib/types";
+import { parseConversationMessages, resolveConversationRow } from "@/lib/conversation";
+import { parseTrajectory, resolveTrajectoryRow } from "@/lib/trajectory";
+import { parseListwiseCandidates } from "@/lib/listwise";
+import type {
+  AgentTrajectory,
+  ConversationMessage,
+  Dataset,
+  DatasetItem,
+  DatasetMode,
+  DatasetSlice,
+  DatasetVersion,
+  ListwiseCandidate,
+} from "@/lib/types";
 import { getServerMemory, hashString, slugify } from "@/lib/server-memory";
 
 export const dynamic = "force-dynamic";
@@ -21,7 +33,20 @@ const RESERVED_KEYS = new Set([
   "responseB",
   "response_a",
   "response_b",
+  "modelA",
+  "modelB",
+  "model_a",
+  "model_b",
+  "modelLabelA",
+  "modelLabelB",
+  "responses",
   "context",
+  "reference",
+  "reference_answer",
+  "referenceAnswer",
+  "messages",
+  "conversation_scope",
+  "trajectory",
   "mode",
   "tags",
   "gold_score",
@@ -108,27 +133,91 @@ function parseDatasetItems(
   const items: DatasetItem[] = [];
 
   rows.forEach((row, index) => {
-    const prompt = getString(row, "prompt");
-    const response = getString(row, "response");
+    let messages: ConversationMessage[] | undefined;
+    if (row.messages !== undefined && row.messages !== null && row.messages !== "") {
+      const conversation = parseConversationMessages(row.messages);
+      if (!conversation.ok) {
+        issues.push(`Row ${index + 1}: ${conversation.error}`);
+        return;
+      }
+      messages = conversation.messages;
+    }
+
+    let trajectory: AgentTrajectory | undefined;
+    if (row.trajectory !== undefined && row.trajectory !== null && row.trajectory !== "") {
+      const parsed = parseTrajectory(row.trajectory);
+      if (!parsed.ok) {
+        issues.push(`Row ${index + 1}: ${parsed.error}`);
+        return;
+      }
+      if (messages) {
+        issues.push(`Row ${index + 1}: use either "messages" or "trajectory", not both.`);
+        return;
+      }
+      trajectory = parsed.trajectory;
+    }
+
+    let responses: ListwiseCandidate[] | undefined;
+    if (row.responses !== undefined && row.responses !== null && row.responses !== "") {
+      const parsed = parseListwiseCandidates(row.responses);
+      if (!parsed.ok) {
+        issues.push(`Row ${index + 1}: ${parsed.error}`);
+        return;
+      }
+      responses = parsed.candidates;
+    }
+
+    let prompt = getString(row, "prompt");
+    let response = getString(row, "response");
     const responseA = getString(row, "responseA", "response_a");
     const responseB = getString(row, "responseB", "response_b");
+    const modelLabelA = getString(row, "modelA", "model_a", "modelLabelA") || undefined;
+    const modelLabelB = getString(row, "modelB", "model_b", "modelLabelB") || undefined;
     const context = getString(row, "context") || undefined;
+    const referenceAnswer =
+      getString(row, "reference", "reference_answer", "referenceAnswer") || undefined;
     const explicitMode = getString(row, "mode").toLowerCase();
 
-    if (!prompt) {
-      issues.push(`Row ${index + 1}: missing required "prompt".`);
-      return;
-    }
-
-    let mode: "single" | "pairwise" = "single";
-    if (explicitMode === "single" || explicitMode === "pairwise") {
+    let mode: DatasetMode = "single";
+    if (explicitMode === "single" || explicitMode === "pairwise" || explicitMode === "listwise") {
       mode = explicitMode;
+    } else if (responses) {
+      mode = "listwise";
     } else if (responseA || responseB) {
       mode = "pairwise";
     } else {
       mode = "single";
     }
 
+    if (mode === "listwise") {
+      if (messages || trajectory) {
+        issues.push(
+          `Row ${index + 1}: listwise rows take a plain "prompt", not messages or a trajectory.`
+        );
+        return;
+      }
+    } else if (messages) {
+      const resolved = resolveConversationRow(messages, mode, { prompt, response });
+      messages = resolved.messages;
+      prompt = resolved.prompt;
+      response = mode === "single" ? resolved.response : response;
+    }
+
+    if (trajectory && mode === "pairwise") {
+      issues.push(`Row ${index + 1}: trajectories are graded in single mode only.`);
+      return;
+    }
+    if (trajectory) {
+      const resolved = resolveTrajectoryRow(trajectory, { prompt, response });
+      prompt = resolved.prompt;
+      response = resolved.response;
+    }
+
+    if (!prompt) {
+      issues.push(`Row ${index + 1}: missing required "prompt".`);
+      return;
+    }
+
     if (mode === "single" && !response) {
       issues.push(`Row ${index + 1}: single mode requires "response".`);
       return;
@@ -139,6 +228,10 @@ function parseDatasetItems(
       );
       return;
     }
+    if (mode === "listwise" && !responses) {
+      issues.push(`Row ${index + 1}: listwise mode requires a "responses" array.`);
+      return;
+    }
 
     const tags = new Set<string>();
     const inlineTags = getString(row, "tags");
@@ -183,7 +276,19 @@ function parseDatasetItems(
       response: mode === "single" ? response : undefined,
       responseA: mode === "pairwise" ? responseA : undefined,
       responseB: mode === "pairwise" ? responseB : undefined,
+      modelLabelA: mode === "pairwise" ? modelLabelA : undefined,
+      modelLabelB: mode === "pairwise" ? modelLabelB : undefined,
+      responses: mode === "listwise" ? responses : undefined,
       context,
+      referenceAnswer: mode === "single" ? referenceAnswer : undefined,
+      messages,
+      conversationScope:
+        messages && mode === "single"
+          ? getString(row, "conversation_scope").toLowerCase() === "dialogue"
+            ? "dialogue"
+            : "final_turn"
+          : undefined,
+      trajectory,
       tags: [...tags],
       metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
       goldScore: Number.isFinite(goldScore) ? goldScore : undefined,
@@ -1,28 +1,61 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateText } from "ai";
-import { createOpenAI } from "@ai-sdk/openai";
-import { createAnthropic } from "@ai-sdk/anthropic";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { z } from "zod";
 import { nanoid } from "nanoid";
-import { getModelById } from "@/lib/models";
+import {
+  billedTokens,
+  generateJudgeJson,
+  judgeCallCostUsd,
+  type JudgeJsonResult,
+} from "@/lib/judge-cache";
+import { projectJudgeOutputTokens } from "@/lib/cost-estimate";
+import { judgeErrorReply } from "@/lib/judge-errors";
+import { buildSingleJudgeSchema, singleJudgeOptions } from "@/lib/judge-schema";
+import { mergeValidationReports, validateSingleJudgeOutput } from "@/lib/judge-validation";
+import { resolveJudge } from "@/lib/judge-models";
+import { getPricingAt } from "@/lib/pricing";
+import { effectiveBudgets, reserveJudgeCalls } from "@/lib/spend-budget";
 import { buildSinglePrompt, buildPairwisePrompt } from "@/lib/prompts";
+import { scanPairwiseInput, scanSingleInput } from "@/lib/prompt-injection";
+import {
+  buildJudgePromptVersionRef,
+  DEFAULT_JUDGE_PROMPT_VERSION,
+} from "@/lib/judge-prompt-templates";
 import { getBuiltInRubricById } from "@/lib/rubric-templates";
-import { ModelIdSchema, RubricSchema } from "@/lib/eval-validation";
 import {
-  JudgeJsonParseError,
-  normalizeAggregateScore,
-  normalizeCriterionScore,
+  AgentTrajectorySchema,
+  ConversationMessagesSchema,
+  ConversationScopeSchema,
+  JudgePromptTemplateVersionSchema,
+  ModelIdSchema,
+  ModelSpecSchema,
+  PositionBiasPolicySchema,
+  PreferenceScaleSchema,
+  ProviderSpecSchema,
+  RubricSchema,
+  SpendBudgetsSchema,
+} from "@/lib/eval-validation";
+import {
+  buildCriterionScore,
+  mostRescued,
+  normalizeReferenceAgreement,
+  normalizeStepAnnotations,
   normalizeText,
-  normalizeVerdict,
-  parseJudgeJson,
+  resolveAggregateScore,
 } from "@/lib/judge-output";
+import {
+  resolvePositionBias,
+  runPairwiseEval,
+  type PositionBiasResolution,
+} from "@/lib/pairwise-judge";
+import { positionBiasJudgeCalls, tiebreakOrder } from "@/lib/position-bias";
+import { DEFAULT_SAMPLING_TEMPERATURE } from "@/lib/self-consistency";
 import type {
-  Provider,
   Rubric,
   SingleEvalResult,
+  PairwiseEvalInput,
   PairwiseEvalResult,
   CriterionScore,
+  JudgeSampling,
   PairwiseVerdict,
 } from "@/lib/types";
 
@@ -34,34 +67,28 @@ const RequestSchema = z.object({
   responseB: z.string().optional(),
   rubricId: z.string().min(1),
   rubric: RubricSchema.optional(),
+  promptTemplate: JudgePromptTemplateVersionSchema.optional(),
   modelId: ModelIdSchema,
+  model: ModelSpecSchema.optional(),
+  provider: ProviderSpecSchema.optional(),
   context: z.string().optional(),
+  referenceAnswer: z.string().optional(),
+  messages: ConversationMessagesSchema.optional(),
+  conversationScope: ConversationScopeSchema.optional(),
+  trajectory: AgentTrajectorySchema.optional(),
+  detectPositionBias: z.boolean().default(false),
+  positionBiasPolicy: PositionBiasPolicySchema.optional(),
+  preferenceScale: PreferenceScaleSchema.optional(),
+  bypassCache: z.boolean().optional(),
+  budgets: SpendBudgetsSchema.optional(),
+  runId: z.string().min(1).max(128).optional(),
 });
 
-function getModel(modelId: string, provider: Provider, apiKey: string) {
-  if (provider === "openai") {
-    return createOpenAI({ apiKey })(modelId);
-  }
-  if (provider === "anthropic") {
-    return createAnthropic({ apiKey })(modelId);
-  }
-  return createGoogleGenerativeAI({ apiKey })(modelId);
-}
-
-function computeAggregate(scores: CriterionScore[], rubric: Rubric): number {
-  let weighted = 0;
-  let totalWeight = 0;
-  for (const cs of scores) {
-    const criterion = rubric.criteria.find((c) => c.id === cs.criterionId);
-    if (!criterion) continue;
-    const clampedScore = Math.max(1, Math.min(cs.maxScore, cs.score));
-    weighted += (clampedScore / cs.maxScore) * 100 * criterion.weight;
-    totalWeight += criterion.weight;
-  }
-  if (totalWeight === 0) return 0;
-  const score = weighted / totalWeight;
-  return Math.round(Math.max(0, Math.min(100, score)) * 10) / 10;
-}
+// The tie-break is a fresh draw, so it is never served the first pass's cached reply.
+const TIEBREAK_SAMPLING: JudgeSampling = {
+  samples: 1,
+  temperature: DEFAULT_SAMPLING_TEMPERATURE,
+};
 
 export async function POST(req: NextRequest) {
   try {
@@ -82,37 +109,47 @@ export async function POST(req: NextRequest) {
       responseB,
       modelId,
       context,
+      referenceAnswer,
+      messages,
+      conversationScope,
+      trajectory,
+      detectPositionBias,
+      positionBiasPolicy,
+      preferenceScale,
       rubric: rubricSnapshot,
       rubricId,
+      promptTemplate = DEFAULT_JUDGE_PROMPT_VERSION,
+      model: modelSnapshot,
+      provider: providerSnapshot,
+      bypassCache,
+      budgets: requestedBudgets,
+      runId,
     } = parsed.data;
 
+    if (messages && trajectory) {
+      return NextResponse.json(
+        { error: "Send either messages or a trajectory, not both" },
+        { status: 400 }
+      );
+    }
+
     const rubric: Rubric | undefined =
       rubricSnapshot ?? getBuiltInRubricById(rubricId);
     if (!rubric) {
       return NextResponse.json({ error: "Rubric not found" }, { status: 400 });
     }
 
-    const judgeModel = getModelById(modelId);
-    if (!judgeModel) {
-      return NextResponse.json({ error: "Unknown model" }, { status: 400 });
-    }
-
-    const provider = judgeModel.provider;
-    const apiKey =
-      req.headers.get(`x-${provider}-api-key`) ||
-      (provider === "openai"
-        ? process.env.OPENAI_API_KEY
-        : provider === "anthropic"
-          ? process.env.ANTHROPIC_API_KEY
-          : process.env.GOOGLE_API_KEY) ||
-      "";
-
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: `No API key found for provider: ${provider}` },
-        { status: 401 }
-      );
+    const judge = resolveJudge(req.headers, modelId, {
+      model: modelSnapshot,
+      provider: providerSnapshot,
+    });
+    if (!judge.ok) {
+      return NextResponse.json({ error: judge.error }, { status: judge.status });
     }
+    const { judgeModel } = judge;
+    const pricing = getPricingAt(judgeModel);
+    const budgets = effectiveBudgets(requestedBudgets);
+    const providerId = judge.provider.id;
 
     if (mode === "single") {
       if (!response) {
@@ -122,39 +159,58 @@ export async function POST(req: NextRequest) {
         );
       }
 
-      const input = { prompt, response, rubricId: rubric.id, modelId, context };
-      const judgePrompt = buildSinglePrompt(input, rubric);
-      const { text, usage } = await generateText({
-        model: getModel(modelId, provider, apiKey),
-        prompt: judgePrompt,
-        temperature: 0.1,
-        maxOutputTokens: 4096,
+      const input = {
+        prompt,
+        response,
+        rubricId: rubric.id,
+        modelId,
+        context,
+        ...(referenceAnswer && { referenceAnswer }),
+        ...(messages && { messages, conversationScope: conversationScope ?? "final_turn" }),
+        ...(trajectory && { trajectory }),
+      };
+      const judgeOptions = singleJudgeOptions(input);
+      const judgePrompt = buildSinglePrompt(input, rubric, promptTemplate);
+      const injectionFlags = scanSingleInput(input);
+      const reservation = reserveJudgeCalls({
+        budgets,
+        judge,
+        pricing,
+        judgePrompt,
+        outputTokens: projectJudgeOutputTokens(rubric, "single"),
+        runId,
       });
+      const call = await generateJudgeJson({
+        judge,
+        prompt: judgePrompt,
+        schema: buildSingleJudgeSchema(rubric, judgeOptions),
+        bypassCache,
+      }).finally(reservation.release);
 
-      const parsedJson = parseJudgeJson(text);
+      const parsedJson = call.parsed;
 
       const criterionScores: CriterionScore[] = rubric.criteria.map((c) => ({
-        criterionId: c.id,
-        criterionName: c.name,
-        score: normalizeCriterionScore(
+        ...buildCriterionScore(
+          c,
           (parsedJson.scores as Record<string, unknown>)?.[c.id],
-          c.scoreRange
-        ),
-        maxScore: c.scoreRange,
-        reasoning: normalizeText(
-          (parsedJson.criterion_reasoning as Record<string, unknown>)?.[
-            `${c.id}_reasoning`
-          ]
+          (parsedJson.criterion_reasoning as Record<string, unknown>)?.[`${c.id}_reasoning`]
         ),
+        ...(judgeOptions.referenceGuided && {
+          referenceAgreement: normalizeReferenceAgreement(
+            (parsedJson.reference_agreement as Record<string, unknown>)?.[c.id]
+          ),
+        }),
       }));
 
-      const aggregateScore = normalizeAggregateScore(
+      const aggregateScore = resolveAggregateScore(
         parsedJson.aggregate_score,
-        computeAggregate(criterionScores, rubric)
+        criterionScores,
+        rubric
       );
 
-      const inputTokens = usage.inputTokens ?? 0;
-      const outputTokens = usage.outputTokens ?? 0;
+      const { inputTokens, outputTokens, cacheHit } = call;
+      const estimatedCostUsd = judgeCallCostUsd(pricing, call);
+      reservation.record({ [providerId]: estimatedCostUsd });
 
       const result: SingleEvalResult = {
         id: nanoid(),
@@ -166,12 +222,25 @@ export async function POST(req: NextRequest) {
         chainOfThought: normalizeText(parsedJson.chain_of_thought),
         summary: normalizeText(parsedJson.summary),
         criterionScores,
+        ...(judgeOptions.referenceGuided && { referenceGuided: true }),
+        ...(trajectory && {
+          stepAnnotations: normalizeStepAnnotations(
+            parsedJson.step_annotations,
+            trajectory.steps.length,
+            rubric
+          ),
+        }),
         aggregateScore,
         inputTokens,
         outputTokens,
-        estimatedCostUsd:
-          (inputTokens / 1_000_000) * judgeModel.inputCostPer1M +
-          (outputTokens / 1_000_000) * judgeModel.outputCostPer1M,
+        ...billedTokens([call]),
+        estimatedCostUsd,
+        pricingVersion: pricing.version,
+        cacheHit,
+        judgeParse: call.parse,
+        validation: validateSingleJudgeOutput(parsedJson, rubric, judgeOptions),
+        ...(injectionFlags.length > 0 && { injectionFlags }),
+        judgePromptVersionRef: buildJudgePromptVersionRef(promptTemplate),
       };
 
       return NextResponse.json(result);
@@ -184,64 +253,89 @@ export async function POST(req: NextRequest) {
         { status: 400 }
       );
     }
+    if (referenceAnswer) {
+      return NextResponse.json(
+        { error: "Reference-guided grading is single-only; drop referenceAnswer for pairwise evaluations" },
+        { status: 400 }
+      );
+    }
+    if (trajectory) {
+      return NextResponse.json(
+        { error: "Trajectory grading is single-only; drop trajectory for pairwise evaluations" },
+        { status: 400 }
+      );
+    }
 
-    const input = {
+    const input: PairwiseEvalInput = {
       prompt,
       responseA,
       responseB,
       rubricId: rubric.id,
       modelId,
       doubleBlind: true,
-      detectPositionBias: false,
+      detectPositionBias,
+      ...(detectPositionBias && positionBiasPolicy && { positionBiasPolicy }),
+      ...(preferenceScale && { preferenceScale }),
       context,
+      ...(messages && { messages }),
     };
 
-    const judgePrompt = buildPairwisePrompt(input, rubric, "AB");
-    const { text, usage } = await generateText({
-      model: getModel(modelId, provider, apiKey),
-      prompt: judgePrompt,
-      temperature: 0.1,
-      maxOutputTokens: 4096,
+    const judgePrompt = buildPairwisePrompt(input, rubric, "AB", promptTemplate);
+    const injectionFlags = scanPairwiseInput(input);
+    const reservation = reserveJudgeCalls({
+      budgets,
+      judge,
+      pricing,
+      judgePrompt,
+      outputTokens: projectJudgeOutputTokens(rubric, "pairwise"),
+      calls: positionBiasJudgeCalls(detectPositionBias, positionBiasPolicy),
+      runId,
     });
 
-    const parsedJson = parseJudgeJson(text);
-
-    const criterionScoresA: CriterionScore[] = rubric.criteria.map((c) => ({
-      criterionId: c.id,
-      criterionName: c.name,
-      score: normalizeCriterionScore(
-        (parsedJson.scores as Record<string, unknown>)?.[`${c.id}_A`],
-        c.scoreRange
-      ),
-      maxScore: c.scoreRange,
-      reasoning: normalizeText(
-        (parsedJson.criterion_reasoning as Record<string, unknown>)?.[
-          `${c.id}_A_reasoning`
-        ]
-      ),
-    }));
+    // Each call is billed as it comes back, so a pass that fails later
+    // does not drop the spend of the passes before it.
+    const calls: JudgeJsonResult[] = [];
+    const bill = (call: JudgeJsonResult) => {
+      calls.push(call);
+      reservation.record({ [providerId]: judgeCallCostUsd(pricing, call) });
+    };
+    const pass = async (order: "AB" | "BA", draw?: { sampling: JudgeSampling; sample: number }) => {
+      const run = await runPairwiseEval(input, rubric, judge, order, bypassCache, promptTemplate, draw);
+      bill(run.call);
+      return run;
+    };
 
-    const criterionScoresB: CriterionScore[] = rubric.criteria.map((c) => ({
-      criterionId: c.id,
-      criterionName: c.name,
-      score: normalizeCriterionScore(
-        (parsedJson.scores as Record<string, unknown>)?.[`${c.id}_B`],
-        c.scoreRange
-      ),
-      maxScore: c.scoreRange,
-      reasoning: normalizeText(
-        (parsedJson.criterion_reasoning as Record<string, unknown>)?.[
-          `${c.id}_B_reasoning`
-        ]
-      ),
-    }));
+    const judgePair = async () => {
+      const primary = await pass("AB");
+      let validation = primary.validation;
+      let reversedVerdict: PairwiseVerdict | undefined;
+      let resolution: PositionBiasResolution | undefined;
 
-    const rawVerdict = normalizeVerdict(parsedJson.verdict);
-    const verdict: PairwiseVerdict =
-      rawVerdict === "A" ? "A" : rawVerdict === "B" ? "B" : "tie";
+      if (detectPositionBias) {
+        const reversed = await pass("BA");
+        validation = mergeValidationReports(validation, reversed.validation);
+        reversedVerdict = reversed.verdict;
+        resolution = await resolvePositionBias(
+          positionBiasPolicy ?? "keep_first",
+          primary,
+          reversed,
+          rubric,
+          () => pass(tiebreakOrder(input), { sampling: TIEBREAK_SAMPLING, sample: 1 })
+        );
+        if (resolution.tiebreak) {
+          validation = mergeValidationReports(validation, resolution.tiebreak.validation);
+        }
+      }
+      return { primary, validation, reversedVerdict, resolution };
+    };
+    const { primary, validation, reversedVerdict, resolution } =
+      await judgePair().finally(reservation.release);
+    const reported = resolution ?? primary;
 
-    const inputTokens = usage.inputTokens ?? 0;
-    const outputTokens = usage.outputTokens ?? 0;
+    const estimatedCostUsd = calls.reduce(
+      (sum, call) => sum + judgeCallCostUsd(pricing, call),
+      0
+    );
 
     const result: PairwiseEvalResult = {
       id: nanoid(),
@@ -250,37 +344,36 @@ export async function POST(req: NextRequest) {
       input,
       rubric,
       judgeModel,
-      chainOfThought: normalizeText(parsedJson.chain_of_thought),
-      summary: normalizeText(parsedJson.summary) || normalizeText(parsedJson.verdict_reasoning),
-      criterionScoresA,
-      criterionScoresB,
-      aggregateScoreA: normalizeAggregateScore(
-        parsedJson.aggregate_score_A,
-        computeAggregate(criterionScoresA, rubric)
-      ),
-      aggregateScoreB: normalizeAggregateScore(
-        parsedJson.aggregate_score_B,
-        computeAggregate(criterionScoresB, rubric)
-      ),
-      verdict,
-      verdictReasoning: normalizeText(parsedJson.verdict_reasoning),
-      inputTokens,
-      outputTokens,
-      estimatedCostUsd:
-        (inputTokens / 1_000_000) * judgeModel.inputCostPer1M +
-        (outputTokens / 1_000_000) * judgeModel.outputCostPer1M,
+      chainOfThought: primary.chainOfThought,
+      summary: primary.summary || primary.verdictReasoning,
+      criterionScoresA: reported.scoresA,
+      criterionScoresB: reported.scoresB,
+      aggregateScoreA: reported.aggregateA,
+      aggregateScoreB: reported.aggregateB,
+      verdict: reported.verdict,
+      ...(reported.preference !== undefined && { preference: reported.preference }),
+      verdictReasoning: reported.verdictReasoning,
+      ...(resolution && {
+        reversedVerdict,
+        positionBiasDetected: resolution.positionBiasDetected,
+        ...(resolution.primaryVerdict && { primaryVerdict: resolution.primaryVerdict }),
+        ...(resolution.tiebreak && { tiebreakVerdict: resolution.tiebreak.verdict }),
+      }),
+      inputTokens: calls.reduce((sum, call) => sum + call.inputTokens, 0),
+      outputTokens: calls.reduce((sum, call) => sum + call.outputTokens, 0),
+      ...billedTokens(calls),
+      estimatedCostUsd,
+      pricingVersion: pricing.version,
+      cacheHit: calls.every((call) => call.cacheHit),
+      judgeParse: calls.map((call) => call.parse).reduce(mostRescued),
+      validation,
+      ...(injectionFlags.length > 0 && { injectionFlags }),
+      judgePromptVersionRef: buildJudgePromptVersionRef(promptTemplate),
     };
 
     return NextResponse.json(result);
   } catch (err) {
-    if (err instanceof JudgeJsonParseError) {
-      return NextResponse.json(
-        { error: "Judge returned invalid JSON", raw: err.raw },
-        { status: 502 }
-      );
-    }
-
-    const message = err instanceof Error ? err.message : "Unknown error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    const { status, body, headers } = judgeErrorReply(err);
+    return NextResponse.json(body, { status, headers });
   }
 }
@@ -0,0 +1,225 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import { billedTokens, generateJudgeJson, judgeCallCostUsd } from "@/lib/judge-cache";
+import { projectJudgeOutputTokens } from "@/lib/cost-estimate";
+import { judgeErrorReply } from "@/lib/judge-errors";
+import { buildListwiseJudgeSchema } from "@/lib/judge-schema";
+import {
+  mergeValidationReports,
+  validateListwiseJudgeOutput,
+} from "@/lib/judge-validation";
+import { resolveJudge, type JudgeTarget } from "@/lib/judge-models";
+import { getPricingAt } from "@/lib/pricing";
+import { effectiveBudgets, reserveJudgeCalls } from "@/lib/spend-budget";
+import { buildListwisePrompt } from "@/lib/prompts";
+import { scanListwiseInput } from "@/lib/prompt-injection";
+import { getBuiltInRubricById } from "@/lib/rubric-templates";
+import {
+  ListwiseCandidatesSchema,
+  ModelIdSchema,
+  ModelSpecSchema,
+  ProviderSpecSchema,
+  RubricSchema,
+  SpendBudgetsSchema,
+} from "@/lib/eval-validation";
+import {
+  buildCriterionScore,
+  mostRescued,
+  normalizeText,
+  resolveAggregateScore,
+} from "@/lib/judge-output";
+import {
+  listwiseOrders,
+  listwisePositionEffect,
+  listwiseSlotLetter,
+  MAX_LISTWISE_ORDERINGS,
+  normalizeListwiseRanks,
+  rankListwiseCandidates,
+  type ListwiseJudgedOrdering,
+} from "@/lib/listwise";
+import { splitSettledDraws } from "@/lib/self-consistency";
+import type { ListwiseEvalInput, ListwiseEvalResult, Rubric } from "@/lib/types";
+
+const RequestSchema = z.object({
+  prompt: z.string().min(1),
+  candidates: ListwiseCandidatesSchema,
+  rubricId: z.string().min(1),
+  rubric: RubricSchema.optional(),
+  modelId: ModelIdSchema,
+  model: ModelSpecSchema.optional(),
+  provider: ProviderSpecSchema.optional(),
+  doubleBlind: z.boolean().default(true),
+  orderings: z.number().int().min(1).max(MAX_LISTWISE_ORDERINGS).default(1),
+  context: z.string().optional(),
+  bypassCache: z.boolean().optional(),
+  budgets: SpendBudgetsSchema.optional(),
+  runId: z.string().min(1).max(128).optional(),
+});
+
+async function runListwiseEval(
+  input: ListwiseEvalInput,
+  rubric: Rubric,
+  judge: JudgeTarget,
+  order: number[],
+  bypassCache: boolean | undefined
+) {
+  const call = await generateJudgeJson({
+    judge,
+    prompt: buildListwisePrompt(input, rubric, order),
+    schema: buildListwiseJudgeSchema(rubric, order.length),
+    bypassCache,
+  });
+
+  const parsed = call.parsed;
+  const scores = parsed.scores as Record<string, unknown> | undefined;
+  const reasoning = parsed.criterion_reasoning as Record<string, unknown> | undefined;
+  const aggregates = parsed.aggregate_scores as Record<string, unknown> | undefined;
+
+  // Slot letters back to candidate indices
+  const criterionScores: ListwiseJudgedOrdering["criterionScores"] = new Array(order.length);
+  const aggregateScores: number[] = new Array(order.length);
+  order.forEach((candidate, slot) => {
+    const letter = listwiseSlotLetter(slot);
+    criterionScores[candidate] = rubric.criteria.map((c) =>
+      buildCriterionScore(
+        c,
+        scores?.[`${c.id}_${letter}`],
+        reasoning?.[`${c.id}_${letter}_reasoning`]
+      )
+    );
+    aggregateScores[candidate] = resolveAggregateScore(
+      aggregates?.[letter],
+      criterionScores[candidate],
+      rubric
+    );
+  });
+  const { ranks } = normalizeListwiseRanks(parsed.ranking, order, aggregateScores);
+
+  const judged: ListwiseJudgedOrdering = { order, ranks, aggregateScores, criterionScores };
+  return {
+    judged,
+    chainOfThought: normalizeText(parsed.chain_of_thought),
+    summary: normalizeText(parsed.summary) || normalizeText(parsed.ranking_reasoning),
+    validation: validateListwiseJudgeOutput(parsed, rubric, order.length),
+    call,
+  };
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = RequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const {
+      prompt,
+      candidates,
+      modelId,
+      doubleBlind,
+      orderings,
+      context,
+      rubric: rubricSnapshot,
+      rubricId,
+      model: modelSnapshot,
+      provider: providerSnapshot,
+      bypassCache,
+      budgets: requestedBudgets,
+      runId,
+    } = parsed.data;
+
+    const rubric: Rubric | undefined =
+      rubricSnapshot ?? getBuiltInRubricById(rubricId);
+    if (!rubric) {
+      return NextResponse.json({ error: "Rubric not found" }, { status: 400 });
+    }
+
+    const judge = resolveJudge(req.headers, modelId, {
+      model: modelSnapshot,
+      provider: providerSnapshot,
+    });
+    if (!judge.ok) {
+      return NextResponse.json({ error: judge.error }, { status: judge.status });
+    }
+    const { judgeModel } = judge;
+    const pricing = getPricingAt(judgeModel);
+    const providerId = judge.provider.id;
+
+    const input: ListwiseEvalInput = {
+      prompt,
+      candidates,
+      rubricId: rubric.id,
+      modelId,
+      doubleBlind,
+      orderings,
+      context,
+    };
+
+    // Every ordering renders a prompt of the same size.
+    const orders = listwiseOrders(input);
+    const injectionFlags = scanListwiseInput(input);
+    const reservation = reserveJudgeCalls({
+      budgets: effectiveBudgets(requestedBudgets),
+      judge,
+      pricing,
+      judgePrompt: buildListwisePrompt(input, rubric, orders[0]),
+      outputTokens: projectJudgeOutputTokens(rubric, "listwise", candidates.length),
+      calls: orders.length,
+      runId,
+    });
+
+    const { drawn: runs, failure } = splitSettledDraws(
+      await Promise.allSettled(
+        orders.map((order) => runListwiseEval(input, rubric, judge, order, bypassCache))
+      )
+    );
+    const calls = runs.map((r) => r.call);
+    const judged = runs.map((r) => r.judged);
+
+    const estimatedCostUsd = calls.reduce(
+      (sum, call) => sum + judgeCallCostUsd(pricing, call),
+      0
+    );
+    reservation.record({ [providerId]: estimatedCostUsd });
+    reservation.release();
+    if (failure) throw failure.reason;
+
+    const positionEffect = listwisePositionEffect(judged);
+    const result: ListwiseEvalResult = {
+      id: nanoid(),
+      mode: "listwise",
+      createdAt: new Date().toISOString(),
+      input,
+      rubric,
+      judgeModel,
+      chainOfThought: runs[0].chainOfThought,
+      summary: runs[0].summary,
+      ranking: rankListwiseCandidates(input, rubric, judged),
+      orderings: judged.map(({ order, ranks, aggregateScores }) => ({
+        order,
+        ranks,
+        aggregateScores,
+      })),
+      ...(positionEffect && { positionEffect }),
+      inputTokens: calls.reduce((sum, call) => sum + call.inputTokens, 0),
+      outputTokens: calls.reduce((sum, call) => sum + call.outputTokens, 0),
+      ...billedTokens(calls),
+      estimatedCostUsd,
+      pricingVersion: pricing.version,
+      cacheHit: calls.every((call) => call.cacheHit),
+      judgeParse: calls.map((call) => call.parse).reduce(mostRescued),
+      validation: mergeValidationReports(...runs.map((r) => r.validation)),
+      ...(injectionFlags.length > 0 && { injectionFlags }),
+    };
+
+    return NextResponse.json(result);
+  } catch (err) {
+    const { status, body, headers } = judgeErrorReply(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
@@ -1,27 +1,63 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateText } from "ai";
-import { createOpenAI } from "@ai-sdk/openai";
-import { createAnthropic } from "@ai-sdk/anthropic";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { z } from "zod";
 import { nanoid } from "nanoid";
-import { getModelById } from "@/lib/models";
+import {
+  billedTokens,
+  judgeCallCostUsd,
+  type JudgeJsonResult,
+  type JudgePartialHandler,
+} from "@/lib/judge-cache";
+import { projectJudgeOutputTokens } from "@/lib/cost-estimate";
+import { judgeErrorReply } from "@/lib/judge-errors";
+import { mergeValidationReports } from "@/lib/judge-validation";
+import { resolveJudge } from "@/lib/judge-models";
+import { getPricingAt } from "@/lib/pricing";
+import {
+  createEvalEventStream,
+  toPairwisePartial,
+  wantsEventStream,
+} from "@/lib/eval-stream";
+import { effectiveBudgets, reserveJudgeCalls } from "@/lib/spend-budget";
 import { buildPairwisePrompt } from "@/lib/prompts";
+import { scanPairwiseInput } from "@/lib/prompt-injection";
+import {
+  buildJudgePromptVersionRef,
+  DEFAULT_JUDGE_PROMPT_VERSION,
+} from "@/lib/judge-prompt-templates";
 import { getBuiltInRubricById } from "@/lib/rubric-templates";
-import { ModelIdSchema, RubricSchema } from "@/lib/eval-validation";
 import {
-  JudgeJsonParseError,
-  normalizeAggregateScore,
-  normalizeCriterionScore,
-  normalizeText,
-  normalizeVerdict,
-  parseJudgeJson,
-} from "@/lib/judge-output";
+  ConversationMessagesSchema,
+  JudgePromptTemplateVersionSchema,
+  JudgeSamplingSchema,
+  ModelIdSchema,
+  ModelSpecSchema,
+  PositionBiasPolicySchema,
+  PreferenceScaleSchema,
+  ProviderSpecSchema,
+  RubricSchema,
+  SpendBudgetsSchema,
+} from "@/lib/eval-validation";
+import { mostRescued, resolveAggregateScore } from "@/lib/judge-output";
+import {
+  DEFAULT_SAMPLING_TEMPERATURE,
+  lowerMedian,
+  majorityVerdict,
+  medianCriterionScores,
+  splitSettledDraws,
+  summarizePairwiseSamples,
+} from "@/lib/self-consistency";
+import {
+  resolvePositionBias,
+  runPairwiseEval,
+  type PairwiseDraw,
+  type PositionBiasResolution,
+} from "@/lib/pairwise-judge";
+import { positionBiasJudgeCalls, tiebreakOrder } from "@/lib/position-bias";
 import type {
-  Provider,
+  PairwiseEvalInput,
+  PairwiseEvalPartial,
   Rubric,
   PairwiseEvalResult,
-  CriterionScore,
   PairwiseVerdict,
 } from "@/lib/types";
 
@@ -33,132 +69,57 @@ const RequestSchema = z.object({
   modelLabelB: z.string().optional(),
   rubricId: z.string().min(1),
   rubric: RubricSchema.optional(),
+  promptTemplate: JudgePromptTemplateVersionSchema.optional(),
   modelId: ModelIdSchema,
+  model: ModelSpecSchema.optional(),
+  provider: ProviderSpecSchema.optional(),
   doubleBlind: z.boolean().default(true),
   detectPositionBias: z.boolean().default(false),
+  positionBiasPolicy: PositionBiasPolicySchema.optional(),
+  preferenceScale: PreferenceScaleSchema.optional(),
   context: z.string().optional(),
+  referenceAnswer: z.string().optional(), // accepted only to be rejected: single-only
+  messages: ConversationMessagesSchema.optional(),
+  sampling: JudgeSamplingSchema.optional(),
+  bypassCache: z.boolean().optional(),
+  budgets: SpendBudgetsSchema.optional(),
+  runId: z.string().min(1).max(128).optional(),
 });
 
-function getModel(modelId: string, provider: Provider, apiKey: string) {
-  if (provider === "openai") {
-    return createOpenAI({ apiKey })(modelId);
-  }
-  if (provider === "anthropic") {
-    return createAnthropic({ apiKey })(modelId);
-  }
-  return createGoogleGenerativeAI({ apiKey })(modelId);
-}
-
-function extractPairwiseScores(
-  parsed: Record<string, unknown>,
-  rubric: Rubric,
-  side: "A" | "B"
-): CriterionScore[] {
-  return rubric.criteria.map((c) => ({
-    criterionId: c.id,
-    criterionName: c.name,
-    score: normalizeCriterionScore(
-      (parsed.scores as Record<string, unknown>)?.[`${c.id}_${side}`],
-      c.scoreRange
-    ),
-    maxScore: c.scoreRange,
-    reasoning: normalizeText(
-      (parsed.criterion_reasoning as Record<string, unknown>)?.[
-        `${c.id}_${side}_reasoning`
-      ]
-    ),
-  }));
-}
-
-function computeAggregate(scores: CriterionScore[], rubric: Rubric): number {
-  let weighted = 0;
-  let totalWeight = 0;
-  for (const cs of scores) {
-    const criterion = rubric.criteria.find((c) => c.id === cs.criterionId);
-    if (!criterion) continue;
-    const clampedScore = Math.max(1, Math.min(cs.maxScore, cs.score));
-    weighted += (clampedScore / cs.maxScore) * 100 * criterion.weight;
-    totalWeight += criterion.weight;
-  }
-  if (totalWeight === 0) return 0;
-  const score = weighted / totalWeight;
-  return Math.round(Math.max(0, Math.min(100, score)) * 10) / 10;
-}
-
-async function runPairwiseEval(
-  prompt: string,
-  responseA: string,
-  responseB: string,
-  rubric: Rubric,
-  modelId: string,
-  provider: Provider,
-  apiKey: string,
-  context: string | undefined,
-  order: "AB" | "BA",
-  doubleBlind: boolean,
-  modelLabelA?: string,
-  modelLabelB?: string
-) {
-  const input = {
-    prompt,
-    responseA,
-    responseB,
-    rubricId: rubric.id,
-    modelId,
-    doubleBlind,
-    detectPositionBias: false,
-    modelLabelA,
-    modelLabelB,
-    context,
-  };
-
-  const judgePrompt = buildPairwisePrompt(input, rubric, order);
-
-  const { text, usage } = await generateText({
-    model: getModel(modelId, provider, apiKey),
-    prompt: judgePrompt,
-    temperature: 0.1,
-    maxOutputTokens: 4096,
-  });
-
-  const parsed = parseJudgeJson(text);
-
-  // When order is BA, swap A/B labels back to canonical A/B
-  const scoresA =
-    order === "AB"
-      ? extractPairwiseScores(parsed, rubric, "A")
-      : extractPairwiseScores(parsed, rubric, "B");
-  const scoresB =
-    order === "AB"
-      ? extractPairwiseScores(parsed, rubric, "B")
-      : extractPairwiseScores(parsed, rubric, "A");
-
-  const rawVerdict = normalizeVerdict(parsed.verdict);
-  const verdict: PairwiseVerdict =
-    order === "AB"
-      ? rawVerdict
-      : rawVerdict === "A"
-        ? "B"
-        : rawVerdict === "B"
-          ? "A"
-          : "tie";
-
+/**
+ * One pass's samples combined: per-criterion medians and a majority verdict,
+ * with the reasoning of the first sample that voted for it.
+ */
+function combinePairwiseDraws(draws: PairwiseDraw[], rubric: Rubric): PairwiseDraw {
+  if (draws.length === 1) return draws[0];
+  const { verdict } = majorityVerdict(draws.map((d) => d.verdict));
+  const voter = draws.find((d) => d.verdict === verdict) ?? draws[0];
+  const scoresA = medianCriterionScores(
+    rubric,
+    draws.map((d) => d.scoresA)
+  );
+  const scoresB = medianCriterionScores(
+    rubric,
+    draws.map((d) => d.scoresB)
+  );
+  // Graded: the median strength among the samples that voted for the verdict.
+  const strengths = draws
+    .filter((d) => d.verdict === verdict)
+    .map((d) => Math.abs(d.preference ?? 0));
   return {
-    chainOfThought: normalizeText(parsed.chain_of_thought),
-    summary: normalizeText(parsed.summary),
+    ...voter,
     scoresA,
     scoresB,
-    aggregateA: normalizeAggregateScore(
-      parsed.aggregate_score_A,
-      computeAggregate(scoresA, rubric)
-    ),
-    aggregateB: normalizeAggregateScore(
-      parsed.aggregate_score_B,
-      computeAggregate(scoresB, rubric)
-    ),
+    aggregateA: resolveAggregateScore(undefined, scoresA, rubric),
+    aggregateB: resolveAggregateScore(undefined, scoresB, rubric),
     verdict,
-    verdictReasoning: normalizeText(parsed.verdict_reasoning),
-    usage,
+    preference:
+      voter.preference === undefined
+        ? undefined
+        : strengths.length > 0
+          ? Math.sign(voter.preference) * lowerMedian(strengths)
+          : 0,
+    validation: mergeValidationReports(...draws.map((d) => d.validation)),
   };
 }
 
@@ -182,131 +143,262 @@ export async function POST(req: NextRequest) {
       modelId,
       doubleBlind,
       detectPositionBias,
+      positionBiasPolicy,
+      preferenceScale,
       context,
+      referenceAnswer,
+      messages,
+      sampling,
       rubric: rubricSnapshot,
       rubricId,
+      promptTemplate = DEFAULT_JUDGE_PROMPT_VERSION,
+      model: modelSnapshot,
+      provider: providerSnapshot,
+      bypassCache,
+      budgets: requestedBudgets,
+      runId,
     } = parsed.data;
 
+    if (referenceAnswer) {
+      return NextResponse.json(
+        { error: "Reference-guided grading is single-only; drop referenceAnswer for pairwise evaluations" },
+        { status: 400 }
+      );
+    }
+
     const rubric: Rubric | undefined =
       rubricSnapshot ?? getBuiltInRubricById(rubricId);
     if (!rubric) {
       return NextResponse.json({ error: "Rubric not found" }, { status: 400 });
     }
 
-    const judgeModel = getModelById(modelId);
-    if (!judgeModel) {
-      return NextResponse.json({ error: "Unknown model" }, { status: 400 });
+    const judge = resolveJudge(req.headers, modelId, {
+      model: modelSnapshot,
+      provider: providerSnapshot,
+    });
+    if (!judge.ok) {
+      return NextResponse.json({ error: judge.error }, { status: judge.status });
     }
+    const { judgeModel } = judge;
+    const pricing = getPricingAt(judgeModel);
+    const providerId = judge.provider.id;
 
-    const provider = judgeModel.provider;
-    const apiKey =
-      req.headers.get(`x-${provider}-api-key`) ||
-      (provider === "openai"
-        ? process.env.OPENAI_API_KEY
-        : provider === "anthropic"
-          ? process.env.ANTHROPIC_API_KEY
-          : process.env.GOOGLE_API_KEY) ||
-      "";
-
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: `No API key found for provider: ${provider}` },
-        { status: 401 }
-      );
-    }
-
-    // Primary evaluation (AB order)
-    const primary = await runPairwiseEval(
+    const input: PairwiseEvalInput = {
       prompt,
       responseA,
       responseB,
-      rubric,
+      modelLabelA,
+      modelLabelB,
+      rubricId: rubric.id,
       modelId,
-      provider,
-      apiKey,
-      context,
-      "AB",
       doubleBlind,
-      modelLabelA,
-      modelLabelB
-    );
+      detectPositionBias,
+      ...(detectPositionBias && positionBiasPolicy && { positionBiasPolicy }),
+      ...(preferenceScale && { preferenceScale }),
+      context,
+      ...(messages && { messages }),
+    };
+
+    // Both orderings render prompts of the same size, so one projection
+    // covers the reversed and tie-break passes as well.
+    const projectedPrompt = buildPairwisePrompt(input, rubric, "AB", promptTemplate);
+    const injectionFlags = scanPairwiseInput(input);
+    const sampleCount = sampling?.samples ?? 1;
+    const reservation = reserveJudgeCalls({
+      budgets: effectiveBudgets(requestedBudgets),
+      judge,
+      pricing,
+      judgePrompt: projectedPrompt,
+      outputTokens: projectJudgeOutputTokens(rubric, "pairwise"),
+      calls: positionBiasJudgeCalls(detectPositionBias, positionBiasPolicy) * sampleCount,
+      runId,
+    });
 
-    let totalInputTokens = primary.usage.inputTokens ?? 0;
-    let totalOutputTokens = primary.usage.outputTokens ?? 0;
-    let reversedVerdict: PairwiseVerdict | undefined;
-    let reversedChainOfThought: string | undefined;
-    let positionBiasDetected: boolean | undefined;
+    const evaluate = async (onProgress?: (partial: PairwiseEvalPartial) => void) => {
+      // Each call is billed as it comes back, so a pass that fails later
+      // does not drop the spend of the passes and samples before it.
+      const calls: JudgeJsonResult[] = [];
+      const bill = (call: JudgeJsonResult) => {
+        calls.push(call);
+        reservation.record({ [providerId]: judgeCallCostUsd(pricing, call) });
+      };
 
-    if (detectPositionBias) {
-      const reversed = await runPairwiseEval(
-        prompt,
-        responseA,
-        responseB,
+      // Draws every sample of one pass; only the first primary sample streams.
+      const drawPass = async (
+        order: "AB" | "BA",
+        onPartial?: JudgePartialHandler,
+        onDrawn?: (first: PairwiseDraw, done: number) => void
+      ) => {
+        const first = await runPairwiseEval(
+          input,
+          rubric,
+          judge,
+          order,
+          bypassCache,
+          promptTemplate,
+          sampling && { sampling, sample: 0 },
+          onPartial
+        );
+        bill(first.call);
+        let done = 1;
+        if (sampleCount > 1) onDrawn?.(first, done);
+        const { drawn, failure } = splitSettledDraws(
+          await Promise.allSettled(
+            Array.from({ length: sampleCount - 1 }, async (_, i) => {
+              const draw = await runPairwiseEval(
+                input,
+                rubric,
+                judge,
+                order,
+                bypassCache,
+                promptTemplate,
+                sampling && { sampling, sample: i + 1 }
+              );
+              done += 1;
+              onDrawn?.(first, done);
+              return draw;
+            })
+          )
+        );
+        drawn.forEach((draw) => bill(draw.call));
+        if (failure) throw failure.reason;
+        return [first, ...drawn];
+      };
+
+      const progressOf = (draw: PairwiseDraw): PairwiseEvalPartial => ({
+        mode: "pairwise",
+        streaming: true,
         rubric,
-        modelId,
-        provider,
-        apiKey,
-        context,
-        "BA",
-        doubleBlind,
-        modelLabelA,
-        modelLabelB
+        chainOfThought: draw.chainOfThought,
+        summary: draw.summary,
+        criterionScoresA: draw.scoresA,
+        criterionScoresB: draw.scoresB,
+        verdict: draw.verdict,
+        verdictReasoning: draw.verdictReasoning,
+      });
+
+      // Primary evaluation (AB order)
+      const primaryDraws = await drawPass(
+        "AB",
+        onProgress &&
+          ((partial) => onProgress(toPairwisePartial(partial, rubric, "AB"))),
+        (first, done) =>
+          onProgress?.({ ...progressOf(first), samplesDrawn: { done, total: sampleCount } })
       );
-      totalInputTokens += reversed.usage.inputTokens ?? 0;
-      totalOutputTokens += reversed.usage.outputTokens ?? 0;
-      reversedVerdict = reversed.verdict;
-      reversedChainOfThought = reversed.chainOfThought;
-      positionBiasDetected = primary.verdict !== reversed.verdict;
-    }
+      const primary = combinePairwiseDraws(primaryDraws, rubric);
 
-    const estimatedCostUsd =
-      (totalInputTokens / 1_000_000) * judgeModel.inputCostPer1M +
-      (totalOutputTokens / 1_000_000) * judgeModel.outputCostPer1M;
+      let validation = primary.validation;
+      let reversedVerdict: PairwiseVerdict | undefined;
+      let reversedChainOfThought: string | undefined;
+      let resolution: PositionBiasResolution | undefined;
 
-    const result: PairwiseEvalResult = {
-      id: nanoid(),
-      mode: "pairwise",
-      createdAt: new Date().toISOString(),
-      input: {
-        prompt,
-        responseA,
-        responseB,
-        modelLabelA,
-        modelLabelB,
-        rubricId: rubric.id,
-        modelId,
-        doubleBlind,
-        detectPositionBias,
-        context,
-      },
-      rubric,
-      judgeModel,
-      chainOfThought: primary.chainOfThought,
-      summary: primary.summary || primary.verdictReasoning,
-      criterionScoresA: primary.scoresA,
-      criterionScoresB: primary.scoresB,
-      aggregateScoreA: primary.aggregateA,
-      aggregateScoreB: primary.aggregateB,
-      verdict: primary.verdict,
-      verdictReasoning: primary.verdictReasoning,
-      reversedVerdict,
-      reversedChainOfThought,
-      positionBiasDetected,
-      inputTokens: totalInputTokens,
-      outputTokens: totalOutputTokens,
-      estimatedCostUsd,
-    };
+      if (detectPositionBias) {
+        onProgress?.({ ...progressOf(primary), checkingPositionBias: true });
+        const reversedDraws = await drawPass("BA");
+        const reversed = combinePairwiseDraws(reversedDraws, rubric);
+        validation = mergeValidationReports(validation, reversed.validation);
+        reversedVerdict = reversed.verdict;
+        reversedChainOfThought = reversed.chainOfThought;
+        // A fresh draw past the self-consistency samples, so it is never
+        // served either pass's cached reply, in a seeded coin-flip order.
+        resolution = await resolvePositionBias(
+          positionBiasPolicy ?? "keep_first",
+          primary,
+          reversed,
+          rubric,
+          () =>
+            runPairwiseEval(
+              input,
+              rubric,
+              judge,
+              tiebreakOrder(input),
+              bypassCache,
+              promptTemplate,
+              {
+                sampling: sampling ?? { samples: 1, temperature: DEFAULT_SAMPLING_TEMPERATURE },
+                sample: sampleCount,
+              }
+            )
+        );
+        if (resolution.tiebreak) {
+          bill(resolution.tiebreak.call);
+          validation = mergeValidationReports(validation, resolution.tiebreak.validation);
+        }
+      }
+      const reported = resolution ?? primary;
 
-    return NextResponse.json(result);
-  } catch (err) {
-    if (err instanceof JudgeJsonParseError) {
-      return NextResponse.json(
-        { error: "Judge returned invalid JSON", raw: err.raw },
-        { status: 502 }
+      const estimatedCostUsd = calls.reduce(
+        (sum, call) => sum + judgeCallCostUsd(pricing, call),
+        0
       );
+
+      const judgeSamples = primaryDraws.map((d) => ({
+        criterionScoresA: d.scoresA,
+        criterionScoresB: d.scoresB,
+        aggregateScoreA: d.aggregateA,
+        aggregateScoreB: d.aggregateB,
+        verdict: d.verdict,
+        ...(d.preference !== undefined && { preference: d.preference }),
+      }));
+
+      const result: PairwiseEvalResult = {
+        id: nanoid(),
+        mode: "pairwise",
+        createdAt: new Date().toISOString(),
+        input,
+        rubric,
+        judgeModel,
+        chainOfThought: primary.chainOfThought,
+        summary: primary.summary || primary.verdictReasoning,
+        criterionScoresA: reported.scoresA,
+        criterionScoresB: reported.scoresB,
+        aggregateScoreA: reported.aggregateA,
+        aggregateScoreB: reported.aggregateB,
+        verdict: reported.verdict,
+        ...(reported.preference !== undefined && { preference: reported.preference }),
+        verdictReasoning: reported.verdictReasoning,
+        reversedVerdict,
+        reversedChainOfThought,
+        positionBiasDetected: resolution?.positionBiasDetected,
+        ...(resolution?.primaryVerdict && { primaryVerdict: resolution.primaryVerdict }),
+        ...(resolution?.tiebreak && { tiebreakVerdict: resolution.tiebreak.verdict }),
+        ...(sampleCount > 1 &&
+          sampling && {
+            samples: judgeSamples,
+            consistency: summarizePairwiseSamples(rubric, sampling, judgeSamples),
+          }),
+        inputTokens: calls.reduce((sum, call) => sum + call.inputTokens, 0),
+        outputTokens: calls.reduce((sum, call) => sum + call.outputTokens, 0),
+        ...billedTokens(calls),
+        estimatedCostUsd,
+        pricingVersion: pricing.version,
+        cacheHit: calls.every((call) => call.cacheHit),
+        judgeParse: calls.map((call) => call.parse).reduce(mostRescued),
+        validation,
+        ...(injectionFlags.length > 0 && { injectionFlags }),
+        judgePromptVersionRef: buildJudgePromptVersionRef(promptTemplate),
+      };
+
+      return result;
+    };
+
+    if (!wantsEventStream(req.headers)) {
+      return NextResponse.json(await evaluate().finally(reservation.release));
     }
 
-    const message = err instanceof Error ? err.message : "Unknown error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return createEvalEventStream(async (send) => {
+      try {
+        const result = await evaluate((partial) =>
+          send({ type: "progress", partial })
+        ).finally(reservation.release);
+        send({ type: "result", result });
+      } catch (err) {
+        const { status, body } = judgeErrorReply(err);
+        send({ type: "error", status, body });
+      }
+    });
+  } catch (err) {
+    const { status, body, headers } = judgeErrorReply(err);
+    return NextResponse.json(body, { status, headers });
   }
 }
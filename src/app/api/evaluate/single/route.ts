@@ -1,42 +1,86 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateText } from "ai";
-import { createOpenAI } from "@ai-sdk/openai";
-import { createAnthropic } from "@ai-sdk/anthropic";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { z } from "zod";
 import { nanoid } from "nanoid";
-import { getModelById } from "@/lib/models";
+import {
+  generateJudgeJson,
+  billedTokens,
+  judgeCallCostUsd,
+  type JudgePartialHandler,
+} from "@/lib/judge-cache";
+import { projectJudgeOutputTokens } from "@/lib/cost-estimate";
+import { judgeErrorReply } from "@/lib/judge-errors";
+import { buildSingleJudgeSchema, singleJudgeOptions } from "@/lib/judge-schema";
+import {
+  mergeValidationReports,
+  validateSingleJudgeOutput,
+} from "@/lib/judge-validation";
+import { resolveJudge } from "@/lib/judge-models";
+import { getPricingAt } from "@/lib/pricing";
+import {
+  createEvalEventStream,
+  toSinglePartial,
+  wantsEventStream,
+} from "@/lib/eval-stream";
+import { effectiveBudgets, reserveJudgeCalls } from "@/lib/spend-budget";
 import { buildSinglePrompt } from "@/lib/prompts";
+import { scanSingleInput } from "@/lib/prompt-injection";
+import {
+  buildJudgePromptVersionRef,
+  DEFAULT_JUDGE_PROMPT_VERSION,
+} from "@/lib/judge-prompt-templates";
 import { getBuiltInRubricById } from "@/lib/rubric-templates";
-import { ModelIdSchema, RubricSchema } from "@/lib/eval-validation";
 import {
-  JudgeJsonParseError,
-  normalizeAggregateScore,
-  normalizeCriterionScore,
+  AgentTrajectorySchema,
+  ConversationMessagesSchema,
+  ConversationScopeSchema,
+  JudgePromptTemplateVersionSchema,
+  JudgeSamplingSchema,
+  ModelIdSchema,
+  ModelSpecSchema,
+  ProviderSpecSchema,
+  RubricSchema,
+  SpendBudgetsSchema,
+} from "@/lib/eval-validation";
+import {
+  buildCriterionScore,
+  mostRescued,
+  normalizeReferenceAgreement,
+  normalizeStepAnnotations,
   normalizeText,
-  parseJudgeJson,
+  resolveAggregateScore,
 } from "@/lib/judge-output";
-import type { Provider, Rubric, SingleEvalResult, CriterionScore } from "@/lib/types";
+import {
+  medianCriterionScores,
+  splitSettledDraws,
+  summarizeSingleSamples,
+} from "@/lib/self-consistency";
+import type {
+  Rubric,
+  SingleEvalPartial,
+  SingleEvalResult,
+  CriterionScore,
+} from "@/lib/types";
 
 const RequestSchema = z.object({
   prompt: z.string().min(1),
   response: z.string().min(1),
   rubricId: z.string().min(1),
   rubric: RubricSchema.optional(),
+  promptTemplate: JudgePromptTemplateVersionSchema.optional(),
   modelId: ModelIdSchema,
+  model: ModelSpecSchema.optional(),
+  provider: ProviderSpecSchema.optional(),
   context: z.string().optional(),
+  referenceAnswer: z.string().optional(),
+  messages: ConversationMessagesSchema.optional(),
+  conversationScope: ConversationScopeSchema.optional(),
+  trajectory: AgentTrajectorySchema.optional(),
+  sampling: JudgeSamplingSchema.optional(),
+  bypassCache: z.boolean().optional(),
+  budgets: SpendBudgetsSchema.optional(),
+  runId: z.string().min(1).max(128).optional(),
 });
 
-function getModel(modelId: string, provider: Provider, apiKey: string) {
-  if (provider === "openai") {
-    return createOpenAI({ apiKey })(modelId);
-  }
-  if (provider === "anthropic") {
-    return createAnthropic({ apiKey })(modelId);
-  }
-  return createGoogleGenerativeAI({ apiKey })(modelId);
-}
-
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
@@ -48,8 +92,32 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { prompt, response, modelId, context, rubric: rubricSnapshot, rubricId } =
-      parsed.data;
+    const {
+      prompt,
+      response,
+      modelId,
+      context,
+      referenceAnswer,
+      messages,
+      conversationScope,
+      trajectory,
+      sampling,
+      rubric: rubricSnapshot,
+      rubricId,
+      promptTemplate = DEFAULT_JUDGE_PROMPT_VERSION,
+      model: modelSnapshot,
+      provider: providerSnapshot,
+      bypassCache,
+      budgets: requestedBudgets,
+      runId,
+    } = parsed.data;
+
+    if (messages && trajectory) {
+      return NextResponse.json(
+        { error: "Send either messages or a trajectory, not both" },
+        { status: 400 }
+      );
+    }
 
     const rubric: Rubric | undefined =
       rubricSnapshot ?? getBuiltInRubricById(rubricId);
@@ -57,113 +125,195 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Rubric not found" }, { status: 400 });
     }
 
-    const judgeModel = getModelById(modelId);
-    if (!judgeModel) {
-      return NextResponse.json({ error: "Unknown model" }, { status: 400 });
-    }
-
-    const provider = judgeModel.provider;
-    const apiKey =
-      req.headers.get(`x-${provider}-api-key`) ||
-      (provider === "openai"
-        ? process.env.OPENAI_API_KEY
-        : provider === "anthropic"
-          ? process.env.ANTHROPIC_API_KEY
-          : process.env.GOOGLE_API_KEY) ||
-      "";
-
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: `No API key found for provider: ${provider}` },
-        { status: 401 }
-      );
+    const judge = resolveJudge(req.headers, modelId, {
+      model: modelSnapshot,
+      provider: providerSnapshot,
+    });
+    if (!judge.ok) {
+      return NextResponse.json({ error: judge.error }, { status: judge.status });
     }
+    const { judgeModel } = judge;
+    const pricing = getPricingAt(judgeModel);
+    const budgets = effectiveBudgets(requestedBudgets);
+    const providerId = judge.provider.id;
 
-    const judgePrompt = buildSinglePrompt(
-      { prompt, response, rubricId: rubric.id, modelId, context },
-      rubric
-    );
+    const input = {
+      prompt,
+      response,
+      rubricId: rubric.id,
+      modelId,
+      context,
+      ...(referenceAnswer && { referenceAnswer }),
+      ...(messages && { messages, conversationScope: conversationScope ?? "final_turn" }),
+      ...(trajectory && { trajectory }),
+    };
+    const judgeOptions = singleJudgeOptions(input);
+    const judgePrompt = buildSinglePrompt(input, rubric, promptTemplate);
+    const injectionFlags = scanSingleInput(input);
 
-    const { text, usage } = await generateText({
-      model: getModel(modelId, provider, apiKey),
-      prompt: judgePrompt,
-      temperature: 0.1,
-      maxOutputTokens: 4096,
+    const sampleCount = sampling?.samples ?? 1;
+    const reservation = reserveJudgeCalls({
+      budgets,
+      judge,
+      pricing,
+      judgePrompt,
+      outputTokens: projectJudgeOutputTokens(rubric, "single"),
+      calls: sampleCount,
+      runId,
     });
 
-    const parsedJson = parseJudgeJson(text);
-
-    const criterionScores: CriterionScore[] = rubric.criteria.map((c) => ({
-      criterionId: c.id,
-      criterionName: c.name,
-      score: normalizeCriterionScore(
-        (parsedJson.scores as Record<string, unknown>)?.[c.id],
-        c.scoreRange
-      ),
-      maxScore: c.scoreRange,
-      reasoning: normalizeText(
-        (parsedJson.criterion_reasoning as Record<string, unknown>)?.[
-          `${c.id}_reasoning`
-        ]
-      ),
-    }));
-
-    const aggregateScore = normalizeAggregateScore(
-      parsedJson.aggregate_score,
-      computeAggregateFromScores(criterionScores, rubric)
-    );
-
-    const inputTokens = usage.inputTokens ?? 0;
-    const outputTokens = usage.outputTokens ?? 0;
-    const estimatedCostUsd =
-      (inputTokens / 1_000_000) * judgeModel.inputCostPer1M +
-      (outputTokens / 1_000_000) * judgeModel.outputCostPer1M;
-
-    const result: SingleEvalResult = {
-      id: nanoid(),
-      mode: "single",
-      createdAt: new Date().toISOString(),
-      input: { prompt, response, rubricId: rubric.id, modelId, context },
-      rubric,
-      judgeModel,
-      chainOfThought: normalizeText(parsedJson.chain_of_thought),
-      summary: normalizeText(parsedJson.summary),
-      criterionScores,
-      aggregateScore,
-      inputTokens,
-      outputTokens,
-      estimatedCostUsd,
+    const drawSample = async (sample: number, onPartial?: JudgePartialHandler) => {
+      const call = await generateJudgeJson({
+        judge,
+        prompt: judgePrompt,
+        schema: buildSingleJudgeSchema(rubric, judgeOptions),
+        bypassCache,
+        onPartial,
+        ...(sampling && { temperature: sampling.temperature, sample }),
+      });
+
+      const parsedJson = call.parsed;
+
+      const criterionScores: CriterionScore[] = rubric.criteria.map((c) => ({
+        ...buildCriterionScore(
+          c,
+          (parsedJson.scores as Record<string, unknown>)?.[c.id],
+          (parsedJson.criterion_reasoning as Record<string, unknown>)?.[`${c.id}_reasoning`]
+        ),
+        ...(judgeOptions.referenceGuided && {
+          referenceAgreement: normalizeReferenceAgreement(
+            (parsedJson.reference_agreement as Record<string, unknown>)?.[c.id]
+          ),
+        }),
+      }));
+
+      return {
+        call,
+        parsedJson,
+        criterionScores,
+        aggregateScore: resolveAggregateScore(
+          parsedJson.aggregate_score,
+          criterionScores,
+          rubric
+        ),
+        validation: validateSingleJudgeOutput(parsedJson, rubric, judgeOptions),
+      };
     };
 
-    return NextResponse.json(result);
-  } catch (err) {
-    if (err instanceof JudgeJsonParseError) {
-      return NextResponse.json(
-        { error: "Judge returned invalid JSON", raw: err.raw },
-        { status: 502 }
+    const evaluate = async (onProgress?: (partial: SingleEvalPartial) => void) => {
+      const first = await drawSample(
+        0,
+        onProgress && ((partial) => onProgress(toSinglePartial(partial, rubric)))
       );
-    }
 
-    const message = err instanceof Error ? err.message : "Unknown error";
-    return NextResponse.json({ error: message }, { status: 500 });
-  }
-}
+      // The first sample streams; the rest are drawn together.
+      let done = 1;
+      const reportDrawn = () =>
+        onProgress?.({
+          ...toSinglePartial(first.parsedJson, rubric),
+          samplesDrawn: { done, total: sampleCount },
+        });
+      if (sampleCount > 1) reportDrawn();
+      const { drawn, failure } = splitSettledDraws(
+        await Promise.allSettled(
+          Array.from({ length: sampleCount - 1 }, async (_, i) => {
+            const sample = await drawSample(i + 1);
+            done += 1;
+            reportDrawn();
+            return sample;
+          })
+        )
+      );
+      const samples = [first, ...drawn];
 
-function computeAggregateFromScores(
-  scores: CriterionScore[],
-  rubric: Rubric
-): number {
-  let weighted = 0;
-  let totalWeight = 0;
-  for (const cs of scores) {
-    const criterion = rubric.criteria.find((c) => c.id === cs.criterionId);
-    if (!criterion) continue;
-    const clampedScore = Math.max(1, Math.min(cs.maxScore, cs.score));
-    const normalized = (clampedScore / cs.maxScore) * 100;
-    weighted += normalized * criterion.weight;
-    totalWeight += criterion.weight;
+      const calls = samples.map((s) => s.call);
+      const estimatedCostUsd = calls.reduce(
+        (sum, call) => sum + judgeCallCostUsd(pricing, call),
+        0
+      );
+      reservation.record({ [providerId]: estimatedCostUsd });
+      if (failure) throw failure.reason;
+
+      // Self-consistency scores are per-criterion medians; the reasoning,
+      // summary and annotations come from the sample closest to them.
+      const sampled = samples.length > 1;
+      const criterionScores = sampled
+        ? medianCriterionScores(
+            rubric,
+            samples.map((s) => s.criterionScores)
+          )
+        : first.criterionScores;
+      const aggregateScore = sampled
+        ? resolveAggregateScore(undefined, criterionScores, rubric)
+        : first.aggregateScore;
+      const representative = samples.reduce((best, s) =>
+        Math.abs(s.aggregateScore - aggregateScore) <
+        Math.abs(best.aggregateScore - aggregateScore)
+          ? s
+          : best
+      );
+      const parsedJson = representative.parsedJson;
+      const judgeSamples = samples.map((s) => ({
+        criterionScores: s.criterionScores,
+        aggregateScore: s.aggregateScore,
+        summary: normalizeText(s.parsedJson.summary),
+      }));
+
+      const result: SingleEvalResult = {
+        id: nanoid(),
+        mode: "single",
+        createdAt: new Date().toISOString(),
+        input,
+        rubric,
+        judgeModel,
+        chainOfThought: normalizeText(parsedJson.chain_of_thought),
+        summary: normalizeText(parsedJson.summary),
+        criterionScores,
+        ...(judgeOptions.referenceGuided && { referenceGuided: true }),
+        ...(trajectory && {
+          stepAnnotations: normalizeStepAnnotations(
+            parsedJson.step_annotations,
+            trajectory.steps.length,
+            rubric
+          ),
+        }),
+        aggregateScore,
+        ...(sampled &&
+          sampling && {
+            samples: judgeSamples,
+            consistency: summarizeSingleSamples(rubric, sampling, judgeSamples),
+          }),
+        inputTokens: calls.reduce((sum, call) => sum + call.inputTokens, 0),
+        outputTokens: calls.reduce((sum, call) => sum + call.outputTokens, 0),
+        ...billedTokens(calls),
+        estimatedCostUsd,
+        pricingVersion: pricing.version,
+        cacheHit: calls.every((call) => call.cacheHit),
+        judgeParse: calls.map((call) => call.parse).reduce(mostRescued),
+        validation: mergeValidationReports(...samples.map((s) => s.validation)),
+        ...(injectionFlags.length > 0 && { injectionFlags }),
+        judgePromptVersionRef: buildJudgePromptVersionRef(promptTemplate),
+      };
+      return result;
+    };
+
+    if (!wantsEventStream(req.headers)) {
+      return NextResponse.json(await evaluate().finally(reservation.release));
+    }
+
+    return createEvalEventStream(async (send) => {
+      try {
+        const result = await evaluate((partial) =>
+          send({ type: "progress", partial })
+        ).finally(reservation.release);
+        send({ type: "result", result });
+      } catch (err) {
+        const { status, body } = judgeErrorReply(err);
+        send({ type: "error", status, body });
+      }
+    });
+  } catch (err) {
+    const { status, body, headers } = judgeErrorReply(err);
+    return NextResponse.json(body, { status, headers });
   }
-  if (totalWeight === 0) return 0;
-  const score = weighted / totalWeight;
-  return Math.round(Math.max(0, Math.min(100, score)) * 10) / 10;
 }
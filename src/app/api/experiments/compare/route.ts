@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import type { ExperimentRun, RunComparison } from "@/lib/types";
+import type { CostBasis, ExperimentRun, RunComparison } from "@/lib/types";
+import { ModelSpecSchema } from "@/lib/eval-validation";
+import { effectivePromptFingerprint } from "@/lib/judge-prompt-templates";
+import { runCostAtReference } from "@/lib/pricing";
 import { getServerMemory, round } from "@/lib/server-memory";
 
 export const dynamic = "force-dynamic";
@@ -8,12 +11,24 @@ export const dynamic = "force-dynamic";
 const RequestSchema = z.object({
   baselineRunId: z.string().min(1),
   candidateRunId: z.string().min(1),
+  costBasis: z.enum(["recorded", "reference"]).default("recorded"),
+  referenceDate: z.string().datetime().optional(),
+  models: z.array(ModelSpecSchema).optional(),
 });
 
 function findRun(runId: string, runs: ExperimentRun[]): ExperimentRun | undefined {
   return runs.find((run) => run.id === runId);
 }
 
+function pricingVersionsDiffer(a: ExperimentRun, b: ExperimentRun): boolean {
+  if (!a.pricingVersions || !b.pricingVersions) return false;
+  return Object.entries(a.pricingVersions).some(
+    ([modelId, version]) =>
+      b.pricingVersions?.[modelId] !== undefined &&
+      b.pricingVersions[modelId] !== version
+  );
+}
+
 function verdictFromDeltas(
   scoreDelta: number,
   passDelta: number,
@@ -66,11 +81,45 @@ export async function POST(req: NextRequest) {
     ) {
       warnings.push("Rubric versions differ across compared runs.");
     }
-    if (
-      (baseline.judgePromptVersionRef?.versionNumber ?? 1) !==
-      (candidate.judgePromptVersionRef?.versionNumber ?? 1)
-    ) {
-      warnings.push("Judge prompt versions differ across compared runs.");
+    const baselinePrompt = effectivePromptFingerprint(baseline.judgePromptVersionRef);
+    const candidatePrompt = effectivePromptFingerprint(candidate.judgePromptVersionRef);
+    const judgePromptChanged =
+      baselinePrompt && candidatePrompt
+        ? baselinePrompt !== candidatePrompt
+        : (baseline.judgePromptVersionRef?.versionNumber ?? 1) !==
+          (candidate.judgePromptVersionRef?.versionNumber ?? 1);
+    if (judgePromptChanged) {
+      warnings.push("Judge prompt template text differs across compared runs.");
+    }
+    const degradedCases =
+      (baseline.metrics.degradedCount ?? 0) + (candidate.metrics.degradedCount ?? 0);
+    if (degradedCases > 0) {
+      warnings.push(
+        `${degradedCases} compared case${degradedCases === 1 ? " has" : "s have"} degraded judge output; their scores were filled in or clamped.`
+      );
+    }
+
+    let costBasis: CostBasis = parsed.data.costBasis;
+    const referenceDate = parsed.data.referenceDate ?? new Date().toISOString();
+    let baselineCostUsd = baseline.metrics.estimatedCostUsd;
+    let candidateCostUsd = candidate.metrics.estimatedCostUsd;
+    if (costBasis === "reference") {
+      const catalog = { customModels: parsed.data.models };
+      const baselineRef = runCostAtReference(baseline, catalog, referenceDate);
+      const candidateRef = runCostAtReference(candidate, catalog, referenceDate);
+      if (baselineRef === undefined || candidateRef === undefined) {
+        costBasis = "recorded";
+        warnings.push(
+          "Reference pricing is unavailable for a judge model; cost delta uses recorded costs."
+        );
+      } else {
+        baselineCostUsd = baselineRef;
+        candidateCostUsd = candidateRef;
+      }
+    } else if (pricingVersionsDiffer(baseline, candidate)) {
+      warnings.push(
+        "Judge pricing versions differ across compared runs; compare at a reference price for a like-for-like cost delta."
+      );
     }
 
     const scoreDelta = round(
@@ -78,16 +127,14 @@ export async function POST(req: NextRequest) {
       2
     );
     const passDelta = round(candidate.metrics.passRate - baseline.metrics.passRate, 4);
-    const costDelta = round(
-      candidate.metrics.estimatedCostUsd - baseline.metrics.estimatedCostUsd,
-      6
-    );
+    const costDelta = round(candidateCostUsd - baselineCostUsd, 6);
 
     const comparison: RunComparison = {
       baselineRunId: baseline.id,
       candidateRunId: candidate.id,
       compatible: warnings.length === 0,
       warnings,
+      judgePromptChanged,
       verdict: verdictFromDeltas(scoreDelta, passDelta, costDelta),
       deltas: {
         meanAggregateScore: scoreDelta,
@@ -110,6 +157,20 @@ export async function POST(req: NextRequest) {
           typeof candidate.metrics.tieRate === "number"
             ? round(candidate.metrics.tieRate - baseline.metrics.tieRate, 4)
             : undefined,
+        meanPreferenceMargin:
+          typeof baseline.metrics.meanPreferenceMargin === "number" &&
+          typeof candidate.metrics.meanPreferenceMargin === "number"
+            ? round(
+                candidate.metrics.meanPreferenceMargin - baseline.metrics.meanPreferenceMargin,
+                4
+              )
+            : undefined,
+      },
+      cost: {
+        basis: costBasis,
+        referenceDate: costBasis === "reference" ? referenceDate : undefined,
+        baselineCostUsd: round(baselineCostUsd, 6),
+        candidateCostUsd: round(candidateCostUsd, 6),
       },
     };
 
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import type { Rubric } from "@/lib/types";
+import { getModelById } from "@/lib/models";
+import {
+  estimateRunCost,
+  type EstimateCase,
+  type WeightedJudge,
+} from "@/lib/cost-estimate";
+import { getBuiltInRubricById } from "@/lib/rubric-templates";
+import {
+  AgentTrajectorySchema,
+  ConversationMessagesSchema,
+  ConversationScopeSchema,
+  EnsembleSchema,
+  JudgePromptTemplateVersionSchema,
+  ModelSpecSchema,
+  PositionBiasPolicySchema,
+  RubricSchema,
+} from "@/lib/eval-validation";
+import { getServerMemory, pickDatasetVersion } from "@/lib/server-memory";
+
+export const dynamic = "force-dynamic";
+
+const EstimateRowSchema = z.object({
+  mode: z.enum(["single", "pairwise"]),
+  prompt: z.string(),
+  response: z.string().optional(),
+  responseA: z.string().optional(),
+  responseB: z.string().optional(),
+  context: z.string().optional(),
+  referenceAnswer: z.string().optional(),
+  messages: ConversationMessagesSchema.optional(),
+  conversationScope: ConversationScopeSchema.optional(),
+  trajectory: AgentTrajectorySchema.optional(),
+});
+
+const RequestSchema = z
+  .object({
+    datasetId: z.string().min(1).optional(),
+    datasetVersionId: z.string().optional(),
+    // Batch rows are estimated as given; dataset items use `evalMode`.
+    rows: z.array(EstimateRowSchema).optional(),
+    evalMode: z.enum(["single", "pairwise"]).optional(),
+    rubricId: z.string().min(1),
+    rubric: RubricSchema.optional(),
+    promptTemplate: JudgePromptTemplateVersionSchema.optional(),
+    judgeModelId: z.string().min(1),
+    models: z.array(ModelSpecSchema).optional(),
+    ensemble: EnsembleSchema.optional(),
+    repeats: z.number().int().min(1).max(10).default(1),
+    detectPositionBias: z.boolean().default(false),
+    positionBiasPolicy: PositionBiasPolicySchema.optional(),
+    doubleBlind: z.boolean().default(true),
+  })
+  .refine((input) => !!input.datasetId !== !!input.rows, {
+    message: "Provide either datasetId or rows",
+  });
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = RequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid estimate request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const input = parsed.data;
+    const rubric: Rubric | undefined =
+      input.rubric ?? getBuiltInRubricById(input.rubricId);
+    if (!rubric) {
+      return NextResponse.json({ error: "Rubric not found" }, { status: 400 });
+    }
+
+    let items: EstimateCase[];
+    if (input.rows) {
+      items = input.rows;
+    } else {
+      const memory = getServerMemory();
+      const versions = memory.datasetVersions[input.datasetId ?? ""] ?? [];
+      const version = pickDatasetVersion(versions, input.datasetVersionId);
+      if (!version) {
+        return NextResponse.json({ error: "Dataset version not found" }, { status: 404 });
+      }
+      items = version.items.map((item) => ({
+        ...item,
+        mode: input.evalMode ?? item.mode,
+      }));
+    }
+
+    const catalog = { customModels: input.models };
+    const ensemble =
+      input.ensemble && input.ensemble.length > 0
+        ? input.ensemble
+        : [{ modelId: input.judgeModelId, weight: 1 }];
+    const judges: WeightedJudge[] = [];
+    for (const entry of ensemble) {
+      const model = getModelById(entry.modelId, catalog);
+      if (!model) {
+        return NextResponse.json(
+          { error: `Unknown judge model: ${entry.modelId}` },
+          { status: 400 }
+        );
+      }
+      judges.push({ model, weight: entry.weight });
+    }
+
+    const estimate = estimateRunCost({
+      items,
+      rubric,
+      judges,
+      repeats: input.repeats,
+      detectPositionBias: input.detectPositionBias,
+      positionBiasPolicy: input.positionBiasPolicy,
+      doubleBlind: input.doubleBlind,
+      promptTemplate: input.promptTemplate,
+    });
+
+    return NextResponse.json({ estimate });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
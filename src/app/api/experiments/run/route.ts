@@ -1,9 +1,60 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { nanoid } from "nanoid";
-import type { DatasetVersion, ExperimentRun, PairwiseVerdict, RunConfig } from "@/lib/types";
-import { getModelById } from "@/lib/models";
-import { getServerMemory, hashString, round } from "@/lib/server-memory";
+import type {
+  BudgetErrorResponse,
+  DatasetItem,
+  ExperimentRun,
+  JudgePromptTemplateVersion,
+  JudgeSampling,
+  PairwiseCaseOutcome,
+  PairwiseEvalInput,
+  Rubric,
+  RunConfig,
+  SingleEvalInput,
+} from "@/lib/types";
+import { estimateCostUsd, getModelById } from "@/lib/models";
+import { getPricingAt } from "@/lib/pricing";
+import { projectCase } from "@/lib/cost-estimate";
+import { getBuiltInRubricById } from "@/lib/rubric-templates";
+import {
+  buildJudgePromptVersionRef,
+  DEFAULT_JUDGE_PROMPT_VERSION,
+  DEFAULT_JUDGE_PROMPT_VERSION_REF,
+} from "@/lib/judge-prompt-templates";
+import {
+  EnsembleSchema,
+  JudgePromptTemplateVersionSchema,
+  ModelSpecSchema,
+  PositionBiasPolicySchema,
+  PreferenceScaleSchema,
+  RubricSchema,
+  SpendBudgetsSchema,
+} from "@/lib/eval-validation";
+import { MOCK_JUDGE_MODEL_ID } from "@/lib/mock-judge";
+import { generateJudgeJson } from "@/lib/judge-cache";
+import { resolveJudge, type JudgeTarget } from "@/lib/judge-models";
+import { buildSingleJudgeSchema, singleJudgeOptions } from "@/lib/judge-schema";
+import { buildCriterionScore, resolveAggregateScore } from "@/lib/judge-output";
+import {
+  resolvePositionBias,
+  runPairwiseEval,
+  type PositionBiasResolution,
+} from "@/lib/pairwise-judge";
+import { tiebreakOrder } from "@/lib/position-bias";
+import { buildSinglePrompt } from "@/lib/prompts";
+import { DEFAULT_SAMPLING_TEMPERATURE } from "@/lib/self-consistency";
+import {
+  getServerMemory,
+  hashString,
+  pickDatasetVersion,
+  round,
+} from "@/lib/server-memory";
+import {
+  checkBudget,
+  describeViolation,
+  effectiveBudgets,
+} from "@/lib/spend-budget";
 
 export const dynamic = "force-dynamic";
 
@@ -13,17 +64,14 @@ const RequestSchema = z.object({
   datasetVersionId: z.string().optional(),
   evalMode: z.enum(["single", "pairwise"]),
   judgeModelId: z.string().min(1),
+  models: z.array(ModelSpecSchema).optional(),
   rubricId: z.string().min(1),
+  rubric: RubricSchema.optional(),
   repeats: z.number().int().min(1).max(10).default(1),
-  ensemble: z
-    .array(
-      z.object({
-        modelId: z.string().min(1),
-        weight: z.number().positive(),
-      })
-    )
-    .min(1)
-    .optional(),
+  ensemble: EnsembleSchema.optional(),
+  detectPositionBias: z.boolean().default(false),
+  positionBiasPolicy: PositionBiasPolicySchema.default("keep_first"),
+  preferenceScale: PreferenceScaleSchema.optional(),
   rubricVersionRef: z
     .object({
       rubricId: z.string().min(1),
@@ -34,42 +82,107 @@ const RequestSchema = z.object({
       isBuiltIn: z.boolean(),
     })
     .optional(),
-  judgePromptVersionRef: z
-    .object({
-      id: z.string().min(1),
-      versionNumber: z.number().int().positive(),
-      createdAt: z.string().min(1),
-      notes: z.string().optional(),
-    })
-    .optional(),
+  promptTemplate: JudgePromptTemplateVersionSchema.optional(),
   gates: z
     .object({
       minMeanAggregateScore: z.number().min(0).max(100).optional(),
       minPassRate: z.number().min(0).max(1).optional(),
     })
     .optional(),
+  budgets: SpendBudgetsSchema.optional(),
+  // Stop at the budget with a partial run instead of refusing the whole run.
+  allowPartial: z.boolean().default(false),
 });
 
-function pickDatasetVersion(
-  versions: DatasetVersion[],
-  datasetVersionId?: string
-): DatasetVersion | undefined {
-  if (!datasetVersionId) return versions[versions.length - 1];
-  return versions.find((version) => version.id === datasetVersionId);
+interface PlannedCase {
+  item: DatasetItem;
+  inputTokens: number;
+  outputTokens: number;
+  costs: Record<string, number>; // provider id → USD
 }
 
-function seededRange(seed: string, min: number, max: number): number {
-  const h = Number.parseInt(hashString(seed), 16);
-  const span = max - min + 1;
-  return min + (h % span);
+function addCosts(
+  a: Record<string, number>,
+  b: Record<string, number>
+): Record<string, number> {
+  const out = { ...a };
+  for (const [provider, cost] of Object.entries(b)) {
+    out[provider] = (out[provider] ?? 0) + cost;
+  }
+  return out;
 }
 
-function seededVerdict(seed: string): PairwiseVerdict {
-  const h = Number.parseInt(hashString(seed), 16);
-  const mod = h % 3;
-  if (mod === 0) return "A";
-  if (mod === 1) return "B";
-  return "tie";
+// The tie-break is a fresh draw, so it is never served the first pass's cached reply.
+const TIEBREAK_SAMPLING: JudgeSampling = {
+  samples: 1,
+  temperature: DEFAULT_SAMPLING_TEMPERATURE,
+};
+
+/** Judges one dataset row with the offline mock judge, as the live routes would. */
+async function judgeCase(
+  item: DatasetItem,
+  config: RunConfig,
+  rubric: Rubric,
+  judge: JudgeTarget,
+  promptTemplate: JudgePromptTemplateVersion
+): Promise<{ aggregateScore: number; pairwise?: PositionBiasResolution }> {
+  if (config.evalMode === "single") {
+    const input: SingleEvalInput = {
+      prompt: item.prompt,
+      response: item.response ?? "",
+      rubricId: rubric.id,
+      modelId: judge.judgeModel.id,
+      context: item.context,
+      ...(item.referenceAnswer && { referenceAnswer: item.referenceAnswer }),
+      ...(item.messages && {
+        messages: item.messages,
+        conversationScope: item.conversationScope ?? "final_turn",
+      }),
+      ...(item.trajectory && { trajectory: item.trajectory }),
+    };
+    const { parsed } = await generateJudgeJson({
+      judge,
+      prompt: buildSinglePrompt(input, rubric, promptTemplate),
+      schema: buildSingleJudgeSchema(rubric, singleJudgeOptions(input)),
+    });
+    const criterionScores = rubric.criteria.map((c) =>
+      buildCriterionScore(
+        c,
+        (parsed.scores as Record<string, unknown>)?.[c.id],
+        (parsed.criterion_reasoning as Record<string, unknown>)?.[`${c.id}_reasoning`]
+      )
+    );
+    return { aggregateScore: resolveAggregateScore(parsed.aggregate_score, criterionScores, rubric) };
+  }
+
+  const input: PairwiseEvalInput = {
+    prompt: item.prompt,
+    responseA: item.responseA ?? "",
+    responseB: item.responseB ?? "",
+    rubricId: rubric.id,
+    modelId: judge.judgeModel.id,
+    doubleBlind: true,
+    detectPositionBias: !!config.detectPositionBias,
+    ...(config.positionBiasPolicy && { positionBiasPolicy: config.positionBiasPolicy }),
+    ...(config.preferenceScale && { preferenceScale: config.preferenceScale }),
+    context: item.context,
+    ...(item.messages && { messages: item.messages }),
+  };
+  const pass = (order: "AB" | "BA", draw?: { sampling: JudgeSampling; sample: number }) =>
+    runPairwiseEval(input, rubric, judge, order, undefined, promptTemplate, draw);
+
+  const primary = await pass("AB");
+  const pairwise = config.detectPositionBias
+    ? await resolvePositionBias(
+        config.positionBiasPolicy ?? "keep_first",
+        primary,
+        await pass("BA"),
+        rubric,
+        () => pass(tiebreakOrder(input), { sampling: TIEBREAK_SAMPLING, sample: 1 })
+      )
+    : { ...primary, positionBiasDetected: false };
+  // Both candidates' scores, as ad-hoc pairwise runs report them.
+  return { aggregateScore: (pairwise.aggregateA + pairwise.aggregateB) / 2, pairwise };
 }
 
 export async function POST(req: NextRequest) {
@@ -103,7 +216,14 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Dataset version not found" }, { status: 404 });
     }
 
-    const selectedJudgeModel = getModelById(input.judgeModelId);
+    const rubric: Rubric | undefined =
+      input.rubric ?? getBuiltInRubricById(input.rubricId);
+    if (!rubric) {
+      return NextResponse.json({ error: "Rubric not found" }, { status: 400 });
+    }
+
+    const catalog = { customModels: input.models };
+    const selectedJudgeModel = getModelById(input.judgeModelId, catalog);
     if (!selectedJudgeModel) {
       return NextResponse.json({ error: "Unknown judge model" }, { status: 400 });
     }
@@ -116,7 +236,7 @@ export async function POST(req: NextRequest) {
     const ensembleModels = ensemble
       .map((entry) => ({
         entry,
-        model: getModelById(entry.modelId),
+        model: getModelById(entry.modelId, catalog),
       }))
       .filter((entry) => !!entry.model) as Array<{
       entry: { modelId: string; weight: number };
@@ -130,17 +250,28 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const promptTemplate = input.promptTemplate ?? DEFAULT_JUDGE_PROMPT_VERSION;
+    const resolvesPositionBias = input.evalMode === "pairwise" && input.detectPositionBias;
+    const promptRef = buildJudgePromptVersionRef(promptTemplate);
+
     const config: RunConfig = {
       name: input.name?.trim() || `${dataset.name} / ${input.evalMode}`,
       datasetId: dataset.id,
       datasetVersionId: version.id,
       evalMode: input.evalMode,
+      referenceGuided:
+        input.evalMode === "single" && version.items.some((item) => item.referenceAnswer)
+          ? true
+          : undefined,
       judgeModelId: input.judgeModelId,
       rubricId: input.rubricId,
       repeats: input.repeats,
       ensemble,
+      detectPositionBias: input.evalMode === "pairwise" ? input.detectPositionBias : undefined,
+      positionBiasPolicy: resolvesPositionBias ? input.positionBiasPolicy : undefined,
+      preferenceScale: input.evalMode === "pairwise" ? input.preferenceScale : undefined,
       rubricVersionRef: input.rubricVersionRef,
-      judgePromptVersionRef: input.judgePromptVersionRef,
+      judgePromptVersionRef: promptRef,
       gates: input.gates,
     };
 
@@ -151,67 +282,147 @@ export async function POST(req: NextRequest) {
       judgeModelId: config.judgeModelId,
       rubricId: config.rubricId,
       rubricVersionId: config.rubricVersionRef?.versionId ?? "unknown",
-      promptVersionId: config.judgePromptVersionRef?.id ?? "unknown",
-      promptVersionNumber: config.judgePromptVersionRef?.versionNumber ?? 1,
+      // Templates are identified by content; the built-in keeps the shape
+      // that identified runs before templates existed.
+      ...(promptRef.fingerprint === DEFAULT_JUDGE_PROMPT_VERSION_REF.fingerprint
+        ? { promptVersionId: "judge-prompt", promptVersionNumber: 1 }
+        : { promptFingerprint: promptRef.fingerprint }),
       repeats: config.repeats,
       itemHash: version.hash,
       ensemble: config.ensemble ?? [],
+      ...(config.detectPositionBias ? { detectPositionBias: true } : {}),
+      // Keeping the first order reports what runs did before policies existed.
+      ...(config.positionBiasPolicy && config.positionBiasPolicy !== "keep_first"
+        ? { positionBiasPolicy: config.positionBiasPolicy }
+        : {}),
+      ...(config.preferenceScale ? { preferenceScale: config.preferenceScale } : {}),
     });
     const identityKey = hashString(identityRaw);
 
+    const pricedModels = ensembleModels.map((item) => ({
+      ...item,
+      pricing: getPricingAt(item.model),
+    }));
+    const pricingVersions = Object.fromEntries(
+      pricedModels.map((item) => [item.model.id, item.pricing.version])
+    );
+
+    // Project every case up front so budgets are checked before any work.
+    const totalWeight = ensembleModels.reduce(
+      (sum, item) => sum + item.entry.weight,
+      0
+    );
+    const plannedCases: PlannedCase[] = [];
+    for (let repeat = 0; repeat < config.repeats; repeat++) {
+      for (const item of version.items) {
+        const { inputTokens, outputTokens } = projectCase(
+          { ...item, mode: config.evalMode },
+          rubric,
+          {
+            detectPositionBias: config.detectPositionBias,
+            positionBiasPolicy: config.positionBiasPolicy,
+            promptTemplate,
+          }
+        );
+        const costs: Record<string, number> = {};
+        for (const model of pricedModels) {
+          const w = model.entry.weight / totalWeight;
+          costs[model.model.provider] =
+            (costs[model.model.provider] ?? 0) +
+            estimateCostUsd(model.pricing, inputTokens, outputTokens) * w;
+        }
+        plannedCases.push({
+          item,
+          inputTokens,
+          outputTokens,
+          costs,
+        });
+      }
+    }
+
+    const runId = `exp-${nanoid()}`;
+    const budgets = effectiveBudgets(input.budgets);
+    const violation = checkBudget(
+      budgets,
+      plannedCases.reduce((acc, c) => addCosts(acc, c.costs), {}),
+      runId
+    );
+    if (violation && !input.allowPartial) {
+      const body: BudgetErrorResponse = {
+        error: describeViolation(violation),
+        code: "budget_exceeded",
+        budget: violation,
+      };
+      return NextResponse.json(body, { status: 402 });
+    }
+
+    let cases = plannedCases;
+    if (violation) {
+      let spent: Record<string, number> = {};
+      const affordable = plannedCases.findIndex((c) => {
+        const next = addCosts(spent, c.costs);
+        if (checkBudget(budgets, next, runId)) return true;
+        spent = next;
+        return false;
+      });
+      cases = plannedCases.slice(0, affordable === -1 ? plannedCases.length : affordable);
+      if (cases.length === 0) {
+        const body: BudgetErrorResponse = {
+          error: describeViolation(violation),
+          code: "budget_exceeded",
+          budget: violation,
+        };
+        return NextResponse.json(body, { status: 402 });
+      }
+    }
+
     let scoreSum = 0;
     let passCount = 0;
     let winA = 0;
     let winB = 0;
     let ties = 0;
+    let inconsistent = 0;
+    let marginSum = 0;
+    const pairwiseOutcomes: PairwiseCaseOutcome[] = [];
     let totalInputTokens = 0;
     let totalOutputTokens = 0;
-    let totalCostUsd = 0;
-
-    for (let repeat = 0; repeat < config.repeats; repeat++) {
-      for (const item of version.items) {
-        const seed = `${identityKey}:${repeat}:${item.id}`;
-        const aggregateScore = seededRange(seed, 45, 100);
-        scoreSum += aggregateScore;
-        if (aggregateScore >= 70) passCount += 1;
-
-        if (config.evalMode === "pairwise") {
-          const verdict = seededVerdict(seed);
-          if (verdict === "A") winA += 1;
-          else if (verdict === "B") winB += 1;
-          else ties += 1;
-        }
+    let projectedCosts: Record<string, number> = {};
 
-        const promptTokens = Math.max(20, Math.round(item.prompt.length / 4));
-        const responseTokens =
-          config.evalMode === "single"
-            ? Math.max(20, Math.round((item.response ?? "").length / 4))
-            : Math.max(
-                40,
-                Math.round(((item.responseA ?? "").length + (item.responseB ?? "").length) / 4)
-              );
-
-        const inputTokens = promptTokens + Math.round(responseTokens * 0.6);
-        const outputTokens = Math.max(32, Math.round(responseTokens * 0.25));
+    // Rows are judged offline; the configured judge only prices the run.
+    const mockJudge = resolveJudge(req.headers, MOCK_JUDGE_MODEL_ID);
+    if (!mockJudge.ok) {
+      return NextResponse.json({ error: mockJudge.error }, { status: mockJudge.status });
+    }
 
-        totalInputTokens += inputTokens;
-        totalOutputTokens += outputTokens;
+    for (const { item, inputTokens, outputTokens, costs } of cases) {
+      const { aggregateScore, pairwise } = await judgeCase(
+        item,
+        config,
+        rubric,
+        mockJudge,
+        promptTemplate
+      );
+      scoreSum += aggregateScore;
+      if (aggregateScore >= 70) passCount += 1;
 
-        const totalWeight = ensembleModels.reduce(
-          (sum, item) => sum + item.entry.weight,
-          0
-        );
-        for (const model of ensembleModels) {
-          const w = model.entry.weight / totalWeight;
-          totalCostUsd +=
-            ((inputTokens / 1_000_000) * model.model.inputCostPer1M +
-              (outputTokens / 1_000_000) * model.model.outputCostPer1M) *
-            w;
-        }
+      if (pairwise) {
+        const { verdict } = pairwise;
+        if (pairwise.positionBiasDetected) inconsistent += 1;
+        pairwiseOutcomes.push({ itemId: item.id, verdict });
+        marginSum += pairwise.preference ?? 0;
+        if (verdict === "A") winA += 1;
+        else if (verdict === "B") winB += 1;
+        else ties += 1;
       }
+
+      totalInputTokens += inputTokens;
+      totalOutputTokens += outputTokens;
+      projectedCosts = addCosts(projectedCosts, costs);
     }
+    // No judge calls go out, so the projected cost stays off the spend ledger.
+    const totalCostUsd = Object.values(projectedCosts).reduce((sum, cost) => sum + cost, 0);
 
-    const caseCount = version.items.length * config.repeats;
+    const caseCount = cases.length;
     const meanAggregateScore = caseCount > 0 ? scoreSum / caseCount : 0;
     const passRate = caseCount > 0 ? passCount / caseCount : 0;
     const estimatedCostUsd = totalCostUsd;
@@ -233,7 +444,7 @@ export async function POST(req: NextRequest) {
     }
 
     const run: ExperimentRun = {
-      id: `exp-${nanoid()}`,
+      id: runId,
       identityKey,
       createdAt: new Date().toISOString(),
       runType: "dataset",
@@ -249,17 +460,30 @@ export async function POST(req: NextRequest) {
         winRateA: config.evalMode === "pairwise" ? round(winA / caseCount, 4) : undefined,
         winRateB: config.evalMode === "pairwise" ? round(winB / caseCount, 4) : undefined,
         tieRate: config.evalMode === "pairwise" ? round(ties / caseCount, 4) : undefined,
+        meanPreferenceMargin: config.preferenceScale ? round(marginSum / caseCount, 4) : undefined,
+        inconsistentCount: config.detectPositionBias ? inconsistent : undefined,
         inputTokens: totalInputTokens,
         outputTokens: totalOutputTokens,
         estimatedCostUsd: round(estimatedCostUsd, 6),
       },
+      pricingVersions,
+      partial:
+        cases.length < plannedCases.length && violation
+          ? {
+              reason: describeViolation(violation),
+              evaluatedCases: cases.length,
+              plannedCases: plannedCases.length,
+            }
+          : undefined,
       regression: {
         passed: reasons.length === 0,
         reasons,
       },
       sourceEvalResultIds: [],
+      ...(config.evalMode === "pairwise" && { pairwiseOutcomes }),
+      synthetic: true,
       notes:
-        "Synthetic deterministic run seeded from config identity for local-first experimentation.",
+        "Synthetic run judged by the offline mock judge; tokens and cost are projected for the configured judge.",
     };
 
     memory.experimentRuns = [
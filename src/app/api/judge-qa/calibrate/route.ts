@@ -1,15 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { nanoid } from "nanoid";
-import type { CalibrationRun, PairwiseVerdict } from "@/lib/types";
+import type { CalibrationRun, PairwiseVerdict, PreferenceScale } from "@/lib/types";
+import { PreferenceScaleSchema } from "@/lib/eval-validation";
+import { parsePreference, preferenceRange, verdictFromPreference } from "@/lib/preference";
 import { getServerMemory, round } from "@/lib/server-memory";
 
 export const dynamic = "force-dynamic";
 
 const VerdictSchema = z.enum(["A", "B", "tie"]);
+// A graded label ("A>>B", "A≈B", …) or a signed margin, positive for A.
+const PreferenceSchema = z.union([z.string(), z.number().int()]);
 
 const RequestSchema = z.object({
   setName: z.string().min(1).default("Untitled Calibration Set"),
+  preferenceScale: PreferenceScaleSchema.optional(),
   records: z
     .array(
       z.object({
@@ -17,6 +22,8 @@ const RequestSchema = z.object({
         prompt: z.string().optional(),
         humanVerdict: VerdictSchema.optional(),
         judgeVerdict: VerdictSchema.optional(),
+        humanPreference: PreferenceSchema.optional(),
+        judgePreference: PreferenceSchema.optional(),
         humanScore: z.number().min(0).max(100).optional(),
         judgeScore: z.number().min(0).max(100).optional(),
       })
@@ -51,6 +58,41 @@ function cohenKappa(human: PairwiseVerdict[], judge: PairwiseVerdict[]): number
   return (p0 - pe) / (1 - pe);
 }
 
+/**
+ * Cohen's kappa with quadratic weights over the margins -range…range, so
+ * A>B against A>>B counts as a near miss rather than a plain disagreement.
+ */
+function weightedKappa(human: number[], judge: number[], range: number): number {
+  if (human.length === 0 || human.length !== judge.length || range === 0) return 0;
+  const n = human.length;
+  const categories = 2 * range + 1;
+  const humanCounts = new Array<number>(categories).fill(0);
+  const judgeCounts = new Array<number>(categories).fill(0);
+  const weight = (i: number, j: number) => ((i - j) / (categories - 1)) ** 2;
+
+  let observed = 0;
+  for (let i = 0; i < n; i++) {
+    observed += weight(human[i], judge[i]);
+    humanCounts[human[i] + range] += 1;
+    judgeCounts[judge[i] + range] += 1;
+  }
+
+  let expected = 0;
+  for (let i = 0; i < categories; i++) {
+    for (let j = 0; j < categories; j++) {
+      expected += weight(i, j) * (humanCounts[i] / n) * (judgeCounts[j] / n);
+    }
+  }
+
+  if (expected <= 0.000001) return 0;
+  return 1 - observed / n / expected;
+}
+
+/** 7-point when any margin needs it, otherwise 5-point. */
+function inferPreferenceScale(raws: unknown[]): PreferenceScale {
+  return raws.some((raw) => Math.abs(parsePreference(raw, 7) ?? 0) === 3) ? 7 : 5;
+}
+
 function pearson(x: number[], y: number[]): number {
   if (x.length === 0 || y.length === 0 || x.length !== y.length) return 0;
   const n = x.length;
@@ -83,7 +125,44 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { setName, records } = parsed.data;
+    const { setName } = parsed.data;
+    const rawPreferences = parsed.data.records.flatMap((record) =>
+      [record.humanPreference, record.judgePreference].filter((raw) => raw !== undefined)
+    );
+    const preferenceScale =
+      parsed.data.preferenceScale ?? inferPreferenceScale(rawPreferences);
+
+    // Graded preferences are read on the set's scale; a missing verdict is
+    // taken from the preference's side.
+    const unreadable: string[] = [];
+    const records = parsed.data.records.map((record, index) => {
+      const read = (raw: string | number | undefined, field: string) => {
+        if (raw === undefined) return undefined;
+        const margin = parsePreference(raw, preferenceScale);
+        if (margin === undefined) unreadable.push(`records[${index}].${field}: "${raw}"`);
+        return margin;
+      };
+      const humanPreference = read(record.humanPreference, "humanPreference");
+      const judgePreference = read(record.judgePreference, "judgePreference");
+      return {
+        ...record,
+        humanPreference,
+        judgePreference,
+        humanVerdict:
+          record.humanVerdict ??
+          (humanPreference === undefined ? undefined : verdictFromPreference(humanPreference)),
+        judgeVerdict:
+          record.judgeVerdict ??
+          (judgePreference === undefined ? undefined : verdictFromPreference(judgePreference)),
+      };
+    });
+    if (unreadable.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid calibration payload", details: { unreadablePreferences: unreadable } },
+        { status: 400 }
+      );
+    }
+
     const verdictPairs = records.filter(
       (record) => !!record.humanVerdict && !!record.judgeVerdict
     );
@@ -95,6 +174,9 @@ export async function POST(req: NextRequest) {
       (record) =>
         typeof record.humanScore === "number" && typeof record.judgeScore === "number"
     );
+    const preferencePairs = records.filter(
+      (record) => record.humanPreference !== undefined && record.judgePreference !== undefined
+    );
     const humanScores = scorePairs.map((record) => record.humanScore as number);
     const judgeScores = scorePairs.map((record) => record.judgeScore as number);
     const meanAbsoluteError =
@@ -121,6 +203,17 @@ export async function POST(req: NextRequest) {
           ),
           4
         ),
+        weightedKappa:
+          preferencePairs.length === 0
+            ? undefined
+            : round(
+                weightedKappa(
+                  preferencePairs.map((record) => record.humanPreference as number),
+                  preferencePairs.map((record) => record.judgePreference as number),
+                  preferenceRange(preferenceScale)
+                ),
+                4
+              ),
         scoreCorrelation:
           scorePairs.length === 0 ? undefined : round(pearson(humanScores, judgeScores), 4),
         meanAbsoluteError:
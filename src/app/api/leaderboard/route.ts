@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import type { LeaderboardMatch } from "@/lib/types";
+import { getServerMemory } from "@/lib/server-memory";
+import {
+  buildLeaderboard,
+  DEFAULT_BOOTSTRAP_ROUNDS,
+  filterMatches,
+  matchesFromRun,
+  MAX_BOOTSTRAP_ROUNDS,
+} from "@/lib/leaderboard";
+
+export const dynamic = "force-dynamic";
+
+const MatchSchema = z.object({
+  modelA: z.string().min(1),
+  modelB: z.string().min(1),
+  verdict: z.enum(["A", "B", "tie"]),
+  rubricId: z.string().min(1),
+  judgeModelId: z.string().min(1),
+  tags: z.array(z.string()).optional(),
+  createdAt: z.string().min(1),
+});
+
+const RequestSchema = z.object({
+  method: z.enum(["bradley_terry", "elo"]).default("bradley_terry"),
+  // Ad-hoc pairwise results live in the browser, so the client sends them.
+  matches: z.array(MatchSchema).max(20_000).default([]),
+  // Dataset runs are synthetic (seeded verdicts), so they join only on request.
+  includeDatasetRuns: z.boolean().default(false),
+  filters: z
+    .object({
+      rubricId: z.string().min(1).optional(),
+      judgeModelId: z.string().min(1).optional(),
+      slice: z.string().min(1).optional(),
+    })
+    .default({}),
+  bootstrapRounds: z.number().int().min(0).max(MAX_BOOTSTRAP_ROUNDS).default(DEFAULT_BOOTSTRAP_ROUNDS),
+});
+
+function datasetRunMatches(): LeaderboardMatch[] {
+  const memory = getServerMemory();
+  return memory.experimentRuns.flatMap((run) => {
+    if (run.runType !== "dataset" || !run.pairwiseOutcomes?.length) return [];
+    const version = Object.values(memory.datasetVersions)
+      .flat()
+      .find((v) => v.id === run.datasetVersionId);
+    return version ? matchesFromRun(run, version.items) : [];
+  });
+}
+
+function distinct(values: (string | undefined)[]): string[] {
+  return [...new Set(values.filter((v): v is string => Boolean(v)))].sort();
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = RequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid leaderboard request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { method, matches, includeDatasetRuns, filters, bootstrapRounds } = parsed.data;
+    const all: LeaderboardMatch[] = [
+      ...matches,
+      ...(includeDatasetRuns ? datasetRunMatches() : []),
+    ];
+    const leaderboard = buildLeaderboard(filterMatches(all, filters), method, bootstrapRounds);
+
+    return NextResponse.json({
+      leaderboard,
+      // What the filters can be set to, across every match before filtering
+      options: {
+        rubricIds: distinct(all.map((m) => m.rubricId)),
+        judgeModelIds: distinct(all.map((m) => m.judgeModelId)),
+        slices: distinct(all.flatMap((m) => (m.tags ?? []).filter((t) => t.includes(":")))),
+      },
+      sources: {
+        adhoc: matches.length,
+        datasetRuns: all.length - matches.length,
+        synthetic: all.filter((m) => m.synthetic).length,
+      },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
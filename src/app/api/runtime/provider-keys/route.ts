@@ -1,14 +1,15 @@
 import { NextResponse } from "next/server";
-import type { Provider } from "@/lib/types";
+import { listProviders } from "@/lib/providers";
 
 export const dynamic = "force-dynamic";
 
 export async function GET() {
-  const availability: Record<Provider, boolean> = {
-    openai: !!process.env.OPENAI_API_KEY,
-    anthropic: !!process.env.ANTHROPIC_API_KEY,
-    google: !!process.env.GOOGLE_API_KEY,
-  };
+  const availability: Record<string, boolean> = Object.fromEntries(
+    listProviders().map((provider) => [
+      provider.id,
+      !provider.requiresKey || (!!provider.envKey && !!process.env[provider.envKey]),
+    ])
+  );
 
   return NextResponse.json(availability, {
     headers: {
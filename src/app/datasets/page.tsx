@@ -54,7 +54,11 @@ interface DatasetVersionSummary {
 }
 
 const DEMO_JSONL = `{"prompt":"Explain API rate limiting in one paragraph.","response":"Rate limiting caps requests over a time window to protect reliability.","tags":"docs,backend","task_type":"explanation","difficulty":"easy","language":"en"}
-{"prompt":"Summarize CAP theorem for architects.","responseA":"CAP says pick two properties.","responseB":"Under partition, choose consistency or availability.","mode":"pairwise","task_type":"architecture","difficulty":"medium","language":"en","gold_verdict":"B"}`;
+{"prompt":"Summarize CAP theorem for architects.","responseA":"CAP says pick two properties.","responseB":"Under partition, choose consistency or availability.","model_a":"model-x","model_b":"model-y","mode":"pairwise","task_type":"architecture","difficulty":"medium","language":"en","gold_verdict":"B"}
+{"prompt":"Name the capital of Australia.","responses":[{"model":"model-x","response":"Canberra."},{"model":"model-y","response":"Sydney."},{"model":"model-z","response":"Canberra, in the ACT."}],"task_type":"factual","difficulty":"easy","language":"en"}
+{"prompt":"What is 17 × 24?","response":"17 × 24 = 418.","reference":"408","task_type":"math","difficulty":"easy","language":"en"}
+{"messages":[{"role":"user","content":"Give me a Python one-liner to reverse a string."},{"role":"assistant","content":"s[::-1]"},{"role":"user","content":"And a list, in place?"},{"role":"assistant","content":"lst.reverse()"}],"task_type":"coding","difficulty":"easy","language":"en"}
+{"prompt":"What is the weather in Paris right now, in Celsius?","trajectory":{"steps":[{"kind":"tool_call","toolName":"get_weather","arguments":{"city":"Paris","units":"fahrenheit"}},{"kind":"tool_result","toolName":"get_weather","content":"{\\"temp\\": 64, \\"units\\": \\"F\\"}"},{"kind":"final_answer","content":"It is about 18°C in Paris."}]},"task_type":"agent","difficulty":"easy","language":"en"}`;
 
 export default function DatasetsPage() {
   const [datasets, setDatasets] = useState<DatasetSummary[]>([]);
@@ -181,7 +185,9 @@ export default function DatasetsPage() {
           <CardHeader>
             <CardTitle className="text-base">Import Dataset Version</CardTitle>
             <CardDescription>
-              Supports CSV and JSONL with `prompt` plus either `response` or `responseA/responseB`.
+              Supports CSV and JSONL with `prompt` plus `response`, `responseA/responseB` (naming
+              their models in `model_a/model_b` for leaderboards), or a
+              `responses` array of `{"{"}model, response{"}"}` for listwise ranking.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -1,24 +1,58 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useEffect, useState, useRef } from "react";
 import { toast } from "sonner";
 import Papa from "papaparse";
-import { Upload, Play, Download, Loader2, CheckCircle, XCircle, Clock, Sparkles } from "lucide-react";
+import { nanoid } from "nanoid";
+import { Upload, Play, Download, Loader2, CheckCircle, XCircle, Clock, Sparkles, Hourglass, Ban } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
 import { ModelSelector } from "@/components/model-selector";
 import { RubricSelector } from "@/components/rubric-selector";
+import {
+  JudgePromptSelector,
+  useJudgePromptVersion,
+} from "@/components/judge-prompt-selector";
 import { NoApiKeyBanner } from "@/components/no-api-key-banner";
+import { PositionBiasPolicySelect } from "@/components/position-bias-policy-select";
+import { PreferenceScaleSelect } from "@/components/preference-scale-select";
 import { AggregateScoreBadge } from "@/components/score-badge";
+import { ConversationThread } from "@/components/conversation-thread";
+import { TrajectoryView } from "@/components/trajectory-view";
 import { useStore } from "@/lib/store";
-import { getApiKeyHeaders, getDefaultModelId } from "@/lib/api-key-headers";
+import {
+  getApiKeyHeaders,
+  getDefaultModelId,
+  getJudgeRequestFields,
+} from "@/lib/api-key-headers";
+import { getModelById } from "@/lib/models";
 import { getBuiltInRubricById } from "@/lib/rubric-templates";
-import { truncate } from "@/lib/utils";
+import { formatCost, formatTokens, truncate } from "@/lib/utils";
+import { isDegraded } from "@/lib/judge-validation";
+import { INJECTION_SIGNAL_LABELS } from "@/lib/prompt-injection";
+import { DEFAULT_POSITION_BIAS_POLICY } from "@/lib/position-bias";
+import { preferenceLabel } from "@/lib/preference";
+import { parseConversationMessages, resolveConversationRow } from "@/lib/conversation";
+import { parseTrajectory, resolveTrajectoryRow } from "@/lib/trajectory";
 import { BATCH_DEMO_ROWS, BATCH_DEMO_RUBRIC_ID } from "@/lib/demo-data";
-import type { EvalResult, BatchRowStatus, EvaluationMode } from "@/lib/types";
+import type {
+  AgentTrajectory,
+  EvalResult,
+  BatchRowStatus,
+  BudgetErrorResponse,
+  ConversationMessage,
+  ConversationScope,
+  CostEstimate,
+  EvaluationMode,
+  JudgeErrorCode,
+  JudgeErrorResponse,
+  PositionBiasPolicy,
+  PreferenceScale,
+} from "@/lib/types";
 
 interface BatchRow {
   index: number;
@@ -28,12 +62,46 @@ interface BatchRow {
   responseA?: string;
   responseB?: string;
   context?: string;
+  referenceAnswer?: string;
+  messages?: ConversationMessage[];
+  conversationScope?: ConversationScope;
+  trajectory?: AgentTrajectory;
   status: BatchRowStatus;
   result?: EvalResult;
   error?: string;
+  errorCode?: JudgeErrorCode;
   validationError?: string;
 }
 
+const MAX_RATE_LIMIT_RETRIES = 3;
+const RATE_LIMIT_FALLBACK_WAIT_MS = 5000;
+
+const ERROR_CODE_LABELS: Record<JudgeErrorCode, string> = {
+  rate_limited: "Rate limited",
+  provider_unavailable: "Provider unavailable",
+};
+
+class BatchRowError extends Error {
+  code?: JudgeErrorCode;
+
+  constructor(message: string, code?: JudgeErrorCode) {
+    super(message);
+    this.code = code;
+  }
+}
+
+/** Thrown when the server refuses a row because a spend budget is exhausted. */
+class BudgetStopError extends Error {}
+
+async function waitUnlessAborted(ms: number, aborted: () => boolean) {
+  const until = Date.now() + ms;
+  while (Date.now() < until && !aborted()) {
+    await new Promise((resolve) =>
+      setTimeout(resolve, Math.min(250, until - Date.now()))
+    );
+  }
+}
+
 function StatusIcon({ status }: { status: BatchRowStatus }) {
   switch (status) {
     case "done":
@@ -42,15 +110,31 @@ function StatusIcon({ status }: { status: BatchRowStatus }) {
       return <XCircle className="h-4 w-4 text-red-500" />;
     case "running":
       return <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />;
+    case "waiting":
+      return <Hourglass className="h-4 w-4 text-amber-500" />;
+    case "skipped":
+      return <Ban className="h-4 w-4 text-muted-foreground" />;
     default:
       return <Clock className="h-4 w-4 text-muted-foreground" />;
   }
 }
 
 function RowResultPreview({ result }: { result: EvalResult }) {
+  const degraded = isDegraded(result) && (
+    <Badge
+      variant="outline"
+      className="ml-1.5 text-[10px] border-amber-200 text-amber-700"
+      title={result.validation?.issues.map((issue) => issue.message).join("\n")}
+    >
+      degraded
+    </Badge>
+  );
   if (result.mode === "single") {
     return (
-      <AggregateScoreBadge score={result.aggregateScore} size="sm" />
+      <span className="inline-flex items-center">
+        <AggregateScoreBadge score={result.aggregateScore} size="sm" />
+        {degraded}
+      </span>
     );
   }
   const winner =
@@ -60,18 +144,21 @@ function RowResultPreview({ result }: { result: EvalResult }) {
         ? "A wins"
         : "B wins";
   return (
-    <Badge
-      variant="outline"
-      className={
-        result.verdict === "A"
-          ? "border-green-200 text-green-700"
-          : result.verdict === "B"
-            ? "border-blue-200 text-blue-700"
-            : ""
-      }
-    >
-      {winner}
-    </Badge>
+    <span className="inline-flex items-center">
+      <Badge
+        variant="outline"
+        className={
+          result.verdict === "A"
+            ? "border-green-200 text-green-700"
+            : result.verdict === "B"
+              ? "border-blue-200 text-blue-700"
+              : ""
+        }
+      >
+        {winner}
+      </Badge>
+      {degraded}
+    </span>
   );
 }
 
@@ -82,10 +169,17 @@ export default function BatchPage() {
     () => getDefaultModelId(settings.apiKeys) ?? settings.defaultModelId
   );
   const [rubricId, setRubricId] = useState(settings.defaultRubricId);
+  const [promptKey, setPromptKey] = useState(settings.defaultJudgePromptKey);
+  const promptTemplate = useJudgePromptVersion(promptKey);
+  const [detectBias, setDetectBias] = useState(false);
+  const [biasPolicy, setBiasPolicy] = useState<PositionBiasPolicy>(DEFAULT_POSITION_BIAS_POLICY);
+  const [preferenceScale, setPreferenceScale] = useState<PreferenceScale | undefined>();
   const [rows, setRows] = useState<BatchRow[]>([]);
   const [running, setRunning] = useState(false);
   const [done, setDone] = useState(false);
   const [parseIssues, setParseIssues] = useState<string[]>([]);
+  const [budgetStop, setBudgetStop] = useState<string | null>(null);
+  const [estimate, setEstimate] = useState<CostEstimate | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const abortRef = useRef(false);
 
@@ -96,6 +190,55 @@ export default function BatchPage() {
     );
   }
 
+  const rubric = getRubric();
+
+  // Estimate the valid rows whenever the file, judge or rubric changes.
+  useEffect(() => {
+    const estimateRows = rows
+      .filter((r) => !r.validationError)
+      .map((r) => ({
+        mode: r.mode,
+        prompt: r.prompt,
+        response: r.response,
+        responseA: r.responseA,
+        responseB: r.responseB,
+        context: r.context,
+        referenceAnswer: r.referenceAnswer,
+        messages: r.messages,
+        conversationScope: r.conversationScope,
+        trajectory: r.trajectory,
+      }));
+    if (running || !rubric || estimateRows.length === 0) return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch("/api/experiments/estimate", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          signal: controller.signal,
+          body: JSON.stringify({
+            rows: estimateRows,
+            rubricId: rubric.id,
+            rubric,
+            promptTemplate,
+            judgeModelId: modelId,
+            models: [getModelById(modelId, settings)].filter(Boolean),
+            detectPositionBias: detectBias,
+            positionBiasPolicy: biasPolicy,
+          }),
+        });
+        const data = (await res.json()) as { estimate?: CostEstimate };
+        setEstimate(res.ok && data.estimate ? data.estimate : null);
+      } catch {
+        if (!controller.signal.aborted) setEstimate(null);
+      }
+    }, 300);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [rows, running, rubric, promptTemplate, modelId, settings, detectBias, biasPolicy]);
+
   function handleFileUpload(file: File) {
     if (!file) return;
     const isJsonl = file.name.endsWith(".jsonl") || file.name.endsWith(".ndjson");
@@ -168,17 +311,44 @@ export default function BatchPage() {
   function convertToRows(data: Record<string, unknown>[]): BatchRow[] {
     return data.map((row, i) => {
       const explicitMode = getStringField(row, "mode").toLowerCase();
-      const prompt = getStringField(row, "prompt");
-      const response = getStringField(row, "response");
+      let prompt = getStringField(row, "prompt");
+      let response = getStringField(row, "response");
       const responseA = getStringField(row, "responseA", "response_a");
       const responseB = getStringField(row, "responseB", "response_b");
       const context = getStringField(row, "context") || undefined;
+      const referenceAnswer =
+        getStringField(row, "reference", "reference_answer", "referenceAnswer") || undefined;
+
+      let validationError = "";
+      let messages: ConversationMessage[] | undefined;
+      if (row.messages !== undefined && row.messages !== null && row.messages !== "") {
+        const conversation = parseConversationMessages(row.messages);
+        if (conversation.ok) {
+          messages = conversation.messages;
+        } else {
+          validationError = conversation.error;
+        }
+      }
+
+      let trajectory: AgentTrajectory | undefined;
+      if (row.trajectory !== undefined && row.trajectory !== null && row.trajectory !== "") {
+        const parsed = parseTrajectory(row.trajectory);
+        if (!parsed.ok) {
+          validationError = validationError || parsed.error;
+        } else if (messages) {
+          validationError = validationError || "Use either `messages` or `trajectory`, not both.";
+        } else {
+          trajectory = parsed.trajectory;
+        }
+      }
 
       const hasPairwiseData = !!(responseA || responseB);
-      const hasSingleData = !!response;
+      const hasSingleData =
+        !!response ||
+        !!trajectory ||
+        messages?.[messages.length - 1].role === "assistant";
 
       let mode: EvaluationMode = "single";
-      let validationError = "";
 
       if (explicitMode === "single" || explicitMode === "pairwise") {
         mode = explicitMode;
@@ -192,6 +362,21 @@ export default function BatchPage() {
         validationError = "Missing response content. Provide `response` or `responseA` + `responseB`.";
       }
 
+      if (messages) {
+        const resolved = resolveConversationRow(messages, mode, { prompt, response });
+        messages = resolved.messages;
+        prompt = resolved.prompt;
+        if (mode === "single") response = resolved.response;
+      }
+
+      if (trajectory && mode === "pairwise") {
+        validationError = validationError || "Trajectories are graded in single mode only.";
+      } else if (trajectory) {
+        const resolved = resolveTrajectoryRow(trajectory, { prompt, response });
+        prompt = resolved.prompt;
+        response = resolved.response;
+      }
+
       if (!prompt) {
         validationError = validationError || "Missing required `prompt`.";
       }
@@ -213,6 +398,15 @@ export default function BatchPage() {
         responseA: responseA || undefined,
         responseB: responseB || undefined,
         context,
+        referenceAnswer: mode === "single" ? referenceAnswer : undefined,
+        messages,
+        conversationScope:
+          messages && mode === "single"
+            ? getStringField(row, "conversation_scope").toLowerCase() === "dialogue"
+              ? "dialogue"
+              : "final_turn"
+            : undefined,
+        trajectory: mode === "single" ? trajectory : undefined,
         status: validationError ? "error" : "pending",
         error: validationError || undefined,
         validationError: validationError || undefined,
@@ -221,7 +415,6 @@ export default function BatchPage() {
   }
 
   async function handleRun() {
-    const rubric = getRubric();
     if (!rubric) {
       toast.error("Please select a valid rubric.");
       return;
@@ -233,6 +426,7 @@ export default function BatchPage() {
 
     setRunning(true);
     setDone(false);
+    setBudgetStop(null);
     abortRef.current = false;
 
     const preparedRows = rows.map((r) =>
@@ -242,12 +436,14 @@ export default function BatchPage() {
             status: "error" as BatchRowStatus,
             result: undefined,
             error: r.validationError,
+            errorCode: undefined,
           }
         : {
             ...r,
             status: "pending" as BatchRowStatus,
             result: undefined,
             error: undefined,
+            errorCode: undefined,
           }
     );
     setRows(preparedRows);
@@ -260,7 +456,10 @@ export default function BatchPage() {
       return;
     }
 
-    const headers = getApiKeyHeaders(modelId, settings.apiKeys);
+    const headers = getApiKeyHeaders(modelId, settings.apiKeys, settings);
+    // One id per batch so the server can enforce the per-run budget.
+    const runId = `batch-${nanoid()}`;
+    let stoppedByBudget: string | null = null;
 
     for (let i = 0; i < preparedRows.length; i++) {
       if (abortRef.current) break;
@@ -279,40 +478,100 @@ export default function BatchPage() {
           prompt: row.prompt,
           rubricId: rubric.id,
           rubric,
+          promptTemplate,
           modelId,
+          ...getJudgeRequestFields(modelId, settings),
+          bypassCache: settings.bypassJudgeCache,
+          budgets: settings.budgets,
+          runId,
           context: row.context,
+          messages: row.messages,
         };
 
         if (row.mode === "single") {
           body.response = row.response;
+          body.referenceAnswer = row.referenceAnswer;
+          body.conversationScope = row.conversationScope;
+          body.trajectory = row.trajectory;
         } else {
           body.responseA = row.responseA;
           body.responseB = row.responseB;
+          body.detectPositionBias = detectBias;
+          body.positionBiasPolicy = detectBias ? biasPolicy : undefined;
+          body.preferenceScale = preferenceScale;
         }
 
-        const res = await fetch("/api/evaluate/batch", {
-          method: "POST",
-          headers: { "Content-Type": "application/json", ...headers },
-          body: JSON.stringify(body),
-        });
+        let result: EvalResult | undefined;
+        for (let attempt = 0; ; attempt++) {
+          const res = await fetch("/api/evaluate/batch", {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...headers },
+            body: JSON.stringify(body),
+          });
 
-        if (!res.ok) {
-          const err = await res.json();
-          throw new Error(err.error ?? `HTTP ${res.status}`);
-        }
+          if (res.ok) {
+            result = (await res.json()) as EvalResult;
+            break;
+          }
 
-        const result: EvalResult = await res.json();
+          const err = (await res.json()) as
+            | Partial<JudgeErrorResponse>
+            | Partial<BudgetErrorResponse>;
+          if (err.code === "budget_exceeded") {
+            throw new BudgetStopError(err.error ?? `HTTP ${res.status}`);
+          }
+          const canRetry =
+            err.code === "rate_limited" &&
+            attempt < MAX_RATE_LIMIT_RETRIES &&
+            !abortRef.current;
+          if (!canRetry) {
+            throw new BatchRowError(err.error ?? `HTTP ${res.status}`, err.code);
+          }
+
+          // The server already retried; back off for the provider's window.
+          const waitMs =
+            err.retry?.retryAfterMs ?? RATE_LIMIT_FALLBACK_WAIT_MS * 2 ** attempt;
+          setRows((prev) =>
+            prev.map((r, idx) =>
+              idx === i
+                ? {
+                    ...r,
+                    status: "waiting",
+                    errorCode: err.code,
+                    error: `Rate limited — retrying in ${Math.ceil(waitMs / 1000)}s (${attempt + 1}/${MAX_RATE_LIMIT_RETRIES})`,
+                  }
+                : r
+            )
+          );
+          await waitUnlessAborted(waitMs, () => abortRef.current);
+          if (abortRef.current) throw new BatchRowError("Canceled", err.code);
+          setRows((prev) =>
+            prev.map((r, idx) => (idx === i ? { ...r, status: "running" } : r))
+          );
+        }
 
         setRows((prev) =>
           prev.map((r, idx) =>
-            idx === i ? { ...r, status: "done", result } : r
+            idx === i
+              ? { ...r, status: "done", result, error: undefined, errorCode: undefined }
+              : r
           )
         );
       } catch (err) {
+        if (err instanceof BudgetStopError) {
+          stoppedByBudget = err.message;
+          setRows((prev) =>
+            prev.map((r, idx) =>
+              idx === i ? { ...r, status: "skipped", error: err.message } : r
+            )
+          );
+          break;
+        }
         const msg = err instanceof Error ? err.message : "Unknown error";
+        const errorCode = err instanceof BatchRowError ? err.code : undefined;
         setRows((prev) =>
           prev.map((r, idx) =>
-            idx === i ? { ...r, status: "error", error: msg } : r
+            idx === i ? { ...r, status: "error", error: msg, errorCode } : r
           )
         );
       }
@@ -326,11 +585,22 @@ export default function BatchPage() {
             : r
         )
       );
+    } else if (stoppedByBudget) {
+      setRows((prev) =>
+        prev.map((r) =>
+          r.status === "pending"
+            ? { ...r, status: "skipped", error: "Skipped: spend budget reached" }
+            : r
+        )
+      );
+      setBudgetStop(stoppedByBudget);
     }
 
     setRunning(false);
     setDone(true);
-    if (abortRef.current) {
+    if (stoppedByBudget) {
+      toast.warning("Batch stopped at the spend budget — partial results kept.");
+    } else if (abortRef.current) {
       toast.message("Batch evaluation canceled.");
     } else {
       toast.success("Batch evaluation complete!");
@@ -348,9 +618,21 @@ export default function BatchPage() {
 
       if (row.mode === "single") {
         base.response = row.response;
+        if (row.referenceAnswer) base.reference = row.referenceAnswer;
         if (row.result?.mode === "single") {
           base.aggregate_score = row.result.aggregateScore;
           base.cost_usd = row.result.estimatedCostUsd;
+          if (row.result.input.referenceAnswer) {
+            base.reference_agreement = row.result.criterionScores
+              .map((cs) => `${cs.criterionName}: ${cs.referenceAgreement ?? "unknown"}`)
+              .join("; ");
+          }
+          if (row.result.stepAnnotations) {
+            base.step_issues = row.result.stepAnnotations
+              .filter((a) => a.assessment === "issue")
+              .map((a) => `step ${a.step} (${a.criterionId}): ${a.note}`)
+              .join("; ");
+          }
         }
       } else {
         base.responseA = row.responseA;
@@ -359,11 +641,28 @@ export default function BatchPage() {
           base.aggregate_score_A = row.result.aggregateScoreA;
           base.aggregate_score_B = row.result.aggregateScoreB;
           base.verdict = row.result.verdict;
+          if (row.result.preference !== undefined) {
+            base.preference = preferenceLabel(row.result.preference);
+          }
+          if (row.result.input.detectPositionBias) {
+            base.reversed_verdict = row.result.reversedVerdict;
+            base.order_inconsistent = !!row.result.positionBiasDetected;
+          }
           base.cost_usd = row.result.estimatedCostUsd;
         }
       }
 
+      if (row.result) {
+        base.degraded = isDegraded(row.result);
+        base.validation_issues = row.result.validation?.issues
+          .map((issue) => issue.message)
+          .join(" ");
+        base.injection_flags = row.result.injectionFlags
+          ?.map((flag) => `${flag.source}: ${INJECTION_SIGNAL_LABELS[flag.signal]}`)
+          .join("; ");
+      }
       if (row.error) base.error = row.error;
+      if (row.errorCode) base.error_code = row.errorCode;
       return base;
     });
 
@@ -396,9 +695,34 @@ export default function BatchPage() {
     toast.success(`Demo loaded — ${demoRows.length} rows ready. Click Run Batch to evaluate.`);
   }
 
-  const completed = rows.filter((r) => r.status === "done" || r.status === "error").length;
+  const completed = rows.filter(
+    (r) => r.status === "done" || r.status === "error" || r.status === "skipped"
+  ).length;
   const progress = rows.length > 0 ? (completed / rows.length) * 100 : 0;
 
+  // Degraded results are reported but kept out of the mean score.
+  const results = rows.flatMap((r) => (r.result ? [r.result] : []));
+  const degradedCount = results.filter(isDegraded).length;
+  const inconsistentCount = results.filter(
+    (r) => r.mode === "pairwise" && r.positionBiasDetected
+  ).length;
+  const preferenceMargins = results.flatMap((r) =>
+    r.mode === "pairwise" && r.preference !== undefined ? [r.preference] : []
+  );
+  const meanPreferenceMargin =
+    preferenceMargins.length > 0
+      ? preferenceMargins.reduce((sum, margin) => sum + margin, 0) / preferenceMargins.length
+      : undefined;
+  const cleanScores = results
+    .filter((r) => !isDegraded(r))
+    .map((r) =>
+      r.mode === "single" ? r.aggregateScore : (r.aggregateScoreA + r.aggregateScoreB) / 2
+    );
+  const meanCleanScore =
+    cleanScores.length > 0
+      ? cleanScores.reduce((sum, score) => sum + score, 0) / cleanScores.length
+      : undefined;
+
   return (
     <div className="space-y-6">
       <div className="flex items-start justify-between gap-4">
@@ -432,6 +756,23 @@ export default function BatchPage() {
                 <Label>Rubric</Label>
                 <RubricSelector value={rubricId} onValueChange={setRubricId} />
               </div>
+              <div className="space-y-2">
+                <Label>Judge Prompt</Label>
+                <JudgePromptSelector value={promptKey} onValueChange={setPromptKey} />
+              </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium">Detect Position Bias</p>
+                  <p className="text-xs text-muted-foreground">
+                    Judge pairwise rows in both orders (2× cost)
+                  </p>
+                </div>
+                <Switch checked={detectBias} onCheckedChange={setDetectBias} />
+              </div>
+              {detectBias && (
+                <PositionBiasPolicySelect value={biasPolicy} onChange={setBiasPolicy} />
+              )}
+              <PreferenceScaleSelect value={preferenceScale} onChange={setPreferenceScale} />
             </CardContent>
           </Card>
 
@@ -441,13 +782,20 @@ export default function BatchPage() {
               <CardDescription className="text-xs space-y-1">
                 <p>
                   <strong>CSV columns (single):</strong> prompt, response,
-                  context (optional)
+                  context (optional), reference (optional gold answer)
                 </p>
                 <p>
                   <strong>CSV columns (pairwise):</strong> prompt, responseA,
                   responseB, context (optional)
                 </p>
-                <p>JSONL: one JSON object per line with same fields.</p>
+                <p>
+                  JSONL: one JSON object per line with same fields. A <code>messages</code>{" "}
+                  array of {"{role, content}"} turns replaces prompt/response for
+                  conversations; set <code>conversation_scope</code> to{" "}
+                  <code>dialogue</code> to grade every assistant turn. A{" "}
+                  <code>trajectory</code> of agent steps (single mode) is graded step by
+                  step, with the prompt as the agent&apos;s task.
+                </p>
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-3">
@@ -477,6 +825,18 @@ export default function BatchPage() {
                 </p>
               )}
 
+              {rows.length > 0 && estimate && (
+                <div className="rounded-md border bg-muted/30 p-2 text-xs text-center">
+                  <p>
+                    Estimated cost: <strong>{formatCost(estimate.estimatedCostUsd)}</strong>
+                  </p>
+                  <p className="text-muted-foreground">
+                    {estimate.judgeCalls} judge call{estimate.judgeCalls === 1 ? "" : "s"} ·{" "}
+                    {formatTokens(estimate.inputTokens)} in / {formatTokens(estimate.outputTokens)} out
+                  </p>
+                </div>
+              )}
+
               {parseIssues.length > 0 && (
                 <div className="rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800 space-y-1">
                   <p className="font-medium">Parse issues ({parseIssues.length})</p>
@@ -547,6 +907,47 @@ export default function BatchPage() {
             </div>
           )}
 
+          {budgetStop && (
+            <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              <p className="font-medium">Stopped at spend budget — results are partial.</p>
+              <p className="text-xs mt-0.5">{budgetStop}</p>
+            </div>
+          )}
+
+          {done && results.length > 0 && (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 rounded-md border p-3 text-xs text-muted-foreground">
+              <span>
+                Results: <strong className="text-foreground">{results.length}</strong>
+              </span>
+              <span>
+                Mean score
+                {degradedCount > 0 && " (excluding degraded)"}:{" "}
+                <strong className="text-foreground">
+                  {meanCleanScore === undefined ? "—" : meanCleanScore.toFixed(1)}
+                </strong>
+              </span>
+              {degradedCount > 0 && (
+                <span className="text-amber-700">
+                  Degraded judge output: <strong>{degradedCount}</strong>
+                </span>
+              )}
+              {inconsistentCount > 0 && (
+                <span className="text-orange-700">
+                  Order-inconsistent pairs: <strong>{inconsistentCount}</strong>
+                </span>
+              )}
+              {meanPreferenceMargin !== undefined && (
+                <span>
+                  Mean preference margin (A − B):{" "}
+                  <strong className="text-foreground">
+                    {meanPreferenceMargin > 0 && "+"}
+                    {meanPreferenceMargin.toFixed(2)}
+                  </strong>
+                </span>
+              )}
+            </div>
+          )}
+
           {rows.length === 0 ? (
             <Card
               className="cursor-pointer hover:border-primary/50 transition-colors"
@@ -582,8 +983,62 @@ export default function BatchPage() {
                         <span className="line-clamp-1">
                           {truncate(row.prompt, 60)}
                         </span>
+                        {row.messages && (
+                          <details className="mt-1">
+                            <summary className="text-xs text-muted-foreground cursor-pointer">
+                              {row.messages.length}-message conversation
+                              {row.conversationScope === "dialogue" && " · whole dialogue"}
+                            </summary>
+                            <ConversationThread
+                              messages={row.messages}
+                              scope={row.conversationScope}
+                              className="mt-2 max-h-72 overflow-y-auto"
+                            />
+                          </details>
+                        )}
+                        {row.trajectory && (
+                          <details className="mt-1">
+                            <summary className="text-xs text-muted-foreground cursor-pointer">
+                              {row.trajectory.steps.length}-step agent trajectory
+                            </summary>
+                            <TrajectoryView
+                              trajectory={row.trajectory}
+                              annotations={
+                                row.result?.mode === "single"
+                                  ? row.result.stepAnnotations
+                                  : undefined
+                              }
+                              rubric={rubric}
+                              className="mt-2 max-h-72 overflow-y-auto"
+                            />
+                          </details>
+                        )}
+                        {row.result?.injectionFlags && (
+                          <p
+                            className="text-xs mt-0.5 text-red-600"
+                            title={row.result.injectionFlags.map((f) => f.excerpt).join("\n")}
+                          >
+                            Possible prompt injection:{" "}
+                            {row.result.injectionFlags
+                              .map((f) => `${INJECTION_SIGNAL_LABELS[f.signal].toLowerCase()} (${f.source})`)
+                              .join(", ")}
+                          </p>
+                        )}
                         {row.error && (
-                          <p className="text-xs text-red-500 mt-0.5">
+                          <p
+                            className={`text-xs mt-0.5 ${
+                              row.status === "waiting"
+                                ? "text-amber-600"
+                                : row.status === "skipped"
+                                  ? "text-muted-foreground"
+                                  : "text-red-500"
+                            }`}
+                          >
+                            {row.errorCode && row.status === "error" && (
+                              <Badge variant="outline" className="mr-1.5 text-[10px] border-red-200 text-red-600">
+                                {ERROR_CODE_LABELS[row.errorCode]}
+                              </Badge>
+                            )}
                             {row.error}
                           </p>
                         )}
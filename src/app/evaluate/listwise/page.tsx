@@ -0,0 +1,315 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Play, Plus, Sparkles, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ModelSelector } from "@/components/model-selector";
+import { RubricSelector } from "@/components/rubric-selector";
+import { NoApiKeyBanner } from "@/components/no-api-key-banner";
+import { EvaluationResult } from "@/components/evaluation-result";
+import { useStore } from "@/lib/store";
+import {
+  getApiKeyHeaders,
+  getDefaultModelId,
+  getJudgeRequestFields,
+} from "@/lib/api-key-headers";
+import { getBuiltInRubricById } from "@/lib/rubric-templates";
+import {
+  MAX_LISTWISE_CANDIDATES,
+  MAX_LISTWISE_ORDERINGS,
+  MIN_LISTWISE_CANDIDATES,
+} from "@/lib/listwise";
+import { LISTWISE_DEMO } from "@/lib/demo-data";
+import type { ListwiseCandidate, ListwiseEvalResult } from "@/lib/types";
+
+const ORDERING_OPTIONS = [1, 3, MAX_LISTWISE_ORDERINGS];
+
+function emptyCandidates(): ListwiseCandidate[] {
+  return Array.from({ length: MIN_LISTWISE_CANDIDATES }, () => ({ label: "", response: "" }));
+}
+
+export default function ListwisePage() {
+  const { settings, customRubrics } = useStore();
+
+  const [modelId, setModelId] = useState(
+    () => getDefaultModelId(settings.apiKeys) ?? settings.defaultModelId
+  );
+  const [rubricId, setRubricId] = useState(settings.defaultRubricId);
+  const [prompt, setPrompt] = useState("");
+  const [context, setContext] = useState("");
+  const [candidates, setCandidates] = useState<ListwiseCandidate[]>(emptyCandidates);
+  const [doubleBlind, setDoubleBlind] = useState(true);
+  const [orderings, setOrderings] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<ListwiseEvalResult | null>(null);
+
+  function getRubric() {
+    return (
+      getBuiltInRubricById(rubricId) ??
+      customRubrics.find((r) => r.id === rubricId)
+    );
+  }
+
+  function updateCandidate(index: number, patch: Partial<ListwiseCandidate>) {
+    setCandidates((prev) => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  }
+
+  const ready = prompt.trim() && candidates.every((c) => c.response.trim());
+
+  async function handleEvaluate() {
+    if (!ready) {
+      toast.error("Please fill in the prompt and every response.");
+      return;
+    }
+
+    const rubric = getRubric();
+    if (!rubric) {
+      toast.error("Please select a valid rubric.");
+      return;
+    }
+
+    setLoading(true);
+    setResult(null);
+
+    try {
+      const headers = getApiKeyHeaders(modelId, settings.apiKeys, settings);
+      const res = await fetch("/api/evaluate/listwise", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({
+          prompt,
+          // Labels still name the ranked candidates when the judge is blind.
+          candidates: candidates.map((c) => ({
+            response: c.response,
+            label: c.label?.trim() || undefined,
+          })),
+          rubricId,
+          rubric,
+          modelId,
+          ...getJudgeRequestFields(modelId, settings),
+          bypassCache: settings.bypassJudgeCache,
+          budgets: settings.budgets,
+          doubleBlind,
+          orderings,
+          context: context.trim() || undefined,
+        }),
+      });
+
+      const data = (await res.json()) as ListwiseEvalResult & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? `HTTP ${res.status}`);
+
+      setResult(data);
+      toast.success("Ranking complete!");
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toast.error(`Ranking failed: ${msg}`);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function loadDemo() {
+    setPrompt(LISTWISE_DEMO.prompt);
+    setCandidates(LISTWISE_DEMO.candidates.map((c) => ({ ...c })));
+    setContext("");
+    setRubricId(LISTWISE_DEMO.rubricId);
+    setResult(null);
+    toast.success("Demo loaded — click Rank to run it.");
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <h2 className="text-xl font-semibold tracking-tight">Listwise Ranking</h2>
+          <p className="text-sm text-muted-foreground">
+            Score {MIN_LISTWISE_CANDIDATES}–{MAX_LISTWISE_CANDIDATES} responses to the same
+            prompt and rank them in one judge call.
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadDemo} className="shrink-0 gap-1.5 btn-demo">
+          <Sparkles className="h-3.5 w-3.5" />
+          Load Demo
+        </Button>
+      </div>
+
+      <NoApiKeyBanner />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Input */}
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Judge Configuration</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Judge Model</Label>
+                <ModelSelector value={modelId} onValueChange={setModelId} />
+              </div>
+              <div className="space-y-2">
+                <Label>Rubric</Label>
+                <RubricSelector value={rubricId} onValueChange={setRubricId} />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium">Double-Blind Mode</p>
+                  <p className="text-xs text-muted-foreground">
+                    Hide model labels and shuffle the order responses are shown in
+                  </p>
+                </div>
+                <Switch checked={doubleBlind} onCheckedChange={setDoubleBlind} />
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium">Position Check</p>
+                  <p className="text-xs text-muted-foreground">
+                    Rank again in shuffled orders and average ({orderings}× cost)
+                  </p>
+                </div>
+                <Select
+                  value={String(orderings)}
+                  onValueChange={(v) => setOrderings(Number(v))}
+                >
+                  <SelectTrigger className="h-8 w-32 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ORDERING_OPTIONS.map((n) => (
+                      <SelectItem key={n} value={String(n)}>
+                        {n === 1 ? "Off" : `${n} orderings`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Prompt</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="prompt">Original Prompt</Label>
+                <Textarea
+                  id="prompt"
+                  placeholder="The prompt that was given to every model…"
+                  value={prompt}
+                  onChange={(e) => setPrompt(e.target.value)}
+                  rows={3}
+                  className="resize-y"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="context">
+                  Context{" "}
+                  <span className="text-muted-foreground font-normal">(optional)</span>
+                </Label>
+                <Textarea
+                  id="context"
+                  placeholder="Optional reference answer or system context…"
+                  value={context}
+                  onChange={(e) => setContext(e.target.value)}
+                  rows={2}
+                  className="resize-y"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          {candidates.map((candidate, i) => (
+            <Card key={i}>
+              <CardHeader className="pb-2 flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-sm">Response {i + 1}</CardTitle>
+                {candidates.length > MIN_LISTWISE_CANDIDATES && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => setCandidates((prev) => prev.filter((_, j) => j !== i))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Input
+                  placeholder="Model name (optional)"
+                  value={candidate.label ?? ""}
+                  onChange={(e) => updateCandidate(i, { label: e.target.value })}
+                  className="text-sm"
+                />
+                <Textarea
+                  placeholder={`Paste response ${i + 1} here…`}
+                  value={candidate.response}
+                  onChange={(e) => updateCandidate(i, { response: e.target.value })}
+                  rows={4}
+                  className="resize-y text-sm"
+                />
+              </CardContent>
+            </Card>
+          ))}
+
+          {candidates.length < MAX_LISTWISE_CANDIDATES && (
+            <Button
+              variant="outline"
+              className="w-full gap-1.5"
+              onClick={() => setCandidates((prev) => [...prev, { label: "", response: "" }])}
+            >
+              <Plus className="h-4 w-4" />
+              Add Response
+            </Button>
+          )}
+
+          <Button onClick={handleEvaluate} disabled={loading || !ready} className="w-full">
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {orderings > 1 ? `Running ${orderings} orderings…` : "Ranking…"}
+              </>
+            ) : (
+              <>
+                <Play className="mr-2 h-4 w-4" />
+                Rank
+              </>
+            )}
+          </Button>
+        </div>
+
+        {/* Result */}
+        <div>
+          {result ? (
+            <EvaluationResult result={result} />
+          ) : (
+            <Card className="h-full">
+              <CardContent className="flex items-center justify-center h-full min-h-[400px]">
+                <div className="text-center text-muted-foreground space-y-2">
+                  <div className="text-4xl">🏆</div>
+                  <p className="font-medium">The ranking will appear here</p>
+                  <p className="text-sm">Enter the responses and click Rank.</p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
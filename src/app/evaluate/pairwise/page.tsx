@@ -11,13 +11,34 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { ModelSelector } from "@/components/model-selector";
 import { RubricSelector } from "@/components/rubric-selector";
+import {
+  JudgePromptSelector,
+  useJudgePromptVersion,
+} from "@/components/judge-prompt-selector";
 import { NoApiKeyBanner } from "@/components/no-api-key-banner";
 import { EvaluationResult } from "@/components/evaluation-result";
+import { ConversationInput } from "@/components/conversation-thread";
+import { SamplingControls } from "@/components/sampling-controls";
+import { PositionBiasPolicySelect } from "@/components/position-bias-policy-select";
+import { PreferenceScaleSelect } from "@/components/preference-scale-select";
 import { useStore } from "@/lib/store";
-import { getApiKeyHeaders, getDefaultModelId } from "@/lib/api-key-headers";
+import {
+  getApiKeyHeaders,
+  getDefaultModelId,
+  getJudgeRequestFields,
+} from "@/lib/api-key-headers";
 import { getBuiltInRubricById } from "@/lib/rubric-templates";
+import { parseConversationMessages } from "@/lib/conversation";
 import { PAIRWISE_DEMO } from "@/lib/demo-data";
-import type { PairwiseEvalResult } from "@/lib/types";
+import { EVENT_STREAM_CONTENT_TYPE, readEvalEventStream } from "@/lib/eval-stream";
+import { DEFAULT_POSITION_BIAS_POLICY } from "@/lib/position-bias";
+import type {
+  JudgeSampling,
+  PairwiseEvalPartial,
+  PairwiseEvalResult,
+  PositionBiasPolicy,
+  PreferenceScale,
+} from "@/lib/types";
 
 export default function PairwisePage() {
   const { settings, customRubrics, addResult } = useStore();
@@ -26,16 +47,24 @@ export default function PairwisePage() {
     () => getDefaultModelId(settings.apiKeys) ?? settings.defaultModelId
   );
   const [rubricId, setRubricId] = useState(settings.defaultRubricId);
+  const [promptKey, setPromptKey] = useState(settings.defaultJudgePromptKey);
+  const promptTemplate = useJudgePromptVersion(promptKey);
   const [prompt, setPrompt] = useState("");
   const [responseA, setResponseA] = useState("");
   const [responseB, setResponseB] = useState("");
   const [labelA, setLabelA] = useState("");
   const [labelB, setLabelB] = useState("");
   const [context, setContext] = useState("");
+  const [multiTurn, setMultiTurn] = useState(false);
+  const [messagesText, setMessagesText] = useState("");
   const [doubleBlind, setDoubleBlind] = useState(true);
   const [detectBias, setDetectBias] = useState(false);
+  const [biasPolicy, setBiasPolicy] = useState<PositionBiasPolicy>(DEFAULT_POSITION_BIAS_POLICY);
+  const [preferenceScale, setPreferenceScale] = useState<PreferenceScale | undefined>();
+  const [sampling, setSampling] = useState<JudgeSampling | undefined>();
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<PairwiseEvalResult | null>(null);
+  const [partial, setPartial] = useState<PairwiseEvalPartial | null>(null);
 
   function getRubric() {
     return (
@@ -44,9 +73,27 @@ export default function PairwisePage() {
     );
   }
 
+  const conversation =
+    multiTurn && messagesText.trim() ? parseConversationMessages(messagesText) : undefined;
+  const messages = conversation?.ok ? conversation.messages : undefined;
+  // The judge sees the whole history; lists and history show the last user message.
+  const effectivePrompt = multiTurn
+    ? ([...(messages ?? [])].reverse().find((m) => m.role === "user")?.content ?? "")
+    : prompt;
+
   async function handleEvaluate() {
-    if (!prompt.trim() || !responseA.trim() || !responseB.trim()) {
-      toast.error("Please fill in the prompt and both responses.");
+    if (multiTurn && !messages) {
+      toast.error(
+        conversation?.ok === false ? conversation.error : "Paste the conversation messages."
+      );
+      return;
+    }
+    if (!effectivePrompt.trim() || !responseA.trim() || !responseB.trim()) {
+      toast.error(
+        multiTurn
+          ? "The conversation needs a user message, and both responses are required."
+          : "Please fill in the prompt and both responses."
+      );
       return;
     }
 
@@ -58,23 +105,36 @@ export default function PairwisePage() {
 
     setLoading(true);
     setResult(null);
+    setPartial(null);
 
     try {
-      const headers = getApiKeyHeaders(modelId, settings.apiKeys);
+      const headers = getApiKeyHeaders(modelId, settings.apiKeys, settings);
       const res = await fetch("/api/evaluate/pairwise", {
         method: "POST",
-        headers: { "Content-Type": "application/json", ...headers },
+        headers: {
+          "Content-Type": "application/json",
+          Accept: EVENT_STREAM_CONTENT_TYPE,
+          ...headers,
+        },
         body: JSON.stringify({
-          prompt,
+          prompt: effectivePrompt,
+          messages,
           responseA,
           responseB,
           modelLabelA: doubleBlind ? undefined : labelA.trim() || undefined,
           modelLabelB: doubleBlind ? undefined : labelB.trim() || undefined,
           rubricId,
           rubric,
+          promptTemplate,
           modelId,
+          ...getJudgeRequestFields(modelId, settings),
+          bypassCache: settings.bypassJudgeCache,
+          budgets: settings.budgets,
           doubleBlind,
           detectPositionBias: detectBias,
+          positionBiasPolicy: detectBias ? biasPolicy : undefined,
+          preferenceScale,
+          sampling,
           context: context.trim() || undefined,
         }),
       });
@@ -84,7 +144,18 @@ export default function PairwisePage() {
         throw new Error(err.error ?? `HTTP ${res.status}`);
       }
 
-      const evalResult: PairwiseEvalResult = await res.json();
+      let evalResult: PairwiseEvalResult | undefined;
+      await readEvalEventStream(res, (event) => {
+        if (event.type === "progress" && event.partial.mode === "pairwise") {
+          setPartial(event.partial);
+        } else if (event.type === "result" && event.result.mode === "pairwise") {
+          evalResult = event.result;
+        } else if (event.type === "error") {
+          throw new Error(event.body.error);
+        }
+      });
+      if (!evalResult) throw new Error("Evaluation stream ended without a result");
+
       setResult(evalResult);
       addResult(evalResult);
       toast.success("Evaluation complete!");
@@ -92,6 +163,7 @@ export default function PairwisePage() {
       const msg = err instanceof Error ? err.message : "Unknown error";
       toast.error(`Evaluation failed: ${msg}`);
     } finally {
+      setPartial(null);
       setLoading(false);
     }
   }
@@ -142,6 +214,10 @@ export default function PairwisePage() {
                 <Label>Rubric</Label>
                 <RubricSelector value={rubricId} onValueChange={setRubricId} />
               </div>
+              <div className="space-y-2">
+                <Label>Judge Prompt</Label>
+                <JudgePromptSelector value={promptKey} onValueChange={setPromptKey} />
+              </div>
 
               <div className="flex items-center justify-between">
                 <div>
@@ -162,6 +238,17 @@ export default function PairwisePage() {
                 </div>
                 <Switch checked={detectBias} onCheckedChange={setDetectBias} />
               </div>
+              {detectBias && (
+                <PositionBiasPolicySelect value={biasPolicy} onChange={setBiasPolicy} />
+              )}
+
+              <PreferenceScaleSelect value={preferenceScale} onChange={setPreferenceScale} />
+
+              <SamplingControls
+                value={sampling}
+                onChange={setSampling}
+                costNote={detectBias ? "N× cost per order" : undefined}
+              />
             </CardContent>
           </Card>
 
@@ -170,17 +257,37 @@ export default function PairwisePage() {
               <CardTitle className="text-base">Prompt</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="prompt">Original Prompt</Label>
-                <Textarea
-                  id="prompt"
-                  placeholder="The prompt that was given to both models…"
-                  value={prompt}
-                  onChange={(e) => setPrompt(e.target.value)}
-                  rows={3}
-                  className="resize-y"
-                />
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium">Multi-turn Conversation</p>
+                  <p className="text-xs text-muted-foreground">
+                    Both responses continue a chat history given as JSON messages
+                  </p>
+                </div>
+                <Switch checked={multiTurn} onCheckedChange={setMultiTurn} />
               </div>
+              {multiTurn ? (
+                <div className="space-y-2">
+                  <Label>Conversation So Far</Label>
+                  <ConversationInput
+                    value={messagesText}
+                    onChange={setMessagesText}
+                    placeholder='[{"role":"system","content":"…"},{"role":"user","content":"…"}]'
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="prompt">Original Prompt</Label>
+                  <Textarea
+                    id="prompt"
+                    placeholder="The prompt that was given to both models…"
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                    rows={3}
+                    className="resize-y"
+                  />
+                </div>
+              )}
               <div className="space-y-2">
                 <Label htmlFor="context">
                   Context{" "}
@@ -250,7 +357,7 @@ export default function PairwisePage() {
             onClick={handleEvaluate}
             disabled={
               loading ||
-              !prompt.trim() ||
+              !effectivePrompt.trim() ||
               !responseA.trim() ||
               !responseB.trim()
             }
@@ -274,6 +381,8 @@ export default function PairwisePage() {
         <div>
           {result ? (
             <EvaluationResult result={result} />
+          ) : partial ? (
+            <EvaluationResult result={partial} />
           ) : (
             <Card className="h-full">
               <CardContent className="flex items-center justify-center h-full min-h-[400px]">
@@ -7,15 +7,40 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { ModelSelector } from "@/components/model-selector";
 import { RubricSelector } from "@/components/rubric-selector";
+import {
+  JudgePromptSelector,
+  useJudgePromptVersion,
+} from "@/components/judge-prompt-selector";
 import { NoApiKeyBanner } from "@/components/no-api-key-banner";
 import { EvaluationResult } from "@/components/evaluation-result";
+import { ConversationInput } from "@/components/conversation-thread";
+import { SamplingControls } from "@/components/sampling-controls";
 import { useStore } from "@/lib/store";
-import { getApiKeyHeaders, getDefaultModelId } from "@/lib/api-key-headers";
+import {
+  getApiKeyHeaders,
+  getDefaultModelId,
+  getJudgeRequestFields,
+} from "@/lib/api-key-headers";
 import { getBuiltInRubricById } from "@/lib/rubric-templates";
+import { flattenConversation, parseConversationMessages } from "@/lib/conversation";
 import { SINGLE_DEMO } from "@/lib/demo-data";
-import type { SingleEvalResult } from "@/lib/types";
+import { EVENT_STREAM_CONTENT_TYPE, readEvalEventStream } from "@/lib/eval-stream";
+import type {
+  ConversationScope,
+  JudgeSampling,
+  SingleEvalPartial,
+  SingleEvalResult,
+} from "@/lib/types";
 
 export default function SingleEvalPage() {
   const { settings, customRubrics, addResult } = useStore();
@@ -24,11 +49,19 @@ export default function SingleEvalPage() {
     () => getDefaultModelId(settings.apiKeys) ?? settings.defaultModelId
   );
   const [rubricId, setRubricId] = useState(settings.defaultRubricId);
+  const [promptKey, setPromptKey] = useState(settings.defaultJudgePromptKey);
+  const promptTemplate = useJudgePromptVersion(promptKey);
   const [prompt, setPrompt] = useState("");
   const [response, setResponse] = useState("");
   const [context, setContext] = useState("");
+  const [referenceAnswer, setReferenceAnswer] = useState("");
+  const [multiTurn, setMultiTurn] = useState(false);
+  const [messagesText, setMessagesText] = useState("");
+  const [scope, setScope] = useState<ConversationScope>("final_turn");
+  const [sampling, setSampling] = useState<JudgeSampling | undefined>();
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<SingleEvalResult | null>(null);
+  const [partial, setPartial] = useState<SingleEvalPartial | null>(null);
 
   function getRubric() {
     return (
@@ -37,8 +70,30 @@ export default function SingleEvalPage() {
     );
   }
 
+  const conversation =
+    multiTurn && messagesText.trim() ? parseConversationMessages(messagesText) : undefined;
+  const messages = conversation?.ok ? conversation.messages : undefined;
+  const flat = messages ? flattenConversation(messages) : undefined;
+  const effectivePrompt = multiTurn ? (flat?.prompt ?? "") : prompt;
+  const effectiveResponse = multiTurn ? (flat?.response ?? "") : response;
+
   async function handleEvaluate() {
-    if (!prompt.trim() || !response.trim()) {
+    if (multiTurn) {
+      if (!messages) {
+        toast.error(
+          conversation?.ok === false ? conversation.error : "Paste the conversation messages."
+        );
+        return;
+      }
+      if (!flat?.response.trim()) {
+        toast.error("The conversation must end with the assistant turn to grade.");
+        return;
+      }
+      if (!flat.prompt.trim()) {
+        toast.error("The conversation needs at least one user message.");
+        return;
+      }
+    } else if (!prompt.trim() || !response.trim()) {
       toast.error("Please fill in both the prompt and response fields.");
       return;
     }
@@ -51,19 +106,31 @@ export default function SingleEvalPage() {
 
     setLoading(true);
     setResult(null);
+    setPartial(null);
 
     try {
-      const headers = getApiKeyHeaders(modelId, settings.apiKeys);
+      const headers = getApiKeyHeaders(modelId, settings.apiKeys, settings);
       const res = await fetch("/api/evaluate/single", {
         method: "POST",
-        headers: { "Content-Type": "application/json", ...headers },
+        headers: {
+          "Content-Type": "application/json",
+          Accept: EVENT_STREAM_CONTENT_TYPE,
+          ...headers,
+        },
         body: JSON.stringify({
-          prompt,
-          response,
+          prompt: effectivePrompt,
+          response: effectiveResponse,
+          ...(messages && { messages, conversationScope: scope }),
           rubricId,
           rubric,
+          promptTemplate,
           modelId,
+          ...getJudgeRequestFields(modelId, settings),
+          bypassCache: settings.bypassJudgeCache,
+          budgets: settings.budgets,
+          sampling,
           context: context.trim() || undefined,
+          referenceAnswer: referenceAnswer.trim() || undefined,
         }),
       });
 
@@ -72,7 +139,18 @@ export default function SingleEvalPage() {
         throw new Error(err.error ?? `HTTP ${res.status}`);
       }
 
-      const evalResult: SingleEvalResult = await res.json();
+      let evalResult: SingleEvalResult | undefined;
+      await readEvalEventStream(res, (event) => {
+        if (event.type === "progress" && event.partial.mode === "single") {
+          setPartial(event.partial);
+        } else if (event.type === "result" && event.result.mode === "single") {
+          evalResult = event.result;
+        } else if (event.type === "error") {
+          throw new Error(event.body.error);
+        }
+      });
+      if (!evalResult) throw new Error("Evaluation stream ended without a result");
+
       setResult(evalResult);
       addResult(evalResult);
       toast.success("Evaluation complete!");
@@ -80,6 +158,7 @@ export default function SingleEvalPage() {
       const msg = err instanceof Error ? err.message : "Unknown error";
       toast.error(`Evaluation failed: ${msg}`);
     } finally {
+      setPartial(null);
       setLoading(false);
     }
   }
@@ -88,6 +167,7 @@ export default function SingleEvalPage() {
     setPrompt(SINGLE_DEMO.prompt);
     setResponse(SINGLE_DEMO.response);
     setContext(SINGLE_DEMO.context);
+    setReferenceAnswer("");
     setRubricId(SINGLE_DEMO.rubricId);
     setResult(null);
     toast.success("Demo loaded — click Evaluate to run it.");
@@ -126,6 +206,11 @@ export default function SingleEvalPage() {
                 <Label>Rubric</Label>
                 <RubricSelector value={rubricId} onValueChange={setRubricId} />
               </div>
+              <div className="space-y-2">
+                <Label>Judge Prompt</Label>
+                <JudgePromptSelector value={promptKey} onValueChange={setPromptKey} />
+              </div>
+              <SamplingControls value={sampling} onChange={setSampling} />
             </CardContent>
           </Card>
 
@@ -137,29 +222,69 @@ export default function SingleEvalPage() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="prompt">Original Prompt</Label>
-                <Textarea
-                  id="prompt"
-                  placeholder="What was the user's question or instruction?"
-                  value={prompt}
-                  onChange={(e) => setPrompt(e.target.value)}
-                  rows={4}
-                  className="resize-y"
-                />
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium">Multi-turn Conversation</p>
+                  <p className="text-xs text-muted-foreground">
+                    Paste chat messages as a JSON array instead of a single prompt
+                  </p>
+                </div>
+                <Switch checked={multiTurn} onCheckedChange={setMultiTurn} />
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="response">LLM Response to Evaluate</Label>
-                <Textarea
-                  id="response"
-                  placeholder="Paste the LLM response you want to judge…"
-                  value={response}
-                  onChange={(e) => setResponse(e.target.value)}
-                  rows={6}
-                  className="resize-y"
-                />
-              </div>
+              {multiTurn ? (
+                <>
+                  <div className="space-y-2">
+                    <Label>Conversation</Label>
+                    <ConversationInput
+                      value={messagesText}
+                      onChange={setMessagesText}
+                      scope={scope}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Grade</Label>
+                    <Select
+                      value={scope}
+                      onValueChange={(v) => setScope(v as ConversationScope)}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="final_turn">Final assistant turn only</SelectItem>
+                        <SelectItem value="dialogue">Whole dialogue</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="prompt">Original Prompt</Label>
+                    <Textarea
+                      id="prompt"
+                      placeholder="What was the user's question or instruction?"
+                      value={prompt}
+                      onChange={(e) => setPrompt(e.target.value)}
+                      rows={4}
+                      className="resize-y"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="response">LLM Response to Evaluate</Label>
+                    <Textarea
+                      id="response"
+                      placeholder="Paste the LLM response you want to judge…"
+                      value={response}
+                      onChange={(e) => setResponse(e.target.value)}
+                      rows={6}
+                      className="resize-y"
+                    />
+                  </div>
+                </>
+              )}
 
               <div className="space-y-2">
                 <Label htmlFor="context">
@@ -168,7 +293,7 @@ export default function SingleEvalPage() {
                 </Label>
                 <Textarea
                   id="context"
-                  placeholder="Optional: system prompt, reference answer, or additional context for the judge…"
+                  placeholder="Optional: system prompt or additional context for the judge…"
                   value={context}
                   onChange={(e) => setContext(e.target.value)}
                   rows={3}
@@ -176,9 +301,24 @@ export default function SingleEvalPage() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="reference-answer">
+                  Reference Answer{" "}
+                  <span className="text-muted-foreground font-normal">(optional)</span>
+                </Label>
+                <Textarea
+                  id="reference-answer"
+                  placeholder="A known-correct answer. When given, the judge grades correctness against it."
+                  value={referenceAnswer}
+                  onChange={(e) => setReferenceAnswer(e.target.value)}
+                  rows={3}
+                  className="resize-y"
+                />
+              </div>
+
               <Button
                 onClick={handleEvaluate}
-                disabled={loading || !prompt.trim() || !response.trim()}
+                disabled={loading || !effectivePrompt.trim() || !effectiveResponse.trim()}
                 className="w-full"
               >
                 {loading ? (
@@ -201,6 +341,8 @@ export default function SingleEvalPage() {
         <div>
           {result ? (
             <EvaluationResult result={result} />
+          ) : partial ? (
+            <EvaluationResult result={partial} />
           ) : (
             <Card className="h-full">
               <CardContent className="flex items-center justify-center h-full min-h-[400px]">
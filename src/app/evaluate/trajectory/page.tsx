@@ -0,0 +1,287 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Play, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { ModelSelector } from "@/components/model-selector";
+import { RubricSelector } from "@/components/rubric-selector";
+import {
+  JudgePromptSelector,
+  useJudgePromptVersion,
+} from "@/components/judge-prompt-selector";
+import { NoApiKeyBanner } from "@/components/no-api-key-banner";
+import { EvaluationResult } from "@/components/evaluation-result";
+import { TrajectoryInput } from "@/components/trajectory-view";
+import { useStore } from "@/lib/store";
+import {
+  getApiKeyHeaders,
+  getDefaultModelId,
+  getJudgeRequestFields,
+} from "@/lib/api-key-headers";
+import { getBuiltInRubricById } from "@/lib/rubric-templates";
+import { parseTrajectory, trajectoryFinalAnswer } from "@/lib/trajectory";
+import { TRAJECTORY_DEMO } from "@/lib/demo-data";
+import { EVENT_STREAM_CONTENT_TYPE, readEvalEventStream } from "@/lib/eval-stream";
+import type { SingleEvalPartial, SingleEvalResult } from "@/lib/types";
+
+export default function TrajectoryEvalPage() {
+  const { settings, customRubrics, addResult } = useStore();
+
+  const [modelId, setModelId] = useState(
+    () => getDefaultModelId(settings.apiKeys) ?? settings.defaultModelId
+  );
+  const [rubricId, setRubricId] = useState("builtin-agent-trajectory");
+  const [promptKey, setPromptKey] = useState(settings.defaultJudgePromptKey);
+  const promptTemplate = useJudgePromptVersion(promptKey);
+  const [task, setTask] = useState("");
+  const [trajectoryText, setTrajectoryText] = useState("");
+  const [context, setContext] = useState("");
+  const [referenceAnswer, setReferenceAnswer] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<SingleEvalResult | null>(null);
+  const [partial, setPartial] = useState<SingleEvalPartial | null>(null);
+
+  function getRubric() {
+    return (
+      getBuiltInRubricById(rubricId) ??
+      customRubrics.find((r) => r.id === rubricId)
+    );
+  }
+
+  const parsed = trajectoryText.trim() ? parseTrajectory(trajectoryText) : undefined;
+  const trajectory = parsed?.ok ? parsed.trajectory : undefined;
+
+  async function handleEvaluate() {
+    if (!task.trim()) {
+      toast.error("Describe the task the agent was given.");
+      return;
+    }
+    if (!trajectory) {
+      toast.error(parsed?.ok === false ? parsed.error : "Paste the agent trajectory.");
+      return;
+    }
+
+    const rubric = getRubric();
+    if (!rubric) {
+      toast.error("Please select a valid rubric.");
+      return;
+    }
+
+    setLoading(true);
+    setResult(null);
+    setPartial(null);
+
+    try {
+      const headers = getApiKeyHeaders(modelId, settings.apiKeys, settings);
+      const res = await fetch("/api/evaluate/single", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: EVENT_STREAM_CONTENT_TYPE,
+          ...headers,
+        },
+        body: JSON.stringify({
+          prompt: task,
+          // Lists and history show the agent's answer; the judge sees every step.
+          response: trajectoryFinalAnswer(trajectory) || "(no final answer)",
+          trajectory,
+          rubricId,
+          rubric,
+          promptTemplate,
+          modelId,
+          ...getJudgeRequestFields(modelId, settings),
+          bypassCache: settings.bypassJudgeCache,
+          budgets: settings.budgets,
+          context: context.trim() || undefined,
+          referenceAnswer: referenceAnswer.trim() || undefined,
+        }),
+      });
+
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+
+      let evalResult: SingleEvalResult | undefined;
+      await readEvalEventStream(res, (event) => {
+        if (event.type === "progress" && event.partial.mode === "single") {
+          setPartial(event.partial);
+        } else if (event.type === "result" && event.result.mode === "single") {
+          evalResult = event.result;
+        } else if (event.type === "error") {
+          throw new Error(event.body.error);
+        }
+      });
+      if (!evalResult) throw new Error("Evaluation stream ended without a result");
+
+      setResult(evalResult);
+      addResult(evalResult);
+      toast.success("Evaluation complete!");
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toast.error(`Evaluation failed: ${msg}`);
+    } finally {
+      setPartial(null);
+      setLoading(false);
+    }
+  }
+
+  function loadDemo() {
+    setTask(TRAJECTORY_DEMO.prompt);
+    setTrajectoryText(TRAJECTORY_DEMO.trajectory);
+    setContext(TRAJECTORY_DEMO.context);
+    setReferenceAnswer("");
+    setRubricId(TRAJECTORY_DEMO.rubricId);
+    setResult(null);
+    toast.success("Demo loaded — click Evaluate to run it.");
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <h2 className="text-xl font-semibold tracking-tight">Agent Trajectory</h2>
+          <p className="text-sm text-muted-foreground">
+            Grade an agent run step by step: its tool calls and arguments as well as its answer.
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadDemo} className="shrink-0 gap-1.5 btn-demo">
+          <Sparkles className="h-3.5 w-3.5" />
+          Load Demo
+        </Button>
+      </div>
+
+      <NoApiKeyBanner />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Input form */}
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Judge Configuration</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Judge Model</Label>
+                <ModelSelector value={modelId} onValueChange={setModelId} />
+              </div>
+              <div className="space-y-2">
+                <Label>Rubric</Label>
+                <RubricSelector value={rubricId} onValueChange={setRubricId} />
+                <p className="text-xs text-muted-foreground">
+                  Criteria marked step-level get per-step annotations; with none marked,
+                  every criterion does.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label>Judge Prompt</Label>
+                <JudgePromptSelector value={promptKey} onValueChange={setPromptKey} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Agent Run</CardTitle>
+              <CardDescription>
+                The task, and the agent&apos;s steps as JSON: thoughts, tool calls with their
+                arguments, tool results, messages and the final answer.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="task">Task</Label>
+                <Textarea
+                  id="task"
+                  placeholder="What was the agent asked to do?"
+                  value={task}
+                  onChange={(e) => setTask(e.target.value)}
+                  rows={3}
+                  className="resize-y"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Trajectory</Label>
+                <TrajectoryInput value={trajectoryText} onChange={setTrajectoryText} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="context">
+                  Reference Context{" "}
+                  <span className="text-muted-foreground font-normal">(optional)</span>
+                </Label>
+                <Textarea
+                  id="context"
+                  placeholder="Optional: system prompt, environment notes or known pitfalls…"
+                  value={context}
+                  onChange={(e) => setContext(e.target.value)}
+                  rows={2}
+                  className="resize-y"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="reference-answer">
+                  Reference Answer{" "}
+                  <span className="text-muted-foreground font-normal">(optional)</span>
+                </Label>
+                <Textarea
+                  id="reference-answer"
+                  placeholder="A known-correct final answer to grade the outcome against."
+                  value={referenceAnswer}
+                  onChange={(e) => setReferenceAnswer(e.target.value)}
+                  rows={2}
+                  className="resize-y"
+                />
+              </div>
+
+              <Button
+                onClick={handleEvaluate}
+                disabled={loading || !task.trim() || !trajectory}
+                className="w-full"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Evaluating…
+                  </>
+                ) : (
+                  <>
+                    <Play className="mr-2 h-4 w-4" />
+                    Evaluate
+                  </>
+                )}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Result panel */}
+        <div>
+          {result ? (
+            <EvaluationResult result={result} />
+          ) : partial ? (
+            <EvaluationResult result={partial} />
+          ) : (
+            <Card className="h-full">
+              <CardContent className="flex items-center justify-center h-full min-h-[400px]">
+                <div className="text-center text-muted-foreground space-y-2">
+                  <div className="text-4xl">🧭</div>
+                  <p className="font-medium">Step-by-step results will appear here</p>
+                  <p className="text-sm">
+                    Paste an agent run and click Evaluate to get started.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
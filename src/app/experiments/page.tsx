@@ -22,6 +22,7 @@ import {
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -30,10 +31,27 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { RubricSelector } from "@/components/rubric-selector";
-import { MODELS } from "@/lib/models";
+import {
+  JudgePromptSelector,
+  useJudgePromptTemplates,
+  useJudgePromptVersion,
+} from "@/components/judge-prompt-selector";
+import { PositionBiasPolicySelect } from "@/components/position-bias-policy-select";
+import { PreferenceScaleSelect } from "@/components/preference-scale-select";
+import { getModelById, listModels } from "@/lib/models";
+import { DEFAULT_POSITION_BIAS_POLICY } from "@/lib/position-bias";
+import { getBuiltInRubricById } from "@/lib/rubric-templates";
 import { useStore } from "@/lib/store";
 import { formatCost, formatDate, formatTokens } from "@/lib/utils";
-import type { ExperimentRun, RunComparison } from "@/lib/types";
+import type {
+  CostBasis,
+  CostEstimate,
+  EvaluationMode,
+  ExperimentRun,
+  PositionBiasPolicy,
+  PreferenceScale,
+  RunComparison,
+} from "@/lib/types";
 
 interface DatasetSummary {
   id: string;
@@ -50,15 +68,16 @@ interface DatasetVersionSummary {
   format: "csv" | "jsonl";
 }
 
-const DEFAULT_PROMPT_VERSION = {
-  id: "judge-prompt",
-  versionNumber: 1,
-  createdAt: "2026-01-01T00:00:00.000Z",
-  notes: "Structured JSON grading prompt v1",
-};
-
 const DEMO_RUBRIC_ID = "builtin-overall";
 
+type RunModeFilter = "all" | EvaluationMode | "reference_guided";
+
+function matchesModeFilter(run: ExperimentRun, filter: RunModeFilter): boolean {
+  if (filter === "all") return true;
+  if (filter === "reference_guided") return Boolean(run.config.referenceGuided);
+  return run.config.evalMode === filter;
+}
+
 const EXPERIMENT_DEMO_JSONL = `{"prompt":"Explain RAG to a product manager in 3 bullets.","response":"RAG retrieves relevant documents before generation so responses are grounded.","task_type":"explanation","difficulty":"easy","language":"en"}
 {"prompt":"Write a concise postmortem summary for an API outage.","response":"Summarize timeline, impact, root cause, fixes, and prevention actions.","task_type":"ops","difficulty":"medium","language":"en"}
 {"prompt":"Propose 3 test cases for checkout discount logic.","response":"Include valid coupon, expired coupon, and stacked coupon rejection scenarios.","task_type":"qa","difficulty":"medium","language":"en"}`;
@@ -80,6 +99,7 @@ export default function ExperimentsPage() {
     settings,
     experimentRuns,
     history,
+    customRubrics,
     addExperimentRun,
     getLatestRubricVersionRef,
   } = useStore();
@@ -97,10 +117,22 @@ export default function ExperimentsPage() {
   const [evalMode, setEvalMode] = useState<"single" | "pairwise">("single");
   const [modelId, setModelId] = useState(settings.defaultModelId);
   const [rubricId, setRubricId] = useState(settings.defaultRubricId);
+  const [promptKey, setPromptKey] = useState(settings.defaultJudgePromptKey);
+  const promptTemplate = useJudgePromptVersion(promptKey);
+  const promptTemplates = useJudgePromptTemplates();
   const [repeats, setRepeats] = useState("1");
+  const [detectPositionBias, setDetectPositionBias] = useState(false);
+  const [positionBiasPolicy, setPositionBiasPolicy] = useState<PositionBiasPolicy>(
+    DEFAULT_POSITION_BIAS_POLICY
+  );
+  const [preferenceScale, setPreferenceScale] = useState<PreferenceScale | undefined>();
+  const [allowPartial, setAllowPartial] = useState(false);
+  const [estimate, setEstimate] = useState<CostEstimate | null>(null);
 
   const [baselineRunId, setBaselineRunId] = useState("");
   const [candidateRunId, setCandidateRunId] = useState("");
+  const [costBasis, setCostBasis] = useState<CostBasis>(settings.costBasis);
+  const [modeFilter, setModeFilter] = useState<RunModeFilter>("all");
 
   async function fetchDatasets() {
     const res = await fetch("/api/datasets", { cache: "no-store" });
@@ -163,21 +195,74 @@ export default function ExperimentsPage() {
     })();
   }, [datasetId]);
 
+  const rubric = useMemo(
+    () => getBuiltInRubricById(rubricId) ?? customRubrics.find((r) => r.id === rubricId),
+    [rubricId, customRubrics]
+  );
+  const repeatsNum = Math.max(1, Math.min(10, Number(repeats) || 1));
+
+  // Re-estimate shortly after the configuration settles.
+  useEffect(() => {
+    if (!datasetId || !datasetVersionId || !rubric || !modelId) return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch("/api/experiments/estimate", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          signal: controller.signal,
+          body: JSON.stringify({
+            datasetId,
+            datasetVersionId,
+            evalMode,
+            rubricId: rubric.id,
+            rubric,
+            promptTemplate,
+            judgeModelId: modelId,
+            models: [getModelById(modelId, settings)].filter(Boolean),
+            repeats: repeatsNum,
+            detectPositionBias: evalMode === "pairwise" && detectPositionBias,
+            positionBiasPolicy,
+          }),
+        });
+        const data = (await res.json()) as { estimate?: CostEstimate };
+        setEstimate(res.ok && data.estimate ? data.estimate : null);
+      } catch {
+        if (!controller.signal.aborted) setEstimate(null);
+      }
+    }, 300);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [
+    datasetId,
+    datasetVersionId,
+    evalMode,
+    rubric,
+    promptTemplate,
+    modelId,
+    settings,
+    repeatsNum,
+    detectPositionBias,
+    positionBiasPolicy,
+  ]);
+
   const allRuns = useMemo(() => {
     const byId = new Map<string, ExperimentRun>();
     [...remoteRuns, ...experimentRuns].forEach((run) => byId.set(run.id, run));
     return [...byId.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
   }, [remoteRuns, experimentRuns]);
+  const listedRuns = allRuns.filter((run) => matchesModeFilter(run, modeFilter));
 
   async function handleRun() {
-    if (!datasetId || !datasetVersionId || !rubricId || !modelId) {
+    if (!datasetId || !datasetVersionId || !rubric || !modelId) {
       toast.error("Dataset, version, rubric, and model are required.");
       return;
     }
 
     setRunning(true);
     try {
-      const repeatsNum = Math.max(1, Math.min(10, Number(repeats) || 1));
       const rubricVersionRef = getLatestRubricVersionRef(rubricId);
 
       const res = await fetch("/api/experiments/run", {
@@ -189,14 +274,21 @@ export default function ExperimentsPage() {
           datasetVersionId,
           evalMode,
           judgeModelId: modelId,
+          models: [getModelById(modelId, settings)].filter(Boolean),
           rubricId,
+          rubric,
           repeats: repeatsNum,
+          detectPositionBias: evalMode === "pairwise" && detectPositionBias,
+          positionBiasPolicy,
+          preferenceScale: evalMode === "pairwise" ? preferenceScale : undefined,
           rubricVersionRef,
-          judgePromptVersionRef: DEFAULT_PROMPT_VERSION,
+          promptTemplate,
           gates: {
             minMeanAggregateScore: 70,
             minPassRate: 0.6,
           },
+          budgets: settings.budgets,
+          allowPartial,
         }),
       });
       const data = (await res.json()) as { run?: ExperimentRun; error?: string };
@@ -206,7 +298,13 @@ export default function ExperimentsPage() {
 
       addExperimentRun(data.run);
       await fetchRuns();
-      toast.success("Experiment run complete.");
+      if (data.run.partial) {
+        toast.warning(
+          `Stopped at budget after ${data.run.partial.evaluatedCases} of ${data.run.partial.plannedCases} cases.`
+        );
+      } else {
+        toast.success("Experiment run complete.");
+      }
     } catch (err) {
       const message = err instanceof Error ? err.message : "Unknown error";
       toast.error(`Run failed: ${message}`);
@@ -230,7 +328,12 @@ export default function ExperimentsPage() {
       const res = await fetch("/api/experiments/compare", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ baselineRunId, candidateRunId }),
+        body: JSON.stringify({
+          baselineRunId,
+          candidateRunId,
+          costBasis,
+          models: settings.customModels,
+        }),
       });
       const data = (await res.json()) as { comparison?: RunComparison; error?: string };
       if (!res.ok || !data.comparison) {
@@ -376,7 +479,7 @@ export default function ExperimentsPage() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {MODELS.map((model) => (
+                  {listModels(settings).map((model) => (
                     <SelectItem key={model.id} value={model.id}>
                       {model.name}
                     </SelectItem>
@@ -388,6 +491,10 @@ export default function ExperimentsPage() {
               <Label>Rubric</Label>
               <RubricSelector value={rubricId} onValueChange={setRubricId} />
             </div>
+            <div className="space-y-2">
+              <Label>Judge Prompt</Label>
+              <JudgePromptSelector value={promptKey} onValueChange={setPromptKey} />
+            </div>
             <div className="space-y-2">
               <Label>Repeats</Label>
               <Input
@@ -398,6 +505,52 @@ export default function ExperimentsPage() {
                 onChange={(e) => setRepeats(e.target.value)}
               />
             </div>
+            {evalMode === "pairwise" && (
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm font-medium">Position bias check</p>
+                  <p className="text-xs text-muted-foreground">
+                    Judge each pair in both orders. Doubles judge calls.
+                  </p>
+                </div>
+                <Switch checked={detectPositionBias} onCheckedChange={setDetectPositionBias} />
+              </div>
+            )}
+            {evalMode === "pairwise" && detectPositionBias && (
+              <PositionBiasPolicySelect
+                value={positionBiasPolicy}
+                onChange={setPositionBiasPolicy}
+              />
+            )}
+            {evalMode === "pairwise" && (
+              <PreferenceScaleSelect value={preferenceScale} onChange={setPreferenceScale} />
+            )}
+            {estimate && (
+              <div className="rounded-md border bg-muted/30 p-3 text-xs space-y-1">
+                <p className="font-medium text-sm">
+                  Estimated cost: {formatCost(estimate.estimatedCostUsd)}
+                </p>
+                <p className="text-muted-foreground">
+                  {estimate.judgeCalls} judge call{estimate.judgeCalls === 1 ? "" : "s"} ·{" "}
+                  {formatTokens(estimate.inputTokens)} in / {formatTokens(estimate.outputTokens)} out
+                </p>
+                {estimate.byModel.length > 1 &&
+                  estimate.byModel.map((model) => (
+                    <p key={model.modelId} className="text-muted-foreground">
+                      {model.modelId}: {formatCost(model.estimatedCostUsd)}
+                    </p>
+                  ))}
+              </div>
+            )}
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm font-medium">Stop at budget</p>
+                <p className="text-xs text-muted-foreground">
+                  Keep the cases that fit the spend budget instead of failing the run.
+                </p>
+              </div>
+              <Switch checked={allowPartial} onCheckedChange={setAllowPartial} />
+            </div>
             <Button onClick={handleRun} disabled={running} className="w-full gap-2">
               <Play className="h-4 w-4" />
               {running ? "Running..." : "Run Experiment"}
@@ -411,10 +564,22 @@ export default function ExperimentsPage() {
               <div>
                 <CardTitle className="text-base">Run History</CardTitle>
                 <CardDescription>
-                  {allRuns.length} run{allRuns.length === 1 ? "" : "s"} available
+                  {listedRuns.length} run{listedRuns.length === 1 ? "" : "s"}{" "}
+                  {modeFilter === "all" ? "available" : "match"}
                 </CardDescription>
               </div>
-              <CardAction>
+              <CardAction className="flex items-center gap-2">
+                <Select value={modeFilter} onValueChange={(value) => setModeFilter(value as RunModeFilter)}>
+                  <SelectTrigger size="sm" className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All modes</SelectItem>
+                    <SelectItem value="single">Single</SelectItem>
+                    <SelectItem value="reference_guided">Reference-guided</SelectItem>
+                    <SelectItem value="pairwise">Pairwise</SelectItem>
+                  </SelectContent>
+                </Select>
                 <Button
                   variant="outline"
                   size="sm"
@@ -427,24 +592,55 @@ export default function ExperimentsPage() {
               </CardAction>
             </CardHeader>
             <CardContent className="space-y-2">
-              {allRuns.length === 0 ? (
+              {listedRuns.length === 0 ? (
                 <div className="rounded-md border border-dashed p-8 text-center text-muted-foreground">
                   <FlaskConical className="h-8 w-8 mx-auto mb-2 opacity-40" />
-                  No runs yet.
+                  {allRuns.length === 0 ? "No runs yet." : "No runs match this mode."}
                 </div>
               ) : (
-                allRuns.slice(0, 12).map((run) => (
+                listedRuns.slice(0, 12).map((run) => (
                   <div key={run.id} className="rounded-md border p-3">
                     <div className="flex flex-wrap items-center justify-between gap-2">
                       <div className="flex items-center gap-2">
                         <p className="font-medium text-sm">{run.config.name ?? run.id}</p>
                         <Badge variant="outline">{run.runType}</Badge>
+                        {run.synthetic && (
+                          <Badge variant="outline" className="border-amber-200 text-amber-700">
+                            synthetic
+                          </Badge>
+                        )}
                         <Badge variant="secondary">{run.config.evalMode}</Badge>
+                        {run.config.referenceGuided && (
+                          <Badge variant="outline">reference-guided</Badge>
+                        )}
                         {run.rubricVersionRef && (
                           <Badge variant="outline">
                             rubric v{run.rubricVersionRef.versionNumber}
                           </Badge>
                         )}
+                        {run.judgePromptVersionRef && (
+                          <Badge
+                            variant="outline"
+                            title={
+                              promptTemplates.find(
+                                (t) => t.id === run.judgePromptVersionRef?.id
+                              )?.name
+                            }
+                          >
+                            prompt v{run.judgePromptVersionRef.versionNumber}
+                          </Badge>
+                        )}
+                        {run.partial && <Badge variant="destructive">partial</Badge>}
+                        {!!run.metrics.degradedCount && (
+                          <Badge variant="outline" className="border-amber-200 text-amber-700">
+                            {run.metrics.degradedCount} degraded
+                          </Badge>
+                        )}
+                        {!!run.metrics.inconsistentCount && (
+                          <Badge variant="outline" className="border-orange-200 text-orange-700">
+                            {run.metrics.inconsistentCount} order-inconsistent
+                          </Badge>
+                        )}
                       </div>
                       <span className="text-xs text-muted-foreground">{formatDate(run.createdAt)}</span>
                     </div>
@@ -455,6 +651,29 @@ export default function ExperimentsPage() {
                       <div>Tokens: <strong>{formatTokens(run.metrics.inputTokens + run.metrics.outputTokens)}</strong></div>
                       <div>Cost: <strong>{formatCost(run.metrics.estimatedCostUsd)}</strong></div>
                     </div>
+                    {run.metrics.winRateA !== undefined && (
+                      <div className="mt-1 flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                        <span>
+                          Wins A / B / tie:{" "}
+                          <strong className="text-foreground">
+                            {[run.metrics.winRateA, run.metrics.winRateB, run.metrics.tieRate]
+                              .map((rate) => `${((rate ?? 0) * 100).toFixed(0)}%`)
+                              .join(" / ")}
+                          </strong>
+                        </span>
+                        {run.metrics.meanPreferenceMargin !== undefined && (
+                          <span>
+                            Mean margin ({run.config.preferenceScale}-point):{" "}
+                            <strong className="text-foreground">
+                              {signed(run.metrics.meanPreferenceMargin.toFixed(2))}
+                            </strong>
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    {run.partial && (
+                      <p className="text-xs text-amber-600 mt-2">{run.partial.reason}</p>
+                    )}
                     {run.regression && !run.regression.passed && (
                       <p className="text-xs text-red-600 mt-2">{run.regression.reasons.join(" ")}</p>
                     )}
@@ -505,6 +724,19 @@ export default function ExperimentsPage() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label>Cost Basis</Label>
+                <Select value={costBasis} onValueChange={(value) => setCostBasis(value as CostBasis)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="recorded">Recorded (pricing at run time)</SelectItem>
+                    <SelectItem value="reference">Reference (current pricing for both runs)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
               <Button onClick={handleCompare} disabled={comparing || allRuns.length < 2}>
                 {comparing ? "Comparing..." : "Run Comparison"}
               </Button>
@@ -525,7 +757,18 @@ export default function ExperimentsPage() {
                     <p>Score Δ: <strong>{signed(comparison.deltas.meanAggregateScore)}</strong></p>
                     <p>Pass Δ: <strong>{signed((comparison.deltas.passRate * 100).toFixed(2))}%</strong></p>
                     <p>Cost Δ: <strong>{signed(formatCost(comparison.deltas.estimatedCostUsd))}</strong></p>
+                    {comparison.deltas.meanPreferenceMargin !== undefined && (
+                      <p>Margin Δ: <strong>{signed(comparison.deltas.meanPreferenceMargin.toFixed(2))}</strong></p>
+                    )}
                   </div>
+                  {comparison.cost && (
+                    <p className="text-xs text-muted-foreground">
+                      {comparison.cost.basis === "reference"
+                        ? `Costs recomputed at pricing in effect ${formatDate(comparison.cost.referenceDate ?? "")}`
+                        : "Costs as recorded at run time"}
+                      : {formatCost(comparison.cost.baselineCostUsd)} → {formatCost(comparison.cost.candidateCostUsd)}
+                    </p>
+                  )}
                   {comparison.warnings.length > 0 && (
                     <ul className="text-xs text-amber-700 list-disc pl-4 space-y-1">
                       {comparison.warnings.map((warning) => (
@@ -557,6 +800,9 @@ export default function ExperimentsPage() {
                     <div className="flex flex-wrap items-center justify-between gap-2">
                       <div className="flex items-center gap-2">
                         <Badge variant="outline">{result.mode}</Badge>
+                        {result.mode === "single" && result.referenceGuided && (
+                          <Badge variant="outline">reference-guided</Badge>
+                        )}
                         <span className="font-medium">{result.rubric.name}</span>
                       </div>
                       <span className="text-xs text-muted-foreground">{formatDate(result.createdAt)}</span>
@@ -1,20 +1,23 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { toast } from "sonner";
-import { Beaker, ShieldAlert, Sparkles } from "lucide-react";
+import { Beaker, FileJson, ShieldAlert, Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { InjectionCheckCard } from "@/components/injection-check";
+import { JUDGE_PARSE_TIERS, tallyJudgeParse } from "@/lib/judge-output";
+import { useStore } from "@/lib/store";
 import type { BiasCheckResult, CalibrationRun } from "@/lib/types";
 
 const CALIBRATION_DEMO = `[
-  {"humanVerdict":"A","judgeVerdict":"A","humanScore":88,"judgeScore":84},
-  {"humanVerdict":"B","judgeVerdict":"B","humanScore":73,"judgeScore":69},
-  {"humanVerdict":"A","judgeVerdict":"B","humanScore":90,"judgeScore":61},
-  {"humanVerdict":"tie","judgeVerdict":"tie","humanScore":78,"judgeScore":79}
+  {"humanPreference":"A>>B","judgePreference":"A>B","humanScore":88,"judgeScore":84},
+  {"humanPreference":"B>A","judgePreference":"B>A","humanScore":73,"judgeScore":69},
+  {"humanPreference":"A>B","judgePreference":"B>A","humanScore":90,"judgeScore":61},
+  {"humanPreference":"A≈B","judgePreference":"A≈B","humanScore":78,"judgeScore":79}
 ]`;
 
 const BIAS_DEMO = `[
@@ -31,6 +34,8 @@ export default function JudgeQAPage() {
   const [runningBias, setRunningBias] = useState(false);
   const [calibrationRun, setCalibrationRun] = useState<CalibrationRun | null>(null);
   const [biasResult, setBiasResult] = useState<BiasCheckResult | null>(null);
+  const history = useStore((s) => s.history);
+  const parseTallies = useMemo(() => tallyJudgeParse(history), [history]);
 
   function loadDemo() {
     setCalibrationSetName("Synthetic Gold Set");
@@ -114,6 +119,7 @@ export default function JudgeQAPage() {
             </CardTitle>
             <CardDescription>
               Measures exact match, Cohen&apos;s kappa, score correlation, and MAE on a gold set.
+              Graded preferences (A&gt;&gt;B … B&gt;&gt;A) also get a weighted kappa.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -145,6 +151,9 @@ export default function JudgeQAPage() {
                   <p>Sample size: <strong>{calibrationRun.metrics.sampleSize}</strong></p>
                   <p>Exact match: <strong>{(calibrationRun.metrics.exactMatchRate * 100).toFixed(1)}%</strong></p>
                   <p>Cohen κ: <strong>{calibrationRun.metrics.cohenKappa.toFixed(3)}</strong></p>
+                  {calibrationRun.metrics.weightedKappa !== undefined && (
+                    <p>Weighted κ: <strong>{calibrationRun.metrics.weightedKappa.toFixed(3)}</strong></p>
+                  )}
                   <p>Score corr: <strong>{(calibrationRun.metrics.scoreCorrelation ?? 0).toFixed(3)}</strong></p>
                   <p>MAE: <strong>{(calibrationRun.metrics.meanAbsoluteError ?? 0).toFixed(3)}</strong></p>
                 </div>
@@ -201,6 +210,61 @@ export default function JudgeQAPage() {
           </CardContent>
         </Card>
       </div>
+
+      <InjectionCheckCard />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <FileJson className="h-4 w-4" />
+            JSON Recovery
+          </CardTitle>
+          <CardDescription>
+            How each judge model&apos;s replies were parsed across saved evaluations. Extracted,
+            repaired and re-prompted replies needed rescuing.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {parseTallies.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No evaluations with parse details yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-3 font-medium">Judge model</th>
+                    <th className="py-2 pr-3 font-medium text-right">Replies</th>
+                    {JUDGE_PARSE_TIERS.map((tier) => (
+                      <th key={tier} className="py-2 pr-3 font-medium text-right capitalize">
+                        {tier}
+                      </th>
+                    ))}
+                    <th className="py-2 font-medium text-right">Rescued</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {parseTallies.map((tally) => (
+                    <tr key={tally.judgeModelId} className="border-b last:border-0">
+                      <td className="py-2 pr-3 font-medium">{tally.judgeModelName}</td>
+                      <td className="py-2 pr-3 text-right">{tally.total}</td>
+                      {JUDGE_PARSE_TIERS.map((tier) => (
+                        <td key={tier} className="py-2 pr-3 text-right">
+                          {tally.byTier[tier]}
+                        </td>
+                      ))}
+                      <td className="py-2 text-right">
+                        <strong className={tally.rescued > 0 ? "text-amber-700" : undefined}>
+                          {((tally.rescued / tally.total) * 100).toFixed(1)}%
+                        </strong>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
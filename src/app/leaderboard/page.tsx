@@ -0,0 +1,260 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Trophy } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useStore } from "@/lib/store";
+import { getModelById } from "@/lib/models";
+import { getBuiltInRubricById } from "@/lib/rubric-templates";
+import { matchesFromResults, RATING_METHOD_LABELS } from "@/lib/leaderboard";
+import type { Leaderboard, LeaderboardFilters, RatingMethod } from "@/lib/types";
+
+const ALL = "all";
+
+interface LeaderboardReply {
+  leaderboard: Leaderboard;
+  options: { rubricIds: string[]; judgeModelIds: string[]; slices: string[] };
+  sources: { adhoc: number; datasetRuns: number; synthetic: number };
+}
+
+function FilterSelect({
+  label,
+  value,
+  onChange,
+  options,
+}: {
+  label: string;
+  value: string | undefined;
+  onChange: (value: string | undefined) => void;
+  options: Array<{ value: string; label: string }>;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={value ?? ALL} onValueChange={(v) => onChange(v === ALL ? undefined : v)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All</SelectItem>
+          {options.map((o) => (
+            <SelectItem key={o.value} value={o.value}>
+              {o.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export default function LeaderboardPage() {
+  const { history, settings, customRubrics } = useStore();
+  const [method, setMethod] = useState<RatingMethod>("bradley_terry");
+  const [filters, setFilters] = useState<LeaderboardFilters>({});
+  const [includeDatasetRuns, setIncludeDatasetRuns] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [reply, setReply] = useState<LeaderboardReply | null>(null);
+
+  const matches = useMemo(() => matchesFromResults(history), [history]);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      setLoading(true);
+      try {
+        const res = await fetch("/api/leaderboard", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ method, matches, includeDatasetRuns, filters }),
+        });
+        const data = (await res.json()) as LeaderboardReply & { error?: string };
+        if (!res.ok) throw new Error(data.error ?? `HTTP ${res.status}`);
+        if (!cancelled) setReply(data);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        if (!cancelled) toast.error(`Leaderboard failed: ${message}`);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [method, matches, includeDatasetRuns, filters]);
+
+  const rubricName = (id: string) =>
+    getBuiltInRubricById(id)?.name ?? customRubrics.find((r) => r.id === id)?.name ?? id;
+  const modelName = (id: string) => getModelById(id, settings)?.name ?? id;
+
+  const entries = reply?.leaderboard.entries ?? [];
+  const lo = Math.min(...entries.map((e) => e.ciLow));
+  const hi = Math.max(...entries.map((e) => e.ciHigh));
+  const pct = (rating: number) => (hi > lo ? ((rating - lo) / (hi - lo)) * 100 : 50);
+
+  return (
+    <div className="tab-page">
+      <div className="tab-header">
+        <h1 className="tab-title">Leaderboard</h1>
+        <p className="tab-subtitle">
+          Rank candidate models from pairwise verdicts, with 95% bootstrap intervals.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <Card className="lg:col-span-1 h-fit">
+          <CardHeader>
+            <CardTitle className="text-base">Settings</CardTitle>
+            <CardDescription>
+              Uses pairwise results from history that name both models. Dataset runs whose items
+              set <code>model_a</code>/<code>model_b</code> can be added, but their verdicts are
+              synthetic.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Rating Model</Label>
+              <Select value={method} onValueChange={(v) => setMethod(v as RatingMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RATING_METHOD_LABELS) as RatingMethod[]).map((m) => (
+                    <SelectItem key={m} value={m}>
+                      {RATING_METHOD_LABELS[m]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <FilterSelect
+              label="Rubric"
+              value={filters.rubricId}
+              onChange={(rubricId) => setFilters((f) => ({ ...f, rubricId }))}
+              options={(reply?.options.rubricIds ?? []).map((id) => ({
+                value: id,
+                label: rubricName(id),
+              }))}
+            />
+            <FilterSelect
+              label="Judge Model"
+              value={filters.judgeModelId}
+              onChange={(judgeModelId) => setFilters((f) => ({ ...f, judgeModelId }))}
+              options={(reply?.options.judgeModelIds ?? []).map((id) => ({
+                value: id,
+                label: modelName(id),
+              }))}
+            />
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <Label>Include synthetic dataset runs</Label>
+                <p className="text-xs text-muted-foreground">
+                  Seeded verdicts, not judge calls. Useful for trying the page out only.
+                </p>
+              </div>
+              <Switch checked={includeDatasetRuns} onCheckedChange={setIncludeDatasetRuns} />
+            </div>
+            <FilterSelect
+              label="Dataset Slice"
+              value={filters.slice}
+              onChange={(slice) => setFilters((f) => ({ ...f, slice }))}
+              options={(reply?.options.slices ?? []).map((s) => ({ value: s, label: s }))}
+            />
+            {reply && (
+              <p className="text-xs text-muted-foreground">
+                {reply.sources.adhoc} ad-hoc and {reply.sources.datasetRuns} synthetic dataset-run
+                comparisons available.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Trophy className="h-4 w-4" />
+              Model Ranking
+              {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              {!!reply?.sources.synthetic && (
+                <Badge variant="outline" className="border-amber-200 text-amber-700">
+                  includes {reply.sources.synthetic} synthetic
+                </Badge>
+              )}
+            </CardTitle>
+            {reply && (
+              <CardDescription>
+                {RATING_METHOD_LABELS[reply.leaderboard.method]} ratings on the Elo scale from{" "}
+                {reply.leaderboard.matchCount} comparisons ·{" "}
+                {reply.leaderboard.bootstrapRounds} bootstrap rounds
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            {entries.length === 0 ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">
+                No comparisons between named models match these filters. Run pairwise
+                evaluations with model labels, or a pairwise dataset run, to fill the leaderboard.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-3 font-medium">#</th>
+                    <th className="py-2 pr-3 font-medium">Model</th>
+                    <th className="py-2 pr-3 font-medium text-right">Rating</th>
+                    <th className="py-2 pr-3 font-medium w-1/3">95% interval</th>
+                    <th className="py-2 font-medium text-right">W–L–T</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((e) => (
+                    <tr key={e.model} className="border-b last:border-0">
+                      <td className="py-2 pr-3">
+                        {e.rank === 1 ? <Badge variant="secondary">1</Badge> : e.rank}
+                      </td>
+                      <td className="py-2 pr-3 font-medium">{e.model}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{e.rating}</td>
+                      <td className="py-2 pr-3">
+                        <div className="relative h-1.5 rounded-full bg-muted">
+                          <div
+                            className="absolute inset-y-0 rounded-full bg-slate-300"
+                            style={{
+                              left: `${pct(e.ciLow)}%`,
+                              width: `${Math.max(1.5, pct(e.ciHigh) - pct(e.ciLow))}%`,
+                            }}
+                          />
+                          <div
+                            className="absolute -top-0.5 h-2.5 w-0.5 rounded bg-foreground"
+                            style={{ left: `calc(${pct(e.rating)}% - 1px)` }}
+                          />
+                        </div>
+                        <p className="mt-0.5 text-[11px] text-muted-foreground tabular-nums">
+                          {e.ciLow} – {e.ciHigh}
+                        </p>
+                      </td>
+                      <td className="py-2 text-right tabular-nums text-muted-foreground">
+                        {e.wins}–{e.losses}–{e.ties}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useStore } from "@/lib/store";
+import { runCostUsd } from "@/lib/pricing";
 import { formatCost, formatDate } from "@/lib/utils";
 
 const QUICK_ACTIONS = [
@@ -54,19 +55,23 @@ export default function DashboardPage() {
   );
 
   const latest12 = recentRuns.slice(0, 12);
+  // On the reference basis every run is priced at today's rates, so cost
+  // alerts reflect usage changes rather than provider price changes.
+  const costOf = (run: (typeof latest12)[number]) =>
+    runCostUsd(run, settings.costBasis, settings);
   const avgScore =
     latest12.length === 0
       ? 0
       : latest12.reduce((sum, run) => sum + run.metrics.meanAggregateScore, 0) /
         latest12.length;
-  const totalCost = latest12.reduce((sum, run) => sum + run.metrics.estimatedCostUsd, 0);
+  const totalCost = latest12.reduce((sum, run) => sum + costOf(run), 0);
   const passRate =
     latest12.length === 0
       ? 0
       : latest12.reduce((sum, run) => sum + run.metrics.passRate, 0) / latest12.length;
 
   const scoreTrend = trend(latest12.map((run) => run.metrics.meanAggregateScore).reverse());
-  const costTrend = trend(latest12.map((run) => run.metrics.estimatedCostUsd).reverse());
+  const costTrend = trend(latest12.map(costOf).reverse());
   const alerts: string[] = [];
   if (passRate < settings.alertThresholds.minAgreementRate) {
     alerts.push(
@@ -79,12 +84,12 @@ export default function DashboardPage() {
     );
   }
   if (latest12.length >= 2) {
-    const baselineCost = latest12[latest12.length - 1].metrics.estimatedCostUsd;
-    const latestCost = latest12[0].metrics.estimatedCostUsd;
+    const baselineCost = costOf(latest12[latest12.length - 1]);
+    const latestCost = costOf(latest12[0]);
     const deltaPct = baselineCost === 0 ? 0 : ((latestCost - baselineCost) / baselineCost) * 100;
     if (deltaPct > settings.alertThresholds.maxCostIncreasePct) {
       alerts.push(
-        `Cost increase ${deltaPct.toFixed(1)}% exceeds threshold ${settings.alertThresholds.maxCostIncreasePct.toFixed(1)}%.`
+        `Cost increase ${deltaPct.toFixed(1)}% exceeds threshold ${settings.alertThresholds.maxCostIncreasePct.toFixed(1)}%${settings.costBasis === "reference" ? " (at current pricing)" : ""}.`
       );
     }
   }
@@ -171,7 +176,7 @@ export default function DashboardPage() {
                 <div className="mt-1 text-xs text-muted-foreground">
                   Score {run.metrics.meanAggregateScore.toFixed(1)} · Pass{" "}
                   {(run.metrics.passRate * 100).toFixed(1)}% · Cost{" "}
-                  {formatCost(run.metrics.estimatedCostUsd)}
+                  {formatCost(costOf(run))}
                 </div>
               </div>
             ))
@@ -0,0 +1,401 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { nanoid } from "nanoid";
+import { AlertTriangle, Copy, Info, Lock, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { useJudgePromptTemplates } from "@/components/judge-prompt-selector";
+import {
+  DEFAULT_JUDGE_PROMPT_TEMPLATE,
+  JUDGE_PROMPT_PLACEHOLDERS,
+  findTemplateProblems,
+  judgePromptFingerprint,
+  latestJudgePromptVersion,
+} from "@/lib/judge-prompt-templates";
+import { useStore } from "@/lib/store";
+import { formatDate } from "@/lib/utils";
+import type { JudgePromptTemplate, JudgePromptTemplateVersion } from "@/lib/types";
+
+export default function PromptsPage() {
+  const {
+    customPromptTemplates,
+    addPromptTemplate,
+    addPromptTemplateVersion,
+    updatePromptTemplateInfo,
+    deletePromptTemplate,
+  } = useStore();
+  const templates = useJudgePromptTemplates();
+
+  const [selectedId, setSelectedId] = useState<string>(DEFAULT_JUDGE_PROMPT_TEMPLATE.id);
+  const [viewingVersion, setViewingVersion] = useState<number | null>(null);
+  const [name, setName] = useState(DEFAULT_JUDGE_PROMPT_TEMPLATE.name);
+  const [description, setDescription] = useState(DEFAULT_JUDGE_PROMPT_TEMPLATE.description);
+  const [single, setSingle] = useState(
+    latestJudgePromptVersion(DEFAULT_JUDGE_PROMPT_TEMPLATE).single
+  );
+  const [pairwise, setPairwise] = useState(
+    latestJudgePromptVersion(DEFAULT_JUDGE_PROMPT_TEMPLATE).pairwise
+  );
+  const [notes, setNotes] = useState("");
+
+  const selected = templates.find((t) => t.id === selectedId) ?? DEFAULT_JUDGE_PROMPT_TEMPLATE;
+  const latest = latestJudgePromptVersion(selected);
+  const shown =
+    selected.versions.find((v) => v.versionNumber === viewingVersion) ?? latest;
+  const problems = findTemplateProblems({ single, pairwise });
+  const changed =
+    judgePromptFingerprint({ single, pairwise }) !== judgePromptFingerprint(latest);
+
+  function loadTemplate(template: JudgePromptTemplate, version?: JudgePromptTemplateVersion) {
+    const v = version ?? latestJudgePromptVersion(template);
+    setSelectedId(template.id);
+    setViewingVersion(version ? version.versionNumber : null);
+    setName(template.name);
+    setDescription(template.description);
+    setSingle(v.single);
+    setPairwise(v.pairwise);
+    setNotes("");
+  }
+
+  function handleClone(template: JudgePromptTemplate, version?: JudgePromptTemplateVersion) {
+    const source = version ?? latestJudgePromptVersion(template);
+    const id = nanoid();
+    const now = new Date().toISOString();
+    const cloned: JudgePromptTemplate = {
+      id,
+      name: `${template.name} (Copy)`,
+      description: template.description,
+      isBuiltIn: false,
+      createdAt: now,
+      versions: [
+        {
+          templateId: id,
+          versionNumber: 1,
+          createdAt: now,
+          notes: `Cloned from ${template.name} v${source.versionNumber}`,
+          single: source.single,
+          pairwise: source.pairwise,
+        },
+      ],
+    };
+    addPromptTemplate(cloned);
+    loadTemplate(cloned);
+    toast.success(`Cloned "${template.name}".`);
+  }
+
+  function handleSaveVersion() {
+    if (selected.isBuiltIn) return;
+    if (problems.length > 0) {
+      toast.error("Fix the template problems before saving.");
+      return;
+    }
+    addPromptTemplateVersion(selected.id, { single, pairwise, notes });
+    setViewingVersion(null);
+    setNotes("");
+    toast.success(`Saved as v${latest.versionNumber + 1}.`);
+  }
+
+  function handleSaveInfo() {
+    if (!name.trim()) {
+      toast.error("Template name is required.");
+      return;
+    }
+    updatePromptTemplateInfo(selected.id, {
+      name: name.trim(),
+      description: description.trim(),
+    });
+    toast.success("Template details saved.");
+  }
+
+  function handleDelete(id: string) {
+    deletePromptTemplate(id);
+    toast.success("Template deleted.");
+    if (selectedId === id) loadTemplate(DEFAULT_JUDGE_PROMPT_TEMPLATE);
+  }
+
+  const readOnly = selected.isBuiltIn || shown !== latest;
+
+  return (
+    <div className="tab-page">
+      <div className="tab-header">
+        <h1 className="tab-title">Judge Prompts</h1>
+        <p className="tab-subtitle">
+          Edit the instructions the judge receives and keep every version for reproducible runs.
+        </p>
+      </div>
+
+      <Card className="border-blue-200 bg-blue-50">
+        <CardContent className="text-sm text-blue-900 flex items-start gap-2">
+          <Info className="h-4 w-4 mt-0.5 text-blue-700" />
+          <p>
+            Saving a template creates a new version; earlier versions never change. Results and
+            runs record the version they used, and run comparisons flag any change in prompt text.
+          </p>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-semibold">My Templates</h2>
+            <Button
+              size="sm"
+              onClick={() => handleClone(DEFAULT_JUDGE_PROMPT_TEMPLATE)}
+              className="gap-1"
+            >
+              <Plus className="h-4 w-4" />
+              New
+            </Button>
+          </div>
+
+          {customPromptTemplates.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No custom templates yet. Click New to start from the built-in prompt.
+            </p>
+          )}
+
+          {customPromptTemplates.map((template) => (
+            <Card
+              key={template.id}
+              className={`cursor-pointer transition-colors ${
+                selectedId === template.id ? "ring-2 ring-primary" : ""
+              }`}
+              onClick={() => loadTemplate(template)}
+            >
+              <CardHeader className="pb-2 pt-3 px-3">
+                <div className="flex items-start justify-between gap-2">
+                  <CardTitle className="text-sm leading-snug">{template.name}</CardTitle>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleClone(template);
+                      }}
+                      className="text-muted-foreground hover:text-foreground p-1"
+                      title="Clone"
+                    >
+                      <Copy className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(template.id);
+                      }}
+                      className="text-muted-foreground hover:text-destructive p-1"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="px-3 pb-3">
+                <div className="flex flex-wrap gap-1.5">
+                  <Badge variant="secondary" className="text-xs">
+                    v{latestJudgePromptVersion(template).versionNumber}
+                  </Badge>
+                  <Badge variant="outline" className="text-xs">
+                    {template.versions.length} version
+                    {template.versions.length === 1 ? "" : "s"}
+                  </Badge>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+
+          <Separator />
+
+          <div>
+            <h2 className="text-sm font-semibold mb-3 text-muted-foreground">Built-in Template</h2>
+            <Card
+              className={`cursor-pointer transition-colors ${
+                selectedId === DEFAULT_JUDGE_PROMPT_TEMPLATE.id ? "ring-2 ring-primary" : ""
+              }`}
+              onClick={() => loadTemplate(DEFAULT_JUDGE_PROMPT_TEMPLATE)}
+            >
+              <CardHeader className="pb-2 pt-3 px-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-sm flex items-center gap-1.5">
+                      <Lock className="h-3 w-3 text-muted-foreground" />
+                      {DEFAULT_JUDGE_PROMPT_TEMPLATE.name}
+                    </CardTitle>
+                    <CardDescription className="text-xs mt-0.5 line-clamp-2">
+                      {DEFAULT_JUDGE_PROMPT_TEMPLATE.description}
+                    </CardDescription>
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleClone(DEFAULT_JUDGE_PROMPT_TEMPLATE);
+                    }}
+                    className="text-muted-foreground hover:text-foreground p-1 flex-shrink-0"
+                    title="Clone to edit"
+                  >
+                    <Copy className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm">Placeholders</CardTitle>
+              <CardDescription className="text-xs">
+                Filled per evaluation. Unknown placeholders are rejected.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 text-xs">
+              {(["single", "pairwise"] as const).map((mode) => (
+                <div key={mode} className="space-y-1">
+                  <p className="font-medium capitalize">{mode}</p>
+                  {JUDGE_PROMPT_PLACEHOLDERS[mode].map((p) => (
+                    <p key={p.key} className="text-muted-foreground">
+                      <code className="text-foreground">{`{{${p.key}}}`}</code>
+                      {p.required && <span className="text-red-500"> *</span>} — {p.description}
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">
+                {selected.isBuiltIn ? "View Template" : "Edit Template"}
+              </CardTitle>
+              <CardDescription>
+                {selected.isBuiltIn
+                  ? "The built-in template is read-only. Clone it to make changes."
+                  : shown !== latest
+                    ? `Viewing v${shown.versionNumber}. Restore it to save its text as a new version.`
+                    : "Edit the bodies below and save them as a new version."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <div className="flex flex-wrap items-center gap-1.5 text-xs">
+                <span className="text-muted-foreground mr-1">Versions:</span>
+                {[...selected.versions].reverse().map((version) => (
+                  <button
+                    key={version.versionNumber}
+                    onClick={() =>
+                      loadTemplate(selected, version === latest ? undefined : version)
+                    }
+                    title={`${formatDate(version.createdAt)}${version.notes ? ` — ${version.notes}` : ""}`}
+                  >
+                    <Badge variant={version === shown ? "default" : "outline"}>
+                      v{version.versionNumber}
+                    </Badge>
+                  </button>
+                ))}
+              </div>
+
+              {!selected.isBuiltIn && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>Template Name</Label>
+                    <Input value={name} onChange={(e) => setName(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Description</Label>
+                    <Input
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      placeholder="What is this prompt for?"
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <Button variant="outline" size="sm" onClick={handleSaveInfo}>
+                      Save Details
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              <Separator />
+
+              <div className="space-y-2">
+                <Label>Single Evaluation Body</Label>
+                <Textarea
+                  value={single}
+                  onChange={(e) => setSingle(e.target.value)}
+                  readOnly={readOnly}
+                  rows={14}
+                  className="font-mono text-xs"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Pairwise Evaluation Body</Label>
+                <Textarea
+                  value={pairwise}
+                  onChange={(e) => setPairwise(e.target.value)}
+                  readOnly={readOnly}
+                  rows={14}
+                  className="font-mono text-xs"
+                />
+              </div>
+
+              {problems.length > 0 && (
+                <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0 text-amber-500" />
+                  <ul className="list-disc pl-4 text-xs">
+                    {problems.map((problem) => (
+                      <li key={problem}>{problem}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {selected.isBuiltIn ? (
+                <Button variant="outline" className="w-full gap-2" onClick={() => handleClone(selected)}>
+                  <Copy className="h-4 w-4" />
+                  Clone to Edit
+                </Button>
+              ) : shown !== latest ? (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => {
+                    setViewingVersion(null);
+                    setNotes(`Restored from v${shown.versionNumber}`);
+                  }}
+                >
+                  Restore v{shown.versionNumber}
+                </Button>
+              ) : (
+                <div className="space-y-3">
+                  <div className="space-y-2">
+                    <Label>Version Notes</Label>
+                    <Input
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder="What changed in this version?"
+                    />
+                  </div>
+                  <Button
+                    onClick={handleSaveVersion}
+                    disabled={!changed || problems.length > 0}
+                    className="w-full"
+                  >
+                    Save New Version
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,10 +11,21 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { RubricBuilder } from "@/components/rubric-builder";
+import {
+  RubricExemplarEditor,
+  missingExemplarScores,
+} from "@/components/rubric-exemplar-editor";
 import { BUILT_IN_RUBRICS } from "@/lib/rubric-templates";
 import { useStore } from "@/lib/store";
-import type { Rubric } from "@/lib/types";
+import type { ChecklistPolicy, Rubric, RubricExemplar } from "@/lib/types";
 
 export default function RubricsPage() {
   const {
@@ -32,6 +43,9 @@ export default function RubricsPage() {
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [criteria, setCriteria] = useState<Rubric["criteria"]>([]);
+  const [exemplars, setExemplars] = useState<RubricExemplar[]>([]);
+  const [checklistPolicy, setChecklistPolicy] = useState<ChecklistPolicy>("pass_ratio");
+  const hasChecklist = criteria.some((criterion) => criterion.type === "checklist");
 
   const editing = useMemo(
     () => customRubrics.find((rubric) => rubric.id === editingId),
@@ -43,6 +57,8 @@ export default function RubricsPage() {
     setName(rubric.name);
     setDescription(rubric.description);
     setCriteria(rubric.criteria.map((criterion) => ({ ...criterion })));
+    setExemplars((rubric.exemplars ?? []).map((exemplar) => ({ ...exemplar })));
+    setChecklistPolicy(rubric.checklistPolicy ?? "pass_ratio");
   }
 
   function handleNew() {
@@ -60,6 +76,7 @@ export default function RubricsPage() {
   }
 
   function handleClone(rubric: Rubric) {
+    const criterionIds = new Map(rubric.criteria.map((criterion) => [criterion.id, nanoid()]));
     const cloned: Rubric = {
       ...rubric,
       id: nanoid(),
@@ -68,7 +85,17 @@ export default function RubricsPage() {
       createdAt: new Date().toISOString(),
       criteria: rubric.criteria.map((criterion) => ({
         ...criterion,
+        id: criterionIds.get(criterion.id)!,
+      })),
+      exemplars: rubric.exemplars?.map((exemplar) => ({
+        ...exemplar,
         id: nanoid(),
+        scores: Object.fromEntries(
+          Object.entries(exemplar.scores).flatMap(([criterionId, score]) => {
+            const id = criterionIds.get(criterionId);
+            return id ? [[id, score]] : [];
+          })
+        ),
       })),
     };
     addRubric(cloned);
@@ -87,6 +114,18 @@ export default function RubricsPage() {
       return;
     }
 
+    for (const [i, exemplar] of exemplars.entries()) {
+      if (!exemplar.prompt.trim() || !exemplar.response.trim()) {
+        toast.error(`Exemplar ${i + 1} needs a prompt and a response.`);
+        return;
+      }
+      const missing = missingExemplarScores(exemplar, criteria);
+      if (missing.length > 0) {
+        toast.error(`Exemplar ${i + 1} needs a valid score for: ${missing.join(", ")}.`);
+        return;
+      }
+    }
+
     const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
     const normalizedCriteria =
       Math.abs(totalWeight - 1) > 0.01
@@ -100,6 +139,14 @@ export default function RubricsPage() {
       name: name.trim(),
       description: description.trim(),
       criteria: normalizedCriteria,
+      checklistPolicy: hasChecklist ? checklistPolicy : undefined,
+      // Drop scores left behind by deleted criteria so they don't reach the prompt.
+      exemplars: exemplars.map((exemplar) => ({
+        ...exemplar,
+        scores: Object.fromEntries(
+          criteria.map((criterion) => [criterion.id, exemplar.scores[criterion.id]])
+        ),
+      })),
     });
     toast.success("Rubric saved as a new version.");
   }
@@ -112,6 +159,7 @@ export default function RubricsPage() {
       setName("");
       setDescription("");
       setCriteria([]);
+      setExemplars([]);
     }
   }
 
@@ -195,6 +243,12 @@ export default function RubricsPage() {
                     <Badge variant="outline" className="text-xs">
                       {rubric.criteria.length} criteria
                     </Badge>
+                    {(rubric.exemplars?.length ?? 0) > 0 && (
+                      <Badge variant="outline" className="text-xs">
+                        {rubric.exemplars!.length} exemplar
+                        {rubric.exemplars!.length === 1 ? "" : "s"}
+                      </Badge>
+                    )}
                     <Badge variant="secondary" className="text-xs">
                       v{latest?.versionNumber ?? 1}
                     </Badge>
@@ -283,6 +337,45 @@ export default function RubricsPage() {
                   <RubricBuilder criteria={criteria} onChange={setCriteria} />
                 </div>
 
+                {hasChecklist && (
+                  <div className="space-y-2">
+                    <Label>Pass/Fail Aggregation</Label>
+                    <Select
+                      value={checklistPolicy}
+                      onValueChange={(v) => setChecklistPolicy(v as ChecklistPolicy)}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="pass_ratio">
+                          Pass ratio — each check counts 100 or 0 by weight
+                        </SelectItem>
+                        <SelectItem value="all_must_pass">
+                          All must pass — any failed check scores the response 0
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <div>
+                    <Label>Calibration Exemplars</Label>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Expert-scored examples included in every judge prompt as score anchors.
+                      Changing them creates a new rubric version.
+                    </p>
+                  </div>
+                  <RubricExemplarEditor
+                    criteria={criteria}
+                    exemplars={exemplars}
+                    onChange={setExemplars}
+                  />
+                </div>
+
                 <Button onClick={handleSave} className="w-full">
                   Save New Version
                 </Button>
@@ -1,16 +1,35 @@
 "use client";
 
 import { useRef, useState } from "react";
-import { Eye, EyeOff, X } from "lucide-react";
+import { Eye, EyeOff, Plus, Trash2, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { useStore } from "@/lib/store";
 import { PRIVACY_COPY } from "@/lib/privacy-copy";
 import { ModelSelector } from "@/components/model-selector";
 import { RubricSelector } from "@/components/rubric-selector";
+import { JudgePromptSelector } from "@/components/judge-prompt-selector";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  isBuiltInProvider,
+  listProviders,
+  openAICompatibleProvider,
+  providerIdFromName,
+} from "@/lib/providers";
+import { getModelById } from "@/lib/models";
+import { formatCost } from "@/lib/utils";
+import type { CostBasis, Provider } from "@/lib/types";
 import { toast } from "sonner";
 
 function ApiKeyField({
@@ -20,9 +39,9 @@ function ApiKeyField({
   docsUrl,
 }: {
   label: string;
-  provider: "openai" | "anthropic" | "google";
+  provider: Provider;
   placeholder: string;
-  docsUrl: string;
+  docsUrl?: string;
 }) {
   const { settings, updateApiKey } = useStore();
   const [show, setShow] = useState(false);
@@ -34,14 +53,16 @@ function ApiKeyField({
         <Label htmlFor={`key-${provider}`} className="text-sm font-medium">
           {label}
         </Label>
-        <a
-          href={docsUrl}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="text-xs text-muted-foreground hover:text-foreground underline underline-offset-2"
-        >
-          Get API key ↗
-        </a>
+        {docsUrl && (
+          <a
+            href={docsUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-muted-foreground hover:text-foreground underline underline-offset-2"
+          >
+            Get API key ↗
+          </a>
+        )}
       </div>
       <div className="flex gap-2">
         <div className="relative flex-1">
@@ -81,8 +102,364 @@ function ApiKeyField({
   );
 }
 
+function CustomProviderForm() {
+  const { settings, upsertCustomProvider } = useStore();
+  const [name, setName] = useState("");
+  const [baseURL, setBaseURL] = useState("");
+  const [modelIds, setModelIds] = useState("");
+  const [authHeader, setAuthHeader] = useState("");
+  const [requiresKey, setRequiresKey] = useState(false);
+  const [structuredOutput, setStructuredOutput] = useState(false);
+
+  function handleAdd() {
+    const id = providerIdFromName(name);
+    if (!name.trim() || !id) {
+      toast.error("Endpoint name is required.");
+      return;
+    }
+    if (isBuiltInProvider(id) || settings.customProviders.some((p) => p.id === id)) {
+      toast.error(`An endpoint named "${id}" already exists.`);
+      return;
+    }
+    try {
+      new URL(baseURL.trim());
+    } catch {
+      toast.error("Base URL must be a valid URL, e.g. http://localhost:8000/v1");
+      return;
+    }
+    const ids = modelIds
+      .split(",")
+      .map((m) => m.trim())
+      .filter(Boolean);
+    if (ids.length === 0) {
+      toast.error("List at least one model id served by this endpoint.");
+      return;
+    }
+
+    upsertCustomProvider(
+      openAICompatibleProvider({
+        id,
+        name: name.trim(),
+        baseURL: baseURL.trim(),
+        authHeader: authHeader.trim() || undefined,
+        requiresKey,
+        structuredOutput,
+        models: ids.map((modelId) => ({
+          id: modelId,
+          name: modelId,
+          provider: id,
+          inputCostPer1M: 0,
+          outputCostPer1M: 0,
+        })),
+      })
+    );
+    setName("");
+    setBaseURL("");
+    setModelIds("");
+    setAuthHeader("");
+    setRequiresKey(false);
+    setStructuredOutput(false);
+    toast.success(`Endpoint "${name.trim()}" added.`);
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border border-dashed p-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Name</Label>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Internal vLLM"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Base URL</Label>
+          <Input
+            value={baseURL}
+            onChange={(e) => setBaseURL(e.target.value)}
+            placeholder="http://localhost:8000/v1"
+            className="font-mono text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Model IDs (comma-separated)</Label>
+          <Input
+            value={modelIds}
+            onChange={(e) => setModelIds(e.target.value)}
+            placeholder="llama-3.1-70b-instruct, qwen2.5-72b"
+            className="font-mono text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">
+            Auth Header <span className="text-muted-foreground font-normal">(optional)</span>
+          </Label>
+          <Input
+            value={authHeader}
+            onChange={(e) => setAuthHeader(e.target.value)}
+            placeholder="Authorization: Bearer (default)"
+            className="font-mono text-sm"
+          />
+        </div>
+      </div>
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium">Requires API Key</p>
+          <p className="text-xs text-muted-foreground">
+            Turn off for keyless local servers such as Ollama.
+          </p>
+        </div>
+        <Switch checked={requiresKey} onCheckedChange={setRequiresKey} />
+      </div>
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium">Structured Output</p>
+          <p className="text-xs text-muted-foreground">
+            Turn on if the server honors JSON-schema response formats; otherwise the judge replies
+            in free text.
+          </p>
+        </div>
+        <Switch checked={structuredOutput} onCheckedChange={setStructuredOutput} />
+      </div>
+      <Button variant="outline" size="sm" onClick={handleAdd} className="gap-1.5">
+        <Plus className="h-4 w-4" />
+        Add Endpoint
+      </Button>
+    </div>
+  );
+}
+
+function CustomModelForm() {
+  const { settings, upsertCustomModel } = useStore();
+  const providers = listProviders(settings.customProviders);
+  const [id, setId] = useState("");
+  const [name, setName] = useState("");
+  const [provider, setProvider] = useState<string>(providers[0]?.id ?? "openai");
+  const [inputCost, setInputCost] = useState("");
+  const [outputCost, setOutputCost] = useState("");
+
+  function handleAdd() {
+    const modelId = id.trim();
+    if (!modelId) {
+      toast.error("Model id is required.");
+      return;
+    }
+    if (getModelById(modelId)) {
+      toast.error(`"${modelId}" is a built-in model; its prices come from the server catalog.`);
+      return;
+    }
+    const inputCostPer1M = Number(inputCost || 0);
+    const outputCostPer1M = Number(outputCost || 0);
+    if (
+      !Number.isFinite(inputCostPer1M) ||
+      !Number.isFinite(outputCostPer1M) ||
+      inputCostPer1M < 0 ||
+      outputCostPer1M < 0
+    ) {
+      toast.error("Prices must be non-negative numbers.");
+      return;
+    }
+
+    upsertCustomModel({
+      id: modelId,
+      name: name.trim() || modelId,
+      provider,
+      inputCostPer1M,
+      outputCostPer1M,
+    });
+    setId("");
+    setName("");
+    setInputCost("");
+    setOutputCost("");
+    toast.success(`Model "${modelId}" saved to catalog.`);
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border border-dashed p-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Model ID</Label>
+          <Input
+            value={id}
+            onChange={(e) => setId(e.target.value)}
+            placeholder="e.g. o3-mini"
+            className="font-mono text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Display Name</Label>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. o3-mini"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Provider</Label>
+          <Select value={provider} onValueChange={setProvider}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {providers.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Input $ / 1M</Label>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={inputCost}
+              onChange={(e) => setInputCost(e.target.value)}
+              placeholder="0.00"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Output $ / 1M</Label>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={outputCost}
+              onChange={(e) => setOutputCost(e.target.value)}
+              placeholder="0.00"
+            />
+          </div>
+        </div>
+      </div>
+      {isBuiltInProvider(provider) && (
+        <p className="text-xs text-muted-foreground">
+          Results are priced at the prices here; the server&apos;s budget ceilings project models
+          on built-in providers at the provider&apos;s highest catalog price.
+        </p>
+      )}
+      <Button variant="outline" size="sm" onClick={handleAdd} className="gap-1.5">
+        <Plus className="h-4 w-4" />
+        Save Model
+      </Button>
+    </div>
+  );
+}
+
+function budgetInput(value: number | undefined): string {
+  return value === undefined ? "" : String(value);
+}
+
+/** Empty means no limit; anything else must be a non-negative number. */
+function parseBudget(raw: string): number | undefined | null {
+  if (!raw.trim()) return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+function SpendBudgetsForm() {
+  const { settings, updateSettings } = useStore();
+  const providers = listProviders(settings.customProviders);
+  const { budgets } = settings;
+  const [maxRun, setMaxRun] = useState(budgetInput(budgets.maxRunUsd));
+  const [maxDaily, setMaxDaily] = useState(budgetInput(budgets.maxDailyUsd));
+  const [providerLimits, setProviderLimits] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      Object.entries(budgets.maxProviderDailyUsd ?? {}).map(([id, value]) => [
+        id,
+        budgetInput(value),
+      ])
+    )
+  );
+
+  function handleSave() {
+    const maxRunUsd = parseBudget(maxRun);
+    const maxDailyUsd = parseBudget(maxDaily);
+    const maxProviderDailyUsd: Record<string, number> = {};
+    let invalid = maxRunUsd === null || maxDailyUsd === null;
+    for (const [id, raw] of Object.entries(providerLimits)) {
+      const value = parseBudget(raw);
+      if (value === null) invalid = true;
+      else if (value !== undefined) maxProviderDailyUsd[id] = value;
+    }
+    if (invalid) {
+      toast.error("Budgets must be non-negative numbers.");
+      return;
+    }
+
+    updateSettings({
+      budgets: {
+        maxRunUsd: maxRunUsd ?? undefined,
+        maxDailyUsd: maxDailyUsd ?? undefined,
+        maxProviderDailyUsd,
+      },
+    });
+    toast.success("Spend budgets saved.");
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Per Run (USD)</Label>
+          <Input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="No limit"
+            value={maxRun}
+            onChange={(e) => setMaxRun(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Per Day (USD)</Label>
+          <Input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="No limit"
+            value={maxDaily}
+            onChange={(e) => setMaxDaily(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Per Provider per Day (USD)</Label>
+        {providers.map((provider) => (
+          <div key={provider.id} className="flex items-center gap-3">
+            <span className="text-sm w-40 truncate">{provider.name}</span>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="No limit"
+              value={providerLimits[provider.id] ?? ""}
+              onChange={(e) =>
+                setProviderLimits((prev) => ({ ...prev, [provider.id]: e.target.value }))
+              }
+            />
+          </div>
+        ))}
+      </div>
+      <Button variant="outline" size="sm" onClick={handleSave}>
+        Save Budgets
+      </Button>
+    </div>
+  );
+}
+
 export default function SettingsPage() {
-  const { settings, updateSettings, exportSettings, importSettings } = useStore();
+  const {
+    settings,
+    updateSettings,
+    exportSettings,
+    importSettings,
+    removeCustomProvider,
+    removeCustomModel,
+  } = useStore();
   const importInputRef = useRef<HTMLInputElement>(null);
 
   function handleExport() {
@@ -147,11 +524,98 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">OpenAI-Compatible Endpoints</CardTitle>
+          <CardDescription>
+            Point judges at any server that speaks the OpenAI chat completions API
+            (vLLM, Ollama, LiteLLM proxies).
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {settings.customProviders.map((provider) => (
+            <div key={provider.id} className="space-y-3 rounded-md border p-3">
+              <div className="flex items-start justify-between gap-2">
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">{provider.name}</p>
+                  <p className="text-xs text-muted-foreground font-mono">
+                    {provider.baseURL}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {(provider.models ?? []).map((model) => (
+                      <Badge key={model.id} variant="outline" className="text-xs">
+                        {model.id}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => removeCustomProvider(provider.id)}
+                  title="Remove endpoint"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {provider.requiresKey && (
+                <ApiKeyField
+                  label={`${provider.name} API Key`}
+                  provider={provider.id}
+                  placeholder="Key sent to this endpoint"
+                />
+              )}
+            </div>
+          ))}
+          <CustomProviderForm />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Model Catalog</CardTitle>
+          <CardDescription>
+            Add judge models that are not built in, or override pricing for built-in ids.
+            Prices drive every cost estimate.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {settings.customModels.map((model) => (
+            <div
+              key={model.id}
+              className="flex items-center justify-between gap-2 rounded-md border px-3 py-2"
+            >
+              <div className="space-y-0.5">
+                <p className="text-sm font-medium">
+                  {model.name}{" "}
+                  <span className="text-xs text-muted-foreground font-mono">{model.id}</span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {model.provider} · in {formatCost(model.inputCostPer1M)} / out{" "}
+                  {formatCost(model.outputCostPer1M)} per 1M tokens
+                  {(model.priceHistory?.length ?? 0) > 1 &&
+                    ` · ${model.priceHistory?.length} price versions`}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => removeCustomModel(model.id)}
+                title="Remove model"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <CustomModelForm />
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle className="text-base">Defaults</CardTitle>
           <CardDescription>
-            Configure default judge and rubric selections for new evaluations and runs.
+            Configure default judge, rubric and judge prompt selections for new evaluations and runs.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -169,6 +633,56 @@ export default function SettingsPage() {
               onValueChange={(value) => updateSettings({ defaultRubricId: value })}
             />
           </div>
+          <div className="space-y-2">
+            <Label>Default Judge Prompt</Label>
+            <JudgePromptSelector
+              value={settings.defaultJudgePromptKey}
+              onValueChange={(value) => updateSettings({ defaultJudgePromptKey: value })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium">Bypass Judge Cache</p>
+              <p className="text-xs text-muted-foreground">
+                Force fresh judge calls instead of reusing cached responses for identical prompts.
+              </p>
+            </div>
+            <Switch
+              checked={settings.bypassJudgeCache}
+              onCheckedChange={(checked) => updateSettings({ bypassJudgeCache: checked })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Cost Comparison Basis</Label>
+            <Select
+              value={settings.costBasis}
+              onValueChange={(value) => updateSettings({ costBasis: value as CostBasis })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="recorded">Recorded (pricing at run time)</SelectItem>
+                <SelectItem value="reference">Reference (recompute at current pricing)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Used by the dashboard cost alert and as the default for run comparisons.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Spend Budgets</CardTitle>
+          <CardDescription>
+            Judge calls that would push spend past a limit are refused before they are sent. Leave a
+            field empty for no limit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SpendBudgetsForm />
         </CardContent>
       </Card>
 
@@ -0,0 +1,90 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { parseConversationMessages, roleLabel } from "@/lib/conversation";
+import { cn } from "@/lib/utils";
+import type {
+  ConversationMessage,
+  ConversationRole,
+  ConversationScope,
+} from "@/lib/types";
+
+const ROLE_STYLES: Record<ConversationRole, string> = {
+  system: "border-l-slate-400 bg-slate-50",
+  user: "border-l-blue-400 bg-blue-50/60",
+  assistant: "border-l-violet-400 bg-violet-50/60",
+  tool: "border-l-amber-400 bg-amber-50/60",
+};
+
+interface ConversationThreadProps {
+  messages: ConversationMessage[];
+  scope?: ConversationScope; // marks the graded assistant turns
+  className?: string;
+}
+
+export function ConversationThread({ messages, scope, className }: ConversationThreadProps) {
+  const last = messages.length - 1;
+  const isGraded = (m: ConversationMessage, i: number) =>
+    m.role === "assistant" && (scope === "dialogue" || (scope === "final_turn" && i === last));
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {messages.map((m, i) => (
+        <div
+          key={i}
+          className={cn(
+            "rounded-md border-l-4 px-3 py-2",
+            ROLE_STYLES[m.role],
+            isGraded(m, i) && "ring-1 ring-violet-300"
+          )}
+        >
+          <div className="flex items-center justify-between gap-2 mb-1">
+            <span className="text-xs font-medium text-muted-foreground">
+              {i + 1}. {roleLabel(m)}
+            </span>
+            {isGraded(m, i) && (
+              <Badge variant="outline" className="text-xs">
+                graded
+              </Badge>
+            )}
+          </div>
+          <p className="text-sm whitespace-pre-wrap leading-relaxed">{m.content}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface ConversationInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  scope?: ConversationScope;
+  placeholder?: string;
+}
+
+/** JSON messages editor with a threaded preview of what was parsed. */
+export function ConversationInput({ value, onChange, scope, placeholder }: ConversationInputProps) {
+  const parsed = value.trim() ? parseConversationMessages(value) : undefined;
+
+  return (
+    <div className="space-y-3">
+      <Textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={
+          placeholder ??
+          '[{"role":"user","content":"…"},{"role":"assistant","content":"…"}]'
+        }
+        rows={6}
+        className="font-mono text-xs resize-y"
+      />
+      {parsed && !parsed.ok && <p className="text-xs text-destructive">{parsed.error}</p>}
+      {parsed?.ok && (
+        <div className="max-h-80 overflow-y-auto rounded-md border p-2">
+          <ConversationThread messages={parsed.messages} scope={scope} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,12 +2,14 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { ArrowLeftRight, Layers, Scale } from "lucide-react";
+import { ArrowLeftRight, Layers, ListOrdered, Scale, Workflow } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 const EVAL_LINKS = [
   { href: "/evaluate/single", label: "Single", icon: Scale },
   { href: "/evaluate/pairwise", label: "Pairwise", icon: ArrowLeftRight },
+  { href: "/evaluate/listwise", label: "Ranking", icon: ListOrdered },
+  { href: "/evaluate/trajectory", label: "Trajectory", icon: Workflow },
   { href: "/evaluate/batch", label: "Batch", icon: Layers },
 ];
 
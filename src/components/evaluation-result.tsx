@@ -1,26 +1,170 @@
 "use client";
 
 import { useState } from "react";
-import { ChevronDown, ChevronUp, Trophy, Minus, AlertTriangle } from "lucide-react";
+import {
+  AlertTriangle,
+  Check,
+  ChevronDown,
+  ChevronUp,
+  Loader2,
+  Minus,
+  ShieldAlert,
+  Trophy,
+  X,
+} from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { ScoreBadge, AggregateScoreBadge } from "./score-badge";
+import { ConversationThread } from "./conversation-thread";
+import { TrajectoryView } from "./trajectory-view";
 import { formatCost, formatTokens, scoreToBarColor } from "@/lib/utils";
-import type { EvalResult, SingleEvalResult, PairwiseEvalResult, CriterionScore } from "@/lib/types";
+import { isRescued } from "@/lib/judge-output";
+import { INJECTION_SIGNAL_LABELS } from "@/lib/prompt-injection";
+import { listwiseSlotLetter } from "@/lib/listwise";
+import {
+  preferenceLabel,
+  preferenceLabels,
+  preferenceRange,
+  preferenceStrength,
+} from "@/lib/preference";
+import type {
+  EvalPartial,
+  EvalResult,
+  InjectionFlag,
+  JudgeParseInfo,
+  JudgeValidationReport,
+  ListwiseEvalResult,
+  ListwisePositionEffect,
+  SingleEvalResult,
+  PairwiseEvalResult,
+  PairwiseEvalPartial,
+  CriterionScore,
+  CriterionSpread,
+  JudgeSampling,
+  ReferenceAgreement,
+  Rubric,
+  SingleEvalPartial,
+} from "@/lib/types";
 
 // ── Shared subcomponents ──────────────────────────────────────────────────────
 
-function CriterionRow({ cs }: { cs: CriterionScore }) {
+const AGREEMENT_STYLES: Record<ReferenceAgreement, string> = {
+  agrees: "border-green-200 bg-green-50 text-green-700",
+  partial: "border-amber-200 bg-amber-50 text-amber-700",
+  contradicts: "border-red-200 bg-red-50 text-red-700",
+};
+
+// Below this share of samples agreeing on the median, a score is flagged unstable.
+const STABLE_AGREEMENT = 0.6;
+
+function spreadLabel(spread: CriterionSpread): string {
+  const agree = `${Math.round(spread.agreement * 100)}% of samples agree`;
+  return spread.min === spread.max ? agree : `${spread.min}–${spread.max}, σ ${spread.stdDev} · ${agree}`;
+}
+
+/** Where the samples' scores fell: the min–max band, with the median marked. */
+function SpreadBar({ cs, spread }: { cs: CriterionScore; spread: CriterionSpread }) {
+  const pct = (score: number) => Math.max(0, Math.min(100, (score / cs.maxScore) * 100));
+  const unstable = spread.agreement < STABLE_AGREEMENT;
+  return (
+    <div className="space-y-0.5">
+      <div className="relative h-1.5 rounded-full bg-muted">
+        <div
+          className={`absolute inset-y-0 rounded-full ${unstable ? "bg-amber-300" : "bg-slate-300"}`}
+          style={{
+            left: `${pct(spread.min)}%`,
+            width: `${Math.max(1.5, pct(spread.max) - pct(spread.min))}%`,
+          }}
+        />
+        <div
+          className="absolute -top-0.5 h-2.5 w-0.5 rounded bg-foreground"
+          style={{ left: `calc(${pct(cs.score)}% - 1px)` }}
+        />
+      </div>
+      <p className={`text-[11px] ${unstable ? "text-amber-700" : "text-muted-foreground"}`}>
+        Samples: {spreadLabel(spread)}
+        {unstable && " — unstable"}
+      </p>
+    </div>
+  );
+}
+
+/** Pass/fail criteria: a verdict badge and the reasoning, with no score bar. */
+function ChecklistRow({
+  cs,
+  passed,
+  spread,
+}: {
+  cs: CriterionScore;
+  passed: boolean;
+  spread?: CriterionSpread;
+}) {
+  return (
+    <div className="flex items-start gap-3 rounded-md border px-3 py-2">
+      {passed ? (
+        <Check className="h-4 w-4 mt-0.5 flex-shrink-0 text-green-600" />
+      ) : (
+        <X className="h-4 w-4 mt-0.5 flex-shrink-0 text-red-600" />
+      )}
+      <div className="flex-1 space-y-0.5">
+        <div className="flex items-center gap-2">
+          <span className="flex-1 text-sm font-medium">{cs.criterionName}</span>
+          {cs.referenceAgreement && (
+            <Badge
+              variant="outline"
+              className={`text-xs ${AGREEMENT_STYLES[cs.referenceAgreement]}`}
+              title="Agreement with the reference answer"
+            >
+              {cs.referenceAgreement}
+            </Badge>
+          )}
+          <Badge
+            variant="outline"
+            className={
+              passed
+                ? "text-xs border-green-200 bg-green-50 text-green-700"
+                : "text-xs border-red-200 bg-red-50 text-red-700"
+            }
+          >
+            {passed ? "Pass" : "Fail"}
+          </Badge>
+        </div>
+        {spread && (
+          <p
+            className={`text-[11px] ${spread.agreement < STABLE_AGREEMENT ? "text-amber-700" : "text-muted-foreground"}`}
+          >
+            Samples: {Math.round(spread.agreement * 100)}% agree
+          </p>
+        )}
+        {cs.reasoning && (
+          <p className="text-xs text-muted-foreground leading-relaxed">{cs.reasoning}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CriterionRow({ cs, spread }: { cs: CriterionScore; spread?: CriterionSpread }) {
   const [open, setOpen] = useState(false);
+  if (cs.passed !== undefined) return <ChecklistRow cs={cs} passed={cs.passed} spread={spread} />;
   const pct = Math.max(0, Math.min(100, (cs.score / cs.maxScore) * 100));
 
   return (
     <div className="space-y-1">
       <div className="flex items-center gap-3">
         <span className="flex-1 text-sm font-medium">{cs.criterionName}</span>
+        {cs.referenceAgreement && (
+          <Badge
+            variant="outline"
+            className={`text-xs ${AGREEMENT_STYLES[cs.referenceAgreement]}`}
+            title="Agreement with the reference answer"
+          >
+            {cs.referenceAgreement}
+          </Badge>
+        )}
         <ScoreBadge score={cs.score} maxScore={cs.maxScore} size="sm" />
         <button
           onClick={() => setOpen((o) => !o)}
@@ -38,6 +182,7 @@ function CriterionRow({ cs }: { cs: CriterionScore }) {
         className="h-1.5"
         indicatorClassName={scoreToBarColor(cs.score, cs.maxScore)}
       />
+      {spread && <SpreadBar cs={cs} spread={spread} />}
       {open && cs.reasoning && (
         <p className="text-xs text-muted-foreground pl-0 pt-1 leading-relaxed">
           {cs.reasoning}
@@ -47,16 +192,54 @@ function CriterionRow({ cs }: { cs: CriterionScore }) {
   );
 }
 
-function CriterionTable({ scores }: { scores: CriterionScore[] }) {
+function CriterionTable({
+  scores,
+  spreads,
+}: {
+  scores: CriterionScore[];
+  spreads?: CriterionSpread[];
+}) {
   return (
     <div className="space-y-3">
       {scores.map((cs) => (
-        <CriterionRow key={cs.criterionId} cs={cs} />
+        <CriterionRow
+          key={cs.criterionId}
+          cs={cs}
+          spread={spreads?.find((s) => s.criterionId === cs.criterionId)}
+        />
       ))}
     </div>
   );
 }
 
+/** Sampling settings, agreement and each sample's outcome, collapsed. */
+function SamplingSummary({
+  sampling,
+  stats,
+  samples,
+}: {
+  sampling: JudgeSampling;
+  stats: string;
+  samples: string[];
+}) {
+  return (
+    <div className="rounded-md border bg-muted/30 px-4 py-3 text-sm">
+      <p className="font-medium">Self-Consistency</p>
+      <p className="text-xs text-muted-foreground">
+        Median of {sampling.samples} judge samples at temperature {sampling.temperature} · {stats}
+      </p>
+      <details className="mt-1">
+        <summary className="cursor-pointer text-xs text-muted-foreground">Individual samples</summary>
+        <ol className="mt-1 list-decimal pl-5 text-xs text-muted-foreground space-y-0.5">
+          {samples.map((line, i) => (
+            <li key={i}>{line}</li>
+          ))}
+        </ol>
+      </details>
+    </div>
+  );
+}
+
 function ChainOfThought({ text }: { text: string }) {
   const [open, setOpen] = useState(false);
   if (!text) return null;
@@ -84,11 +267,15 @@ function TokenFooter({
   outputTokens,
   cost,
   model,
+  cacheHit,
+  judgeParse,
 }: {
   inputTokens: number;
   outputTokens: number;
   cost: number;
   model: string;
+  cacheHit?: boolean;
+  judgeParse?: JudgeParseInfo;
 }) {
   return (
     <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
@@ -96,6 +283,71 @@ function TokenFooter({
       <span>Input: <span className="font-medium text-foreground">{formatTokens(inputTokens)}</span> tokens</span>
       <span>Output: <span className="font-medium text-foreground">{formatTokens(outputTokens)}</span> tokens</span>
       <span>Cost: <span className="font-medium text-foreground">{formatCost(cost)}</span></span>
+      {cacheHit && <span className="font-medium text-foreground">Cached response</span>}
+      {judgeParse && isRescued(judgeParse) && (
+        <span className="font-medium text-amber-600" title={judgeParse.raw}>
+          JSON recovered ({judgeParse.tier})
+        </span>
+      )}
+    </div>
+  );
+}
+
+function ValidationNotice({ validation }: { validation?: JudgeValidationReport }) {
+  if (!validation || validation.issues.length === 0) return null;
+
+  if (!validation.degraded) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        {validation.issues.length} minor judge output{" "}
+        {validation.issues.length === 1 ? "issue" : "issues"}:{" "}
+        {validation.issues.map((issue) => issue.message).join(" ")}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+      <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0 text-amber-500" />
+      <div>
+        <p className="font-semibold">Degraded Judge Output</p>
+        <p className="opacity-80">
+          Some scores or the verdict were filled in or clamped. This result is counted
+          separately in run metrics.
+        </p>
+        <ul className="mt-1 list-disc pl-4 text-xs opacity-80">
+          {validation.issues.map((issue, i) => (
+            <li key={i}>
+              {issue.pass === "reversed" && "Reversed pass: "}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+function InjectionNotice({ flags }: { flags?: InjectionFlag[] }) {
+  if (!flags?.length) return null;
+  return (
+    <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+      <ShieldAlert className="h-4 w-4 mt-0.5 flex-shrink-0 text-red-500" />
+      <div className="min-w-0">
+        <p className="font-semibold">Possible Prompt Injection</p>
+        <p className="opacity-80">
+          The evaluated content looks like it addresses the judge. It was fenced off as data,
+          but check that the scores reflect the content itself.
+        </p>
+        <ul className="mt-1 list-disc pl-4 text-xs opacity-80">
+          {flags.map((flag, i) => (
+            <li key={i} className="break-words">
+              {INJECTION_SIGNAL_LABELS[flag.signal]} ({flag.source}):{" "}
+              <span className="font-mono">{flag.excerpt}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
     </div>
   );
 }
@@ -119,6 +371,52 @@ function SingleResult({ result }: { result: SingleEvalResult }) {
 
       <Separator />
 
+      <InjectionNotice flags={result.injectionFlags} />
+
+      <ValidationNotice validation={result.validation} />
+
+      {result.consistency && result.samples && (
+        <SamplingSummary
+          sampling={result.consistency.sampling}
+          stats={`${Math.round(result.consistency.agreementRate * 100)}% criterion agreement, aggregate σ ${result.consistency.aggregateStdDev}`}
+          samples={result.samples.map(
+            (s) => `Aggregate ${s.aggregateScore}${s.summary ? ` — ${s.summary}` : ""}`
+          )}
+        />
+      )}
+
+      {result.input.messages && (
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Conversation</h3>
+          <ConversationThread
+            messages={result.input.messages}
+            scope={result.input.conversationScope ?? "final_turn"}
+            className="max-h-80 overflow-y-auto"
+          />
+        </div>
+      )}
+
+      {result.input.trajectory && (
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Agent Trajectory</h3>
+          <TrajectoryView
+            trajectory={result.input.trajectory}
+            annotations={result.stepAnnotations}
+            rubric={result.rubric}
+            className="max-h-[32rem] overflow-y-auto"
+          />
+        </div>
+      )}
+
+      {result.input.referenceAnswer && (
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Reference Answer</h3>
+          <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
+            {result.input.referenceAnswer}
+          </p>
+        </div>
+      )}
+
       {/* Summary */}
       {(result.summary || result.chainOfThought) && (
         <div>
@@ -134,7 +432,10 @@ function SingleResult({ result }: { result: SingleEvalResult }) {
       {/* Criterion scores */}
       <div>
         <h3 className="text-sm font-semibold mb-3">Criteria Breakdown</h3>
-        <CriterionTable scores={result.criterionScores} />
+        <CriterionTable
+          scores={result.criterionScores}
+          spreads={result.consistency?.criteria}
+        />
       </div>
 
       <Separator />
@@ -148,6 +449,8 @@ function SingleResult({ result }: { result: SingleEvalResult }) {
         outputTokens={result.outputTokens}
         cost={result.estimatedCostUsd}
         model={result.judgeModel.name}
+        cacheHit={result.cacheHit}
+        judgeParse={result.judgeParse}
       />
     </div>
   );
@@ -160,6 +463,10 @@ function VerdictBanner({ result }: { result: PairwiseEvalResult }) {
   const labelA = result.input.modelLabelA || "Response A";
   const labelB = result.input.modelLabelB || "Response B";
 
+  const scale = result.input.preferenceScale;
+  const margin = scale ? result.preference : undefined;
+  const strength = scale && margin !== undefined ? ` — ${preferenceStrength(margin, scale)}` : "";
+
   let bannerClass = "bg-muted border";
   let icon = <Minus className="h-5 w-5" />;
   let text = "Tie — Both responses are equivalent";
@@ -167,11 +474,11 @@ function VerdictBanner({ result }: { result: PairwiseEvalResult }) {
   if (verdict === "A") {
     bannerClass = "bg-green-50 border-green-200 text-green-800";
     icon = <Trophy className="h-5 w-5 text-green-600" />;
-    text = `${labelA} wins`;
+    text = `${labelA} wins${strength}`;
   } else if (verdict === "B") {
     bannerClass = "bg-blue-50 border-blue-200 text-blue-800";
     icon = <Trophy className="h-5 w-5 text-blue-600" />;
-    text = `${labelB} wins`;
+    text = `${labelB} wins${strength}`;
   }
 
   return (
@@ -179,6 +486,22 @@ function VerdictBanner({ result }: { result: PairwiseEvalResult }) {
       {icon}
       <div className="flex-1">
         <p className="font-semibold">{text}</p>
+        {scale && margin !== undefined && (
+          <div className="mt-1.5 flex flex-wrap gap-1">
+            {preferenceLabels(scale).map((label, i) => (
+              <span
+                key={label}
+                className={`rounded px-1.5 py-0.5 font-mono text-[11px] ${
+                  margin === preferenceRange(scale) - i
+                    ? "bg-white/70 font-semibold ring-1 ring-current"
+                    : "opacity-40"
+                }`}
+              >
+                {label}
+              </span>
+            ))}
+          </div>
+        )}
         {result.verdictReasoning && (
           <p className="text-sm mt-0.5 opacity-80">{result.verdictReasoning}</p>
         )}
@@ -191,6 +514,23 @@ function VerdictBanner({ result }: { result: PairwiseEvalResult }) {
   );
 }
 
+/** How the reported verdict was reached once the orders disagreed. */
+function positionBiasResolutionNote(result: PairwiseEvalResult): string {
+  if (!result.primaryVerdict) return "Treat this result with caution.";
+  switch (result.input.positionBiasPolicy) {
+    case "tie":
+      return "Reported as a tie.";
+    case "average":
+      return "Reported from criterion scores averaged across both orders.";
+    case "tiebreak":
+      return `A third, tie-breaking call decided: ${
+        result.tiebreakVerdict === "tie" ? "tie" : `${result.tiebreakVerdict} wins`
+      }.`;
+    default:
+      return "Treat this result with caution.";
+  }
+}
+
 function PairwiseResult({ result }: { result: PairwiseEvalResult }) {
   const labelA = result.input.modelLabelA || "Response A";
   const labelB = result.input.modelLabelB || "Response B";
@@ -200,6 +540,16 @@ function PairwiseResult({ result }: { result: PairwiseEvalResult }) {
       {/* Verdict banner */}
       <VerdictBanner result={result} />
 
+      {result.input.messages && (
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Conversation So Far</h3>
+          <ConversationThread
+            messages={result.input.messages}
+            className="max-h-80 overflow-y-auto"
+          />
+        </div>
+      )}
+
       {result.summary && (
         <div>
           <h3 className="text-sm font-semibold mb-2">Overall Assessment</h3>
@@ -217,13 +567,34 @@ function PairwiseResult({ result }: { result: PairwiseEvalResult }) {
             <p className="font-semibold">Position Bias Detected</p>
             <p className="opacity-80">
               The judge gave different verdicts when response order was swapped (
-              {result.verdict} → {result.reversedVerdict}
-              ). Treat this result with caution.
+              {result.primaryVerdict ?? result.verdict} → {result.reversedVerdict}
+              ). {positionBiasResolutionNote(result)}
             </p>
           </div>
         </div>
       )}
 
+      <InjectionNotice flags={result.injectionFlags} />
+
+      <ValidationNotice validation={result.validation} />
+
+      {result.consistency && result.samples && (
+        <SamplingSummary
+          sampling={result.consistency.sampling}
+          stats={`votes A ${result.consistency.verdictCounts.A} · B ${result.consistency.verdictCounts.B} · tie ${result.consistency.verdictCounts.tie} (${Math.round(result.consistency.agreementRate * 100)}% agreement)`}
+          samples={result.samples.map(
+            (s) =>
+              `A ${s.aggregateScoreA} vs B ${s.aggregateScoreB} — ${
+                s.preference !== undefined
+                  ? preferenceLabel(s.preference)
+                  : s.verdict === "tie"
+                    ? "tie"
+                    : `${s.verdict} wins`
+              }`
+          )}
+        />
+      )}
+
       <Separator />
 
       {/* Side-by-side criteria */}
@@ -233,14 +604,20 @@ function PairwiseResult({ result }: { result: PairwiseEvalResult }) {
             {labelA}
             <AggregateScoreBadge score={result.aggregateScoreA} size="sm" />
           </h3>
-          <CriterionTable scores={result.criterionScoresA} />
+          <CriterionTable
+            scores={result.criterionScoresA}
+            spreads={result.consistency?.criteriaA}
+          />
         </div>
         <div>
           <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
             {labelB}
             <AggregateScoreBadge score={result.aggregateScoreB} size="sm" />
           </h3>
-          <CriterionTable scores={result.criterionScoresB} />
+          <CriterionTable
+            scores={result.criterionScoresB}
+            spreads={result.consistency?.criteriaB}
+          />
         </div>
       </div>
 
@@ -255,31 +632,254 @@ function PairwiseResult({ result }: { result: PairwiseEvalResult }) {
         outputTokens={result.outputTokens}
         cost={result.estimatedCostUsd}
         model={result.judgeModel.name}
+        cacheHit={result.cacheHit}
+        judgeParse={result.judgeParse}
+      />
+    </div>
+  );
+}
+
+// ── Listwise result ───────────────────────────────────────────────────────────
+
+// Beyond these, the order candidates were shown in visibly moved their ranks.
+const POSITION_CORRELATION_WARN = 0.3;
+const RANK_AGREEMENT_WARN = 0.7;
+
+function PositionEffectNotice({
+  effect,
+  orderings,
+}: {
+  effect: ListwisePositionEffect;
+  orderings: number;
+}) {
+  const r = effect.positionRankCorrelation;
+  const biased =
+    Math.abs(r) >= POSITION_CORRELATION_WARN || effect.rankAgreement < RANK_AGREEMENT_WARN;
+  return (
+    <div
+      className={`rounded-md border px-4 py-3 text-sm ${biased ? "border-orange-200 bg-orange-50 text-orange-800" : "bg-muted/30"}`}
+    >
+      <p className="font-semibold flex items-center gap-2">
+        {biased && <AlertTriangle className="h-4 w-4 text-orange-500" />}
+        {biased ? "Position Effect Detected" : "No Clear Position Effect"}
+      </p>
+      <p className={`text-xs ${biased ? "opacity-80" : "text-muted-foreground"}`}>
+        Across {orderings} orderings the rankings agree at W = {effect.rankAgreement}; slot and
+        rank correlate at r = {r}
+        {Math.abs(r) >= POSITION_CORRELATION_WARN &&
+          (r > 0 ? " (earlier slots ranked better)" : " (later slots ranked better)")}
+        .
+      </p>
+      <p className={`mt-1 text-xs ${biased ? "opacity-80" : "text-muted-foreground"}`}>
+        Mean rank by slot:{" "}
+        {effect.slotMeanRanks
+          .map((rank, slot) => `${listwiseSlotLetter(slot)} ${rank}`)
+          .join(" · ")}
+      </p>
+    </div>
+  );
+}
+
+function ListwiseResult({ result }: { result: ListwiseEvalResult }) {
+  const multiple = result.orderings.length > 1;
+  const rankCounts = new Map<number, number>();
+  for (const c of result.ranking) rankCounts.set(c.rank, (rankCounts.get(c.rank) ?? 0) + 1);
+
+  return (
+    <div className="space-y-5">
+      <ol className="space-y-2">
+        {result.ranking.map((c) => (
+          <li key={c.candidateIndex} className="rounded-lg border">
+            <details>
+              <summary className="flex cursor-pointer items-center gap-3 px-4 py-3">
+                <span className="flex h-7 w-7 flex-shrink-0 items-center justify-center rounded-full bg-muted text-sm font-semibold">
+                  {c.rank === 1 ? <Trophy className="h-4 w-4 text-green-600" /> : c.rank}
+                </span>
+                <span className="flex-1 font-medium">{c.label}</span>
+                {(rankCounts.get(c.rank) ?? 0) > 1 && <Badge variant="outline">tied</Badge>}
+                {multiple && (
+                  <span className="text-xs text-muted-foreground">mean rank {c.meanRank}</span>
+                )}
+                <AggregateScoreBadge score={c.aggregateScore} size="sm" />
+              </summary>
+              <div className="border-t px-4 py-3">
+                <CriterionTable scores={c.criterionScores} />
+              </div>
+            </details>
+          </li>
+        ))}
+      </ol>
+
+      {result.summary && (
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Overall Assessment</h3>
+          <p className="text-sm text-muted-foreground leading-relaxed">{result.summary}</p>
+        </div>
+      )}
+
+      {result.positionEffect && (
+        <PositionEffectNotice
+          effect={result.positionEffect}
+          orderings={result.orderings.length}
+        />
+      )}
+
+      <InjectionNotice flags={result.injectionFlags} />
+
+      <ValidationNotice validation={result.validation} />
+
+      <Separator />
+
+      <ChainOfThought text={result.chainOfThought} />
+
+      <TokenFooter
+        inputTokens={result.inputTokens}
+        outputTokens={result.outputTokens}
+        cost={result.estimatedCostUsd}
+        model={result.judgeModel.name}
+        cacheHit={result.cacheHit}
+        judgeParse={result.judgeParse}
       />
     </div>
   );
 }
 
+// ── Streaming result ──────────────────────────────────────────────────────────
+
+/** Arrived scores first, then a placeholder row per criterion still pending. */
+function StreamingCriteria({
+  rubric,
+  scores,
+}: {
+  rubric: Rubric;
+  scores: CriterionScore[];
+}) {
+  const arrived = new Set(scores.map((cs) => cs.criterionId));
+  return (
+    <div className="space-y-3">
+      {scores.map((cs) => (
+        <CriterionRow key={cs.criterionId} cs={cs} />
+      ))}
+      {rubric.criteria
+        .filter((c) => !arrived.has(c.id))
+        .map((c) => (
+          <div key={c.id} className="flex items-center gap-3 text-sm text-muted-foreground">
+            <span className="flex-1">{c.name}</span>
+            <span className="text-xs">waiting…</span>
+          </div>
+        ))}
+    </div>
+  );
+}
+
+function LiveReasoning({ text }: { text: string }) {
+  return (
+    <div className="rounded-md border bg-muted/30 px-4 py-3">
+      <p className="text-sm font-medium mb-1">Judge Reasoning Notes</p>
+      <p className="text-sm text-muted-foreground whitespace-pre-wrap leading-relaxed">
+        {text || "Thinking…"}
+      </p>
+    </div>
+  );
+}
+
+function SingleStreamingResult({ partial }: { partial: SingleEvalPartial }) {
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {partial.samplesDrawn
+            ? `Drawing judge samples (${partial.samplesDrawn.done}/${partial.samplesDrawn.total})…`
+            : `Scoring ${partial.criterionScores.length}/${partial.rubric.criteria.length} criteria`}
+        </p>
+        <Badge variant="outline">{partial.rubric.name}</Badge>
+      </div>
+
+      <LiveReasoning text={partial.chainOfThought} />
+
+      <div>
+        <h3 className="text-sm font-semibold mb-3">Criteria Breakdown</h3>
+        <StreamingCriteria rubric={partial.rubric} scores={partial.criterionScores} />
+      </div>
+
+      {partial.summary && (
+        <p className="text-sm text-muted-foreground leading-relaxed">{partial.summary}</p>
+      )}
+    </div>
+  );
+}
+
+function PairwiseStreamingResult({ partial }: { partial: PairwiseEvalPartial }) {
+  return (
+    <div className="space-y-5">
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        {partial.checkingPositionBias
+          ? "Re-judging with responses swapped to check position bias…"
+          : partial.samplesDrawn
+            ? `Drawing judge samples (${partial.samplesDrawn.done}/${partial.samplesDrawn.total})…`
+            : partial.verdict
+            ? `Leaning ${partial.verdict === "tie" ? "tie" : partial.verdict}…`
+            : "Comparing responses…"}
+      </p>
+
+      <LiveReasoning text={partial.chainOfThought} />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-sm font-semibold mb-3">Response A</h3>
+          <StreamingCriteria rubric={partial.rubric} scores={partial.criterionScoresA} />
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold mb-3">Response B</h3>
+          <StreamingCriteria rubric={partial.rubric} scores={partial.criterionScoresB} />
+        </div>
+      </div>
+
+      {partial.verdictReasoning && (
+        <p className="text-sm text-muted-foreground leading-relaxed">
+          {partial.verdictReasoning}
+        </p>
+      )}
+    </div>
+  );
+}
+
 // ── Main export ───────────────────────────────────────────────────────────────
 
 interface EvaluationResultProps {
-  result: EvalResult;
+  /** A finished result, or the partial result of a streaming evaluation. */
+  result: EvalResult | ListwiseEvalResult | EvalPartial;
   className?: string;
 }
 
 export function EvaluationResult({ result, className }: EvaluationResultProps) {
+  let body;
+  if ("streaming" in result) {
+    body =
+      result.mode === "single" ? (
+        <SingleStreamingResult partial={result} />
+      ) : (
+        <PairwiseStreamingResult partial={result} />
+      );
+  } else {
+    body =
+      result.mode === "single" ? (
+        <SingleResult result={result as SingleEvalResult} />
+      ) : result.mode === "listwise" ? (
+        <ListwiseResult result={result as ListwiseEvalResult} />
+      ) : (
+        <PairwiseResult result={result as PairwiseEvalResult} />
+      );
+  }
+
   return (
     <Card className={className}>
       <CardHeader className="pb-3">
         <CardTitle className="text-base">Evaluation Result</CardTitle>
       </CardHeader>
-      <CardContent>
-        {result.mode === "single" ? (
-          <SingleResult result={result as SingleEvalResult} />
-        ) : (
-          <PairwiseResult result={result as PairwiseEvalResult} />
-        )}
-      </CardContent>
+      <CardContent>{body}</CardContent>
     </Card>
   );
 }
@@ -0,0 +1,205 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ModelSelector } from "@/components/model-selector";
+import { RubricSelector } from "@/components/rubric-selector";
+import { useJudgePromptVersion } from "@/components/judge-prompt-selector";
+import { useStore } from "@/lib/store";
+import {
+  getApiKeyHeaders,
+  getDefaultModelId,
+  getJudgeRequestFields,
+} from "@/lib/api-key-headers";
+import { getBuiltInRubricById } from "@/lib/rubric-templates";
+import {
+  appendInjectionProbe,
+  compareInjectionScores,
+  INJECTION_CORPUS,
+  INJECTION_SCORE_TOLERANCE,
+  type InjectionProbeOutcome,
+} from "@/lib/prompt-injection";
+import { SINGLE_DEMO } from "@/lib/demo-data";
+import type { SingleEvalResult } from "@/lib/types";
+
+interface ProbeRow extends InjectionProbeOutcome {
+  label: string;
+  aggregateScore: number;
+}
+
+/**
+ * Scores one response as written and once per corpus injection appended to
+ * it. A robust judge gives every probed copy the baseline's score.
+ */
+export function InjectionCheckCard() {
+  const { settings, customRubrics } = useStore();
+  const [modelId, setModelId] = useState(
+    () => getDefaultModelId(settings.apiKeys) ?? settings.defaultModelId
+  );
+  const [rubricId, setRubricId] = useState(SINGLE_DEMO.rubricId);
+  const promptTemplate = useJudgePromptVersion(settings.defaultJudgePromptKey);
+  const [prompt, setPrompt] = useState(SINGLE_DEMO.prompt);
+  const [response, setResponse] = useState(SINGLE_DEMO.response);
+  const [running, setRunning] = useState(false);
+  const [baseline, setBaseline] = useState<number | null>(null);
+  const [probes, setProbes] = useState<ProbeRow[]>([]);
+
+  async function evaluate(text: string): Promise<SingleEvalResult> {
+    const rubric =
+      getBuiltInRubricById(rubricId) ?? customRubrics.find((r) => r.id === rubricId);
+    const res = await fetch("/api/evaluate/batch", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...getApiKeyHeaders(modelId, settings.apiKeys, settings),
+      },
+      body: JSON.stringify({
+        mode: "single",
+        prompt,
+        response: text,
+        rubricId,
+        rubric,
+        promptTemplate,
+        modelId,
+        ...getJudgeRequestFields(modelId, settings),
+        budgets: settings.budgets,
+      }),
+    });
+    const data = (await res.json()) as SingleEvalResult & { error?: string };
+    if (!res.ok) throw new Error(data.error ?? `HTTP ${res.status}`);
+    return data;
+  }
+
+  async function runCheck() {
+    setRunning(true);
+    setBaseline(null);
+    setProbes([]);
+    try {
+      const base = await evaluate(response);
+      setBaseline(base.aggregateScore);
+      for (const probe of INJECTION_CORPUS) {
+        const probed = await evaluate(appendInjectionProbe(response, probe));
+        const row: ProbeRow = {
+          ...compareInjectionScores(probe.id, base, probed),
+          label: probe.label,
+          aggregateScore: probed.aggregateScore,
+        };
+        setProbes((prev) => [...prev, row]);
+      }
+      toast.success("Injection check complete.");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      toast.error(`Injection check failed: ${message}`);
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  const movedCount = probes.filter((p) => p.moved).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          Injection Robustness
+        </CardTitle>
+        <CardDescription>
+          Appends each of {INJECTION_CORPUS.length} known injection strings to a response and
+          checks the judge&apos;s score does not move by more than {INJECTION_SCORE_TOLERANCE}{" "}
+          points. Runs {INJECTION_CORPUS.length + 1} judge calls.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Judge Model</Label>
+            <ModelSelector value={modelId} onValueChange={setModelId} />
+          </div>
+          <div className="space-y-2">
+            <Label>Rubric</Label>
+            <RubricSelector value={rubricId} onValueChange={setRubricId} />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Prompt</Label>
+          <Textarea value={prompt} onChange={(e) => setPrompt(e.target.value)} rows={2} />
+        </div>
+        <div className="space-y-2">
+          <Label>Response</Label>
+          <Textarea
+            value={response}
+            onChange={(e) => setResponse(e.target.value)}
+            rows={6}
+            className="text-xs"
+          />
+        </div>
+        <Button
+          onClick={runCheck}
+          disabled={running || !prompt.trim() || !response.trim()}
+          className="w-full"
+        >
+          {running ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Probing {probes.length}/{INJECTION_CORPUS.length}…
+            </>
+          ) : (
+            "Run Injection Check"
+          )}
+        </Button>
+
+        {baseline !== null && (
+          <div className="rounded-md border p-3 text-sm space-y-2">
+            <div className="flex items-center justify-between">
+              <p>
+                Baseline score: <strong>{baseline}</strong>
+              </p>
+              {probes.length === INJECTION_CORPUS.length &&
+                (movedCount === 0 ? (
+                  <Badge variant="secondary">Scores held under every probe</Badge>
+                ) : (
+                  <Badge variant="outline" className="border-red-200 text-red-700">
+                    {movedCount} of {probes.length} probes moved the score
+                  </Badge>
+                ))}
+            </div>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-1.5 pr-3 font-medium">Probe</th>
+                  <th className="py-1.5 pr-3 font-medium text-right">Score</th>
+                  <th className="py-1.5 pr-3 font-medium text-right">Δ</th>
+                  <th className="py-1.5 font-medium">Criteria moved</th>
+                </tr>
+              </thead>
+              <tbody>
+                {probes.map((p) => (
+                  <tr key={p.probeId} className="border-b last:border-0">
+                    <td className="py-1.5 pr-3">{p.label}</td>
+                    <td className="py-1.5 pr-3 text-right">{p.aggregateScore}</td>
+                    <td
+                      className={`py-1.5 pr-3 text-right font-medium ${p.moved ? "text-red-600" : "text-green-700"}`}
+                    >
+                      {p.aggregateDelta > 0 ? "+" : ""}
+                      {p.aggregateDelta}
+                    </td>
+                    <td className="py-1.5 text-muted-foreground">
+                      {p.movedCriteria.length > 0 ? p.movedCriteria.join(", ") : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_JUDGE_PROMPT_TEMPLATE,
+  DEFAULT_JUDGE_PROMPT_VERSION,
+  findJudgePromptVersion,
+  judgePromptVersionKey,
+} from "@/lib/judge-prompt-templates";
+import { useStore } from "@/lib/store";
+import type { JudgePromptTemplate, JudgePromptTemplateVersion } from "@/lib/types";
+
+/** The built-in template followed by the user's templates. */
+export function useJudgePromptTemplates(): JudgePromptTemplate[] {
+  const customPromptTemplates = useStore((s) => s.customPromptTemplates);
+  return useMemo(
+    () => [DEFAULT_JUDGE_PROMPT_TEMPLATE, ...customPromptTemplates],
+    [customPromptTemplates]
+  );
+}
+
+/** Resolves a selector value, falling back to the built-in template. */
+export function useJudgePromptVersion(key: string): JudgePromptTemplateVersion {
+  const templates = useJudgePromptTemplates();
+  return findJudgePromptVersion(templates, key) ?? DEFAULT_JUDGE_PROMPT_VERSION;
+}
+
+interface JudgePromptSelectorProps {
+  value: string;
+  onValueChange: (value: string) => void;
+}
+
+export function JudgePromptSelector({ value, onValueChange }: JudgePromptSelectorProps) {
+  const templates = useJudgePromptTemplates();
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder="Select judge prompt…" />
+      </SelectTrigger>
+      <SelectContent>
+        {templates.map((template) => (
+          <SelectGroup key={template.id}>
+            <SelectLabel>{template.name}</SelectLabel>
+            {[...template.versions].reverse().map((version, i) => (
+              <SelectItem
+                key={judgePromptVersionKey(version)}
+                value={judgePromptVersionKey(version)}
+              >
+                <span>
+                  {template.name} v{version.versionNumber}
+                </span>
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {i === 0 ? "(latest)" : version.notes ? `(${version.notes})` : ""}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
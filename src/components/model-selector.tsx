@@ -10,34 +10,39 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { MODELS_BY_PROVIDER } from "@/lib/models";
+import { listModels } from "@/lib/models";
+import { listProviders } from "@/lib/providers";
 import { useStore } from "@/lib/store";
 import { hasApiKey } from "@/lib/api-key-headers";
-import type { Provider } from "@/lib/types";
+import type { ModelSpec } from "@/lib/types";
 
 interface ModelSelectorProps {
   value: string;
   onValueChange: (value: string) => void;
 }
 
-const PROVIDER_LABELS: Record<string, string> = {
-  openai: "OpenAI",
-  anthropic: "Anthropic",
-  google: "Google",
-};
-
-const EMPTY_ENV_PROVIDER_KEYS: Record<Provider, boolean> = {
-  openai: false,
-  anthropic: false,
-  google: false,
-};
+const EMPTY_ENV_PROVIDER_KEYS: Record<string, boolean> = {};
 
 export function ModelSelector({ value, onValueChange }: ModelSelectorProps) {
   const { settings } = useStore();
-  const [envProviderKeys, setEnvProviderKeys] = useState<Record<Provider, boolean>>(
+  const [envProviderKeys, setEnvProviderKeys] = useState<Record<string, boolean>>(
     EMPTY_ENV_PROVIDER_KEYS
   );
 
+  const catalog = {
+    customModels: settings?.customModels ?? [],
+    customProviders: settings?.customProviders ?? [],
+  };
+  const models = listModels(catalog);
+  const groups: Array<{ provider: string; label: string; models: ModelSpec[] }> =
+    listProviders(catalog.customProviders)
+      .map((provider) => ({
+        provider: provider.id,
+        label: provider.name,
+        models: models.filter((m) => m.provider === provider.id),
+      }))
+      .filter((group) => group.models.length > 0);
+
   useEffect(() => {
     const abortController = new AbortController();
 
@@ -48,12 +53,12 @@ export function ModelSelector({ value, onValueChange }: ModelSelectorProps) {
           signal: abortController.signal,
         });
         if (!res.ok) return;
-        const data = (await res.json()) as Partial<Record<Provider, unknown>>;
-        setEnvProviderKeys({
-          openai: !!data.openai,
-          anthropic: !!data.anthropic,
-          google: !!data.google,
-        });
+        const data = (await res.json()) as Record<string, unknown>;
+        setEnvProviderKeys(
+          Object.fromEntries(
+            Object.entries(data).map(([provider, available]) => [provider, !!available])
+          )
+        );
       } catch {
         // Ignore fetch errors and default to local-key-only behavior.
       }
@@ -69,13 +74,16 @@ export function ModelSelector({ value, onValueChange }: ModelSelectorProps) {
         <SelectValue placeholder="Select judge model…" />
       </SelectTrigger>
       <SelectContent>
-        {Object.entries(MODELS_BY_PROVIDER).map(([provider, models]) => (
+        {groups.map(({ provider, label, models }) => (
           <SelectGroup key={provider}>
-            <SelectLabel>{PROVIDER_LABELS[provider]}</SelectLabel>
+            <SelectLabel>{label}</SelectLabel>
             {models.map((model) => {
-              const typedProvider = provider as Provider;
-              const hasLocalKey = hasApiKey(model.id, settings?.apiKeys ?? {});
-              const hasEnvKey = envProviderKeys[typedProvider];
+              const hasLocalKey = hasApiKey(
+                model.id,
+                settings?.apiKeys ?? {},
+                catalog
+              );
+              const hasEnvKey = !!envProviderKeys[provider];
               const hasKey = hasLocalKey || hasEnvKey;
               const showDemo = !hasLocalKey && hasEnvKey;
 
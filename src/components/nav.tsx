@@ -10,6 +10,8 @@ import {
   Settings,
   ShieldCheck,
   BookOpen,
+  FileText,
+  Trophy,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -18,7 +20,9 @@ const NAV_LINKS = [
   { href: "/evaluate", label: "Evaluate", icon: Scale },
   { href: "/datasets", label: "Datasets", icon: Database },
   { href: "/rubrics", label: "Rubrics", icon: BookOpen },
+  { href: "/prompts", label: "Prompts", icon: FileText },
   { href: "/experiments", label: "Experiments", icon: FlaskConical },
+  { href: "/leaderboard", label: "Leaderboard", icon: Trophy },
   { href: "/judge-qa", label: "Judge QA", icon: ShieldCheck },
 ];
 
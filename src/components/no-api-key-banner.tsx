@@ -14,7 +14,7 @@ export function NoApiKeyBanner() {
     <Alert className="border-amber-300 bg-amber-50 text-amber-900">
       <AlertTriangle className="h-4 w-4 text-amber-700" />
       <AlertDescription>
-        The app is in demo mode as no API key configured. Go to the Settings tab to add a key for OpenAI, Anthropic, or Google.
+        The app is in demo mode as no API key configured. Go to the Settings tab to add a key for OpenAI, Anthropic, or Google, or pick the offline Mock Judge to run evaluations without one.
       </AlertDescription>
     </Alert>
   );
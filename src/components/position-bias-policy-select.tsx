@@ -0,0 +1,47 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  POSITION_BIAS_POLICIES,
+  POSITION_BIAS_POLICY_DESCRIPTIONS,
+  POSITION_BIAS_POLICY_LABELS,
+} from "@/lib/position-bias";
+import type { PositionBiasPolicy } from "@/lib/types";
+
+interface PositionBiasPolicySelectProps {
+  value: PositionBiasPolicy;
+  onChange: (value: PositionBiasPolicy) => void;
+}
+
+/** What to report when the verdict flips with the order; shown once the check is on. */
+export function PositionBiasPolicySelect({ value, onChange }: PositionBiasPolicySelectProps) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div>
+        <p className="text-sm font-medium">If Verdicts Disagree</p>
+        <p className="text-xs text-muted-foreground">
+          {POSITION_BIAS_POLICY_DESCRIPTIONS[value]}
+          {value === "tiebreak" && " (up to 3× cost)"}
+        </p>
+      </div>
+      <Select value={value} onValueChange={(v) => onChange(v as PositionBiasPolicy)}>
+        <SelectTrigger className="h-8 w-44 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {POSITION_BIAS_POLICIES.map((policy) => (
+            <SelectItem key={policy} value={policy}>
+              {POSITION_BIAS_POLICY_LABELS[policy]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PREFERENCE_SCALE_LABELS, PREFERENCE_SCALES } from "@/lib/preference";
+import type { PreferenceScale } from "@/lib/types";
+
+const OFF = "off";
+
+interface PreferenceScaleSelectProps {
+  value: PreferenceScale | undefined; // undefined: plain A / B / tie
+  onChange: (value: PreferenceScale | undefined) => void;
+}
+
+/** Whether the judge grades how strongly it prefers one response. */
+export function PreferenceScaleSelect({ value, onChange }: PreferenceScaleSelectProps) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div>
+        <p className="text-sm font-medium">Preference Strength</p>
+        <p className="text-xs text-muted-foreground">
+          Grade the verdict from a slight to an overwhelming win
+        </p>
+      </div>
+      <Select
+        value={value ? String(value) : OFF}
+        onValueChange={(v) => onChange(v === OFF ? undefined : (Number(v) as PreferenceScale))}
+      >
+        <SelectTrigger className="h-8 w-44 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={OFF}>Off (A / B / tie)</SelectItem>
+          {PREFERENCE_SCALES.map((scale) => (
+            <SelectItem key={scale} value={String(scale)}>
+              {PREFERENCE_SCALE_LABELS[scale]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
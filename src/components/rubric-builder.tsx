@@ -23,6 +23,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -30,7 +31,68 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { RubricCriterion, ScoreRange } from "@/lib/types";
+import { criterionScoreBounds } from "@/lib/utils";
+import type { RubricCriterion, ScoreAnchor } from "@/lib/types";
+
+// ── Scale bounds and anchors ──────────────────────────────────────────────────
+
+const MAX_SCORE = 100;
+
+/** Re-bounds a scale, dropping anchors for levels that no longer exist. */
+function withBounds(criterion: RubricCriterion, min: number, max: number): RubricCriterion {
+  const anchors = criterion.anchors?.filter((a) => a.score >= min && a.score <= max);
+  return {
+    ...criterion,
+    scoreMin: min === 1 ? undefined : min,
+    scoreRange: max,
+    anchors: anchors?.length ? anchors : undefined,
+  };
+}
+
+function AnchorEditor({
+  criterion,
+  onChange,
+}: {
+  criterion: RubricCriterion;
+  onChange: (updated: RubricCriterion) => void;
+}) {
+  const { min, max } = criterionScoreBounds(criterion);
+  const levels = Array.from({ length: max - min + 1 }, (_, i) => min + i);
+  const described = criterion.anchors?.length ?? 0;
+
+  function setAnchor(score: number, description: string) {
+    const others = (criterion.anchors ?? []).filter((a) => a.score !== score);
+    const anchors: ScoreAnchor[] = description
+      ? [...others, { score, description }].sort((a, b) => a.score - b.score)
+      : others;
+    onChange({ ...criterion, anchors: anchors.length ? anchors : undefined });
+  }
+
+  return (
+    <details className="rounded-md border px-2 py-1.5">
+      <summary className="cursor-pointer text-xs text-muted-foreground">
+        Score anchors ({described}/{levels.length} levels described)
+      </summary>
+      <div className="mt-2 max-h-64 space-y-1.5 overflow-y-auto">
+        {levels.map((score) => (
+          <div key={score} className="flex items-center gap-2">
+            <span className="w-8 shrink-0 text-right text-xs font-mono text-muted-foreground">
+              {score}
+            </span>
+            <Input
+              value={criterion.anchors?.find((a) => a.score === score)?.description ?? ""}
+              onChange={(e) => setAnchor(score, e.target.value)}
+              placeholder={
+                score === min ? "e.g. Major factual errors" : score === max ? "e.g. Fully correct" : ""
+              }
+              className="h-7 text-xs"
+            />
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
 
 // ── Sortable criterion row ────────────────────────────────────────────────────
 
@@ -52,6 +114,7 @@ function CriterionRow({
   };
 
   const weightPct = Math.round(criterion.weight * 100);
+  const { min, max } = criterionScoreBounds(criterion);
 
   return (
     <div
@@ -107,17 +170,17 @@ function CriterionRow({
             <div className="space-y-1">
               <Label className="text-xs">Scale</Label>
               <Select
-                value={String(criterion.scoreRange)}
+                value={criterion.type === "checklist" ? "checklist" : "scale"}
                 onValueChange={(v) =>
-                  onChange({ ...criterion, scoreRange: Number(v) as ScoreRange })
+                  onChange({ ...criterion, type: v === "checklist" ? "checklist" : undefined })
                 }
               >
                 <SelectTrigger className="h-8 text-sm">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="5">1 – 5</SelectItem>
-                  <SelectItem value="10">1 – 10</SelectItem>
+                  <SelectItem value="scale">Score scale</SelectItem>
+                  <SelectItem value="checklist">Pass / fail</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -135,6 +198,54 @@ function CriterionRow({
             className="text-sm resize-none"
           />
         </div>
+        {criterion.type !== "checklist" && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Label className="text-xs">Scores from</Label>
+              <Input
+                type="number"
+                min={0}
+                max={max - 1}
+                value={min}
+                onChange={(e) =>
+                  onChange(
+                    withBounds(criterion, Math.max(0, Math.min(max - 1, Math.round(Number(e.target.value)))), max)
+                  )
+                }
+                className="h-7 w-16 text-sm"
+              />
+              <Label className="text-xs">to</Label>
+              <Input
+                type="number"
+                min={min + 1}
+                max={MAX_SCORE}
+                value={max}
+                onChange={(e) =>
+                  onChange(
+                    withBounds(
+                      criterion,
+                      min,
+                      Math.max(min + 1, Math.min(MAX_SCORE, Math.round(Number(e.target.value))))
+                    )
+                  )
+                }
+                className="h-7 w-16 text-sm"
+              />
+            </div>
+            <AnchorEditor criterion={criterion} onChange={onChange} />
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            Step-level: on agent trajectories, the judge flags the steps behind this score
+          </p>
+          <Switch
+            checked={criterion.stepLevel ?? false}
+            onCheckedChange={(checked) =>
+              onChange({ ...criterion, stepLevel: checked || undefined })
+            }
+          />
+        </div>
       </div>
 
       <button
@@ -0,0 +1,193 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { nanoid } from "nanoid";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { criterionScoreBounds } from "@/lib/utils";
+import type { RubricCriterion, RubricExemplar } from "@/lib/types";
+
+/** Criteria an exemplar has no valid score for, by name. */
+export function missingExemplarScores(
+  exemplar: RubricExemplar,
+  criteria: RubricCriterion[]
+): string[] {
+  return criteria
+    .filter((c) => {
+      const score = exemplar.scores[c.id];
+      const { min, max } = criterionScoreBounds(c);
+      return !Number.isInteger(score) || score < min || score > max;
+    })
+    .map((c) => c.name || "Untitled criterion");
+}
+
+// ── Exemplar row ──────────────────────────────────────────────────────────────
+
+function ExemplarRow({
+  index,
+  exemplar,
+  criteria,
+  onChange,
+  onDelete,
+}: {
+  index: number;
+  exemplar: RubricExemplar;
+  criteria: RubricCriterion[];
+  onChange: (updated: RubricExemplar) => void;
+  onDelete: () => void;
+}) {
+  function setScore(criterionId: string, value: string) {
+    const scores = { ...exemplar.scores };
+    if (value === "") {
+      delete scores[criterionId];
+    } else {
+      scores[criterionId] = Number(value);
+    }
+    onChange({ ...exemplar, scores });
+  }
+
+  return (
+    <div className="rounded-lg border bg-card p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-muted-foreground">Example {index + 1}</span>
+        <button
+          onClick={onDelete}
+          className="text-muted-foreground hover:text-destructive transition-colors"
+          title="Delete exemplar"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Prompt</Label>
+          <Textarea
+            value={exemplar.prompt}
+            onChange={(e) => onChange({ ...exemplar, prompt: e.target.value })}
+            placeholder="The prompt the example response answered"
+            rows={3}
+            className="text-sm resize-none"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Response</Label>
+          <Textarea
+            value={exemplar.response}
+            onChange={(e) => onChange({ ...exemplar, response: e.target.value })}
+            placeholder="The graded response"
+            rows={3}
+            className="text-sm resize-none"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {criteria.map((c) =>
+          c.type === "checklist" ? (
+            <div key={c.id} className="space-y-1">
+              <Label className="text-xs truncate block" title={c.name}>
+                {c.name || "Untitled"} (pass/fail)
+              </Label>
+              <Select
+                value={exemplar.scores[c.id] === undefined ? "" : String(exemplar.scores[c.id])}
+                onValueChange={(v) => setScore(c.id, v)}
+              >
+                <SelectTrigger className="h-8 text-sm">
+                  <SelectValue placeholder="—" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">Pass</SelectItem>
+                  <SelectItem value="0">Fail</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div key={c.id} className="space-y-1">
+              <Label className="text-xs truncate block" title={c.name}>
+                {c.name || "Untitled"} ({criterionScoreBounds(c).min}–{c.scoreRange})
+              </Label>
+              <Input
+                type="number"
+                min={criterionScoreBounds(c).min}
+                max={c.scoreRange}
+                value={exemplar.scores[c.id] ?? ""}
+                onChange={(e) => setScore(c.id, e.target.value)}
+                className="h-8 text-sm"
+              />
+            </div>
+          )
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Rationale</Label>
+        <Textarea
+          value={exemplar.rationale}
+          onChange={(e) => onChange({ ...exemplar, rationale: e.target.value })}
+          placeholder="Why these scores? Point at what earns or loses marks."
+          rows={2}
+          className="text-sm resize-none"
+        />
+      </div>
+    </div>
+  );
+}
+
+// ── Exemplar editor ───────────────────────────────────────────────────────────
+
+interface RubricExemplarEditorProps {
+  criteria: RubricCriterion[];
+  exemplars: RubricExemplar[];
+  onChange: (exemplars: RubricExemplar[]) => void;
+}
+
+export function RubricExemplarEditor({ criteria, exemplars, onChange }: RubricExemplarEditorProps) {
+  function handleAdd() {
+    onChange([...exemplars, { id: nanoid(), prompt: "", response: "", scores: {}, rationale: "" }]);
+  }
+
+  return (
+    <div className="space-y-3">
+      {exemplars.map((exemplar, i) => (
+        <ExemplarRow
+          key={exemplar.id}
+          index={i}
+          exemplar={exemplar}
+          criteria={criteria}
+          onChange={(updated) =>
+            onChange(exemplars.map((e) => (e.id === exemplar.id ? updated : e)))
+          }
+          onDelete={() => onChange(exemplars.filter((e) => e.id !== exemplar.id))}
+        />
+      ))}
+
+      {exemplars.length === 0 && (
+        <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+          No exemplars yet. Graded examples anchor the judge&apos;s scale — include a weak, a
+          middling and a strong response.
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleAdd}
+        disabled={criteria.length === 0 || exemplars.length >= 10}
+        className="gap-1.5"
+      >
+        <Plus className="h-4 w-4" />
+        Add Exemplar
+      </Button>
+    </div>
+  );
+}
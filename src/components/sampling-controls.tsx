@@ -0,0 +1,75 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DEFAULT_SAMPLING_TEMPERATURE } from "@/lib/self-consistency";
+import type { JudgeSampling } from "@/lib/types";
+
+const SAMPLE_COUNTS = [1, 3, 5, 7];
+
+interface SamplingControlsProps {
+  value: JudgeSampling | undefined; // undefined: one sample at the default temperature
+  onChange: (value: JudgeSampling | undefined) => void;
+  costNote?: string;
+}
+
+/** Self-consistency settings: how many judge samples, at what temperature. */
+export function SamplingControls({ value, onChange, costNote }: SamplingControlsProps) {
+  const samples = value?.samples ?? 1;
+  const temperature = value?.temperature ?? DEFAULT_SAMPLING_TEMPERATURE;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium">Self-Consistency</p>
+          <p className="text-xs text-muted-foreground">
+            Sample the judge several times and take the median ({costNote ?? "N× cost"})
+          </p>
+        </div>
+        <Select
+          value={String(samples)}
+          onValueChange={(v) =>
+            onChange(Number(v) > 1 ? { samples: Number(v), temperature } : undefined)
+          }
+        >
+          <SelectTrigger className="h-8 w-28 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SAMPLE_COUNTS.map((n) => (
+              <SelectItem key={n} value={String(n)}>
+                {n === 1 ? "Off" : `${n} samples`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {value && (
+        <div className="flex items-center justify-end gap-2">
+          <span className="text-xs text-muted-foreground">Temperature</span>
+          <Input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={temperature}
+            onChange={(e) =>
+              onChange({
+                samples,
+                temperature: Math.max(0, Math.min(2, Number(e.target.value) || 0)),
+              })
+            }
+            className="h-7 w-20 text-sm"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
 import { cn, scoreToColorClass } from "@/lib/utils";
-import type { ScoreRange } from "@/lib/types";
+import type { CriterionScore } from "@/lib/types";
 
 interface ScoreBadgeProps {
   score: number;
-  maxScore: ScoreRange | 100;
+  maxScore: CriterionScore["maxScore"] | 100;
   size?: "sm" | "md" | "lg";
   showMax?: boolean;
   className?: string;
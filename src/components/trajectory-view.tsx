@@ -0,0 +1,116 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { formatStepArguments, parseTrajectory, stepLabel } from "@/lib/trajectory";
+import { cn } from "@/lib/utils";
+import type {
+  AgentTrajectory,
+  Rubric,
+  StepAnnotation,
+  StepAssessment,
+  TrajectoryStepKind,
+} from "@/lib/types";
+
+const KIND_STYLES: Record<TrajectoryStepKind, string> = {
+  thought: "border-l-slate-400 bg-slate-50",
+  tool_call: "border-l-amber-400 bg-amber-50/60",
+  tool_result: "border-l-teal-400 bg-teal-50/60",
+  message: "border-l-blue-400 bg-blue-50/60",
+  final_answer: "border-l-violet-400 bg-violet-50/60",
+};
+
+const ASSESSMENT_STYLES: Record<StepAssessment, string> = {
+  good: "border-green-200 bg-green-50 text-green-700",
+  issue: "border-red-200 bg-red-50 text-red-700",
+};
+
+interface TrajectoryViewProps {
+  trajectory: AgentTrajectory;
+  annotations?: StepAnnotation[];
+  rubric?: Rubric; // names the criteria annotations refer to
+  className?: string;
+}
+
+export function TrajectoryView({ trajectory, annotations, rubric, className }: TrajectoryViewProps) {
+  const criterionName = (id: string) => rubric?.criteria.find((c) => c.id === id)?.name ?? id;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {trajectory.steps.map((step, i) => {
+        const notes = annotations?.filter((a) => a.step === i + 1) ?? [];
+        const hasIssue = notes.some((a) => a.assessment === "issue");
+        return (
+          <div
+            key={i}
+            className={cn(
+              "rounded-md border-l-4 px-3 py-2",
+              KIND_STYLES[step.kind],
+              hasIssue && "ring-1 ring-red-300"
+            )}
+          >
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <span className="text-xs font-medium text-muted-foreground">
+                {i + 1}. {stepLabel(step)}
+              </span>
+              {step.callId && (
+                <span className="text-xs font-mono text-muted-foreground">{step.callId}</span>
+              )}
+            </div>
+            {step.content.trim() && (
+              <p className="text-sm whitespace-pre-wrap leading-relaxed">{step.content}</p>
+            )}
+            {step.kind === "tool_call" && (
+              <pre className="mt-1 overflow-x-auto rounded bg-background/70 p-2 text-xs font-mono">
+                {formatStepArguments(step)}
+              </pre>
+            )}
+            {notes.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {notes.map((a, j) => (
+                  <li key={j} className="flex items-start gap-2 text-xs">
+                    <Badge variant="outline" className={cn("text-xs", ASSESSMENT_STYLES[a.assessment])}>
+                      {a.assessment}
+                    </Badge>
+                    <span>
+                      <span className="font-medium">{criterionName(a.criterionId)}:</span>{" "}
+                      <span className="text-muted-foreground">{a.note || "No note."}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface TrajectoryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/** JSON trajectory editor with a step-by-step preview of what was parsed. */
+export function TrajectoryInput({ value, onChange }: TrajectoryInputProps) {
+  const parsed = value.trim() ? parseTrajectory(value) : undefined;
+
+  return (
+    <div className="space-y-3">
+      <Textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder='{"tools":[{"name":"search"}],"steps":[{"kind":"tool_call","toolName":"search","arguments":{"q":"…"}},{"kind":"tool_result","toolName":"search","content":"…"},{"kind":"final_answer","content":"…"}]}'
+        rows={8}
+        className="font-mono text-xs resize-y"
+      />
+      {parsed && !parsed.ok && <p className="text-xs text-destructive">{parsed.error}</p>}
+      {parsed?.ok && (
+        <div className="max-h-96 overflow-y-auto rounded-md border p-2">
+          <TrajectoryView trajectory={parsed.trajectory} />
+        </div>
+      )}
+    </div>
+  );
+}
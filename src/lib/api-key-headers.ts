@@ -1,45 +1,73 @@
-import type { ApiKeys } from "./types";
-import { MODELS, resolveProvider } from "./models";
+import type { ApiKeys, ModelSpec, ProviderSpec } from "./types";
+import {
+  getModelById,
+  MODELS,
+  resolveProvider,
+  type ModelCatalog,
+} from "./models";
+import { getProviderSnapshot, getProviderSpec } from "./providers";
 
-export function getApiKeyHeaders(
+function resolveProviderSpec(
   modelId: string,
-  apiKeys: ApiKeys
-): Record<string, string> {
-  const headers: Record<string, string> = {};
-  let provider: ReturnType<typeof resolveProvider>;
-
+  catalog: ModelCatalog
+): ProviderSpec | undefined {
   try {
-    provider = resolveProvider(modelId);
+    return getProviderSpec(
+      resolveProvider(modelId, catalog),
+      catalog.customProviders
+    );
   } catch {
-    return headers;
+    return undefined;
   }
+}
+
+export function getApiKeyHeaders(
+  modelId: string,
+  apiKeys: ApiKeys,
+  catalog: ModelCatalog = {}
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const provider = resolveProviderSpec(modelId, catalog);
+  if (!provider) return headers;
 
-  if (provider === "openai" && apiKeys.openai) {
-    headers["x-openai-api-key"] = apiKeys.openai;
-  } else if (provider === "anthropic" && apiKeys.anthropic) {
-    headers["x-anthropic-api-key"] = apiKeys.anthropic;
-  } else if (provider === "google" && apiKeys.google) {
-    headers["x-google-api-key"] = apiKeys.google;
+  const key = apiKeys[provider.id];
+  if (key) {
+    headers[provider.keyHeader] = key;
   }
 
   return headers;
 }
 
-export function hasApiKey(modelId: string, apiKeys: ApiKeys): boolean {
-  try {
-    const provider = resolveProvider(modelId);
-    if (provider === "openai") return !!apiKeys.openai;
-    if (provider === "anthropic") return !!apiKeys.anthropic;
-    if (provider === "google") return !!apiKeys.google;
-    return false;
-  } catch {
-    return false;
-  }
+export function hasApiKey(
+  modelId: string,
+  apiKeys: ApiKeys,
+  catalog: ModelCatalog = {}
+): boolean {
+  const provider = resolveProviderSpec(modelId, catalog);
+  if (!provider) return false;
+  if (!provider.requiresKey) return true;
+  return !!apiKeys[provider.id];
+}
+
+/**
+ * Model and provider snapshots sent with judge requests so the server can
+ * validate user-defined catalog entries instead of rejecting unknown ids.
+ */
+export function getJudgeRequestFields(
+  modelId: string,
+  catalog: ModelCatalog = {}
+): { model?: ModelSpec; provider?: ProviderSpec } {
+  const model = getModelById(modelId, catalog);
+  return {
+    // Built-in models are priced by the server, which rejects their snapshots.
+    model: model && MODELS.includes(model) ? undefined : model,
+    provider: getProviderSnapshot(model?.provider, catalog.customProviders),
+  };
 }
 
 /** Returns true if the user has configured at least one API key for any provider. */
 export function hasAnyApiKey(apiKeys: ApiKeys): boolean {
-  return !!(apiKeys.openai || apiKeys.anthropic || apiKeys.google);
+  return Object.values(apiKeys).some((key) => !!key);
 }
 
 /**
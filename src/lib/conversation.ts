@@ -0,0 +1,152 @@
+import type { ConversationMessage, ConversationRole } from "./types";
+
+// Multi-turn inputs: ordered chat messages, parsed from the OpenAI-style
+// `{ role, content }` shape most chat logs already use.
+
+export const CONVERSATION_ROLES: readonly ConversationRole[] = [
+  "system",
+  "user",
+  "assistant",
+  "tool",
+];
+
+const ROLE_ALIASES: Record<string, ConversationRole> = {
+  system: "system",
+  developer: "system",
+  user: "user",
+  human: "user",
+  assistant: "assistant",
+  ai: "assistant",
+  model: "assistant",
+  tool: "tool",
+  function: "tool",
+};
+
+const ROLE_LABELS: Record<ConversationRole, string> = {
+  system: "System",
+  user: "User",
+  assistant: "Assistant",
+  tool: "Tool",
+};
+
+export type ParsedConversation =
+  | { ok: true; messages: ConversationMessage[] }
+  | { ok: false; error: string };
+
+function contentText(content: unknown): string | undefined {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return undefined;
+  // Multi-part content: keep the text parts, in order.
+  const parts = content.flatMap((part) => {
+    if (typeof part === "string") return [part];
+    if (part && typeof part === "object" && typeof part.text === "string") return [part.text];
+    return [];
+  });
+  return parts.length > 0 ? parts.join("\n") : undefined;
+}
+
+/**
+ * Parses a messages array, or its JSON text as found in a CSV cell. Roles
+ * are normalized (`human` → user, `function` → tool) and unknown roles are
+ * rejected rather than guessed.
+ */
+export function parseConversationMessages(raw: unknown): ParsedConversation {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw) as unknown;
+    } catch {
+      return { ok: false, error: "messages must be a JSON array." };
+    }
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    return { ok: false, error: "messages must be a non-empty array." };
+  }
+
+  const messages: ConversationMessage[] = [];
+  for (const [i, entry] of value.entries()) {
+    if (!entry || typeof entry !== "object") {
+      return { ok: false, error: `messages[${i}] must be an object.` };
+    }
+    const { role: rawRole, content, name } = entry as Record<string, unknown>;
+    const role = ROLE_ALIASES[String(rawRole ?? "").trim().toLowerCase()];
+    if (!role) {
+      return {
+        ok: false,
+        error: `messages[${i}] has unknown role "${String(rawRole)}"; use ${CONVERSATION_ROLES.join(", ")}.`,
+      };
+    }
+    const text = contentText(content);
+    if (text === undefined) {
+      return { ok: false, error: `messages[${i}] needs text content.` };
+    }
+    messages.push({
+      role,
+      content: text,
+      ...(typeof name === "string" && name.trim() ? { name: name.trim() } : {}),
+    });
+  }
+  return { ok: true, messages };
+}
+
+/** Separates the assistant turn being graded from the history before it. */
+export function splitFinalAssistantTurn(messages: ConversationMessage[]): {
+  history: ConversationMessage[];
+  finalTurn?: ConversationMessage;
+} {
+  const last = messages[messages.length - 1];
+  if (last?.role !== "assistant") return { history: messages };
+  return { history: messages.slice(0, -1), finalTurn: last };
+}
+
+/**
+ * Flat `prompt`/`response` for a conversation: the last user message and the
+ * final assistant turn. Lists, history and CSV exports show these.
+ */
+export function flattenConversation(messages: ConversationMessage[]): {
+  prompt: string;
+  response: string;
+} {
+  const { history, finalTurn } = splitFinalAssistantTurn(messages);
+  const lastUser = [...history].reverse().find((m) => m.role === "user");
+  return { prompt: lastUser?.content ?? "", response: finalTurn?.content ?? "" };
+}
+
+/**
+ * Fills an imported row's flat fields from its transcript. A single-mode
+ * transcript ends with the graded assistant turn, which a separate
+ * `response` column supplies when missing; pairwise transcripts are the
+ * history before the two candidates.
+ */
+export function resolveConversationRow(
+  messages: ConversationMessage[],
+  mode: "single" | "pairwise",
+  fields: { prompt: string; response: string }
+): { messages: ConversationMessage[]; prompt: string; response: string } {
+  if (mode === "pairwise") {
+    const lastUser = [...messages].reverse().find((m) => m.role === "user");
+    return { messages, prompt: fields.prompt || lastUser?.content || "", response: "" };
+  }
+  const complete =
+    fields.response && messages[messages.length - 1].role !== "assistant"
+      ? [...messages, { role: "assistant" as const, content: fields.response }]
+      : messages;
+  const flat = flattenConversation(complete);
+  return {
+    messages: complete,
+    prompt: fields.prompt || flat.prompt,
+    response: fields.response || flat.response,
+  };
+}
+
+export function roleLabel(message: ConversationMessage): string {
+  const label = ROLE_LABELS[message.role];
+  return message.name ? `${label} (${message.name})` : label;
+}
+
+/** Numbered transcript with explicit role headers, so turn boundaries survive. */
+export function formatTranscript(messages: ConversationMessage[], firstTurn = 1): string {
+  return messages
+    .map((m, i) => `**[Turn ${firstTurn + i}] ${roleLabel(m)}:**\n${m.content}`)
+    .join("\n\n");
+}
@@ -0,0 +1,203 @@
+import { estimateCostUsd } from "./models";
+import { getPricingAt } from "./pricing";
+import { listwiseOrders } from "./listwise";
+import { positionBiasJudgeCalls } from "./position-bias";
+import { buildListwisePrompt, buildPairwisePrompt, buildSinglePrompt } from "./prompts";
+import type {
+  CostEstimate,
+  DatasetItem,
+  DatasetMode,
+  JudgePromptTemplateVersion,
+  ModelCostEstimate,
+  ModelSpec,
+  PositionBiasPolicy,
+  Rubric,
+} from "./types";
+
+// Projects judge tokens and cost from the prompts the judge will actually see.
+
+/** Rough characters-per-token ratio shared by the major tokenizers for English. */
+export const CHARS_PER_TOKEN = 4;
+
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Expected size of the judge's JSON reply: a short rationale and summary plus
+ * a score and 2–3 sentences of reasoning per criterion (per side in pairwise,
+ * one or two sentences per candidate in listwise).
+ */
+export function projectJudgeOutputTokens(
+  rubric: Rubric,
+  mode: DatasetMode,
+  candidates = 3
+): number {
+  const criteria = rubric.criteria.length;
+  if (mode === "single") return 200 + criteria * 70;
+  if (mode === "pairwise") return 260 + criteria * 140;
+  return 260 + candidates * (40 + criteria * 50);
+}
+
+export type EstimateCase = Pick<
+  DatasetItem,
+  | "mode"
+  | "prompt"
+  | "response"
+  | "responseA"
+  | "responseB"
+  | "responses"
+  | "context"
+  | "referenceAnswer"
+  | "messages"
+  | "conversationScope"
+  | "trajectory"
+>;
+
+export interface CaseProjection {
+  judgeCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CaseProjectionOptions {
+  detectPositionBias?: boolean;
+  positionBiasPolicy?: PositionBiasPolicy;
+  doubleBlind?: boolean;
+  promptTemplate?: JudgePromptTemplateVersion;
+  orderings?: number; // listwise judge calls per case
+}
+
+/** Renders the judge prompt for one case and projects its token usage. */
+export function projectCase(
+  item: EstimateCase,
+  rubric: Rubric,
+  options: CaseProjectionOptions = {}
+): CaseProjection {
+  if (item.mode === "listwise") {
+    const input = {
+      prompt: item.prompt,
+      candidates: item.responses ?? [],
+      rubricId: rubric.id,
+      modelId: "",
+      doubleBlind: options.doubleBlind ?? true,
+      orderings: options.orderings ?? 1,
+      context: item.context,
+    };
+    // Every ordering renders a prompt of the same size.
+    const judgeCalls = input.orderings;
+    const judgePrompt = buildListwisePrompt(input, rubric, listwiseOrders(input)[0]);
+    return {
+      judgeCalls,
+      inputTokens: estimateTextTokens(judgePrompt) * judgeCalls,
+      outputTokens:
+        projectJudgeOutputTokens(rubric, "listwise", input.candidates.length) * judgeCalls,
+    };
+  }
+
+  const outputTokens = projectJudgeOutputTokens(rubric, item.mode);
+
+  if (item.mode === "single") {
+    const judgePrompt = buildSinglePrompt(
+      {
+        prompt: item.prompt,
+        response: item.response ?? "",
+        rubricId: rubric.id,
+        modelId: "",
+        context: item.context,
+        referenceAnswer: item.referenceAnswer,
+        messages: item.messages,
+        conversationScope: item.conversationScope,
+        trajectory: item.trajectory,
+      },
+      rubric,
+      options.promptTemplate
+    );
+    return { judgeCalls: 1, inputTokens: estimateTextTokens(judgePrompt), outputTokens };
+  }
+
+  // Both orderings render prompts of the same size, so the reversed and
+  // tie-break passes simply repeat the call.
+  const judgeCalls = positionBiasJudgeCalls(
+    options.detectPositionBias,
+    options.positionBiasPolicy
+  );
+  const judgePrompt = buildPairwisePrompt(
+    {
+      prompt: item.prompt,
+      responseA: item.responseA ?? "",
+      responseB: item.responseB ?? "",
+      rubricId: rubric.id,
+      modelId: "",
+      doubleBlind: options.doubleBlind ?? true,
+      detectPositionBias: options.detectPositionBias ?? false,
+      context: item.context,
+      messages: item.messages,
+    },
+    rubric,
+    "AB",
+    options.promptTemplate
+  );
+  return {
+    judgeCalls,
+    inputTokens: estimateTextTokens(judgePrompt) * judgeCalls,
+    outputTokens: outputTokens * judgeCalls,
+  };
+}
+
+export interface WeightedJudge {
+  model: ModelSpec;
+  weight: number;
+}
+
+/**
+ * Estimates a run over `items` repeated `repeats` times. Ensembles are costed
+ * as a weighted blend of their judges, matching how run costs are recorded
+ * (see `runCostAtReference`).
+ */
+export function estimateRunCost(options: {
+  items: EstimateCase[];
+  rubric: Rubric;
+  judges: WeightedJudge[];
+  repeats?: number;
+  detectPositionBias?: boolean;
+  positionBiasPolicy?: PositionBiasPolicy;
+  doubleBlind?: boolean;
+  promptTemplate?: JudgePromptTemplateVersion;
+}): CostEstimate {
+  const repeats = options.repeats ?? 1;
+  let judgeCalls = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  for (const item of options.items) {
+    const projection = projectCase(item, options.rubric, options);
+    judgeCalls += projection.judgeCalls * repeats;
+    inputTokens += projection.inputTokens * repeats;
+    outputTokens += projection.outputTokens * repeats;
+  }
+
+  const totalWeight = options.judges.reduce((sum, judge) => sum + judge.weight, 0);
+  const byModel: ModelCostEstimate[] = options.judges.map(({ model, weight }) => {
+    const pricing = getPricingAt(model);
+    const share = totalWeight > 0 ? weight / totalWeight : 0;
+    return {
+      modelId: model.id,
+      provider: model.provider,
+      pricingVersion: pricing.version,
+      weight: share,
+      judgeCalls,
+      inputTokens,
+      outputTokens,
+      estimatedCostUsd: estimateCostUsd(pricing, inputTokens, outputTokens) * share,
+    };
+  });
+
+  return {
+    caseCount: options.items.length * repeats,
+    judgeCalls,
+    inputTokens,
+    outputTokens,
+    estimatedCostUsd: byModel.reduce((sum, model) => sum + model.estimatedCostUsd, 0),
+    byModel,
+  };
+}
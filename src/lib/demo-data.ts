@@ -77,6 +77,95 @@ export const PAIRWISE_DEMO = {
   context: `Evaluate both for correctness, code quality, and quality of explanation. The target audience is a mid-level software engineer.`,
 };
 
+export const LISTWISE_DEMO = {
+  rubricId: "builtin-accuracy",
+  prompt: "Why does the Moon always show the same face to the Earth?",
+  candidates: [
+    {
+      label: "GPT-4o mini",
+      response:
+        "Because the Moon doesn't rotate. It just orbits the Earth, so we always see the same side.",
+    },
+    {
+      label: "Claude 3.5 Sonnet",
+      response:
+        "The Moon is tidally locked: it rotates once on its axis in exactly the time it takes to orbit the Earth (about 27.3 days). Over billions of years, Earth's gravity raised tidal bulges on the Moon, and the torque on those bulges slowed its spin until rotation and orbit matched. Because of slight orbital eccentricity and tilt (libration), we actually see about 59% of its surface over time.",
+    },
+    {
+      label: "Gemini 1.5 Flash",
+      response:
+        "It's called tidal locking. The Moon spins exactly once per orbit, so the same hemisphere always faces us.",
+    },
+  ],
+};
+
+export const TRAJECTORY_DEMO = {
+  rubricId: "builtin-agent-trajectory",
+  prompt: `What was the total revenue of our top 3 customers by order count in Q3 2024? Answer in USD.`,
+
+  trajectory: JSON.stringify(
+    {
+      tools: [
+        { name: "sql_query", description: "Runs a read-only SQL query against the orders warehouse." },
+        { name: "web_search", description: "Searches the public web." },
+        { name: "calculator", description: "Evaluates an arithmetic expression." },
+      ],
+      steps: [
+        {
+          kind: "thought",
+          content: "I need order counts per customer for Q3 2024, then revenue for the top 3.",
+        },
+        {
+          kind: "tool_call",
+          toolName: "web_search",
+          callId: "call_1",
+          arguments: { query: "top customers Q3 2024 revenue" },
+        },
+        {
+          kind: "tool_result",
+          toolName: "web_search",
+          callId: "call_1",
+          content: "No relevant results.",
+        },
+        {
+          kind: "tool_call",
+          toolName: "sql_query",
+          callId: "call_2",
+          arguments: {
+            sql: "SELECT customer_id, COUNT(*) AS orders, SUM(total_usd) AS revenue FROM orders WHERE created_at BETWEEN '2024-07-01' AND '2024-09-30' GROUP BY customer_id ORDER BY orders DESC LIMIT 3",
+          },
+        },
+        {
+          kind: "tool_result",
+          toolName: "sql_query",
+          callId: "call_2",
+          content: "customer_id | orders | revenue\n4812 | 96 | 41250.00\n1177 | 88 | 38910.50\n2093 | 71 | 52300.25",
+        },
+        {
+          kind: "tool_call",
+          toolName: "calculator",
+          callId: "call_3",
+          arguments: { expression: "41250.00 + 38910.50 + 52300.25" },
+        },
+        {
+          kind: "tool_result",
+          toolName: "calculator",
+          callId: "call_3",
+          content: "132460.75",
+        },
+        {
+          kind: "final_answer",
+          content: "The top 3 customers by order count in Q3 2024 (4812, 1177 and 2093) brought in $132,460.75 in total revenue.",
+        },
+      ],
+    },
+    null,
+    2
+  ),
+
+  context: `The BETWEEN filter on a timestamp column excludes orders placed on 2024-09-30 after midnight.`,
+};
+
 export type DemoBatchRow = {
   prompt: string;
   response?: string;
@@ -0,0 +1,156 @@
+import {
+  buildCriterionScore,
+  normalizeText,
+  normalizeVerdict,
+} from "./judge-output";
+import type {
+  CriterionScore,
+  EvalStreamEvent,
+  PairwiseEvalPartial,
+  Rubric,
+  SingleEvalPartial,
+} from "./types";
+
+// Server-Sent Events for streaming evaluations. Shared by the evaluate
+// routes (encoding) and pages (decoding); keep it free of server imports.
+
+export const EVENT_STREAM_CONTENT_TYPE = "text/event-stream";
+
+/** Clients opt into streaming with `Accept: text/event-stream`. */
+export function wantsEventStream(headers: Headers): boolean {
+  return (headers.get("accept") ?? "").includes(EVENT_STREAM_CONTENT_TYPE);
+}
+
+// ── Partial results ──────────────────────────────────────────────────────────
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/** Criteria whose score key has arrived, in rubric order. */
+function arrivedScores(
+  parsed: Record<string, unknown>,
+  rubric: Rubric,
+  suffix = ""
+): CriterionScore[] {
+  const scores = asRecord(parsed.scores);
+  const reasoning = asRecord(parsed.criterion_reasoning);
+  return rubric.criteria
+    .filter((c) => {
+      const score = scores[`${c.id}${suffix}`];
+      return c.type === "checklist" ? typeof score === "boolean" : typeof score === "number";
+    })
+    .map((c) =>
+      buildCriterionScore(c, scores[`${c.id}${suffix}`], reasoning[`${c.id}${suffix}_reasoning`])
+    );
+}
+
+export function toSinglePartial(
+  parsed: Record<string, unknown>,
+  rubric: Rubric
+): SingleEvalPartial {
+  return {
+    mode: "single",
+    streaming: true,
+    rubric,
+    chainOfThought: normalizeText(parsed.chain_of_thought),
+    summary: normalizeText(parsed.summary),
+    criterionScores: arrivedScores(parsed, rubric),
+  };
+}
+
+/** Maps a pass back to canonical A/B, as the pairwise route does for BA. */
+export function toPairwisePartial(
+  parsed: Record<string, unknown>,
+  rubric: Rubric,
+  order: "AB" | "BA" = "AB"
+): PairwiseEvalPartial {
+  const [sideA, sideB] = order === "AB" ? ["_A", "_B"] : ["_B", "_A"];
+  const rawVerdict =
+    typeof parsed.verdict === "string" ? normalizeVerdict(parsed.verdict) : undefined;
+  const verdict =
+    order === "AB" || rawVerdict === undefined || rawVerdict === "tie"
+      ? rawVerdict
+      : rawVerdict === "A"
+        ? "B"
+        : "A";
+  return {
+    mode: "pairwise",
+    streaming: true,
+    rubric,
+    chainOfThought: normalizeText(parsed.chain_of_thought),
+    summary: normalizeText(parsed.summary),
+    criterionScoresA: arrivedScores(parsed, rubric, sideA),
+    criterionScoresB: arrivedScores(parsed, rubric, sideB),
+    verdict,
+    verdictReasoning: normalizeText(parsed.verdict_reasoning),
+  };
+}
+
+// ── Encoding ─────────────────────────────────────────────────────────────────
+
+/**
+ * Streams the events `run` sends as an SSE response. `run` must send the
+ * final `result` or `error` event itself; a throw is reported as a 500.
+ */
+export function createEvalEventStream(
+  run: (send: (event: EvalStreamEvent) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: EvalStreamEvent) => {
+        controller.enqueue(
+          encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+        );
+      };
+      try {
+        await run(send);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        send({ type: "error", status: 500, body: { error: message } });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": EVENT_STREAM_CONTENT_TYPE,
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+// ── Decoding ─────────────────────────────────────────────────────────────────
+
+/** Reads an SSE evaluation response, calling `onEvent` for each event. */
+export async function readEvalEventStream(
+  res: Response,
+  onEvent: (event: EvalStreamEvent) => void
+): Promise<void> {
+  if (!res.body) throw new Error("Response has no body");
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = frame
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (data) onEvent(JSON.parse(data) as EvalStreamEvent);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+}
@@ -1,6 +1,17 @@
 import { z } from "zod";
+import { findTemplateProblems } from "./judge-prompt-templates";
+import { MAX_JUDGE_SAMPLES } from "./self-consistency";
+import { MAX_LISTWISE_CANDIDATES, MIN_LISTWISE_CANDIDATES } from "./listwise";
+import { criterionScoreBounds } from "./utils";
 
-export const ScoreRangeSchema = z.union([z.literal(5), z.literal(10)]);
+export const ScoreRangeSchema = z.number().int().min(1).max(100);
+
+export const ScoreAnchorSchema = z
+  .object({
+    score: z.number().int(),
+    description: z.string().min(1).max(500),
+  })
+  .strict();
 
 export const RubricCriterionSchema = z
   .object({
@@ -9,6 +20,20 @@ export const RubricCriterionSchema = z
     description: z.string().min(1),
     weight: z.number().finite().positive().max(1),
     scoreRange: ScoreRangeSchema,
+    scoreMin: z.number().int().min(0).max(99).optional(),
+    anchors: z.array(ScoreAnchorSchema).max(101).optional(),
+    type: z.enum(["scale", "checklist"]).optional(),
+    stepLevel: z.boolean().optional(),
+  })
+  .strict();
+
+export const RubricExemplarSchema = z
+  .object({
+    id: z.string().min(1),
+    prompt: z.string().min(1).max(20_000),
+    response: z.string().min(1).max(20_000),
+    scores: z.record(z.string(), z.number().finite()),
+    rationale: z.string().max(5_000),
   })
   .strict();
 
@@ -18,6 +43,8 @@ export const RubricSchema = z
     name: z.string().min(1),
     description: z.string(),
     criteria: z.array(RubricCriterionSchema).min(1),
+    exemplars: z.array(RubricExemplarSchema).max(10).optional(),
+    checklistPolicy: z.enum(["pass_ratio", "all_must_pass"]).optional(),
     isBuiltIn: z.boolean(),
     createdAt: z.string().min(1),
   })
@@ -40,6 +67,175 @@ export const RubricSchema = z
         path: ["criteria"],
       });
     }
+
+    rubric.criteria.forEach((criterion, i) => {
+      if (criterion.type === "checklist") return;
+      const { min, max } = criterionScoreBounds(criterion);
+      if (max <= min) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Criterion "${criterion.id}" needs a top score above its lowest score (${min})`,
+          path: ["criteria", i, "scoreRange"],
+        });
+        return;
+      }
+      const seen = new Set<number>();
+      criterion.anchors?.forEach((anchor, j) => {
+        if (anchor.score < min || anchor.score > max || seen.has(anchor.score)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Criterion "${criterion.id}" anchors must be distinct scores from ${min} to ${max}`,
+            path: ["criteria", i, "anchors", j, "score"],
+          });
+        }
+        seen.add(anchor.score);
+      });
+    });
+
+    const bounds = new Map(rubric.criteria.map((c) => [c.id, criterionScoreBounds(c)]));
+    rubric.exemplars?.forEach((exemplar, i) => {
+      for (const [criterionId, score] of Object.entries(exemplar.scores)) {
+        const range = bounds.get(criterionId);
+        if (range === undefined) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Exemplar ${i + 1} scores unknown criterion "${criterionId}"`,
+            path: ["exemplars", i, "scores", criterionId],
+          });
+        } else if (!Number.isInteger(score) || score < range.min || score > range.max) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Exemplar ${i + 1} score for "${criterionId}" must be an integer from ${range.min} to ${range.max}`,
+            path: ["exemplars", i, "scores", criterionId],
+          });
+        }
+      }
+    });
+  });
+
+export const ConversationMessageSchema = z
+  .object({
+    role: z.enum(["system", "user", "assistant", "tool"]),
+    content: z.string(),
+    name: z.string().optional(),
+  })
+  .strict();
+
+export const ConversationMessagesSchema = z.array(ConversationMessageSchema).min(1).max(200);
+
+export const ConversationScopeSchema = z.enum(["final_turn", "dialogue"]);
+
+export const TrajectoryStepSchema = z
+  .object({
+    kind: z.enum(["thought", "tool_call", "tool_result", "message", "final_answer"]),
+    content: z.string(),
+    toolName: z.string().min(1).optional(),
+    arguments: z.record(z.string(), z.unknown()).optional(),
+    callId: z.string().optional(),
+    isError: z.boolean().optional(),
+  })
+  .strict()
+  .refine((step) => !["tool_call", "tool_result"].includes(step.kind) || step.toolName, {
+    message: "Tool calls and tool results need a toolName",
+    path: ["toolName"],
+  });
+
+export const AgentTrajectorySchema = z
+  .object({
+    tools: z
+      .array(z.object({ name: z.string().min(1), description: z.string().optional() }).strict())
+      .max(100)
+      .optional(),
+    steps: z.array(TrajectoryStepSchema).min(1).max(300),
+  })
+  .strict();
+
+export const ListwiseCandidatesSchema = z
+  .array(
+    z
+      .object({
+        label: z.string().optional(),
+        response: z.string().min(1),
+      })
+      .strict()
+  )
+  .min(MIN_LISTWISE_CANDIDATES)
+  .max(MAX_LISTWISE_CANDIDATES);
+
+export const JudgePromptTemplateVersionSchema = z
+  .object({
+    templateId: z.string().min(1),
+    versionNumber: z.number().int().positive(),
+    createdAt: z.string().min(1),
+    notes: z.string().optional(),
+    single: z.string().min(1).max(50_000),
+    pairwise: z.string().min(1).max(50_000),
+  })
+  .superRefine((version, ctx) => {
+    for (const problem of findTemplateProblems(version)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    }
   });
 
 export const ModelIdSchema = z.string().min(1);
+
+export const ModelSpecSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  provider: z.string().min(1),
+  inputCostPer1M: z.number().finite().nonnegative(),
+  outputCostPer1M: z.number().finite().nonnegative(),
+  priceHistory: z
+    .array(
+      z.object({
+        version: z.string().min(1),
+        effectiveFrom: z.string().min(1),
+        inputCostPer1M: z.number().finite().nonnegative(),
+        outputCostPer1M: z.number().finite().nonnegative(),
+      })
+    )
+    .optional(),
+});
+
+// Client-submitted snapshot of a user-configured provider. Only
+// OpenAI-compatible endpoints can be defined this way, and `envKey` is
+// deliberately not accepted so server keys are never sent to client URLs.
+export const ProviderSpecSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  kind: z.literal("openai-compatible"),
+  keyHeader: z.string().min(1),
+  baseURL: z.string().url(),
+  authHeader: z.string().min(1).optional(),
+  requiresKey: z.boolean(),
+  structuredOutput: z.boolean().optional(),
+  models: z.array(ModelSpecSchema).optional(),
+});
+
+export const SpendBudgetsSchema = z.object({
+  maxRunUsd: z.number().finite().nonnegative().optional(),
+  maxDailyUsd: z.number().finite().nonnegative().optional(),
+  maxProviderDailyUsd: z
+    .record(z.string(), z.number().finite().nonnegative())
+    .optional(),
+});
+
+export const JudgeSamplingSchema = z
+  .object({
+    samples: z.number().int().min(1).max(MAX_JUDGE_SAMPLES),
+    temperature: z.number().finite().min(0).max(2),
+  })
+  .strict();
+
+export const PositionBiasPolicySchema = z.enum(["keep_first", "tie", "average", "tiebreak"]);
+
+export const PreferenceScaleSchema = z.union([z.literal(5), z.literal(7)]);
+
+export const EnsembleSchema = z
+  .array(
+    z.object({
+      modelId: z.string().min(1),
+      weight: z.number().positive(),
+    })
+  )
+  .min(1);
@@ -0,0 +1,91 @@
+import { generateJudgeJson } from "./judge-cache";
+import type { JudgeTarget } from "./judge-models";
+import { buildCriterionScore, resolveAggregateScore } from "./judge-output";
+import { DEFAULT_JUDGE_PROMPT_VERSION } from "./judge-prompt-templates";
+import { buildSingleJudgeSchema, singleJudgeOptions } from "./judge-schema";
+import {
+  appendInjectionProbe,
+  compareInjectionScores,
+  INJECTION_CORPUS,
+  INJECTION_SCORE_TOLERANCE,
+  type InjectionProbe,
+  type InjectionProbeOutcome,
+} from "./prompt-injection";
+import { buildSinglePrompt } from "./prompts";
+import type {
+  CriterionScore,
+  JudgePromptTemplateVersion,
+  Rubric,
+  SingleEvalInput,
+} from "./types";
+
+// Server-only: the injection corpus run against any judge. The response is
+// scored as written and once per probe appended to it; a hardened judge keeps
+// each probed aggregate within the tolerance of the baseline.
+
+export interface InjectionCorpusOptions {
+  corpus?: readonly InjectionProbe[];
+  tolerance?: number;
+  promptTemplate?: JudgePromptTemplateVersion;
+  bypassCache?: boolean;
+}
+
+export interface InjectionCorpusReport {
+  baseline: { aggregateScore: number; criterionScores: CriterionScore[] };
+  outcomes: InjectionProbeOutcome[];
+  moved: string[]; // ids of the probes that moved the aggregate
+}
+
+async function scoreResponse(
+  input: SingleEvalInput,
+  rubric: Rubric,
+  judge: JudgeTarget,
+  { promptTemplate = DEFAULT_JUDGE_PROMPT_VERSION, bypassCache }: InjectionCorpusOptions
+): Promise<InjectionCorpusReport["baseline"]> {
+  const { parsed } = await generateJudgeJson({
+    judge,
+    prompt: buildSinglePrompt(input, rubric, promptTemplate),
+    schema: buildSingleJudgeSchema(rubric, singleJudgeOptions(input)),
+    bypassCache,
+  });
+  const criterionScores = rubric.criteria.map((c) =>
+    buildCriterionScore(
+      c,
+      (parsed.scores as Record<string, unknown>)?.[c.id],
+      (parsed.criterion_reasoning as Record<string, unknown>)?.[`${c.id}_reasoning`]
+    )
+  );
+  return {
+    aggregateScore: resolveAggregateScore(parsed.aggregate_score, criterionScores, rubric),
+    criterionScores,
+  };
+}
+
+/**
+ * Scores `input` and each corpus probe appended to its response, one judge
+ * call at a time. Runs `corpus.length + 1` judge calls.
+ */
+export async function runInjectionCorpus(
+  input: SingleEvalInput,
+  rubric: Rubric,
+  judge: JudgeTarget,
+  options: InjectionCorpusOptions = {}
+): Promise<InjectionCorpusReport> {
+  const { corpus = INJECTION_CORPUS, tolerance = INJECTION_SCORE_TOLERANCE } = options;
+  const baseline = await scoreResponse(input, rubric, judge, options);
+  const outcomes: InjectionProbeOutcome[] = [];
+  for (const probe of corpus) {
+    const probed = await scoreResponse(
+      { ...input, response: appendInjectionProbe(input.response, probe) },
+      rubric,
+      judge,
+      options
+    );
+    outcomes.push(compareInjectionScores(probe.id, baseline, probed, tolerance));
+  }
+  return {
+    baseline,
+    outcomes,
+    moved: outcomes.filter((o) => o.moved).map((o) => o.probeId),
+  };
+}
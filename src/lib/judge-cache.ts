@@ -0,0 +1,450 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  generateText,
+  NoObjectGeneratedError,
+  Output,
+  parsePartialJson,
+  streamText,
+} from "ai";
+import type { JudgeTarget } from "./judge-models";
+import {
+  JudgeJsonParseError,
+  parseJudgeJson,
+  recoverJudgeJson,
+} from "./judge-output";
+import { withJudgeRetry } from "./judge-retry";
+import {
+  requiredScoreKeys,
+  supportsStructuredOutput,
+  type JudgeOutputSchema,
+} from "./judge-schema";
+import { estimateCostUsd } from "./models";
+import { normalizeUntrustedNonces } from "./prompt-injection";
+import { buildJsonRepairPrompt } from "./prompts";
+import type { JudgeParseInfo, ModelSpec } from "./types";
+
+// Server-only: caches raw judge responses so identical judge calls are not
+// re-billed. Select the store with JUDGE_CACHE_STORE=memory|file|off.
+
+export interface JudgeCallParams {
+  modelId: string;
+  baseURL?: string; // user-defined OpenAI-compatible servers; ids alone may collide
+  prompt: string;
+  temperature: number;
+  maxOutputTokens: number;
+  structured: boolean;
+  sample?: number; // self-consistency draw; each draw is cached separately
+}
+
+export interface CachedJudgeResponse {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+  createdAt: string;
+}
+
+export interface JudgeCacheStore {
+  get(key: string): Promise<CachedJudgeResponse | undefined>;
+  set(key: string, entry: CachedJudgeResponse): Promise<void>;
+}
+
+export function judgeCacheKey(params: JudgeCallParams): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        params.modelId,
+        // Omitted for other providers so their keys are unchanged.
+        ...(params.baseURL ? [params.baseURL] : []),
+        params.temperature,
+        params.maxOutputTokens,
+        params.structured,
+        // Delimiter nonces differ per call; the evaluation they fence does not.
+        normalizeUntrustedNonces(params.prompt),
+        // Omitted for the first draw so single-sample keys are unchanged.
+        ...(params.sample ? [params.sample] : []),
+      ])
+    )
+    .digest("hex");
+}
+
+// ── Stores ───────────────────────────────────────────────────────────────────
+
+const MEMORY_CACHE_LIMIT = 1000;
+
+declare global {
+  var __rapidJudgeCache: Map<string, CachedJudgeResponse> | undefined;
+}
+
+export function createMemoryJudgeCacheStore(
+  limit = MEMORY_CACHE_LIMIT
+): JudgeCacheStore {
+  const entries = (globalThis.__rapidJudgeCache ??= new Map());
+  return {
+    async get(key) {
+      return entries.get(key);
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      // Maps iterate in insertion order, so the first key is the oldest.
+      while (entries.size > limit) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+export function createFileJudgeCacheStore(dir: string): JudgeCacheStore {
+  const fileFor = (key: string) => path.join(dir, `${key}.json`);
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(fileFor(key), "utf8")) as CachedJudgeResponse;
+      } catch {
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(fileFor(key), JSON.stringify(entry), "utf8");
+    },
+  };
+}
+
+let activeStore: JudgeCacheStore | null | undefined;
+
+function storeFromEnv(): JudgeCacheStore | null {
+  switch (process.env.JUDGE_CACHE_STORE ?? "memory") {
+    case "off":
+      return null;
+    case "file":
+      return createFileJudgeCacheStore(
+        process.env.JUDGE_CACHE_DIR ?? path.join(process.cwd(), ".judge-cache")
+      );
+    default:
+      return createMemoryJudgeCacheStore();
+  }
+}
+
+export function getJudgeCacheStore(): JudgeCacheStore | null {
+  if (activeStore === undefined) activeStore = storeFromEnv();
+  return activeStore;
+}
+
+/** Replaces the process-wide store; pass `null` to disable caching. */
+export function setJudgeCacheStore(store: JudgeCacheStore | null): void {
+  activeStore = store;
+}
+
+// ── Cached judge call ────────────────────────────────────────────────────────
+
+export interface JudgeCallResult {
+  text: string;
+  /** Schema-validated reply; absent when the call fell back to free text. */
+  object?: Record<string, unknown>;
+  inputTokens: number;
+  outputTokens: number;
+  cacheHit: boolean;
+  /** Set when only part of the counts was billed; see `generateJudgeJson`. */
+  billedInputTokens?: number;
+  billedOutputTokens?: number;
+}
+
+function isCacheable(text: string, scoreKeys: string[]): boolean {
+  try {
+    parseJudgeJson(text, scoreKeys);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseStructured(text: string): Record<string, unknown> | undefined {
+  try {
+    return parseJudgeJson(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Called with the judge's reply parsed so far while it streams. */
+export type JudgePartialHandler = (partial: Record<string, unknown>) => void;
+
+const PARTIAL_INTERVAL_MS = 150;
+
+/**
+ * Streams the judge call, reporting the partially parsed JSON reply at most
+ * every `PARTIAL_INTERVAL_MS` and once more when the reply is complete.
+ */
+async function streamJudgeModel(
+  settings: Parameters<typeof streamText>[0],
+  onPartial: JudgePartialHandler
+): Promise<{ text: string; inputTokens: number; outputTokens: number }> {
+  const result = streamText({ ...settings, onError: () => {} });
+  let text = "";
+  let lastSentAt = 0;
+  const report = async () => {
+    // Free-text replies may open with a markdown fence.
+    const { value } = await parsePartialJson(text.replace(/^\s*```(?:json)?\s*/i, ""));
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      onPartial(value as Record<string, unknown>);
+    }
+    lastSentAt = Date.now();
+  };
+
+  for await (const part of result.fullStream) {
+    if (part.type === "error") throw part.error;
+    if (part.type !== "text-delta") continue;
+    text += part.text;
+    if (Date.now() - lastSentAt >= PARTIAL_INTERVAL_MS) await report();
+  }
+  await report();
+
+  const usage = await result.usage;
+  return {
+    text,
+    inputTokens: usage.inputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+  };
+}
+
+/**
+ * Runs the judge call. With a schema, providers that support it generate a
+ * schema-constrained object; if the model still produces no valid object,
+ * its raw text is returned for `parseJudgeJson` to try instead.
+ */
+async function callJudgeModel(
+  judge: JudgeTarget,
+  params: JudgeCallParams,
+  schema: JudgeOutputSchema | undefined,
+  onPartial: JudgePartialHandler | undefined
+): Promise<Omit<JudgeCallResult, "cacheHit">> {
+  const settings = {
+    model: judge.model,
+    prompt: params.prompt,
+    temperature: params.temperature,
+    maxOutputTokens: params.maxOutputTokens,
+    maxRetries: 0,
+  };
+
+  if (onPartial) {
+    const output = schema && params.structured ? Output.object({ schema }) : undefined;
+    const streamed = await streamJudgeModel({ ...settings, output }, onPartial);
+    if (!schema || !output) return streamed;
+    try {
+      // Validate the completed reply against the schema, as `generateText` does.
+      const object = schema.parse(JSON.parse(streamed.text));
+      return { ...streamed, object };
+    } catch {
+      return streamed;
+    }
+  }
+
+  if (schema && params.structured) {
+    try {
+      const { output, usage } = await generateText({
+        ...settings,
+        output: Output.object({ schema }),
+      });
+      return {
+        text: JSON.stringify(output),
+        object: output,
+        inputTokens: usage.inputTokens ?? 0,
+        outputTokens: usage.outputTokens ?? 0,
+      };
+    } catch (err) {
+      if (!NoObjectGeneratedError.isInstance(err)) throw err;
+      return {
+        text: err.text ?? "",
+        inputTokens: err.usage?.inputTokens ?? 0,
+        outputTokens: err.usage?.outputTokens ?? 0,
+      };
+    }
+  }
+
+  const { text, usage } = await generateText(settings);
+  return {
+    text,
+    inputTokens: usage.inputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+  };
+}
+
+export interface JudgeCallOptions {
+  judge: JudgeTarget;
+  prompt: string;
+  schema?: JudgeOutputSchema;
+  temperature?: number;
+  maxOutputTokens?: number;
+  bypassCache?: boolean;
+  sample?: number; // 0-based self-consistency draw
+  onPartial?: JudgePartialHandler;
+}
+
+/**
+ * Runs a judge call under the provider's retry policy, serving identical
+ * calls from the cache. Pass the rubric's `schema` (see `judge-schema.ts`)
+ * to request structured output, and `onPartial` to stream the reply; a
+ * cache hit reports its whole reply as one partial. Token counts of a hit are those of the
+ * original call; callers should bill hits at zero. Unparseable responses
+ * are never stored.
+ */
+export async function generateJudgeText(
+  options: JudgeCallOptions
+): Promise<JudgeCallResult> {
+  const { judgeModel, provider } = options.judge;
+  const params: JudgeCallParams = {
+    modelId: `${judgeModel.provider}/${judgeModel.id}`,
+    ...(provider.kind === "openai-compatible" && { baseURL: provider.baseURL }),
+    prompt: options.prompt,
+    temperature: options.temperature ?? 0.1,
+    maxOutputTokens: options.maxOutputTokens ?? 4096,
+    structured: !!options.schema && supportsStructuredOutput(provider),
+    sample: options.sample,
+  };
+  const store = options.bypassCache ? null : getJudgeCacheStore();
+  const key = judgeCacheKey(params);
+
+  const cached = await store?.get(key);
+  if (cached) {
+    const parsed = parseStructured(cached.text);
+    if (parsed) options.onPartial?.(parsed);
+    return {
+      text: cached.text,
+      // Structured entries hold serialized objects, so they parse as-is.
+      object: params.structured ? parsed : undefined,
+      inputTokens: cached.inputTokens,
+      outputTokens: cached.outputTokens,
+      cacheHit: true,
+    };
+  }
+
+  // Progress the client has already rendered cannot be taken back, so a
+  // stream that has reported part of its reply is not restarted.
+  let reported = false;
+  const onPartial: JudgePartialHandler | undefined =
+    options.onPartial &&
+    ((partial) => {
+      reported = true;
+      options.onPartial?.(partial);
+    });
+  const result: JudgeCallResult = {
+    ...(await withJudgeRetry(
+      provider,
+      () => callJudgeModel(options.judge, params, options.schema, onPartial),
+      { canRetry: () => !reported }
+    )),
+    cacheHit: false,
+  };
+  const { text } = result;
+
+  // A bypassed call still refreshes the entry for the next cached run.
+  const writer = getJudgeCacheStore();
+  const scoreKeys = options.schema ? requiredScoreKeys(options.schema) : [];
+  if (writer && isCacheable(text, scoreKeys)) {
+    await writer.set(key, {
+      text,
+      inputTokens: result.inputTokens,
+      outputTokens: result.outputTokens,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  return result;
+}
+
+export interface JudgeJsonResult extends JudgeCallResult {
+  parsed: Record<string, unknown>;
+  parse: JudgeParseInfo;
+}
+
+/**
+ * Runs a judge call and parses its JSON reply through the recovery tiers of
+ * `recoverJudgeJson`. If none succeeds, the judge is re-asked once with the
+ * parse error; token counts then cover both calls and `cacheHit` reports
+ * the re-ask, whose hit still bills the first reply. Throws
+ * `JudgeJsonParseError` carrying the first reply if the re-ask fails too.
+ */
+export async function generateJudgeJson(
+  options: JudgeCallOptions
+): Promise<JudgeJsonResult> {
+  const scoreKeys = options.schema ? requiredScoreKeys(options.schema) : [];
+  const call = await generateJudgeText(options);
+  if (call.object) {
+    return { ...call, parsed: call.object, parse: { tier: "structured" } };
+  }
+
+  let parseError: JudgeJsonParseError;
+  try {
+    const { value, tier } = recoverJudgeJson(call.text, scoreKeys);
+    const parse: JudgeParseInfo = tier === "direct" ? { tier } : { tier, raw: call.text };
+    return { ...call, parsed: value, parse };
+  } catch (err) {
+    if (!(err instanceof JudgeJsonParseError)) throw err;
+    parseError = err;
+  }
+
+  const retry = await generateJudgeText({
+    ...options,
+    prompt: buildJsonRepairPrompt(options.prompt, call.text, parseError.message),
+    onPartial: undefined,
+  });
+  let parsed = retry.object;
+  if (!parsed) {
+    try {
+      parsed = recoverJudgeJson(retry.text, scoreKeys).value;
+    } catch {
+      throw parseError;
+    }
+  }
+  return {
+    text: retry.text,
+    object: retry.object,
+    inputTokens: call.inputTokens + retry.inputTokens,
+    outputTokens: call.outputTokens + retry.outputTokens,
+    cacheHit: retry.cacheHit,
+    // The failed first reply was never cached, so it was always billed.
+    ...(retry.cacheHit && {
+      billedInputTokens: call.inputTokens,
+      billedOutputTokens: call.outputTokens,
+    }),
+    parsed,
+    parse: { tier: "reprompted", raw: call.text },
+  };
+}
+
+type BillableCall = Pick<
+  JudgeCallResult,
+  "inputTokens" | "outputTokens" | "cacheHit" | "billedInputTokens" | "billedOutputTokens"
+>;
+
+function billedCallTokens(call: BillableCall): { inputTokens: number; outputTokens: number } {
+  return {
+    inputTokens: call.billedInputTokens ?? (call.cacheHit ? 0 : call.inputTokens),
+    outputTokens: call.billedOutputTokens ?? (call.cacheHit ? 0 : call.outputTokens),
+  };
+}
+
+/** Token totals of the calls that were billed, leaving out cache hits. */
+export function billedTokens(
+  calls: BillableCall[]
+): { billedInputTokens: number; billedOutputTokens: number } {
+  const billed = calls.map(billedCallTokens);
+  return {
+    billedInputTokens: billed.reduce((sum, call) => sum + call.inputTokens, 0),
+    billedOutputTokens: billed.reduce((sum, call) => sum + call.outputTokens, 0),
+  };
+}
+
+/** Cost of a judge call at the given pricing; cache hits are free. */
+export function judgeCallCostUsd(
+  pricing: Pick<ModelSpec, "inputCostPer1M" | "outputCostPer1M">,
+  call: BillableCall
+): number {
+  const { inputTokens, outputTokens } = billedCallTokens(call);
+  return estimateCostUsd(pricing, inputTokens, outputTokens);
+}
@@ -0,0 +1,45 @@
+import { JudgeJsonParseError } from "./judge-output";
+import { JudgeCallError } from "./judge-retry";
+import { BudgetExceededError } from "./spend-budget";
+import type {
+  BudgetErrorResponse,
+  EvalStreamErrorBody,
+  JudgeErrorResponse,
+} from "./types";
+
+// Server-only: maps judge call failures to the status and body the evaluate
+// routes return, for both JSON responses and streamed error events.
+
+export interface JudgeErrorReply {
+  status: number;
+  body: EvalStreamErrorBody;
+  headers?: Record<string, string>;
+}
+
+export function judgeErrorReply(err: unknown): JudgeErrorReply {
+  if (err instanceof JudgeJsonParseError) {
+    return {
+      status: 502,
+      body: { error: "Judge returned invalid JSON", raw: err.raw },
+    };
+  }
+  if (err instanceof BudgetExceededError) {
+    const body: BudgetErrorResponse = {
+      error: err.message,
+      code: "budget_exceeded",
+      budget: err.violation,
+    };
+    return { status: 402, body: { ...body } };
+  }
+  if (err instanceof JudgeCallError) {
+    const body: JudgeErrorResponse = {
+      error: err.message,
+      code: err.code,
+      retry: err.retry,
+    };
+    return { status: err.status, body: { ...body }, headers: err.responseHeaders() };
+  }
+
+  const message = err instanceof Error ? err.message : "Unknown error";
+  return { status: 500, body: { error: message } };
+}
@@ -0,0 +1,157 @@
+import type { LanguageModel } from "ai";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createMockJudgeModel } from "./mock-judge";
+import { MODELS, getModelById } from "./models";
+import { getProviderSpec, isBuiltInProvider } from "./providers";
+import type { ModelSpec, ProviderKind, ProviderSpec } from "./types";
+
+// Server-only: builds AI SDK language models from registered provider specs.
+
+type ModelFactory = (
+  provider: ProviderSpec,
+  modelId: string,
+  apiKey: string
+) => LanguageModel;
+
+const MODEL_FACTORIES: Record<ProviderKind, ModelFactory> = {
+  openai: (_provider, modelId, apiKey) => createOpenAI({ apiKey })(modelId),
+  anthropic: (_provider, modelId, apiKey) =>
+    createAnthropic({ apiKey })(modelId),
+  google: (_provider, modelId, apiKey) =>
+    createGoogleGenerativeAI({ apiKey })(modelId),
+  mock: (_provider, modelId) => createMockJudgeModel(modelId),
+  "openai-compatible": (provider, modelId, apiKey) => {
+    if (!provider.baseURL) {
+      throw new Error(`Provider ${provider.id} has no base URL`);
+    }
+    const headers =
+      provider.authHeader && apiKey ? { [provider.authHeader]: apiKey } : undefined;
+    // Most compatible servers only implement /chat/completions, not the Responses API.
+    return createOpenAI({
+      name: provider.id,
+      baseURL: provider.baseURL,
+      // The SDK insists on a key; keyless servers (e.g. Ollama) ignore it.
+      apiKey: provider.authHeader ? "unused" : apiKey || "unused",
+      headers,
+    }).chat(modelId);
+  },
+};
+
+export function createJudgeModel(
+  provider: ProviderSpec,
+  modelId: string,
+  apiKey: string
+): LanguageModel {
+  return MODEL_FACTORIES[provider.kind](provider, modelId, apiKey);
+}
+
+export function resolveProviderApiKey(
+  provider: ProviderSpec,
+  headers: Headers
+): string {
+  return (
+    headers.get(provider.keyHeader) ||
+    (provider.envKey ? process.env[provider.envKey] : undefined) ||
+    ""
+  );
+}
+
+/** Everything a judge call needs: catalog entry, provider and SDK model. */
+export interface JudgeTarget {
+  judgeModel: ModelSpec;
+  provider: ProviderSpec;
+  model: LanguageModel;
+  /** Price the server budget ceilings project with; see `providerCeilingPricing`. */
+  ceilingPricing?: Pick<ModelSpec, "inputCostPer1M" | "outputCostPer1M">;
+}
+
+export type JudgeResolution =
+  | ({ ok: true } & JudgeTarget)
+  | { ok: false; error: string; status: number };
+
+export interface JudgeSnapshots {
+  model?: ModelSpec; // client catalog entry for `modelId`
+  provider?: ProviderSpec; // client config of a user-defined provider
+}
+
+/**
+ * Built-in providers may run on server keys, where a client snapshot's prices
+ * cannot be trusted to keep the server ceilings binding. Those ceilings
+ * project user-defined ids at the provider's highest catalog price; results
+ * are still priced from the catalog entry.
+ */
+function providerCeilingPricing(
+  providerId: string
+): Pick<ModelSpec, "inputCostPer1M" | "outputCostPer1M"> {
+  const catalogModels = MODELS.filter((m) => m.provider === providerId);
+  return {
+    inputCostPer1M: Math.max(0, ...catalogModels.map((m) => m.inputCostPer1M)),
+    outputCostPer1M: Math.max(0, ...catalogModels.map((m) => m.outputCostPer1M)),
+  };
+}
+
+/**
+ * Resolves the judge model, its provider and API key for a request.
+ * A submitted model snapshot (already schema-validated) is how user-defined
+ * ids reach the server; built-in ids must not be sent as snapshots, and
+ * only user-defined providers are priced from one.
+ */
+export function resolveJudge(
+  headers: Headers,
+  modelId: string,
+  snapshots: JudgeSnapshots = {}
+): JudgeResolution {
+  const extra = snapshots.provider ? [snapshots.provider] : [];
+  if (snapshots.model && snapshots.model.id !== modelId) {
+    return {
+      ok: false,
+      error: `Model snapshot id ${snapshots.model.id} does not match ${modelId}`,
+      status: 400,
+    };
+  }
+  if (snapshots.model && getModelById(snapshots.model.id)) {
+    return {
+      ok: false,
+      error: `Model ${snapshots.model.id} is built in; send its id without a snapshot`,
+      status: 400,
+    };
+  }
+
+  const requested =
+    snapshots.model ?? getModelById(modelId, { customProviders: extra });
+  if (!requested) {
+    return { ok: false, error: "Unknown model", status: 400 };
+  }
+
+  const provider = getProviderSpec(requested.provider, extra);
+  if (!provider) {
+    return {
+      ok: false,
+      error: `Unknown provider: ${requested.provider}`,
+      status: 400,
+    };
+  }
+  const ceilingPricing =
+    isBuiltInProvider(provider.id) && !MODELS.includes(requested)
+      ? providerCeilingPricing(provider.id)
+      : undefined;
+
+  const apiKey = resolveProviderApiKey(provider, headers);
+  if (!apiKey && provider.requiresKey) {
+    return {
+      ok: false,
+      error: `No API key found for provider: ${provider.id}`,
+      status: 401,
+    };
+  }
+
+  return {
+    ok: true,
+    judgeModel: requested,
+    provider,
+    model: createJudgeModel(provider, requested.id, apiKey),
+    ceilingPricing,
+  };
+}
@@ -1,4 +1,19 @@
-import type { PairwiseVerdict, ScoreRange } from "./types";
+import type {
+  CriterionScore,
+  EvalResult,
+  JudgeParseInfo,
+  JudgeParseTally,
+  JudgeParseTier,
+  PairwiseVerdict,
+  PreferenceScale,
+  ReferenceAgreement,
+  Rubric,
+  RubricCriterion,
+  StepAnnotation,
+  StepAssessment,
+} from "./types";
+import { parsePreference, verdictFromPreference } from "./preference";
+import { computeAggregateScore, criterionScoreBounds, failsChecklistGate } from "./utils";
 
 export class JudgeJsonParseError extends Error {
   raw: string;
@@ -18,27 +33,265 @@ export function clamp(n: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, n));
 }
 
-export function parseJudgeJson(text: string): Record<string, unknown> {
-  const cleaned = text
+// ── Recovery tiers ───────────────────────────────────────────────────────────
+
+/** Recovery tiers from least to most invasive. */
+export const JUDGE_PARSE_TIERS: JudgeParseTier[] = [
+  "structured",
+  "direct",
+  "extracted",
+  "repaired",
+  "reprompted",
+];
+
+/** The more invasive of two tiers, e.g. across the passes of one result. */
+export function mostRescued(a: JudgeParseInfo, b: JudgeParseInfo): JudgeParseInfo {
+  return JUDGE_PARSE_TIERS.indexOf(b.tier) > JUDGE_PARSE_TIERS.indexOf(a.tier) ? b : a;
+}
+
+const RESCUE_TIERS: JudgeParseTier[] = ["extracted", "repaired", "reprompted"];
+
+export function isRescued(parse: JudgeParseInfo): boolean {
+  return RESCUE_TIERS.includes(parse.tier);
+}
+
+/** Per judge model, how often each tier produced the reply. */
+export function tallyJudgeParse(results: EvalResult[]): JudgeParseTally[] {
+  const tallies = new Map<string, JudgeParseTally>();
+  for (const result of results) {
+    if (!result.judgeParse) continue;
+    const { id, name } = result.judgeModel;
+    let tally = tallies.get(id);
+    if (!tally) {
+      tally = {
+        judgeModelId: id,
+        judgeModelName: name,
+        total: 0,
+        byTier: Object.fromEntries(JUDGE_PARSE_TIERS.map((t) => [t, 0])) as Record<
+          JudgeParseTier,
+          number
+        >,
+        rescued: 0,
+      };
+      tallies.set(id, tally);
+    }
+    tally.total++;
+    tally.byTier[result.judgeParse.tier]++;
+    if (isRescued(result.judgeParse)) tally.rescued++;
+  }
+  return [...tallies.values()].sort((a, b) => b.rescued / b.total - a.rescued / a.total);
+}
+
+function parseObject(text: string): Record<string, unknown> | undefined {
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function stripFences(text: string): string {
+  return text
     .replace(/^```(?:json)?\s*/i, "")
     .replace(/\s*```\s*$/, "")
     .trim();
+}
 
-  try {
-    const parsed = JSON.parse(cleaned);
-    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
-      throw new Error("not-object");
+/** The first balanced `{…}` in `text`, skipping braces inside strings. */
+export function extractBalancedJson(text: string): string | undefined {
+  const start = text.indexOf("{");
+  if (start === -1) return undefined;
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "{") {
+      depth++;
+    } else if (ch === "}" && --depth === 0) {
+      return text.slice(start, i + 1);
     }
-    return parsed as Record<string, unknown>;
-  } catch {
-    throw new JudgeJsonParseError("Judge returned invalid JSON", text);
   }
+  return undefined;
+}
+
+/**
+ * Best-effort rewrite of almost-JSON into JSON: drops prose around the first
+ * object, normalizes smart and single quotes, quotes bare keys, escapes raw
+ * newlines in strings, removes trailing commas and closes a truncated reply.
+ */
+export function repairJsonText(text: string): string {
+  const start = text.indexOf("{");
+  if (start === -1) return text;
+  const src = text.slice(start).replace(/[\u201C\u201D]/g, '"').replace(/[\u2018\u2019]/g, "'");
+
+  let out = "";
+  const closers: string[] = [];
+  let truncated = true;
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (ch === '"' || ch === "'") {
+      let value = "";
+      let closed = false;
+      let j = i + 1;
+      while (j < src.length) {
+        const c = src[j];
+        if (c === "\\" && j + 1 < src.length) {
+          // `\'` is not a JSON escape.
+          value += src[j + 1] === "'" ? "'" : c + src[j + 1];
+          j += 2;
+          continue;
+        }
+        j++;
+        if (c === ch) {
+          closed = true;
+          break;
+        }
+        if (c === "\n") value += "\\n";
+        else if (c === '"') value += '\\"';
+        else value += c;
+      }
+      out += `"${value}"`;
+      i = j;
+      if (!closed) break;
+      continue;
+    }
+
+    if (ch === "{" || ch === "[") {
+      closers.push(ch === "{" ? "}" : "]");
+      out += ch;
+    } else if (ch === "}" || ch === "]") {
+      out = out.replace(/,\s*$/, "");
+      out += closers.pop() ?? ch;
+      if (closers.length === 0) {
+        truncated = false;
+        break;
+      }
+    } else if (/[A-Za-z_$]/.test(ch)) {
+      const word = /^[A-Za-z_$][\w$-]*/.exec(src.slice(i))?.[0] ?? ch;
+      const isKey = /^\s*:/.test(src.slice(i + word.length));
+      out += isKey ? `"${word}"` : word;
+      i += word.length;
+      continue;
+    } else {
+      out += ch;
+    }
+    i++;
+  }
+
+  if (truncated) {
+    out = out.replace(/[,:]\s*$/, "");
+    // A trailing string right after `{` or `,` inside an object is a key
+    // whose value never arrived.
+    if (closers[closers.length - 1] === "}") {
+      out = out.replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*$/, "$1");
+    }
+    out = out.replace(/,\s*$/, "");
+    out += closers.reverse().join("");
+  }
+  return out;
 }
 
-export function normalizeCriterionScore(raw: unknown, maxScore: ScoreRange): number {
+function missingScores(value: Record<string, unknown>, scoreKeys: string[]): string[] {
+  const scores = value.scores;
+  const present = scores && typeof scores === "object" ? (scores as Record<string, unknown>) : {};
+  return scoreKeys.filter((key) => present[key] === undefined);
+}
+
+/**
+ * Parses a free-text judge reply, escalating through the recovery tiers:
+ * as-is (after stripping code fences), the first balanced object, then
+ * tolerant repair. A repair that still lacks any of `scoreKeys` was cut off
+ * before the scores and fails. Structured generation (see `judge-schema.ts`)
+ * returns objects directly and skips this path; re-asking the judge is left
+ * to `generateJudgeJson`.
+ */
+export function recoverJudgeJson(
+  text: string,
+  scoreKeys: string[] = []
+): {
+  value: Record<string, unknown>;
+  tier: JudgeParseTier;
+} {
+  const direct = parseObject(stripFences(text));
+  if (direct) return { value: direct, tier: "direct" };
+
+  const balanced = extractBalancedJson(text);
+  const extracted = balanced ? parseObject(balanced) : undefined;
+  if (extracted) return { value: extracted, tier: "extracted" };
+
+  const repaired = parseObject(repairJsonText(stripFences(text)));
+  if (repaired) {
+    const missing = missingScores(repaired, scoreKeys);
+    if (missing.length === 0) return { value: repaired, tier: "repaired" };
+    throw new JudgeJsonParseError(
+      `Judge reply was cut off before the scores for ${missing.join(", ")}`,
+      text
+    );
+  }
+
+  throw new JudgeJsonParseError("Judge returned invalid JSON", text);
+}
+
+export function parseJudgeJson(text: string, scoreKeys: string[] = []): Record<string, unknown> {
+  return recoverJudgeJson(text, scoreKeys).value;
+}
+
+/** Clamps a raw score into the criterion's scale; a missing score is its lowest. */
+export function normalizeCriterionScore(raw: unknown, criterion: RubricCriterion): number {
+  const { min, max } = criterionScoreBounds(criterion);
   const n = toFiniteNumber(raw);
-  if (n === undefined) return 1;
-  return Math.round(clamp(n, 1, maxScore));
+  if (n === undefined) return min;
+  return Math.round(clamp(n, min, max));
+}
+
+const PASS_WORDS = new Set(["true", "pass", "passed", "yes", "1"]);
+const FAIL_WORDS = new Set(["false", "fail", "failed", "no", "0"]);
+
+/** Reads a checklist verdict; `undefined` when the judge gave none. */
+export function normalizeChecklistPass(raw: unknown): boolean | undefined {
+  if (typeof raw === "boolean") return raw;
+  const v = String(raw ?? "").trim().toLowerCase();
+  if (PASS_WORDS.has(v)) return true;
+  if (FAIL_WORDS.has(v)) return false;
+  return undefined;
+}
+
+/**
+ * One criterion's result from its raw score and reasoning. A checklist
+ * criterion without a readable verdict is recorded as failed.
+ */
+export function buildCriterionScore(
+  criterion: RubricCriterion,
+  rawScore: unknown,
+  rawReasoning: unknown
+): CriterionScore {
+  const base = {
+    criterionId: criterion.id,
+    criterionName: criterion.name,
+    reasoning: normalizeText(rawReasoning),
+  };
+  if (criterion.type === "checklist") {
+    const passed = normalizeChecklistPass(rawScore) ?? false;
+    return { ...base, score: passed ? 1 : 0, maxScore: 1, passed };
+  }
+  return {
+    ...base,
+    score: normalizeCriterionScore(rawScore, criterion),
+    ...(criterion.scoreMin !== undefined && criterion.scoreMin !== 1 && {
+      minScore: criterion.scoreMin,
+    }),
+    maxScore: criterion.scoreRange,
+  };
 }
 
 export function normalizeAggregateScore(raw: unknown, fallback: number): number {
@@ -47,11 +300,80 @@ export function normalizeAggregateScore(raw: unknown, fallback: number): number
   return Math.round(clamp(value, 0, 100) * 10) / 10;
 }
 
+/**
+ * The judge's aggregate, or one computed from the criterion scores when it
+ * gave none. A failed `all_must_pass` checklist overrides both with 0.
+ */
+export function resolveAggregateScore(
+  raw: unknown,
+  criterionScores: CriterionScore[],
+  rubric: Rubric
+): number {
+  if (failsChecklistGate(criterionScores, rubric)) return 0;
+  return normalizeAggregateScore(raw, computeAggregateScore(criterionScores, rubric));
+}
+
+/** A / B / tie, also read off a graded label such as "A>>B" or "A≈B". */
 export function normalizeVerdict(raw: unknown): PairwiseVerdict {
-  const v = String(raw ?? "tie").trim().toLowerCase();
-  if (v === "a") return "A";
-  if (v === "b") return "B";
-  return "tie";
+  const margin = typeof raw === "string" ? parsePreference(raw, 7) : undefined;
+  return margin === undefined ? "tie" : verdictFromPreference(margin);
+}
+
+/** The signed margin of a graded verdict; unreadable verdicts are A≈B. */
+export function normalizePreference(raw: unknown, scale: PreferenceScale): number {
+  return parsePreference(raw, scale) ?? 0;
+}
+
+export const REFERENCE_AGREEMENTS: readonly ReferenceAgreement[] = [
+  "agrees",
+  "partial",
+  "contradicts",
+];
+
+export function normalizeReferenceAgreement(raw: unknown): ReferenceAgreement | undefined {
+  const v = String(raw ?? "").trim().toLowerCase();
+  return REFERENCE_AGREEMENTS.find((agreement) => agreement === v);
+}
+
+export const STEP_ASSESSMENTS: readonly StepAssessment[] = ["good", "issue"];
+
+/**
+ * Reads one `step_annotations` entry, or `undefined` when it cites a step the
+ * trajectory does not have or a criterion the rubric does not define.
+ */
+export function normalizeStepAnnotation(
+  raw: unknown,
+  stepCount: number,
+  rubric: Rubric
+): StepAnnotation | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const entry = raw as Record<string, unknown>;
+  const step = toFiniteNumber(entry.step);
+  if (step === undefined || !Number.isInteger(step) || step < 1 || step > stepCount) {
+    return undefined;
+  }
+  const criterionId = String(entry.criterion ?? "").trim();
+  if (!rubric.criteria.some((c) => c.id === criterionId)) return undefined;
+  const v = String(entry.assessment ?? "").trim().toLowerCase();
+  return {
+    step,
+    criterionId,
+    assessment: STEP_ASSESSMENTS.find((a) => a === v) ?? "issue",
+    note: normalizeText(entry.note),
+  };
+}
+
+/** Valid step annotations, in step order. */
+export function normalizeStepAnnotations(
+  raw: unknown,
+  stepCount: number,
+  rubric: Rubric
+): StepAnnotation[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((entry) => normalizeStepAnnotation(entry, stepCount, rubric))
+    .filter((a): a is StepAnnotation => a !== undefined)
+    .sort((a, b) => a.step - b.step);
 }
 
 export function normalizeText(raw: unknown): string {
@@ -0,0 +1,232 @@
+import { hashString } from "./rubric-versioning";
+import type {
+  EvaluationMode,
+  JudgePromptTemplate,
+  JudgePromptTemplateVersion,
+  JudgePromptVersionRef,
+} from "./types";
+
+// Judge prompt templates: prompt bodies with {{placeholders}} that
+// `prompts.ts` fills per evaluation. Versions are immutable so a recorded
+// `JudgePromptVersionRef` always names the exact text the judge saw.
+
+export interface JudgePromptPlaceholder {
+  key: string;
+  description: string;
+  required: boolean;
+}
+
+const SHARED_PLACEHOLDERS: JudgePromptPlaceholder[] = [
+  { key: "prompt", description: "The prompt given to the evaluated model", required: true },
+  {
+    key: "context",
+    description: "Reference context section, or nothing when no context is given",
+    required: false,
+  },
+  {
+    key: "rubric",
+    description:
+      "Rubric name, description and weighted criteria, plus calibration examples and the reference answer when given",
+    required: true,
+  },
+  {
+    key: "output_schema",
+    description: "The JSON shape the judge must reply with",
+    required: true,
+  },
+];
+
+export const JUDGE_PROMPT_PLACEHOLDERS: Record<EvaluationMode, JudgePromptPlaceholder[]> = {
+  single: [
+    ...SHARED_PLACEHOLDERS,
+    { key: "response", description: "The response being scored", required: true },
+  ],
+  pairwise: [
+    ...SHARED_PLACEHOLDERS,
+    { key: "response_a", description: "The response shown first", required: true },
+    { key: "response_b", description: "The response shown second", required: true },
+    {
+      key: "response_a_heading",
+      description: "“Response A”, plus the model label when not blind",
+      required: false,
+    },
+    {
+      key: "response_b_heading",
+      description: "“Response B”, plus the model label when not blind",
+      required: false,
+    },
+    {
+      key: "evaluation_mode",
+      description: "Whether model identities are hidden, with labels if not",
+      required: false,
+    },
+  ],
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+/**
+ * Fills `{{key}}` placeholders in one pass, so placeholder-like text inside
+ * the values is never expanded. Unknown placeholders are left as written.
+ */
+export function renderJudgePrompt(body: string, values: Record<string, string>): string {
+  return body.replace(PLACEHOLDER_PATTERN, (match, key: string) =>
+    Object.hasOwn(values, key) ? values[key] : match
+  );
+}
+
+/** Missing required and unknown placeholders, as human-readable problems. */
+export function findTemplateProblems(
+  version: Pick<JudgePromptTemplateVersion, EvaluationMode>
+): string[] {
+  const problems: string[] = [];
+  for (const mode of ["single", "pairwise"] as const) {
+    const label = mode === "single" ? "Single" : "Pairwise";
+    const placeholders = JUDGE_PROMPT_PLACEHOLDERS[mode];
+    const used = new Set(
+      [...version[mode].matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1])
+    );
+    for (const p of placeholders) {
+      if (p.required && !used.has(p.key)) {
+        problems.push(`${label} template is missing {{${p.key}}}.`);
+      }
+    }
+    for (const key of used) {
+      if (!placeholders.some((p) => p.key === key)) {
+        problems.push(`${label} template uses unknown placeholder {{${key}}}.`);
+      }
+    }
+  }
+  return problems;
+}
+
+export function judgePromptFingerprint(
+  version: Pick<JudgePromptTemplateVersion, EvaluationMode>
+): string {
+  return hashString(JSON.stringify([version.single, version.pairwise]));
+}
+
+export function buildJudgePromptVersionRef(
+  version: JudgePromptTemplateVersion
+): JudgePromptVersionRef {
+  return {
+    id: version.templateId,
+    versionNumber: version.versionNumber,
+    createdAt: version.createdAt,
+    notes: version.notes,
+    fingerprint: judgePromptFingerprint(version),
+  };
+}
+
+/** Select value identifying one version, e.g. `judge-prompt@2`. */
+export function judgePromptVersionKey(
+  version: Pick<JudgePromptTemplateVersion, "templateId" | "versionNumber">
+): string {
+  return `${version.templateId}@${version.versionNumber}`;
+}
+
+export function findJudgePromptVersion(
+  templates: JudgePromptTemplate[],
+  key: string
+): JudgePromptTemplateVersion | undefined {
+  for (const template of templates) {
+    const version = template.versions.find((v) => judgePromptVersionKey(v) === key);
+    if (version) return version;
+  }
+  return undefined;
+}
+
+export function latestJudgePromptVersion(
+  template: JudgePromptTemplate
+): JudgePromptTemplateVersion {
+  return template.versions[template.versions.length - 1];
+}
+
+// ── Built-in template ────────────────────────────────────────────────────────
+
+const DEFAULT_SINGLE_BODY = `You are an expert LLM response evaluator. Your job is to score the given response against a structured rubric.
+
+## Critical Instructions
+- Analyze carefully, but output only concise rationale in "chain_of_thought" (3-6 bullets) before scores.
+- Response LENGTH is NOT a proxy for quality. A concise, accurate answer can and should outscore a verbose, padded one.
+- Score each criterion INDEPENDENTLY based on its specific definition.
+- Use the FULL score range — do not cluster scores near the middle. A 1 means genuinely poor; the max score means genuinely excellent.
+- Be calibrated: the same quality of response should receive the same score.
+- Output ONLY valid JSON matching the exact schema below. No markdown code fences, no extra text before or after the JSON.
+{{context}}
+## Prompt Given to the LLM
+{{prompt}}
+
+## LLM Response to Evaluate
+{{response}}
+
+{{rubric}}
+
+## Output Schema (output this JSON and nothing else)
+{{output_schema}}`;
+
+const DEFAULT_PAIRWISE_BODY = `You are an expert LLM response evaluator. Your job is to compare two responses to the same prompt and determine which is better.
+
+## Critical Instructions
+- Analyze carefully, but output only concise rationale in "chain_of_thought" (3-6 bullets).
+- Evaluate each response INDEPENDENTLY before comparing them — do not let your impression of one affect your scoring of the other.
+- Response LENGTH is NOT a proxy for quality. Prefer substance, accuracy, and relevance over verbosity.
+- Guard against POSITION BIAS: do not favor a response simply because it appears first or second.
+- Use the FULL score range — do not cluster scores near the middle.
+- The verdict must be exactly "A", "B", or "tie". Reserve "tie" for cases where both responses are genuinely equivalent in quality.
+- Output ONLY valid JSON matching the exact schema below. No markdown code fences, no extra text.
+{{context}}
+
+{{evaluation_mode}}
+## Prompt Given to the LLM
+{{prompt}}
+
+## {{response_a_heading}}
+{{response_a}}
+
+## {{response_b_heading}}
+{{response_b}}
+
+{{rubric}}
+
+## Output Schema (output this JSON and nothing else)
+{{output_schema}}`;
+
+export const DEFAULT_JUDGE_PROMPT_TEMPLATE: JudgePromptTemplate = {
+  id: "judge-prompt",
+  name: "Structured JSON Grader",
+  description: "Rubric-based grading with a concise rationale and a strict JSON reply.",
+  isBuiltIn: true,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  versions: [
+    {
+      templateId: "judge-prompt",
+      versionNumber: 1,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      notes: "Structured JSON grading prompt v1",
+      single: DEFAULT_SINGLE_BODY,
+      pairwise: DEFAULT_PAIRWISE_BODY,
+    },
+  ],
+};
+
+export const DEFAULT_JUDGE_PROMPT_VERSION = DEFAULT_JUDGE_PROMPT_TEMPLATE.versions[0];
+
+export const DEFAULT_JUDGE_PROMPT_VERSION_REF = buildJudgePromptVersionRef(
+  DEFAULT_JUDGE_PROMPT_VERSION
+);
+
+/**
+ * Content fingerprint of the prompt a run or result used. Refs recorded
+ * before templates existed can only have used the built-in v1 text.
+ */
+export function effectivePromptFingerprint(
+  ref: JudgePromptVersionRef | undefined
+): string | undefined {
+  if (ref?.fingerprint) return ref.fingerprint;
+  const isLegacyDefault =
+    !ref ||
+    (ref.id === DEFAULT_JUDGE_PROMPT_VERSION_REF.id &&
+      ref.versionNumber === DEFAULT_JUDGE_PROMPT_VERSION_REF.versionNumber);
+  return isLegacyDefault ? DEFAULT_JUDGE_PROMPT_VERSION_REF.fingerprint : undefined;
+}
@@ -0,0 +1,158 @@
+import { APICallError } from "ai";
+import type {
+  JudgeErrorCode,
+  JudgeRetryInfo,
+  ProviderKind,
+  ProviderSpec,
+  RetryPolicy,
+} from "./types";
+
+// Server-only: retries transient judge call failures with exponential backoff.
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 20_000,
+  backoffFactor: 2,
+  maxRetryAfterMs: 30_000,
+};
+
+const RETRY_POLICIES_BY_KIND: Partial<Record<ProviderKind, Partial<RetryPolicy>>> = {
+  anthropic: { initialDelayMs: 2000 },
+  // Local servers fail fast; waiting rarely helps.
+  "openai-compatible": { maxRetries: 2, initialDelayMs: 500 },
+  mock: { maxRetries: 0 },
+};
+
+export function getRetryPolicy(provider: ProviderSpec): RetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...RETRY_POLICIES_BY_KIND[provider.kind],
+    ...provider.retry,
+  };
+}
+
+export class JudgeCallError extends Error {
+  code: JudgeErrorCode;
+  retry: JudgeRetryInfo;
+
+  constructor(message: string, code: JudgeErrorCode, retry: JudgeRetryInfo) {
+    super(message);
+    this.code = code;
+    this.retry = retry;
+  }
+
+  get status(): number {
+    return this.code === "rate_limited" ? 429 : 503;
+  }
+
+  responseHeaders(): Record<string, string> | undefined {
+    if (this.retry.retryAfterMs === undefined) return undefined;
+    return { "Retry-After": String(Math.ceil(this.retry.retryAfterMs / 1000)) };
+  }
+}
+
+/** Reads `retry-after-ms`, or `retry-after` as seconds or an HTTP date. */
+export function parseRetryAfterMs(
+  headers: Record<string, string> | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!headers) return undefined;
+  const lower = Object.fromEntries(
+    Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value])
+  );
+
+  const ms = Number(lower["retry-after-ms"]);
+  if (lower["retry-after-ms"] && Number.isFinite(ms)) return Math.max(0, ms);
+
+  const raw = lower["retry-after"];
+  if (!raw) return undefined;
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(raw);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function isRetryableStatus(status: number | undefined): boolean {
+  return status === 408 || status === 429 || (status !== undefined && status >= 500);
+}
+
+/** Full jitter: a random delay up to the capped exponential step. */
+export function backoffDelayMs(policy: RetryPolicy, retryNumber: number): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * policy.backoffFactor ** retryNumber
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toJudgeCallError(
+  err: APICallError,
+  provider: ProviderSpec,
+  attempts: number,
+  retryAfterMs: number | undefined
+): JudgeCallError {
+  const retry: JudgeRetryInfo = {
+    provider: provider.id,
+    attempts,
+    statusCode: err.statusCode,
+    retryAfterMs,
+  };
+  if (err.statusCode === 429) {
+    const wait =
+      retryAfterMs !== undefined ? `; retry in ${Math.ceil(retryAfterMs / 1000)}s` : "";
+    return new JudgeCallError(
+      `Rate limited by ${provider.name} after ${attempts} attempt(s)${wait}`,
+      "rate_limited",
+      retry
+    );
+  }
+  return new JudgeCallError(
+    `${provider.name} unavailable after ${attempts} attempt(s): ${err.message}`,
+    "provider_unavailable",
+    retry
+  );
+}
+
+export interface JudgeRetryOptions {
+  policy?: RetryPolicy; // defaults to the provider's policy
+  /** Checked before each retry; false turns the failure into a `JudgeCallError`. */
+  canRetry?: () => boolean;
+}
+
+/**
+ * Runs a judge call under the provider's retry policy. Retries 408, 429,
+ * 5xx and network failures; honors Retry-After up to `maxRetryAfterMs`.
+ * Transient failures that outlast the policy surface as `JudgeCallError`;
+ * anything else is rethrown unchanged. Disable the AI SDK's own retries
+ * (`maxRetries: 0`) inside `call`.
+ */
+export async function withJudgeRetry<T>(
+  provider: ProviderSpec,
+  call: () => Promise<T>,
+  { policy = getRetryPolicy(provider), canRetry = () => true }: JudgeRetryOptions = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (err) {
+      if (!APICallError.isInstance(err)) throw err;
+      const retryable = isRetryableStatus(err.statusCode) || err.isRetryable;
+      if (!retryable) throw err;
+
+      const retryAfterMs = parseRetryAfterMs(err.responseHeaders);
+      if (attempt > policy.maxRetries || !canRetry()) {
+        throw toJudgeCallError(err, provider, attempt, retryAfterMs);
+      }
+      if (retryAfterMs !== undefined && retryAfterMs > policy.maxRetryAfterMs) {
+        throw toJudgeCallError(err, provider, attempt, retryAfterMs);
+      }
+
+      await sleep(retryAfterMs ?? backoffDelayMs(policy, attempt - 1));
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { z } from "zod";
+import { listwiseSlotLetter } from "./listwise";
+import { preferenceLabels } from "./preference";
+import type {
+  PreferenceScale,
+  ProviderKind,
+  ProviderSpec,
+  Rubric,
+  RubricCriterion,
+  SingleEvalInput,
+} from "./types";
+
+// Zod schemas for the judge's JSON reply, mirroring the output schema that
+// `prompts.ts` spells out in the prompt. Used for structured generation.
+
+const STRUCTURED_OUTPUT_BY_KIND: Record<ProviderKind, boolean> = {
+  openai: true,
+  anthropic: true,
+  google: true,
+  mock: true,
+  // Compatible servers implement JSON-schema response formats unevenly.
+  "openai-compatible": false,
+};
+
+export function supportsStructuredOutput(provider: ProviderSpec): boolean {
+  return provider.structuredOutput ?? STRUCTURED_OUTPUT_BY_KIND[provider.kind];
+}
+
+function criterionScore(criterion: RubricCriterion) {
+  return criterion.type === "checklist"
+    ? z.boolean()
+    : z
+        .number()
+        .int()
+        .min(criterion.scoreMin ?? 1)
+        .max(criterion.scoreRange);
+}
+
+/** Optional sections of a single-evaluation reply, decided by its input. */
+export interface SingleJudgeOptions {
+  referenceGuided: boolean;
+  trajectorySteps?: number; // step count of a graded agent trajectory
+}
+
+export function singleJudgeOptions(input: SingleEvalInput): SingleJudgeOptions {
+  return {
+    referenceGuided: Boolean(input.referenceAnswer),
+    ...(input.trajectory && { trajectorySteps: input.trajectory.steps.length }),
+  };
+}
+
+export function buildSingleJudgeSchema(
+  rubric: Rubric,
+  { referenceGuided, trajectorySteps }: SingleJudgeOptions = { referenceGuided: false }
+) {
+  const criterionIds = rubric.criteria.map((c) => c.id) as [string, ...string[]];
+  const stepAnnotations = z.array(
+    z.object({
+      step: z.number().int().min(1).max(trajectorySteps ?? 1),
+      criterion: z.enum(criterionIds),
+      assessment: z.enum(["good", "issue"]),
+      note: z.string(),
+    })
+  );
+
+  const schema = z.object({
+    chain_of_thought: z.string(),
+    scores: z.object(
+      Object.fromEntries(rubric.criteria.map((c) => [c.id, criterionScore(c)]))
+    ),
+    criterion_reasoning: z.object(
+      Object.fromEntries(rubric.criteria.map((c) => [`${c.id}_reasoning`, z.string()]))
+    ),
+    aggregate_score: z.number().min(0).max(100),
+    summary: z.string(),
+  });
+  const referenceAgreement = z.object(
+    Object.fromEntries(
+      rubric.criteria.map((c) => [c.id, z.enum(["agrees", "partial", "contradicts"])])
+    )
+  );
+
+  if (referenceGuided && trajectorySteps) {
+    return schema.extend({
+      reference_agreement: referenceAgreement,
+      step_annotations: stepAnnotations,
+    });
+  }
+  if (referenceGuided) return schema.extend({ reference_agreement: referenceAgreement });
+  if (trajectorySteps) return schema.extend({ step_annotations: stepAnnotations });
+  return schema;
+}
+
+export function buildPairwiseJudgeSchema(rubric: Rubric, preferenceScale?: PreferenceScale) {
+  const sides = ["A", "B"] as const;
+  return z.object({
+    chain_of_thought: z.string(),
+    scores: z.object(
+      Object.fromEntries(
+        sides.flatMap((side) =>
+          rubric.criteria.map((c) => [`${c.id}_${side}`, criterionScore(c)])
+        )
+      )
+    ),
+    criterion_reasoning: z.object(
+      Object.fromEntries(
+        sides.flatMap((side) =>
+          rubric.criteria.map((c) => [`${c.id}_${side}_reasoning`, z.string()])
+        )
+      )
+    ),
+    summary: z.string(),
+    aggregate_score_A: z.number().min(0).max(100),
+    aggregate_score_B: z.number().min(0).max(100),
+    verdict: preferenceScale
+      ? z.enum(preferenceLabels(preferenceScale) as [string, ...string[]])
+      : z.enum(["A", "B", "tie"]),
+    verdict_reasoning: z.string(),
+  });
+}
+
+export function buildListwiseJudgeSchema(rubric: Rubric, candidateCount: number) {
+  const slots = Array.from({ length: candidateCount }, (_, i) => listwiseSlotLetter(i));
+  return z.object({
+    chain_of_thought: z.string(),
+    scores: z.object(
+      Object.fromEntries(
+        slots.flatMap((slot) =>
+          rubric.criteria.map((c) => [`${c.id}_${slot}`, criterionScore(c)])
+        )
+      )
+    ),
+    criterion_reasoning: z.object(
+      Object.fromEntries(
+        slots.flatMap((slot) =>
+          rubric.criteria.map((c) => [`${c.id}_${slot}_reasoning`, z.string()])
+        )
+      )
+    ),
+    aggregate_scores: z.object(
+      Object.fromEntries(slots.map((slot) => [slot, z.number().min(0).max(100)]))
+    ),
+    ranking: z.object(
+      Object.fromEntries(slots.map((slot) => [slot, z.number().int().min(1).max(candidateCount)]))
+    ),
+    ranking_reasoning: z.string(),
+    summary: z.string(),
+  });
+}
+
+export type JudgeOutputSchema = z.ZodType<Record<string, unknown>>;
+
+/** The `scores` keys a reply of this schema must carry. */
+export function requiredScoreKeys(schema: JudgeOutputSchema): string[] {
+  if (!(schema instanceof z.ZodObject)) return [];
+  const scores = schema.shape.scores;
+  return scores instanceof z.ZodObject ? Object.keys(scores.shape) : [];
+}
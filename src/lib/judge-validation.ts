@@ -0,0 +1,292 @@
+import {
+  normalizeChecklistPass,
+  normalizeReferenceAgreement,
+  normalizeStepAnnotation,
+} from "./judge-output";
+import { listwiseSlotLetter } from "./listwise";
+import { parsePreference, preferenceLabel, preferenceLabels } from "./preference";
+import type { SingleJudgeOptions } from "./judge-schema";
+import type {
+  EvalResult,
+  JudgeOutputIssue,
+  JudgeOutputIssueKind,
+  JudgeValidationReport,
+  PreferenceScale,
+  Rubric,
+  RubricCriterion,
+} from "./types";
+import { criterionScoreBounds } from "./utils";
+
+// Strict checks on the judge's parsed JSON. The normalizers in
+// `judge-output.ts` still coerce every value so a result can be built; this
+// report records where they had to, so metrics can skip or count those cases.
+
+/** Issues that change a score or verdict, as opposed to cosmetic gaps. */
+const DEGRADING_ISSUES: ReadonlySet<JudgeOutputIssueKind> = new Set([
+  "missing_score",
+  "score_clamped",
+  "aggregate_clamped",
+  "verdict_coerced",
+  "ranking_coerced",
+]);
+
+const VERDICTS = new Set(["a", "b", "tie"]);
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string" && value.trim() !== "") {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : undefined;
+  }
+  return undefined;
+}
+
+function buildReport(issues: JudgeOutputIssue[]): JudgeValidationReport {
+  return { issues, degraded: issues.some((issue) => DEGRADING_ISSUES.has(issue.kind)) };
+}
+
+type AddIssue = (kind: JudgeOutputIssueKind, path: string, message: string) => void;
+
+function issueCollector(pass?: "reversed"): { issues: JudgeOutputIssue[]; add: AddIssue } {
+  const issues: JudgeOutputIssue[] = [];
+  return {
+    issues,
+    add: (kind, path, message) =>
+      issues.push({ kind, path, message, ...(pass ? { pass } : {}) }),
+  };
+}
+
+function checkScore(
+  add: AddIssue,
+  scores: Record<string, unknown>,
+  key: string,
+  criterion: RubricCriterion
+) {
+  if (criterion.type === "checklist") {
+    if (normalizeChecklistPass(scores[key]) === undefined) {
+      add("missing_score", `scores.${key}`, `No pass/fail for "${key}"; recorded as a fail.`);
+    }
+    return;
+  }
+  const { min, max } = criterionScoreBounds(criterion);
+  const n = asNumber(scores[key]);
+  if (n === undefined) {
+    add("missing_score", `scores.${key}`, `No score for "${key}"; recorded as ${min}.`);
+  } else if (n < min || n > max) {
+    const clamped = Math.round(Math.max(min, Math.min(max, n)));
+    add(
+      "score_clamped",
+      `scores.${key}`,
+      `Score ${n} for "${key}" is outside ${min}–${max}; clamped to ${clamped}.`
+    );
+  }
+}
+
+function checkReasoning(add: AddIssue, reasoning: Record<string, unknown>, key: string) {
+  const value = reasoning[key];
+  if (typeof value !== "string" || value.trim() === "") {
+    add("missing_reasoning", `criterion_reasoning.${key}`, `No reasoning for "${key}".`);
+  }
+}
+
+function checkAggregate(add: AddIssue, parsed: Record<string, unknown>, key: string) {
+  const n = asNumber(parsed[key]);
+  if (n === undefined) {
+    add("missing_aggregate", key, `No ${key}; computed from criterion scores.`);
+  } else if (n < 0 || n > 100) {
+    add("aggregate_clamped", key, `${key} ${n} is outside 0–100; clamped.`);
+  }
+}
+
+function checkGradedVerdict(add: AddIssue, raw: unknown, scale: PreferenceScale) {
+  const text = String(raw ?? "").trim();
+  if (preferenceLabels(scale).includes(text)) return;
+  const margin = parsePreference(raw, scale);
+  add(
+    "verdict_coerced",
+    "verdict",
+    raw === undefined
+      ? "No verdict; recorded as A≈B."
+      : `Verdict "${String(raw)}" is not on the ${scale}-point scale; recorded as ${preferenceLabel(margin ?? 0)}.`
+  );
+}
+
+function checkUnknownKeys(
+  add: AddIssue,
+  record: Record<string, unknown>,
+  known: Set<string>,
+  path: string
+) {
+  for (const key of Object.keys(record)) {
+    if (!known.has(key)) {
+      add("unknown_criterion", `${path}.${key}`, `"${key}" is not a rubric criterion; ignored.`);
+    }
+  }
+}
+
+export function validateSingleJudgeOutput(
+  parsed: Record<string, unknown>,
+  rubric: Rubric,
+  { referenceGuided, trajectorySteps }: SingleJudgeOptions = { referenceGuided: false }
+): JudgeValidationReport {
+  const { issues, add } = issueCollector();
+  const scores = asRecord(parsed.scores);
+  const reasoning = asRecord(parsed.criterion_reasoning);
+  const agreement = asRecord(parsed.reference_agreement);
+
+  for (const c of rubric.criteria) {
+    checkScore(add, scores, c.id, c);
+    checkReasoning(add, reasoning, `${c.id}_reasoning`);
+    if (referenceGuided && !normalizeReferenceAgreement(agreement[c.id])) {
+      add(
+        "missing_agreement",
+        `reference_agreement.${c.id}`,
+        agreement[c.id] === undefined
+          ? `No reference agreement for "${c.id}".`
+          : `Reference agreement "${String(agreement[c.id])}" for "${c.id}" is not agrees, partial or contradicts; ignored.`
+      );
+    }
+  }
+  checkUnknownKeys(add, scores, new Set(rubric.criteria.map((c) => c.id)), "scores");
+  checkAggregate(add, parsed, "aggregate_score");
+  if (trajectorySteps) checkStepAnnotations(add, parsed.step_annotations, trajectorySteps, rubric);
+
+  return buildReport(issues);
+}
+
+function checkStepAnnotations(
+  add: AddIssue,
+  raw: unknown,
+  stepCount: number,
+  rubric: Rubric
+) {
+  if (!Array.isArray(raw)) {
+    if (raw !== undefined) {
+      add("invalid_step_annotation", "step_annotations", "step_annotations is not a list; ignored.");
+    }
+    return;
+  }
+  raw.forEach((entry, i) => {
+    if (normalizeStepAnnotation(entry, stepCount, rubric)) return;
+    const { step, criterion } = asRecord(entry);
+    add(
+      "invalid_step_annotation",
+      `step_annotations.${i}`,
+      `Annotation for step ${String(step)} / "${String(criterion)}" does not match a step (1–${stepCount}) and rubric criterion; dropped.`
+    );
+  });
+}
+
+/**
+ * Validates one pairwise pass. Keys are checked as the judge saw them, so a
+ * reversed pass reports `_A` for the response shown first.
+ */
+export function validatePairwiseJudgeOutput(
+  parsed: Record<string, unknown>,
+  rubric: Rubric,
+  pass?: "reversed",
+  preferenceScale?: PreferenceScale
+): JudgeValidationReport {
+  const { issues, add } = issueCollector(pass);
+  const scores = asRecord(parsed.scores);
+  const reasoning = asRecord(parsed.criterion_reasoning);
+
+  const known = new Set<string>();
+  for (const side of ["A", "B"]) {
+    for (const c of rubric.criteria) {
+      known.add(`${c.id}_${side}`);
+      checkScore(add, scores, `${c.id}_${side}`, c);
+      checkReasoning(add, reasoning, `${c.id}_${side}_reasoning`);
+    }
+    checkAggregate(add, parsed, `aggregate_score_${side}`);
+  }
+  checkUnknownKeys(add, scores, known, "scores");
+
+  const verdict = String(parsed.verdict ?? "").trim().toLowerCase();
+  if (preferenceScale) {
+    checkGradedVerdict(add, parsed.verdict, preferenceScale);
+  } else if (!VERDICTS.has(verdict)) {
+    add(
+      "verdict_coerced",
+      "verdict",
+      parsed.verdict === undefined
+        ? "No verdict; recorded as a tie."
+        : `Verdict "${String(parsed.verdict)}" is not A, B or tie; recorded as a tie.`
+    );
+  }
+
+  return buildReport(issues);
+}
+
+/**
+ * Validates one listwise judge call. Keys are checked as the judge saw them:
+ * slot letters, whichever candidate each slot showed.
+ */
+export function validateListwiseJudgeOutput(
+  parsed: Record<string, unknown>,
+  rubric: Rubric,
+  candidateCount: number
+): JudgeValidationReport {
+  const { issues, add } = issueCollector();
+  const scores = asRecord(parsed.scores);
+  const reasoning = asRecord(parsed.criterion_reasoning);
+  const aggregates = asRecord(parsed.aggregate_scores);
+  const ranking = asRecord(parsed.ranking);
+
+  const known = new Set<string>();
+  for (let slot = 0; slot < candidateCount; slot++) {
+    const letter = listwiseSlotLetter(slot);
+    for (const c of rubric.criteria) {
+      known.add(`${c.id}_${letter}`);
+      checkScore(add, scores, `${c.id}_${letter}`, c);
+      checkReasoning(add, reasoning, `${c.id}_${letter}_reasoning`);
+    }
+    const aggregate = asNumber(aggregates[letter]);
+    if (aggregate === undefined) {
+      add(
+        "missing_aggregate",
+        `aggregate_scores.${letter}`,
+        `No aggregate score for ${letter}; computed from criterion scores.`
+      );
+    } else if (aggregate < 0 || aggregate > 100) {
+      add(
+        "aggregate_clamped",
+        `aggregate_scores.${letter}`,
+        `Aggregate ${aggregate} for ${letter} is outside 0–100; clamped.`
+      );
+    }
+  }
+  checkUnknownKeys(add, scores, known, "scores");
+
+  const missing = Array.from({ length: candidateCount }, (_, slot) =>
+    listwiseSlotLetter(slot)
+  ).filter((letter) => {
+    const rank = asNumber(ranking[letter]);
+    return rank === undefined || rank < 1;
+  });
+  if (missing.length > 0) {
+    add(
+      "ranking_coerced",
+      "ranking",
+      `No valid rank for ${missing.join(", ")}; ranked by aggregate score instead.`
+    );
+  }
+
+  return buildReport(issues);
+}
+
+export function mergeValidationReports(
+  ...reports: JudgeValidationReport[]
+): JudgeValidationReport {
+  return buildReport(reports.flatMap((report) => report.issues));
+}
+
+export function isDegraded(result: EvalResult): boolean {
+  return result.validation?.degraded ?? false;
+}
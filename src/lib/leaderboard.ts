@@ -0,0 +1,237 @@
+import { hashString } from "./rubric-versioning";
+import { round } from "./server-memory";
+import type {
+  DatasetItem,
+  EvalResult,
+  ExperimentRun,
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardFilters,
+  LeaderboardMatch,
+  RatingMethod,
+} from "./types";
+
+// Model leaderboards: pairwise verdicts between labelled models fitted to
+// Bradley–Terry strengths or replayed as Elo updates, both reported on the
+// Elo scale. Bootstrap resampling of the matches gives 95% intervals.
+
+export const RATING_METHOD_LABELS: Record<RatingMethod, string> = {
+  bradley_terry: "Bradley–Terry",
+  elo: "Elo",
+};
+
+export const DEFAULT_BOOTSTRAP_ROUNDS = 200;
+
+export const MAX_BOOTSTRAP_ROUNDS = 1000;
+
+const BASE_RATING = 1000;
+
+const ELO_K = 32;
+
+const BT_MAX_ITERATIONS = 200;
+
+const BT_TOLERANCE = 1e-6;
+
+// ── Collecting matches ───────────────────────────────────────────────────────
+
+function namedPair(
+  labelA: string | undefined,
+  labelB: string | undefined
+): [string, string] | undefined {
+  const a = labelA?.trim();
+  const b = labelB?.trim();
+  return a && b && a !== b ? [a, b] : undefined;
+}
+
+/** Pairwise results whose two responses both name their model. */
+export function matchesFromResults(results: EvalResult[]): LeaderboardMatch[] {
+  return results.flatMap((result): LeaderboardMatch[] => {
+    if (result.mode !== "pairwise") return [];
+    const pair = namedPair(result.input.modelLabelA, result.input.modelLabelB);
+    if (!pair) return [];
+    return [
+      {
+        modelA: pair[0],
+        modelB: pair[1],
+        verdict: result.verdict,
+        rubricId: result.rubric.id,
+        judgeModelId: result.judgeModel.id,
+        createdAt: result.createdAt,
+      },
+    ];
+  });
+}
+
+/** A dataset run's case verdicts, for items that name both models. */
+export function matchesFromRun(run: ExperimentRun, items: DatasetItem[]): LeaderboardMatch[] {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  return (run.pairwiseOutcomes ?? []).flatMap((outcome): LeaderboardMatch[] => {
+    const item = byId.get(outcome.itemId);
+    const pair = item && namedPair(item.modelLabelA, item.modelLabelB);
+    if (!item || !pair) return [];
+    return [
+      {
+        modelA: pair[0],
+        modelB: pair[1],
+        verdict: outcome.verdict,
+        rubricId: run.config.rubricId,
+        judgeModelId: run.config.judgeModelId,
+        tags: item.tags,
+        ...(run.synthetic && { synthetic: true }),
+        createdAt: run.createdAt,
+      },
+    ];
+  });
+}
+
+/** A slice filter keeps dataset matches only; ad-hoc results carry no tags. */
+export function filterMatches(
+  matches: LeaderboardMatch[],
+  filters: LeaderboardFilters
+): LeaderboardMatch[] {
+  return matches.filter(
+    (m) =>
+      (!filters.rubricId || m.rubricId === filters.rubricId) &&
+      (!filters.judgeModelId || m.judgeModelId === filters.judgeModelId) &&
+      (!filters.slice || (m.tags ?? []).includes(filters.slice))
+  );
+}
+
+// ── Fitting ──────────────────────────────────────────────────────────────────
+
+/** Points won by model A: 1 for a win, ½ for a tie. */
+function scoreA(match: LeaderboardMatch): number {
+  return match.verdict === "A" ? 1 : match.verdict === "B" ? 0 : 0.5;
+}
+
+/**
+ * Bradley–Terry strengths by minorization–maximization, ties counting as
+ * half a win each way. Every model also ties one virtual game against a
+ * fixed reference, so an unbeaten model still gets a finite rating.
+ */
+export function fitBradleyTerry(matches: LeaderboardMatch[]): Map<string, number> {
+  const models = [...new Set(matches.flatMap((m) => [m.modelA, m.modelB]))];
+  const index = new Map(models.map((m, i) => [m, i]));
+  const wins = models.map(() => 0.5);
+  const games = models.map(() => new Map<number, number>());
+  for (const m of matches) {
+    const a = index.get(m.modelA)!;
+    const b = index.get(m.modelB)!;
+    const s = scoreA(m);
+    wins[a] += s;
+    wins[b] += 1 - s;
+    games[a].set(b, (games[a].get(b) ?? 0) + 1);
+    games[b].set(a, (games[b].get(a) ?? 0) + 1);
+  }
+
+  let strengths = models.map(() => 1);
+  for (let iteration = 0; iteration < BT_MAX_ITERATIONS; iteration++) {
+    const next = strengths.map((p, i) => {
+      let denominator = 1 / (p + 1);
+      for (const [j, n] of games[i]) denominator += n / (p + strengths[j]);
+      return wins[i] / denominator;
+    });
+    const change = Math.max(...next.map((p, i) => Math.abs(Math.log(p / strengths[i]))));
+    strengths = next;
+    if (change < BT_TOLERANCE) break;
+  }
+
+  const logMean = strengths.reduce((sum, p) => sum + Math.log10(p), 0) / strengths.length;
+  return new Map(
+    models.map((m, i) => [m, BASE_RATING + 400 * (Math.log10(strengths[i]) - logMean)])
+  );
+}
+
+/** Elo ratings from replaying the matches in order, all models starting at 1000. */
+export function fitElo(matches: LeaderboardMatch[]): Map<string, number> {
+  const ratings = new Map<string, number>();
+  for (const m of matches) {
+    const ra = ratings.get(m.modelA) ?? BASE_RATING;
+    const rb = ratings.get(m.modelB) ?? BASE_RATING;
+    const expectedA = 1 / (1 + 10 ** ((rb - ra) / 400));
+    const delta = ELO_K * (scoreA(m) - expectedA);
+    ratings.set(m.modelA, ra + delta);
+    ratings.set(m.modelB, rb - delta);
+  }
+  return ratings;
+}
+
+function fitRatings(matches: LeaderboardMatch[], method: RatingMethod): Map<string, number> {
+  return method === "elo" ? fitElo(matches) : fitBradleyTerry(matches);
+}
+
+// ── Bootstrap ────────────────────────────────────────────────────────────────
+
+/** Deterministic PRNG (mulberry32), so the same matches give the same intervals. */
+function seededRandom(seed: string): () => number {
+  let state = Number.parseInt(hashString(seed), 16);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return Number.NaN;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/**
+ * Ratings with 95% bootstrap intervals. Each round resamples the matches
+ * with replacement, keeping their order so Elo replays stay chronological.
+ */
+export function buildLeaderboard(
+  matches: LeaderboardMatch[],
+  method: RatingMethod,
+  bootstrapRounds = DEFAULT_BOOTSTRAP_ROUNDS
+): Leaderboard {
+  const ordered = [...matches].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const ratings = fitRatings(ordered, method);
+
+  const samples = new Map<string, number[]>([...ratings.keys()].map((m) => [m, []]));
+  const random = seededRandom(
+    `${method}:${ordered.map((m) => `${m.modelA}|${m.modelB}|${m.verdict}`).join(",")}`
+  );
+  for (let iteration = 0; iteration < bootstrapRounds && ordered.length > 0; iteration++) {
+    const picks = Array.from({ length: ordered.length }, () =>
+      Math.floor(random() * ordered.length)
+    ).sort((a, b) => a - b);
+    for (const [model, rating] of fitRatings(
+      picks.map((i) => ordered[i]),
+      method
+    )) {
+      samples.get(model)?.push(rating);
+    }
+  }
+
+  const entries = [...ratings.entries()].map(([model, rating]): LeaderboardEntry => {
+    const sorted = (samples.get(model) ?? []).sort((a, b) => a - b);
+    const own = ordered.filter((m) => m.modelA === model || m.modelB === model);
+    const won = own.filter(
+      (m) => (m.verdict === "A" && m.modelA === model) || (m.verdict === "B" && m.modelB === model)
+    ).length;
+    const tied = own.filter((m) => m.verdict === "tie").length;
+    return {
+      model,
+      rank: 0,
+      rating: round(rating, 1),
+      ciLow: round(sorted.length > 0 ? percentile(sorted, 0.025) : rating, 1),
+      ciHigh: round(sorted.length > 0 ? percentile(sorted, 0.975) : rating, 1),
+      matches: own.length,
+      wins: won,
+      losses: own.length - won - tied,
+      ties: tied,
+    };
+  });
+  entries.sort((a, b) => b.rating - a.rating || a.model.localeCompare(b.model));
+  for (const entry of entries) {
+    entry.rank = 1 + entries.filter((other) => other.rating > entry.rating).length;
+  }
+
+  return { method, entries, matchCount: ordered.length, bootstrapRounds };
+}
@@ -0,0 +1,239 @@
+import { hashString } from "./rubric-versioning";
+import { round } from "./server-memory";
+import { medianCriterionScores } from "./self-consistency";
+import { resolveAggregateScore } from "./judge-output";
+import type {
+  CriterionScore,
+  ListwiseCandidate,
+  ListwiseEvalInput,
+  ListwiseOrdering,
+  ListwisePositionEffect,
+  ListwiseRankedCandidate,
+  Rubric,
+} from "./types";
+
+// Listwise ranking: N responses to one prompt scored and ranked in a single
+// judge call. Candidates are shown under slot letters (A, B, C, …); further
+// orderings reshuffle the slots so rank changes expose position effects.
+
+export const MIN_LISTWISE_CANDIDATES = 3;
+
+export const MAX_LISTWISE_CANDIDATES = 8;
+
+export const MAX_LISTWISE_ORDERINGS = 5;
+
+export function listwiseSlotLetter(slot: number): string {
+  return String.fromCharCode(65 + slot);
+}
+
+export function candidateLabel(candidate: ListwiseCandidate, index: number): string {
+  return candidate.label?.trim() || `Response ${index + 1}`;
+}
+
+export type ParsedCandidates =
+  | { ok: true; candidates: ListwiseCandidate[] }
+  | { ok: false; error: string };
+
+/**
+ * Parses a `responses` array, as a value or its JSON text. Entries are
+ * either response strings or objects with the response under
+ * `response`/`content`/`text` and the model under `model`/`label`/`name`.
+ */
+export function parseListwiseCandidates(raw: unknown): ParsedCandidates {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw) as unknown;
+    } catch {
+      return { ok: false, error: "responses must be a JSON array." };
+    }
+  }
+  if (!Array.isArray(value)) return { ok: false, error: "responses must be an array." };
+  if (value.length < MIN_LISTWISE_CANDIDATES || value.length > MAX_LISTWISE_CANDIDATES) {
+    return {
+      ok: false,
+      error: `responses needs ${MIN_LISTWISE_CANDIDATES}–${MAX_LISTWISE_CANDIDATES} entries, got ${value.length}.`,
+    };
+  }
+
+  const candidates: ListwiseCandidate[] = [];
+  for (const [i, entry] of value.entries()) {
+    if (typeof entry === "string") {
+      if (!entry.trim()) return { ok: false, error: `responses[${i}] is empty.` };
+      candidates.push({ response: entry });
+      continue;
+    }
+    if (!entry || typeof entry !== "object") {
+      return { ok: false, error: `responses[${i}] must be a string or an object.` };
+    }
+    const e = entry as Record<string, unknown>;
+    const response = [e.response, e.content, e.text].find(
+      (v): v is string => typeof v === "string" && v.trim() !== ""
+    );
+    if (!response) return { ok: false, error: `responses[${i}] needs a response.` };
+    const label = [e.model, e.label, e.name].find(
+      (v): v is string => typeof v === "string" && v.trim() !== ""
+    );
+    candidates.push({ response, ...(label && { label: label.trim() }) });
+  }
+  return { ok: true, candidates };
+}
+
+// ── Orderings ────────────────────────────────────────────────────────────────
+
+function seededShuffle(count: number, seed: string): number[] {
+  const order = Array.from({ length: count }, (_, i) => i);
+  for (let i = count - 1; i > 0; i--) {
+    const j = Number.parseInt(hashString(`${seed}:${i}`), 16) % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+/**
+ * The candidate order of each judge call. Seeded from the input, so a rerun
+ * shows the judge the same prompts and hits the judge cache. The first call
+ * keeps the input order unless double-blind, which shuffles every call.
+ */
+export function listwiseOrders(input: ListwiseEvalInput): number[][] {
+  const n = input.candidates.length;
+  const seed = hashString(
+    JSON.stringify([input.prompt, input.candidates.map((c) => c.response)])
+  );
+  const orders: number[][] = [];
+  const seen = new Set<string>();
+  for (let k = 0; orders.length < input.orderings; k++) {
+    const order =
+      k === 0 && !input.doubleBlind
+        ? Array.from({ length: n }, (_, i) => i)
+        : seededShuffle(n, `${seed}:${k}`);
+    const key = order.join(",");
+    // Every allowed candidate count has more permutations than orderings.
+    if (seen.has(key) && k < 50) continue;
+    seen.add(key);
+    orders.push(order);
+  }
+  return orders;
+}
+
+// ── Ranks ────────────────────────────────────────────────────────────────────
+
+/** Standard competition ranks ("1224") of values where lower is better. */
+export function competitionRanks(values: number[]): number[] {
+  return values.map((v) => 1 + values.filter((other) => other < v).length);
+}
+
+/**
+ * The judge's ranking, by candidate index. `raw` maps slot letters to ranks;
+ * ties are allowed and re-ranked competition style. A ranking that misses a
+ * slot or is not numeric falls back to ranking by aggregate score.
+ */
+export function normalizeListwiseRanks(
+  raw: unknown,
+  order: number[],
+  aggregateScores: number[]
+): { ranks: number[]; coerced: boolean } {
+  const record =
+    raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const bySlot = order.map((_, slot) => Number(record[listwiseSlotLetter(slot)]));
+  const ranks: number[] = new Array(order.length);
+  if (bySlot.every((r) => Number.isFinite(r) && r >= 1)) {
+    const slotRanks = competitionRanks(bySlot);
+    order.forEach((candidate, slot) => (ranks[candidate] = slotRanks[slot]));
+    return { ranks, coerced: false };
+  }
+  const byScore = competitionRanks(aggregateScores.map((s) => -s));
+  return { ranks: byScore, coerced: true };
+}
+
+/** One judge call's scores, by candidate index, alongside its ordering. */
+export interface ListwiseJudgedOrdering extends ListwiseOrdering {
+  criterionScores: CriterionScore[][];
+}
+
+/**
+ * The final ranking: each candidate's judge ranks averaged over orderings,
+ * re-ranked so candidates with equal mean ranks tie. Scores are medians.
+ */
+export function rankListwiseCandidates(
+  input: ListwiseEvalInput,
+  rubric: Rubric,
+  judged: ListwiseJudgedOrdering[]
+): ListwiseRankedCandidate[] {
+  const meanRanks = input.candidates.map((_, i) =>
+    round(judged.reduce((sum, o) => sum + o.ranks[i], 0) / judged.length, 2)
+  );
+  const ranks = competitionRanks(meanRanks);
+  return input.candidates
+    .map((candidate, i): ListwiseRankedCandidate => {
+      const criterionScores =
+        judged.length === 1
+          ? judged[0].criterionScores[i]
+          : medianCriterionScores(
+              rubric,
+              judged.map((o) => o.criterionScores[i])
+            );
+      return {
+        candidateIndex: i,
+        label: candidateLabel(candidate, i),
+        rank: ranks[i],
+        meanRank: meanRanks[i],
+        aggregateScore:
+          judged.length === 1
+            ? judged[0].aggregateScores[i]
+            : resolveAggregateScore(undefined, criterionScores, rubric),
+        criterionScores,
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.rank - b.rank || b.aggregateScore - a.aggregateScore || a.candidateIndex - b.candidateIndex
+    );
+}
+
+function correlation(xs: number[], ys: number[]): number {
+  const n = xs.length;
+  const mx = xs.reduce((s, x) => s + x, 0) / n;
+  const my = ys.reduce((s, y) => s + y, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  return sxx === 0 || syy === 0 ? 0 : sxy / Math.sqrt(sxx * syy);
+}
+
+/**
+ * Position effects across two or more orderings. With no effect, every slot
+ * averages the same rank, slot and rank are uncorrelated and the orderings
+ * agree (Kendall's W near 1).
+ */
+export function listwisePositionEffect(
+  orderings: ListwiseOrdering[]
+): ListwisePositionEffect | undefined {
+  const m = orderings.length;
+  if (m < 2) return undefined;
+  const n = orderings[0].order.length;
+
+  const slotMeanRanks = Array.from({ length: n }, (_, slot) =>
+    round(orderings.reduce((sum, o) => sum + o.ranks[o.order[slot]], 0) / m, 2)
+  );
+  const slots = orderings.flatMap((o) => o.order.map((_, slot) => slot + 1));
+  const ranks = orderings.flatMap((o) => o.order.map((candidate) => o.ranks[candidate]));
+
+  const rankSums = Array.from({ length: n }, (_, i) =>
+    orderings.reduce((sum, o) => sum + o.ranks[i], 0)
+  );
+  const meanSum = rankSums.reduce((s, r) => s + r, 0) / n;
+  const spread = rankSums.reduce((s, r) => s + (r - meanSum) ** 2, 0);
+  const kendallW = (12 * spread) / (m * m * (n ** 3 - n));
+
+  return {
+    slotMeanRanks,
+    positionRankCorrelation: round(correlation(slots, ranks), 2),
+    rankAgreement: round(Math.max(0, Math.min(1, kendallW)), 2),
+  };
+}
@@ -0,0 +1,322 @@
+import type { LanguageModel } from "ai";
+import type { PairwiseVerdict, PreferenceScale } from "./types";
+import { estimateTextTokens } from "./cost-estimate";
+import { preferenceLabel, preferenceRange } from "./preference";
+import { normalizeUntrustedNonces } from "./prompt-injection";
+import { hashString } from "./server-memory";
+
+// Deterministic offline judge: answers any judge prompt with schema-valid JSON
+// whose scores are derived from a hash of the prompt. No network, no API key.
+// The reply's shape comes from the structured-output schema of the call, never
+// from the prompt text, which carries the untrusted evaluated content.
+
+type MockLanguageModel = Extract<LanguageModel, { specificationVersion: "v3" }>;
+type MockCallOptions = Parameters<MockLanguageModel["doGenerate"]>[0];
+type MockOutputSchema = Extract<
+  NonNullable<MockCallOptions["responseFormat"]>,
+  { type: "json" }
+>["schema"];
+
+export const MOCK_PROVIDER_ID = "mock";
+export const MOCK_JUDGE_MODEL_ID = "mock-judge";
+
+const MOCK_STREAM_CHUNK_CHARS = 24;
+
+// ── Seeded helpers ───────────────────────────────────────────────────────────
+
+export function seededRange(seed: string, min: number, max: number): number {
+  const h = Number.parseInt(hashString(seed), 16);
+  const span = max - min + 1;
+  return min + (h % span);
+}
+
+export function seededVerdict(seed: string): PairwiseVerdict {
+  const h = Number.parseInt(hashString(seed), 16);
+  const mod = h % 3;
+  if (mod === 0) return "A";
+  if (mod === 1) return "B";
+  return "tie";
+}
+
+// ── Schema → reply shape ─────────────────────────────────────────────────────
+
+interface ScoreKey {
+  key: string;
+  min: number;
+  max: number;
+  checklist: boolean; // pass/fail, seeded as 1 or 2 on a 1–2 scale
+}
+
+/** What the judge call asked for, read from the schemas in `judge-schema.ts`. */
+export interface MockReplyShape {
+  mode: "single" | "pairwise" | "listwise";
+  keys: ScoreKey[];
+  referenceGuided: boolean;
+  trajectorySteps: number; // 0 unless step annotations are requested
+  preferenceScale?: PreferenceScale;
+}
+
+interface SchemaNode {
+  type?: unknown;
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+}
+
+export function mockReplyShape(schema: MockOutputSchema): MockReplyShape {
+  const properties = (schema as SchemaNode | undefined)?.properties ?? {};
+  const keys = Object.entries(properties.scores?.properties ?? {}).map(([key, node]) =>
+    node.type === "boolean"
+      ? { key, min: 1, max: 2, checklist: true }
+      : { key, min: node.minimum ?? 1, max: node.maximum ?? 10, checklist: false }
+  );
+  const verdictLabels = properties.verdict?.enum?.length;
+  return {
+    mode: properties.ranking ? "listwise" : properties.verdict ? "pairwise" : "single",
+    keys,
+    referenceGuided: !!properties.reference_agreement,
+    trajectorySteps: properties.step_annotations?.items?.properties?.step?.maximum ?? 0,
+    ...((verdictLabels === 5 || verdictLabels === 7) && { preferenceScale: verdictLabels }),
+  };
+}
+
+// ── Prompt → JSON ────────────────────────────────────────────────────────────
+
+function normalizedMean(keys: ScoreKey[], scores: Record<string, number>): number {
+  if (keys.length === 0) return 0;
+  const total = keys.reduce(
+    (sum, { key, max }) => sum + (max > 1 ? (scores[key] - 1) / (max - 1) : 1),
+    0
+  );
+  return Math.round((total / keys.length) * 1000) / 10;
+}
+
+/** Reference-guided prompts: agreement follows each criterion's score. */
+function mockReferenceAgreement(
+  keys: ScoreKey[],
+  scores: Record<string, number>
+): Record<string, string> {
+  return Object.fromEntries(
+    keys.map(({ key, max }) => {
+      const ratio = max > 1 ? (scores[key] - 1) / (max - 1) : 1;
+      return [key, ratio >= 0.7 ? "agrees" : ratio >= 0.4 ? "partial" : "contradicts"];
+    })
+  );
+}
+
+/**
+ * Trajectory prompts: one seeded step per criterion, marked as an issue when
+ * that criterion scored in the lower half of its range.
+ */
+function mockStepAnnotations(
+  stepCount: number,
+  seed: string,
+  keys: ScoreKey[],
+  scores: Record<string, number>
+): Record<string, unknown>[] {
+  return keys.map(({ key, max }) => {
+    const issue = max > 1 && (scores[key] - 1) / (max - 1) < 0.5;
+    return {
+      step: seededRange(`${seed}:${key}:step`, 1, stepCount),
+      criterion: key,
+      assessment: issue ? "issue" : "good",
+      note: `Mock judge ${issue ? "flagged" : "credited"} this step for "${key}".`,
+    };
+  });
+}
+
+/**
+ * Listwise prompts: each slot's aggregate is the mean of its own score keys
+ * (suffixed with its slot letter), and slots are ranked by aggregate.
+ */
+function mockListwiseRanking(
+  keys: ScoreKey[],
+  scores: Record<string, number>
+): Record<string, unknown> {
+  const slots = [...new Set(keys.map(({ key }) => key.slice(key.lastIndexOf("_") + 1)))];
+  const aggregates = Object.fromEntries(
+    slots.map((slot) => [
+      slot,
+      normalizedMean(
+        keys.filter(({ key }) => key.endsWith(`_${slot}`)),
+        scores
+      ),
+    ])
+  );
+  const ranking = Object.fromEntries(
+    slots.map((slot) => [
+      slot,
+      1 + slots.filter((other) => aggregates[other] > aggregates[slot]).length,
+    ])
+  );
+  return {
+    aggregate_scores: aggregates,
+    ranking,
+    ranking_reasoning: "Mock ranking by seeded aggregate score; equal aggregates tie.",
+  };
+}
+
+/**
+ * Builds the judge JSON of the given shape for a rendered prompt. The prompt
+ * only seeds the scores; the aggregate is an unweighted mean of the seeded
+ * criterion scores.
+ */
+export function buildMockJudgeOutput(
+  prompt: string,
+  shape: MockReplyShape
+): Record<string, unknown> {
+  const seed = hashString(normalizeUntrustedNonces(prompt));
+  const { keys } = shape;
+  const scores: Record<string, number> = {};
+  const criterionReasoning: Record<string, string> = {};
+  for (const { key, min, max, checklist } of keys) {
+    scores[key] = seededRange(`${seed}:${key}`, min, max);
+    criterionReasoning[`${key}_reasoning`] = checklist
+      ? `Mock judge marked this check ${scores[key] === max ? "passed" : "failed"} (seed ${seed}).`
+      : `Mock judge assigned ${scores[key]}/${max} (seed ${seed}).`;
+  }
+
+  const base = {
+    chain_of_thought: `- Offline mock judge\n- Scores seeded from prompt hash ${seed}`,
+    scores: Object.fromEntries(
+      keys.map(({ key, max, checklist }) => [key, checklist ? scores[key] === max : scores[key]])
+    ),
+    criterion_reasoning: criterionReasoning,
+    summary: "Deterministic mock evaluation. No model was called.",
+  };
+
+  if (shape.mode === "listwise") {
+    return { ...base, ...mockListwiseRanking(keys, scores) };
+  }
+
+  if (shape.mode === "single") {
+    return {
+      ...base,
+      ...(shape.referenceGuided && {
+        reference_agreement: mockReferenceAgreement(keys, scores),
+      }),
+      ...(shape.trajectorySteps > 0 && {
+        step_annotations: mockStepAnnotations(shape.trajectorySteps, seed, keys, scores),
+      }),
+      aggregate_score: normalizedMean(keys, scores),
+    };
+  }
+
+  const keysA = keys.filter(({ key }) => key.endsWith("_A"));
+  const keysB = keys.filter(({ key }) => key.endsWith("_B"));
+  const aggregateA = normalizedMean(keysA, scores);
+  const aggregateB = normalizedMean(keysB, scores);
+  const verdict: PairwiseVerdict =
+    aggregateA === aggregateB
+      ? seededVerdict(seed)
+      : aggregateA > aggregateB
+        ? "A"
+        : "B";
+
+  // On a graded scale the strength grows with the gap.
+  const scale = shape.preferenceScale;
+  const graded =
+    scale &&
+    preferenceLabel(
+      verdict === "tie"
+        ? 0
+        : (verdict === "A" ? 1 : -1) *
+            Math.min(preferenceRange(scale), 1 + Math.floor(Math.abs(aggregateA - aggregateB) / 15))
+    );
+
+  return {
+    ...base,
+    aggregate_score_A: aggregateA,
+    aggregate_score_B: aggregateB,
+    verdict: graded || verdict,
+    verdict_reasoning: `Mock verdict ${graded || verdict}: aggregate ${aggregateA} vs ${aggregateB}.`,
+  };
+}
+
+// ── AI SDK model ─────────────────────────────────────────────────────────────
+
+function promptText(options: MockCallOptions): string {
+  return options.prompt
+    .flatMap((message) =>
+      typeof message.content === "string"
+        ? [message.content]
+        : message.content.flatMap((part) =>
+            part.type === "text" ? [part.text] : []
+          )
+    )
+    .join("\n");
+}
+
+function mockResult(options: MockCallOptions) {
+  if (options.responseFormat?.type !== "json" || !options.responseFormat.schema) {
+    throw new Error("The mock judge only answers calls with a structured-output schema");
+  }
+  const prompt = promptText(options);
+  const text = JSON.stringify(
+    buildMockJudgeOutput(prompt, mockReplyShape(options.responseFormat.schema))
+  );
+  const inputTokens = estimateTextTokens(prompt);
+  const outputTokens = estimateTextTokens(text);
+  return {
+    text,
+    usage: {
+      inputTokens: {
+        total: inputTokens,
+        noCache: inputTokens,
+        cacheRead: undefined,
+        cacheWrite: undefined,
+      },
+      outputTokens: {
+        total: outputTokens,
+        text: outputTokens,
+        reasoning: undefined,
+      },
+    },
+  };
+}
+
+export function createMockJudgeModel(modelId: string): MockLanguageModel {
+  return {
+    specificationVersion: "v3",
+    provider: MOCK_PROVIDER_ID,
+    modelId,
+    supportedUrls: {},
+    async doGenerate(options) {
+      const { text, usage } = mockResult(options);
+      return {
+        content: [{ type: "text", text }],
+        finishReason: { unified: "stop", raw: "stop" },
+        usage,
+        warnings: [],
+      };
+    },
+    async doStream(options) {
+      const { text, usage } = mockResult(options);
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            controller.enqueue({ type: "stream-start", warnings: [] });
+            controller.enqueue({ type: "text-start", id: "0" });
+            // Small chunks so streaming UIs render progressively offline too.
+            for (let i = 0; i < text.length; i += MOCK_STREAM_CHUNK_CHARS) {
+              controller.enqueue({
+                type: "text-delta",
+                id: "0",
+                delta: text.slice(i, i + MOCK_STREAM_CHUNK_CHARS),
+              });
+            }
+            controller.enqueue({ type: "text-end", id: "0" });
+            controller.enqueue({
+              type: "finish",
+              finishReason: { unified: "stop", raw: "stop" },
+              usage,
+            });
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
@@ -1,4 +1,5 @@
-import type { ModelSpec, Provider } from "./types";
+import type { BuiltInProvider, ModelSpec, Provider, ProviderSpec } from "./types";
+import { findProviderForModel } from "./providers";
 
 export const MODELS: ModelSpec[] = [
   // OpenAI
@@ -8,6 +9,10 @@ export const MODELS: ModelSpec[] = [
     provider: "openai",
     inputCostPer1M: 2.5,
     outputCostPer1M: 10.0,
+    priceHistory: [
+      { version: "2024-05-13", effectiveFrom: "2024-05-13", inputCostPer1M: 5.0, outputCostPer1M: 15.0 },
+      { version: "2024-10-02", effectiveFrom: "2024-10-02", inputCostPer1M: 2.5, outputCostPer1M: 10.0 },
+    ],
   },
   {
     id: "gpt-4o-mini",
@@ -37,6 +42,10 @@ export const MODELS: ModelSpec[] = [
     provider: "anthropic",
     inputCostPer1M: 0.8,
     outputCostPer1M: 4.0,
+    priceHistory: [
+      { version: "2024-11-04", effectiveFrom: "2024-11-04", inputCostPer1M: 1.0, outputCostPer1M: 5.0 },
+      { version: "2024-12-10", effectiveFrom: "2024-12-10", inputCostPer1M: 0.8, outputCostPer1M: 4.0 },
+    ],
   },
   {
     id: "claude-3-opus-20240229",
@@ -52,6 +61,10 @@ export const MODELS: ModelSpec[] = [
     provider: "google",
     inputCostPer1M: 1.25,
     outputCostPer1M: 5.0,
+    priceHistory: [
+      { version: "2024-05-14", effectiveFrom: "2024-05-14", inputCostPer1M: 3.5, outputCostPer1M: 10.5 },
+      { version: "2024-10-01", effectiveFrom: "2024-10-01", inputCostPer1M: 1.25, outputCostPer1M: 5.0 },
+    ],
   },
   {
     id: "gemini-1.5-flash",
@@ -59,6 +72,10 @@ export const MODELS: ModelSpec[] = [
     provider: "google",
     inputCostPer1M: 0.075,
     outputCostPer1M: 0.3,
+    priceHistory: [
+      { version: "2024-05-14", effectiveFrom: "2024-05-14", inputCostPer1M: 0.35, outputCostPer1M: 1.05 },
+      { version: "2024-08-12", effectiveFrom: "2024-08-12", inputCostPer1M: 0.075, outputCostPer1M: 0.3 },
+    ],
   },
   {
     id: "gemini-2.0-flash",
@@ -67,21 +84,79 @@ export const MODELS: ModelSpec[] = [
     inputCostPer1M: 0.1,
     outputCostPer1M: 0.4,
   },
+  // Mock
+  {
+    id: "mock-judge",
+    name: "Mock Judge (offline)",
+    provider: "mock",
+    inputCostPer1M: 0,
+    outputCostPer1M: 0,
+  },
 ];
 
-export const MODELS_BY_PROVIDER: Record<Provider, ModelSpec[]> = {
+export const MODELS_BY_PROVIDER: Record<BuiltInProvider, ModelSpec[]> = {
   openai: MODELS.filter((m) => m.provider === "openai"),
   anthropic: MODELS.filter((m) => m.provider === "anthropic"),
   google: MODELS.filter((m) => m.provider === "google"),
+  mock: MODELS.filter((m) => m.provider === "mock"),
 };
 
-export function getModelById(id: string): ModelSpec | undefined {
-  return MODELS.find((m) => m.id === id);
+/** User-defined catalog entries layered on top of the built-in models. */
+export interface ModelCatalog {
+  customModels?: ModelSpec[];
+  customProviders?: ProviderSpec[];
+}
+
+/**
+ * All models known to the catalog: custom entries first (they override
+ * built-ins with the same id), then built-ins, then models declared by
+ * custom providers.
+ */
+export function listModels(catalog: ModelCatalog = {}): ModelSpec[] {
+  const byId = new Map<string, ModelSpec>();
+  for (const model of catalog.customModels ?? []) byId.set(model.id, model);
+  for (const model of MODELS) {
+    if (!byId.has(model.id)) byId.set(model.id, model);
+  }
+  for (const provider of catalog.customProviders ?? []) {
+    for (const model of provider.models ?? []) {
+      if (!byId.has(model.id)) byId.set(model.id, model);
+    }
+  }
+  return [...byId.values()];
 }
 
-export function resolveProvider(modelId: string): Provider {
+export function getModelById(
+  id: string,
+  catalog: ModelCatalog = {}
+): ModelSpec | undefined {
+  return (
+    catalog.customModels?.find((m) => m.id === id) ??
+    MODELS.find((m) => m.id === id) ??
+    findProviderForModel(id, catalog.customProviders)?.model
+  );
+}
+
+export function resolveProvider(
+  modelId: string,
+  catalog: ModelCatalog = {}
+): Provider {
+  const known = getModelById(modelId, catalog);
+  if (known) return known.provider;
   if (modelId.startsWith("gpt-")) return "openai";
   if (modelId.startsWith("claude-")) return "anthropic";
   if (modelId.startsWith("gemini-")) return "google";
   throw new Error(`Unknown provider for model: ${modelId}`);
 }
+
+/** Accepts a `ModelSpec` (current prices) or a `ModelPricing` version. */
+export function estimateCostUsd(
+  model: Pick<ModelSpec, "inputCostPer1M" | "outputCostPer1M">,
+  inputTokens: number,
+  outputTokens: number
+): number {
+  return (
+    (inputTokens / 1_000_000) * model.inputCostPer1M +
+    (outputTokens / 1_000_000) * model.outputCostPer1M
+  );
+}
@@ -0,0 +1,196 @@
+import { generateJudgeJson, type JudgePartialHandler } from "./judge-cache";
+import type { JudgeTarget } from "./judge-models";
+import { buildPairwiseJudgeSchema } from "./judge-schema";
+import { validatePairwiseJudgeOutput } from "./judge-validation";
+import {
+  buildCriterionScore,
+  normalizePreference,
+  normalizeText,
+  normalizeVerdict,
+  resolveAggregateScore,
+} from "./judge-output";
+import { averageCriterionScores, verdictFromAggregates } from "./position-bias";
+import { alignPreference, verdictFromPreference } from "./preference";
+import { buildPairwisePrompt } from "./prompts";
+import type {
+  CriterionScore,
+  JudgePromptTemplateVersion,
+  JudgeSampling,
+  PairwiseEvalInput,
+  PairwiseVerdict,
+  PositionBiasPolicy,
+  Rubric,
+} from "./types";
+
+// Server-only: one pairwise judge pass in a given order, mapped back to the
+// canonical A/B, and the position-bias policy applied to two such passes.
+
+function extractPairwiseScores(
+  parsed: Record<string, unknown>,
+  rubric: Rubric,
+  side: "A" | "B"
+): CriterionScore[] {
+  return rubric.criteria.map((c) =>
+    buildCriterionScore(
+      c,
+      (parsed.scores as Record<string, unknown>)?.[`${c.id}_${side}`],
+      (parsed.criterion_reasoning as Record<string, unknown>)?.[`${c.id}_${side}_reasoning`]
+    )
+  );
+}
+
+export async function runPairwiseEval(
+  input: PairwiseEvalInput,
+  rubric: Rubric,
+  judge: JudgeTarget,
+  order: "AB" | "BA",
+  bypassCache: boolean | undefined,
+  promptTemplate: JudgePromptTemplateVersion,
+  draw?: { sampling: JudgeSampling; sample: number },
+  onPartial?: JudgePartialHandler
+) {
+  const judgePrompt = buildPairwisePrompt(input, rubric, order, promptTemplate);
+
+  const call = await generateJudgeJson({
+    judge,
+    prompt: judgePrompt,
+    schema: buildPairwiseJudgeSchema(rubric, input.preferenceScale),
+    bypassCache,
+    onPartial,
+    ...(draw && { temperature: draw.sampling.temperature, sample: draw.sample }),
+  });
+
+  const parsed = call.parsed;
+
+  // When order is BA, swap A/B labels back to canonical A/B
+  const [shownA, shownB] = order === "AB" ? (["A", "B"] as const) : (["B", "A"] as const);
+  const scoresA = extractPairwiseScores(parsed, rubric, shownA);
+  const scoresB = extractPairwiseScores(parsed, rubric, shownB);
+
+  // A graded verdict's margin is read on the pass's scale, then flipped for BA.
+  const shownPreference = input.preferenceScale
+    ? normalizePreference(parsed.verdict, input.preferenceScale)
+    : undefined;
+  const preference =
+    shownPreference === undefined ? undefined : order === "AB" ? shownPreference : -shownPreference;
+  const rawVerdict = normalizeVerdict(parsed.verdict);
+  const verdict: PairwiseVerdict =
+    preference !== undefined
+      ? verdictFromPreference(preference)
+      : order === "AB"
+        ? rawVerdict
+        : rawVerdict === "A"
+          ? "B"
+          : rawVerdict === "B"
+            ? "A"
+            : "tie";
+
+  return {
+    chainOfThought: normalizeText(parsed.chain_of_thought),
+    summary: normalizeText(parsed.summary),
+    scoresA,
+    scoresB,
+    aggregateA: resolveAggregateScore(parsed[`aggregate_score_${shownA}`], scoresA, rubric),
+    aggregateB: resolveAggregateScore(parsed[`aggregate_score_${shownB}`], scoresB, rubric),
+    verdict,
+    preference,
+    verdictReasoning: normalizeText(parsed.verdict_reasoning),
+    validation: validatePairwiseJudgeOutput(
+      parsed,
+      rubric,
+      order === "BA" ? "reversed" : undefined,
+      input.preferenceScale
+    ),
+    call,
+  };
+}
+
+export type PairwiseDraw = Awaited<ReturnType<typeof runPairwiseEval>>;
+
+export interface PositionBiasResolution {
+  scoresA: CriterionScore[];
+  scoresB: CriterionScore[];
+  aggregateA: number;
+  aggregateB: number;
+  verdict: PairwiseVerdict;
+  preference?: number;
+  verdictReasoning: string;
+  positionBiasDetected: boolean;
+  primaryVerdict?: PairwiseVerdict; // set when a policy resolved a flip
+  tiebreak?: PairwiseDraw;
+}
+
+/**
+ * Applies `policy` to the two orders' results. `runTiebreak` is only
+ * called for the "tiebreak" policy, and only when the verdict flipped.
+ */
+export async function resolvePositionBias(
+  policy: PositionBiasPolicy,
+  primary: PairwiseDraw,
+  reversed: PairwiseDraw,
+  rubric: Rubric,
+  runTiebreak: () => Promise<PairwiseDraw>
+): Promise<PositionBiasResolution> {
+  const positionBiasDetected = primary.verdict !== reversed.verdict;
+  const keep = (draw: PairwiseDraw) => ({
+    scoresA: draw.scoresA,
+    scoresB: draw.scoresB,
+    aggregateA: draw.aggregateA,
+    aggregateB: draw.aggregateB,
+    verdict: draw.verdict,
+    preference: draw.preference,
+    verdictReasoning: draw.verdictReasoning,
+  });
+
+  if (!positionBiasDetected || policy === "keep_first") {
+    return { ...keep(primary), positionBiasDetected };
+  }
+  const resolved = { positionBiasDetected, primaryVerdict: primary.verdict };
+
+  if (policy === "tie") {
+    return {
+      ...keep(primary),
+      ...resolved,
+      verdict: "tie",
+      preference: primary.preference === undefined ? undefined : 0,
+    };
+  }
+
+  if (policy === "average") {
+    const scoresA = averageCriterionScores(primary.scoresA, reversed.scoresA);
+    const scoresB = averageCriterionScores(primary.scoresB, reversed.scoresB);
+    const aggregateA = resolveAggregateScore(undefined, scoresA, rubric);
+    const aggregateB = resolveAggregateScore(undefined, scoresB, rubric);
+    const verdict = verdictFromAggregates(aggregateA, aggregateB);
+    // Both margins averaged, kept on the side the aggregates chose.
+    const preference =
+      primary.preference === undefined || reversed.preference === undefined
+        ? undefined
+        : alignPreference(
+            Math.trunc((primary.preference + reversed.preference) / 2),
+            verdict
+          );
+    return {
+      ...keep(primary),
+      ...resolved,
+      scoresA,
+      scoresB,
+      aggregateA,
+      aggregateB,
+      verdict,
+      preference,
+    };
+  }
+
+  // The tie-break decides; scores come from whichever order it sided with.
+  const tiebreak = await runTiebreak();
+  const sided = tiebreak.verdict === reversed.verdict ? reversed : primary;
+  return {
+    ...keep(sided),
+    ...resolved,
+    verdict: tiebreak.verdict,
+    preference: tiebreak.preference,
+    verdictReasoning: tiebreak.verdictReasoning,
+    tiebreak,
+  };
+}
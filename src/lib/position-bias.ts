@@ -0,0 +1,84 @@
+import { hashString } from "./rubric-versioning";
+import type {
+  CriterionScore,
+  PairwiseEvalInput,
+  PairwiseVerdict,
+  PositionBiasPolicy,
+} from "./types";
+
+// Position-bias resolution: when both orders are judged and the verdict
+// flips with the order, the policy decides what is reported. Consistent
+// pairs always keep the first order's result.
+
+export const POSITION_BIAS_POLICIES: readonly PositionBiasPolicy[] = [
+  "keep_first",
+  "tie",
+  "average",
+  "tiebreak",
+];
+
+export const DEFAULT_POSITION_BIAS_POLICY: PositionBiasPolicy = "keep_first";
+
+export const POSITION_BIAS_POLICY_LABELS: Record<PositionBiasPolicy, string> = {
+  keep_first: "Keep first order",
+  tie: "Downgrade to tie",
+  average: "Average both orders",
+  tiebreak: "Tie-break call",
+};
+
+export const POSITION_BIAS_POLICY_DESCRIPTIONS: Record<PositionBiasPolicy, string> = {
+  keep_first: "Report the A-then-B verdict and only flag the flip",
+  tie: "Report inconsistent verdicts as a tie",
+  average: "Average each criterion across both orders and compare the aggregates",
+  tiebreak: "Ask the judge a third time, in a coin-flip order, and report that verdict",
+};
+
+/**
+ * Judge calls per pair. The tie-break call is budgeted for every pair,
+ * though only inconsistent ones make it.
+ */
+export function positionBiasJudgeCalls(
+  detectPositionBias: boolean | undefined,
+  policy: PositionBiasPolicy | undefined
+): number {
+  if (!detectPositionBias) return 1;
+  return policy === "tiebreak" ? 3 : 2;
+}
+
+/**
+ * The order of the tie-break call: a coin flip seeded by the pair. A fixed
+ * order would only repeat one of the two passes it settles; the seed keeps
+ * reruns of the same pair on the same order.
+ */
+export function tiebreakOrder(
+  input: Pick<PairwiseEvalInput, "prompt" | "responseA" | "responseB">
+): "AB" | "BA" {
+  const flip = Number.parseInt(
+    hashString(`${input.prompt}\n${input.responseA}\n${input.responseB}`),
+    16
+  );
+  return flip % 2 === 0 ? "AB" : "BA";
+}
+
+/**
+ * Criterion scores averaged between the two orders. A checklist item
+ * passes only if it passed both times, and its score stays 1 or 0 to match.
+ */
+export function averageCriterionScores(
+  first: CriterionScore[],
+  second: CriterionScore[]
+): CriterionScore[] {
+  return first.map((score, i) => {
+    const other = second[i];
+    if (score.passed !== undefined) {
+      const passed = score.passed && !!other.passed;
+      return { ...score, score: passed ? 1 : 0, passed };
+    }
+    return { ...score, score: Math.round(((score.score + other.score) / 2) * 10) / 10 };
+  });
+}
+
+/** The higher aggregate wins; equal aggregates tie. */
+export function verdictFromAggregates(aggregateA: number, aggregateB: number): PairwiseVerdict {
+  return aggregateA > aggregateB ? "A" : aggregateB > aggregateA ? "B" : "tie";
+}
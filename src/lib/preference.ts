@@ -0,0 +1,82 @@
+import type { PairwiseVerdict, PreferenceScale } from "./types";
+
+// Graded pairwise preferences: instead of A / B / tie the judge picks a point
+// on a 5- or 7-point scale such as A>>B … A≈B … B>>A. A preference is stored
+// as a signed margin, positive for A: -2…2 on the 5-point scale, -3…3 on the
+// 7-point one. Its sign is the plain verdict.
+
+export const PREFERENCE_SCALES: readonly PreferenceScale[] = [5, 7];
+
+export const PREFERENCE_SCALE_LABELS: Record<PreferenceScale, string> = {
+  5: "5-point (A>>B … B>>A)",
+  7: "7-point (A>>>B … B>>>A)",
+};
+
+/** The largest margin on the scale. */
+export function preferenceRange(scale: PreferenceScale): number {
+  return (scale - 1) / 2;
+}
+
+/** "A>>B" for 2, "A≈B" for 0, "B>A" for -1. */
+export function preferenceLabel(margin: number): string {
+  if (margin > 0) return `A${">".repeat(margin)}B`;
+  if (margin < 0) return `B${">".repeat(-margin)}A`;
+  return "A≈B";
+}
+
+/** Every point on the scale, strongest preference for A first. */
+export function preferenceLabels(scale: PreferenceScale): string[] {
+  const range = preferenceRange(scale);
+  return Array.from({ length: scale }, (_, i) => preferenceLabel(range - i));
+}
+
+const STRENGTH_WORDS: Record<PreferenceScale, string[]> = {
+  5: ["", "better", "much better"],
+  7: ["", "slightly better", "better", "much better"],
+};
+
+/** How much better the preferred response is: "slightly better" … "much better". */
+export function preferenceStrength(margin: number, scale: PreferenceScale): string {
+  if (margin === 0) return "equivalent";
+  return STRENGTH_WORDS[scale][Math.min(Math.abs(margin), preferenceRange(scale))];
+}
+
+const GRADED = /^([ab])\s*(>+|<+|≈|~|=)\s*([ab])$/;
+
+/**
+ * Reads a judge or human preference: a graded label ("A>>B", "B>A", "A≈B",
+ * also "A=B" or "A<B"), a plain "A" / "B" / "tie" (one step either way), or
+ * an integer margin. Margins past the scale are clamped; anything else is
+ * `undefined`.
+ */
+export function parsePreference(raw: unknown, scale: PreferenceScale): number | undefined {
+  const range = preferenceRange(scale);
+  const clamp = (margin: number) => Math.max(-range, Math.min(range, margin));
+  if (typeof raw === "number") return Number.isInteger(raw) ? clamp(raw) : undefined;
+
+  const text = String(raw ?? "").trim().toLowerCase();
+  if (text === "a") return 1;
+  if (text === "b") return -1;
+  if (text === "tie") return 0;
+  const match = GRADED.exec(text);
+  if (!match || match[1] === match[3]) return undefined;
+  const [, left, relation] = match;
+  if (relation === "≈" || relation === "~" || relation === "=") return 0;
+  // "A>B" and "B<A" both favour A.
+  const favoursLeft = relation.startsWith(">");
+  const favoursA = (left === "a") === favoursLeft;
+  return clamp(favoursA ? relation.length : -relation.length);
+}
+
+export function verdictFromPreference(margin: number): PairwiseVerdict {
+  return margin > 0 ? "A" : margin < 0 ? "B" : "tie";
+}
+
+/**
+ * A margin that agrees with `verdict`: unchanged when its sign already
+ * matches, otherwise the weakest preference for the verdict's side.
+ */
+export function alignPreference(margin: number, verdict: PairwiseVerdict): number {
+  if (verdictFromPreference(margin) === verdict) return margin;
+  return verdict === "A" ? 1 : verdict === "B" ? -1 : 0;
+}
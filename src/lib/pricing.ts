@@ -0,0 +1,129 @@
+import { estimateCostUsd, getModelById, type ModelCatalog } from "./models";
+import type { CostBasis, ExperimentRun, ModelPricing, ModelSpec } from "./types";
+
+// ── Price history ────────────────────────────────────────────────────────────
+
+/** Version label for models that carry no explicit price history. */
+export const BASE_PRICING_VERSION = "base";
+
+export function getPriceHistory(model: ModelSpec): ModelPricing[] {
+  if (model.priceHistory && model.priceHistory.length > 0) {
+    return [...model.priceHistory].sort((a, b) =>
+      a.effectiveFrom.localeCompare(b.effectiveFrom)
+    );
+  }
+  return [
+    {
+      version: BASE_PRICING_VERSION,
+      effectiveFrom: "1970-01-01",
+      inputCostPer1M: model.inputCostPer1M,
+      outputCostPer1M: model.outputCostPer1M,
+    },
+  ];
+}
+
+/**
+ * Pricing in effect at `at`. Dates before the first entry fall back to the
+ * earliest known price.
+ */
+export function getPricingAt(
+  model: ModelSpec,
+  at: Date | string = new Date()
+): ModelPricing {
+  const when = typeof at === "string" ? at : at.toISOString();
+  const history = getPriceHistory(model);
+  let current = history[0];
+  for (const entry of history) {
+    if (entry.effectiveFrom <= when) current = entry;
+  }
+  return current;
+}
+
+export function findPricingVersion(
+  model: ModelSpec,
+  version: string
+): ModelPricing | undefined {
+  return getPriceHistory(model).find((entry) => entry.version === version);
+}
+
+/**
+ * Returns `next` with its price history carried over from `previous`,
+ * appending a new entry when the prices changed.
+ */
+export function withPriceChange(
+  next: ModelSpec,
+  previous: ModelSpec | undefined,
+  effectiveFrom = new Date().toISOString()
+): ModelSpec {
+  if (!previous) return next;
+  const history = getPriceHistory(previous);
+  const latest = history[history.length - 1];
+  const unchanged =
+    latest.inputCostPer1M === next.inputCostPer1M &&
+    latest.outputCostPer1M === next.outputCostPer1M;
+  return {
+    ...next,
+    priceHistory: unchanged
+      ? history
+      : [
+          ...history,
+          {
+            version: effectiveFrom,
+            effectiveFrom,
+            inputCostPer1M: next.inputCostPer1M,
+            outputCostPer1M: next.outputCostPer1M,
+          },
+        ],
+  };
+}
+
+// ── Reference costs ──────────────────────────────────────────────────────────
+
+/** Judge models of a run with their normalized ensemble weights. */
+function runJudgeWeights(run: ExperimentRun): Array<{ modelId: string; weight: number }> {
+  const ensemble =
+    run.config.ensemble && run.config.ensemble.length > 0
+      ? run.config.ensemble
+      : [{ modelId: run.config.judgeModelId, weight: 1 }];
+  const totalWeight = ensemble.reduce((sum, entry) => sum + entry.weight, 0);
+  return ensemble.map((entry) => ({
+    modelId: entry.modelId,
+    weight: totalWeight > 0 ? entry.weight / totalWeight : 0,
+  }));
+}
+
+/**
+ * Recomputes a run's cost from its billed token totals at the pricing in
+ * effect on `at`, so runs priced under different versions compare
+ * like-for-like. Cache hits were billed at zero and stay out of it.
+ * Returns undefined when a judge model is missing from the catalog.
+ */
+export function runCostAtReference(
+  run: ExperimentRun,
+  catalog: ModelCatalog = {},
+  at: Date | string = new Date()
+): number | undefined {
+  let cost = 0;
+  for (const { modelId, weight } of runJudgeWeights(run)) {
+    const model = getModelById(modelId, catalog);
+    if (!model) return undefined;
+    cost +=
+      estimateCostUsd(
+        getPricingAt(model, at),
+        run.metrics.billedInputTokens ?? run.metrics.inputTokens,
+        run.metrics.billedOutputTokens ?? run.metrics.outputTokens
+      ) * weight;
+  }
+  return cost;
+}
+
+/** The run's cost on the chosen basis, falling back to the recorded cost. */
+export function runCostUsd(
+  run: ExperimentRun,
+  basis: CostBasis,
+  catalog: ModelCatalog = {},
+  at: Date | string = new Date()
+): number {
+  if (basis === "recorded") return run.metrics.estimatedCostUsd;
+  return runCostAtReference(run, catalog, at) ?? run.metrics.estimatedCostUsd;
+}
@@ -1,23 +1,91 @@
-import type { Rubric, SingleEvalInput, PairwiseEvalInput } from "./types";
+import { formatTranscript, splitFinalAssistantTurn } from "./conversation";
+import { formatToolList, formatTrajectory, stepLevelCriteria } from "./trajectory";
+import { createUntrustedNonce, formatUntrustedNote, wrapUntrusted } from "./prompt-injection";
+import { candidateLabel, listwiseSlotLetter } from "./listwise";
+import { preferenceLabel, preferenceLabels } from "./preference";
+import { criterionScoreBounds } from "./utils";
+import {
+  DEFAULT_JUDGE_PROMPT_VERSION,
+  renderJudgePrompt,
+} from "./judge-prompt-templates";
+import type {
+  AgentTrajectory,
+  JudgePromptTemplateVersion,
+  ListwiseEvalInput,
+  PreferenceScale,
+  Rubric,
+  RubricCriterion,
+  SingleEvalInput,
+  PairwiseEvalInput,
+} from "./types";
 
 // ── Shared utilities ──────────────────────────────────────────────────────────
 
+/** Level descriptions, lowest score first, e.g. "   - 3: minor factual error". */
+function formatAnchors(criterion: RubricCriterion): string {
+  if (criterion.type === "checklist" || !criterion.anchors?.length) return "";
+  const lines = [...criterion.anchors]
+    .sort((a, b) => a.score - b.score)
+    .map((a) => `   - ${a.score}: ${a.description.trim()}`);
+  return `\n   Score levels:\n${lines.join("\n")}`;
+}
+
 function formatCriteriaBlock(rubric: Rubric): string {
   return rubric.criteria
-    .map(
-      (c, i) =>
-        `${i + 1}. **${c.name}** (weight: ${(c.weight * 100).toFixed(0)}%, score range: 1–${c.scoreRange})\n   ${c.description}`
-    )
+    .map((c, i) => {
+      const { min, max } = criterionScoreBounds(c);
+      const scale = c.type === "checklist" ? "pass/fail check" : `score range: ${min}–${max}`;
+      return `${i + 1}. **${c.name}** (weight: ${(c.weight * 100).toFixed(0)}%, ${scale})\n   ${c.description}${formatAnchors(c)}`;
+    })
     .join("\n");
 }
 
-function formatSingleOutputSchema(rubric: Rubric): string {
+/** The value placeholder for one criterion in an output schema. */
+function formatScoreValue(criterion: RubricCriterion): string {
+  return criterion.type === "checklist"
+    ? "<true if the check passes, false if it fails>"
+    : `<integer between ${criterion.scoreMin ?? 1} and ${criterion.scoreRange}>`;
+}
+
+function formatChecklistNote(rubric: Rubric): string {
+  if (!rubric.criteria.some((c) => c.type === "checklist")) return "";
+  const gate =
+    rubric.checklistPolicy === "all_must_pass"
+      ? "\n- Every check must pass: if any pass/fail check fails, the aggregate score is 0."
+      : "";
+  return `
+
+### Pass/Fail Checks
+- Answer each pass/fail check with true or false. A check passes only if the response fully meets it; there is no partial credit.
+- In the aggregate score, a passed check counts as 100 and a failed check as 0, weighted like any other criterion.${gate}`;
+}
+
+function formatSingleOutputSchema(
+  rubric: Rubric,
+  referenceGuided: boolean,
+  trajectory: boolean
+): string {
   const scoreKeys = rubric.criteria
-    .map((c) => `    "${c.id}": <integer between 1 and ${c.scoreRange}>`)
+    .map((c) => `    "${c.id}": ${formatScoreValue(c)}`)
     .join(",\n");
   const reasoningKeys = rubric.criteria
     .map((c) => `    "${c.id}_reasoning": "<2-3 sentence explanation for this score>"`)
     .join(",\n");
+  const agreementKeys = rubric.criteria
+    .map((c) => `    "${c.id}": "<exactly one of: 'agrees', 'partial', 'contradicts'>"`)
+    .join(",\n");
+  const agreement = referenceGuided
+    ? `
+  "reference_agreement": {
+${agreementKeys}
+  },`
+    : "";
+  const stepAnnotations = trajectory
+    ? `
+  "step_annotations": [
+    { "step": <step index>, "criterion": "<criterion id>", "assessment": "<exactly one of: 'good', 'issue'>", "note": "<one sentence on what this step did right or wrong>" }
+  ],`
+    : "";
 
   return `{
   "chain_of_thought": "<Concise scoring rationale (3-6 short bullet points). Do not output long hidden deliberation.>",
@@ -26,18 +94,25 @@ ${scoreKeys}
   },
   "criterion_reasoning": {
 ${reasoningKeys}
-  },
+  },${agreement}${stepAnnotations}
   "aggregate_score": <float between 0.0 and 100.0, weighted average normalized to 0-100>,
   "summary": "<2-3 sentence overall assessment of the response quality>"
 }`;
 }
 
-function formatPairwiseOutputSchema(rubric: Rubric): string {
+// Templates instruct an A / B / tie verdict; a graded scale overrides that
+// from the output schema, so template text and fingerprints stay unchanged.
+function formatPreferenceScaleNote(scale: PreferenceScale): string {
+  const labels = preferenceLabels(scale);
+  return `This comparison uses a ${scale}-point preference scale instead of "A", "B" or "tie". The verdict must be exactly one of ${labels.map((l) => `"${l}"`).join(", ")}. More ">" marks a stronger preference, from "${preferenceLabel(1)}" (${scale === 7 ? "slightly" : "somewhat"} better) to "${labels[0]}" (clearly and substantially better). Reserve "A≈B" for responses that are genuinely equivalent in quality.`;
+}
+
+function formatPairwiseOutputSchema(rubric: Rubric, scale?: PreferenceScale): string {
   const scoreKeysA = rubric.criteria
-    .map((c) => `    "${c.id}_A": <integer between 1 and ${c.scoreRange}>`)
+    .map((c) => `    "${c.id}_A": ${formatScoreValue(c)}`)
     .join(",\n");
   const scoreKeysB = rubric.criteria
-    .map((c) => `    "${c.id}_B": <integer between 1 and ${c.scoreRange}>`)
+    .map((c) => `    "${c.id}_B": ${formatScoreValue(c)}`)
     .join(",\n");
   const reasoningKeysA = rubric.criteria
     .map((c) => `    "${c.id}_A_reasoning": "<explanation>"`)
@@ -46,7 +121,13 @@ function formatPairwiseOutputSchema(rubric: Rubric): string {
     .map((c) => `    "${c.id}_B_reasoning": "<explanation>"`)
     .join(",\n");
 
-  return `{
+  const verdictField = scale
+    ? `"verdict": "<exactly one of: ${preferenceLabels(scale).map((l) => `'${l}'`).join(", ")}>",
+  "verdict_reasoning": "<2-3 sentences explaining your verdict — which response better served the user's need, why, and why the preference is as strong as graded. If 'A≈B', explain why both are genuinely equivalent.>"`
+    : `"verdict": "<exactly one of: 'A', 'B', or 'tie'>",
+  "verdict_reasoning": "<2-3 sentences explaining your verdict — which response better served the user's need and why. If 'tie', explain why both are genuinely equivalent.>"`;
+
+  const schema = `{
   "chain_of_thought": "<Concise comparison rationale (3-6 short bullet points) covering A, B, and final tradeoff.>",
   "scores": {
 ${scoreKeysA},
@@ -59,45 +140,228 @@ ${reasoningKeysB}
   "summary": "<2-3 sentence overall comparison summary>",
   "aggregate_score_A": <float between 0.0 and 100.0>,
   "aggregate_score_B": <float between 0.0 and 100.0>,
-  "verdict": "<exactly one of: 'A', 'B', or 'tie'>",
-  "verdict_reasoning": "<2-3 sentences explaining your verdict — which response better served the user's need and why. If 'tie', explain why both are genuinely equivalent.>"
+  ${verdictField}
 }`;
+  return scale ? `${formatPreferenceScaleNote(scale)}\n\n${schema}` : schema;
 }
 
-// ── Single evaluation prompt ──────────────────────────────────────────────────
+function formatListwiseOutputSchema(rubric: Rubric, slots: string[]): string {
+  const scoreKeys = slots
+    .flatMap((slot) => rubric.criteria.map((c) => `    "${c.id}_${slot}": ${formatScoreValue(c)}`))
+    .join(",\n");
+  const reasoningKeys = slots
+    .flatMap((slot) =>
+      rubric.criteria.map((c) => `    "${c.id}_${slot}_reasoning": "<1-2 sentence explanation>"`)
+    )
+    .join(",\n");
+  const aggregateKeys = slots
+    .map((slot) => `    "${slot}": <float between 0.0 and 100.0>`)
+    .join(",\n");
+  const rankKeys = slots
+    .map((slot) => `    "${slot}": <rank from 1 (best) to ${slots.length}; equal responses share a rank>`)
+    .join(",\n");
 
-export function buildSinglePrompt(
-  input: SingleEvalInput,
-  rubric: Rubric
-): string {
-  const contextBlock = input.context
-    ? `\n## Reference Context / System Prompt\n${input.context}\n`
-    : "";
+  return `{
+  "chain_of_thought": "<Concise comparison rationale (3-6 short bullet points) covering the strongest and weakest responses.>",
+  "scores": {
+${scoreKeys}
+  },
+  "criterion_reasoning": {
+${reasoningKeys}
+  },
+  "aggregate_scores": {
+${aggregateKeys}
+  },
+  "ranking": {
+${rankKeys}
+  },
+  "ranking_reasoning": "<2-3 sentences explaining the order, including any ties>",
+  "summary": "<2-3 sentence overall comparison summary>"
+}`;
+}
 
-  return `You are an expert LLM response evaluator. Your job is to score the given response against a structured rubric.
+function formatExemplarsBlock(rubric: Rubric): string {
+  const exemplars = rubric.exemplars ?? [];
+  if (exemplars.length === 0) return "";
 
-## Critical Instructions
-- Analyze carefully, but output only concise rationale in "chain_of_thought" (3-6 bullets) before scores.
-- Response LENGTH is NOT a proxy for quality. A concise, accurate answer can and should outscore a verbose, padded one.
-- Score each criterion INDEPENDENTLY based on its specific definition.
-- Use the FULL score range — do not cluster scores near the middle. A 1 means genuinely poor; the max score means genuinely excellent.
-- Be calibrated: the same quality of response should receive the same score.
-- Output ONLY valid JSON matching the exact schema below. No markdown code fences, no extra text before or after the JSON.
-${contextBlock}
-## Prompt Given to the LLM
-${input.prompt}
+  const examples = exemplars
+    .map((e, i) => {
+      const scores = rubric.criteria
+        .filter((c) => e.scores[c.id] !== undefined)
+        .map((c) => {
+          if (c.type === "checklist") return `- ${c.name}: ${e.scores[c.id] ? "pass" : "fail"}`;
+          const { min, max } = criterionScoreBounds(c);
+          return `- ${c.name}: ${e.scores[c.id]} (range ${min}–${max})`;
+        })
+        .join("\n");
+      const rationale = e.rationale.trim() ? `\n\n**Expert rationale:** ${e.rationale.trim()}` : "";
+      return `#### Example ${i + 1}
+**Prompt:**
+${e.prompt}
+
+**Response:**
+${e.response}
 
-## LLM Response to Evaluate
-${input.response}
+**Expert scores:**
+${scores}${rationale}`;
+    })
+    .join("\n\n");
 
-## Rubric: ${rubric.name}
+  return `
+
+### Calibration Examples
+The responses below were scored by experts against this rubric. Anchor every score you give to these examples: a response of similar quality should receive a similar score, and scores should spread across the full range rather than settle near the middle.
+
+${examples}`;
+}
+
+function formatRubricBlock(rubric: Rubric): string {
+  return `## Rubric: ${rubric.name}
 ${rubric.description}
 
 ### Criteria
-${formatCriteriaBlock(rubric)}
+${formatCriteriaBlock(rubric)}${formatChecklistNote(rubric)}${formatExemplarsBlock(rubric)}`;
+}
 
-## Output Schema (output this JSON and nothing else)
-${formatSingleOutputSchema(rubric)}`;
+function formatReferenceBlock(referenceAnswer: string | undefined, nonce: string): string {
+  if (!referenceAnswer) return "";
+  return `
+
+## Reference Answer
+${wrapUntrusted("reference_answer", referenceAnswer, nonce)}
+
+### Grading Against the Reference
+- The reference answer is known to be correct. Treat it as ground truth for facts, results and conclusions.
+- Do not reward content that contradicts the reference, however fluent or detailed.
+- The response may be worded or structured differently and still agree with the reference; judge substance, not phrasing.
+- For each criterion, record in "reference_agreement" whether the response agrees with, partially matches, or contradicts the reference.`;
+}
+
+function formatContextBlock(context: string | undefined, nonce: string): string {
+  return context
+    ? `\n## Reference Context / System Prompt\n${wrapUntrusted("context", context, nonce)}\n`
+    : "";
+}
+
+type UntrustedSection = [label: string, content: string | undefined];
+
+/**
+ * A nonce for one prompt's fenced sections, and the labels of those present
+ * for its untrusted-content note.
+ */
+function fenceSections(sections: UntrustedSection[]): { nonce: string; labels: string[] } {
+  const present = sections.filter((s): s is [string, string] => Boolean(s[1]));
+  return {
+    nonce: createUntrustedNonce(present.map(([, content]) => content)),
+    labels: present.map(([label]) => label),
+  };
+}
+
+function formatConversationNote(note: string): string {
+  return `\n## Multi-turn Conversation\n${note}\n`;
+}
+
+/**
+ * Prompt and response sections for a conversation. A final-turn grade shows
+ * the history as the prompt; a dialogue grade splits the transcript after
+ * the opening user message so every assistant turn lands in the response.
+ */
+function formatSingleConversation(
+  input: SingleEvalInput
+): { prompt: string; response: string; note: string } | undefined {
+  const messages = input.messages;
+  if (!messages?.length) return undefined;
+
+  if (input.conversationScope === "dialogue") {
+    const firstUser = messages.findIndex((m) => m.role === "user");
+    const opening = messages.slice(0, firstUser + 1);
+    const rest = messages.slice(firstUser + 1);
+    return {
+      prompt: formatTranscript(opening),
+      response: formatTranscript(rest, opening.length + 1),
+      note: "The prompt section holds the opening of a conversation and the response section the rest of it. Grade the assistant across ALL of its turns as one dialogue: staying consistent, remembering earlier turns, acting on the user's corrections and completing the task by the end. User and tool turns are context only.",
+    };
+  }
+
+  const { history, finalTurn } = splitFinalAssistantTurn(messages);
+  return {
+    prompt: formatTranscript(history),
+    response: finalTurn?.content ?? input.response,
+    note: "The prompt section holds the conversation so far. Grade ONLY the final assistant turn shown as the response, reading earlier turns as context — e.g. whether it builds on what was already said.",
+  };
+}
+
+/**
+ * Guidance for grading an agent run: the process behind the answer as well
+ * as the answer, with step annotations for the step-level criteria.
+ */
+function formatTrajectoryNote(trajectory: AgentTrajectory, rubric: Rubric): string {
+  const tools = trajectory.tools?.length
+    ? `\n### Available Tools\n${formatToolList(trajectory.tools)}\n`
+    : "";
+  const criteria = stepLevelCriteria(rubric)
+    .map((c) => `"${c.id}" (${c.name})`)
+    .join(", ");
+  return `
+## Agent Trajectory
+The prompt section is the task the agent was given. The response section is the agent's run, one numbered step per thought, tool call, tool result or message, ending with its answer.
+${tools}
+### Step-Level Grading
+- Grade how the agent worked as well as what it answered: whether each tool call was needed, whether it chose the right tool, whether the arguments were correct and complete, whether it read tool results correctly and how it recovered from errors.
+- In "step_annotations", back your scores for ${criteria} with the steps behind them. Cite each step by its [Step N] index, name the criterion it bears on, and mark it "issue" (e.g. an unnecessary tool call or a wrong argument) or "good".
+- Annotate every step that lowered one of those scores. Leave routine steps out.
+`;
+}
+
+// ── Single evaluation prompt ──────────────────────────────────────────────────
+
+export function buildSinglePrompt(
+  input: SingleEvalInput,
+  rubric: Rubric,
+  template: JudgePromptTemplateVersion = DEFAULT_JUDGE_PROMPT_VERSION
+): string {
+  const { trajectory } = input;
+  if (trajectory) {
+    const response = formatTrajectory(trajectory);
+    const { nonce, labels } = fenceSections([
+      ["context", input.context],
+      ["response", response],
+      ["reference_answer", input.referenceAnswer],
+    ]);
+    return renderJudgePrompt(template.single, {
+      prompt: input.prompt,
+      response: wrapUntrusted("response", response, nonce),
+      context: formatContextBlock(input.context, nonce) + formatTrajectoryNote(trajectory, rubric),
+      rubric:
+        formatRubricBlock(rubric) +
+        formatReferenceBlock(input.referenceAnswer, nonce) +
+        formatUntrustedNote(labels, nonce),
+      output_schema: formatSingleOutputSchema(rubric, Boolean(input.referenceAnswer), true),
+    });
+  }
+
+  const conversation = formatSingleConversation(input);
+  const response = conversation?.response ?? input.response;
+  const { nonce, labels } = fenceSections([
+    ["context", input.context],
+    ["conversation", conversation?.prompt],
+    ["response", response],
+    ["reference_answer", input.referenceAnswer],
+  ]);
+  return renderJudgePrompt(template.single, {
+    prompt: conversation
+      ? wrapUntrusted("conversation", conversation.prompt, nonce)
+      : input.prompt,
+    response: wrapUntrusted("response", response, nonce),
+    context:
+      formatContextBlock(input.context, nonce) +
+      (conversation ? formatConversationNote(conversation.note) : ""),
+    rubric:
+      formatRubricBlock(rubric) +
+      formatReferenceBlock(input.referenceAnswer, nonce) +
+      formatUntrustedNote(labels, nonce),
+    output_schema: formatSingleOutputSchema(rubric, Boolean(input.referenceAnswer), false),
+  });
 }
 
 // ── Pairwise evaluation prompt ────────────────────────────────────────────────
@@ -105,7 +369,8 @@ ${formatSingleOutputSchema(rubric)}`;
 export function buildPairwisePrompt(
   input: PairwiseEvalInput,
   rubric: Rubric,
-  order: "AB" | "BA" = "AB"
+  order: "AB" | "BA" = "AB",
+  template: JudgePromptTemplateVersion = DEFAULT_JUDGE_PROMPT_VERSION
 ): string {
   const [responseFirst, responseSecond] =
     order === "AB"
@@ -128,40 +393,129 @@ export function buildPairwisePrompt(
     ? "Response B"
     : `Response B (${labelSecond})`;
 
-  const contextBlock = input.context
-    ? `\n## Reference Context / System Prompt\n${input.context}\n`
-    : "";
   const labelContext = input.doubleBlind
-    ? "\n## Evaluation Mode\nDouble-blind. Model identities are intentionally hidden."
-    : `\n## Evaluation Mode\nNot blind. Labels are provided:\n- Response A label: ${labelFirst}\n- Response B label: ${labelSecond}`;
+    ? "## Evaluation Mode\nDouble-blind. Model identities are intentionally hidden."
+    : `## Evaluation Mode\nNot blind. Labels are provided:\n- Response A label: ${labelFirst}\n- Response B label: ${labelSecond}`;
+
+  const history = input.messages?.length ? input.messages : undefined;
+  const transcript = history && formatTranscript(history);
+  const { nonce, labels } = fenceSections([
+    ["context", input.context],
+    ["conversation", transcript],
+    ["response_a", responseFirst],
+    ["response_b", responseSecond],
+  ]);
+  return renderJudgePrompt(template.pairwise, {
+    prompt: transcript ? wrapUntrusted("conversation", transcript, nonce) : input.prompt,
+    response_a: wrapUntrusted("response_a", responseFirst, nonce),
+    response_b: wrapUntrusted("response_b", responseSecond, nonce),
+    response_a_heading: responseAHeading,
+    response_b_heading: responseBHeading,
+    evaluation_mode: labelContext,
+    context:
+      formatContextBlock(input.context, nonce) +
+      (history
+        ? formatConversationNote(
+            "The prompt section holds the conversation so far. Both responses are candidate next assistant turns; compare them as continuations of this conversation."
+          )
+        : ""),
+    rubric: formatRubricBlock(rubric) + formatUntrustedNote(labels, nonce),
+    output_schema: formatPairwiseOutputSchema(rubric, input.preferenceScale),
+  });
+}
+
+// ── Listwise ranking prompt ──────────────────────────────────────────────────
 
-  return `You are an expert LLM response evaluator. Your job is to compare two responses to the same prompt and determine which is better.
+// Judge prompt templates cover single and pairwise evaluation; listwise
+// ranking uses this fixed body with the same placeholders.
+const LISTWISE_BODY = `You are an expert LLM response evaluator. Your job is to score several responses to the same prompt and rank them from best to worst.
 
 ## Critical Instructions
 - Analyze carefully, but output only concise rationale in "chain_of_thought" (3-6 bullets).
-- Evaluate each response INDEPENDENTLY before comparing them — do not let your impression of one affect your scoring of the other.
+- Score each response INDEPENDENTLY against each criterion before ranking them.
 - Response LENGTH is NOT a proxy for quality. Prefer substance, accuracy, and relevance over verbosity.
-- Guard against POSITION BIAS: do not favor a response simply because it appears first or second.
-- Use the FULL score range — do not cluster scores near the middle.
-- The verdict must be exactly "A", "B", or "tie". Reserve "tie" for cases where both responses are genuinely equivalent in quality.
+- Guard against POSITION BIAS: the order of the responses is arbitrary and says nothing about their quality.
+- Rank every response. Give two responses the same rank only when they are genuinely equivalent in quality.
 - Output ONLY valid JSON matching the exact schema below. No markdown code fences, no extra text.
-${contextBlock}
-${labelContext}
+{{context}}
+
+{{evaluation_mode}}
 ## Prompt Given to the LLM
-${input.prompt}
+{{prompt}}
 
-## ${responseAHeading}
-${responseFirst}
+{{responses}}
 
-## ${responseBHeading}
-${responseSecond}
+{{rubric}}
 
-## Rubric: ${rubric.name}
-${rubric.description}
+## Output Schema (output this JSON and nothing else)
+{{output_schema}}`;
 
-### Criteria
-${formatCriteriaBlock(rubric)}
+/**
+ * One listwise judge call. `order` lists candidate indices in the order
+ * shown; slot letters follow that order, so shuffled orderings also
+ * reshuffle which letter each candidate is shown under.
+ */
+export function buildListwisePrompt(
+  input: ListwiseEvalInput,
+  rubric: Rubric,
+  order: number[]
+): string {
+  const slots = order.map((_, slot) => listwiseSlotLetter(slot));
+  const responseLabels = slots.map((slot) => `response_${slot.toLowerCase()}`);
+  const { nonce, labels } = fenceSections([
+    ["context", input.context],
+    ...order.map((candidate, slot): UntrustedSection => [
+      responseLabels[slot],
+      input.candidates[candidate].response,
+    ]),
+  ]);
+  const responses = order
+    .map((candidate, slot) => {
+      const heading = input.doubleBlind
+        ? `Response ${slots[slot]}`
+        : `Response ${slots[slot]} (${candidateLabel(input.candidates[candidate], candidate)})`;
+      return `## ${heading}\n${wrapUntrusted(responseLabels[slot], input.candidates[candidate].response, nonce)}`;
+    })
+    .join("\n\n");
 
-## Output Schema (output this JSON and nothing else)
-${formatPairwiseOutputSchema(rubric)}`;
+  const evaluationMode = input.doubleBlind
+    ? "## Evaluation Mode\nDouble-blind. Model identities are intentionally hidden."
+    : `## Evaluation Mode\nNot blind. Labels are provided:\n${order
+        .map(
+          (candidate, slot) =>
+            `- Response ${slots[slot]} label: ${candidateLabel(input.candidates[candidate], candidate)}`
+        )
+        .join("\n")}`;
+
+  return renderJudgePrompt(LISTWISE_BODY, {
+    prompt: input.prompt,
+    context: formatContextBlock(input.context, nonce),
+    evaluation_mode: evaluationMode,
+    responses,
+    rubric: formatRubricBlock(rubric) + formatUntrustedNote(labels, nonce),
+    output_schema: formatListwiseOutputSchema(rubric, slots),
+  });
+}
+
+// ── JSON repair re-prompt ─────────────────────────────────────────────────────
+
+/**
+ * Asks the judge once more after its reply could not be parsed, quoting the
+ * parse error. The original prompt is repeated so the judge can re-answer
+ * in full if its reply was cut off.
+ */
+export function buildJsonRepairPrompt(
+  judgePrompt: string,
+  rawReply: string,
+  parseError: string
+): string {
+  return `${judgePrompt}
+
+## Your Previous Reply
+${rawReply}
+
+## Parse Error
+${parseError}
+
+Your previous reply was not valid JSON. Reply again with only the complete JSON object matching the output schema above — no prose, no markdown fences, no trailing commas.`;
 }
@@ -0,0 +1,158 @@
+import type { ModelSpec, Provider, ProviderSpec } from "./types";
+
+// ── Built-in providers ───────────────────────────────────────────────────────
+
+export const BUILT_IN_PROVIDERS: ProviderSpec[] = [
+  {
+    id: "openai",
+    name: "OpenAI",
+    kind: "openai",
+    keyHeader: "x-openai-api-key",
+    envKey: "OPENAI_API_KEY",
+    requiresKey: true,
+  },
+  {
+    id: "anthropic",
+    name: "Anthropic",
+    kind: "anthropic",
+    keyHeader: "x-anthropic-api-key",
+    envKey: "ANTHROPIC_API_KEY",
+    requiresKey: true,
+  },
+  {
+    id: "google",
+    name: "Google",
+    kind: "google",
+    keyHeader: "x-google-api-key",
+    envKey: "GOOGLE_API_KEY",
+    requiresKey: true,
+  },
+  {
+    // Deterministic offline judge for demos and CI; never calls the network.
+    id: "mock",
+    name: "Mock (offline)",
+    kind: "mock",
+    keyHeader: "x-mock-api-key",
+    requiresKey: false,
+  },
+];
+
+const BUILT_IN_IDS = new Set<string>(BUILT_IN_PROVIDERS.map((p) => p.id));
+
+const registry = new Map<string, ProviderSpec>(
+  BUILT_IN_PROVIDERS.map((provider) => [provider.id, provider])
+);
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+export function isBuiltInProvider(id: Provider): boolean {
+  return BUILT_IN_IDS.has(id);
+}
+
+export function defaultKeyHeader(id: Provider): string {
+  return `x-${id}-api-key`;
+}
+
+export function providerIdFromName(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)/g, "");
+}
+
+/**
+ * Registers an extra provider for the lifetime of the process.
+ * Built-in providers cannot be replaced.
+ */
+export function registerProvider(spec: ProviderSpec): ProviderSpec {
+  if (isBuiltInProvider(spec.id)) {
+    throw new Error(`Cannot override built-in provider: ${spec.id}`);
+  }
+  registry.set(spec.id, spec);
+  return spec;
+}
+
+export interface OpenAICompatibleProviderConfig {
+  id: string;
+  name: string;
+  baseURL: string;
+  keyHeader?: string;
+  envKey?: string;
+  authHeader?: string;
+  requiresKey?: boolean;
+  structuredOutput?: boolean;
+  models?: ModelSpec[];
+}
+
+/** Builds the spec for any OpenAI-compatible base URL (vLLM, Ollama, LiteLLM…). */
+export function openAICompatibleProvider(
+  config: OpenAICompatibleProviderConfig
+): ProviderSpec {
+  return {
+    id: config.id,
+    name: config.name,
+    kind: "openai-compatible",
+    baseURL: config.baseURL.replace(/\/+$/, ""),
+    keyHeader: config.keyHeader?.trim() || defaultKeyHeader(config.id),
+    envKey: config.envKey,
+    authHeader: config.authHeader?.trim() || undefined,
+    requiresKey: config.requiresKey ?? false,
+    structuredOutput: config.structuredOutput,
+    models: (config.models ?? []).map((model) => ({
+      ...model,
+      provider: config.id,
+    })),
+  };
+}
+
+export function registerOpenAICompatibleProvider(
+  config: OpenAICompatibleProviderConfig
+): ProviderSpec {
+  return registerProvider(openAICompatibleProvider(config));
+}
+
+// ── Lookup ───────────────────────────────────────────────────────────────────
+
+/**
+ * Lists registered providers followed by any extra (e.g. user-configured)
+ * providers. Extras never shadow registered ids.
+ */
+export function listProviders(extra: ProviderSpec[] = []): ProviderSpec[] {
+  const providers = [...registry.values()];
+  for (const provider of extra) {
+    if (!registry.has(provider.id)) providers.push(provider);
+  }
+  return providers;
+}
+
+export function getProviderSpec(
+  id: Provider,
+  extra: ProviderSpec[] = []
+): ProviderSpec | undefined {
+  return registry.get(id) ?? extra.find((provider) => provider.id === id);
+}
+
+/** Finds the provider that declares `modelId` in its own model list. */
+export function findProviderForModel(
+  modelId: string,
+  extra: ProviderSpec[] = []
+): { provider: ProviderSpec; model: ModelSpec } | undefined {
+  for (const provider of listProviders(extra)) {
+    const model = provider.models?.find((m) => m.id === modelId);
+    if (model) return { provider, model };
+  }
+  return undefined;
+}
+
+/**
+ * Returns the provider snapshot the client must send along with a judge
+ * request. Only needed for providers the server does not know about.
+ */
+export function getProviderSnapshot(
+  provider: Provider | undefined,
+  extra: ProviderSpec[] = []
+): ProviderSpec | undefined {
+  if (!provider || registry.has(provider)) return undefined;
+  return extra.find((p) => p.id === provider);
+}
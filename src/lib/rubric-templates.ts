@@ -181,6 +181,50 @@ export const BUILT_IN_RUBRICS: Rubric[] = [
       },
     ],
   },
+  {
+    id: "builtin-agent-trajectory",
+    name: "Agent Trajectory",
+    description:
+      "Evaluates how an agent reached its answer: its tool use, step by step, as well as the outcome.",
+    isBuiltIn: true,
+    createdAt: "2025-01-01T00:00:00.000Z",
+    criteria: [
+      {
+        id: "t-completion",
+        name: "Task Completion",
+        description: "Does the final answer fully and correctly complete the task?",
+        weight: 0.3,
+        scoreRange: 5,
+      },
+      {
+        id: "t-tool-selection",
+        name: "Tool Selection",
+        description:
+          "Are the right tools called, with no unnecessary, redundant or repeated calls?",
+        weight: 0.25,
+        scoreRange: 5,
+        stepLevel: true,
+      },
+      {
+        id: "t-arguments",
+        name: "Argument Usage",
+        description:
+          "Are tool arguments correct, complete and grounded in the task and earlier results?",
+        weight: 0.25,
+        scoreRange: 5,
+        stepLevel: true,
+      },
+      {
+        id: "t-recovery",
+        name: "Error Recovery",
+        description:
+          "Does the agent read tool results correctly and recover sensibly from errors or dead ends?",
+        weight: 0.2,
+        scoreRange: 5,
+        stepLevel: true,
+      },
+    ],
+  },
 ];
 
 export function getBuiltInRubricById(id: string): Rubric | undefined {
@@ -1,7 +1,7 @@
 import { BUILT_IN_RUBRICS } from "./rubric-templates";
 import type { Rubric, RubricVersionRef } from "./types";
 
-function hashString(input: string): string {
+export function hashString(input: string): string {
   let hash = 2166136261;
   for (let i = 0; i < input.length; i++) {
     hash ^= input.charCodeAt(i);
@@ -22,7 +22,31 @@ export function rubricFingerprint(rubric: Rubric): string {
       description: c.description.trim(),
       weight: Math.round(c.weight * 10_000) / 10_000,
       scoreRange: c.scoreRange,
+      ...(c.scoreMin !== undefined && c.scoreMin !== 1 ? { scoreMin: c.scoreMin } : {}),
+      ...(c.anchors?.length
+        ? {
+            anchors: [...c.anchors]
+              .sort((a, b) => a.score - b.score)
+              .map((a) => ({ score: a.score, description: a.description.trim() })),
+          }
+        : {}),
+      ...(c.stepLevel ? { stepLevel: true } : {}),
+      ...(c.type === "checklist" ? { type: c.type } : {}),
     })),
+    ...(rubric.checklistPolicy === "all_must_pass"
+      ? { checklistPolicy: rubric.checklistPolicy }
+      : {}),
+    // Omitted when empty so rubrics without exemplars keep their fingerprint.
+    ...(rubric.exemplars?.length
+      ? {
+          exemplars: rubric.exemplars.map((e) => ({
+            prompt: e.prompt.trim(),
+            response: e.response.trim(),
+            scores: rubric.criteria.map((c) => e.scores[c.id] ?? null),
+            rationale: e.rationale.trim(),
+          })),
+        }
+      : {}),
   });
 
   return hashString(normalized);
@@ -0,0 +1,138 @@
+import { round } from "./server-memory";
+import type {
+  CriterionScore,
+  CriterionSpread,
+  JudgeSampling,
+  PairwiseConsistency,
+  PairwiseJudgeSample,
+  PairwiseVerdict,
+  Rubric,
+  SingleConsistency,
+  SingleJudgeSample,
+} from "./types";
+
+// Self-consistency: the judge is sampled several times at a non-zero
+// temperature, scores are combined per criterion by median and verdicts by
+// majority vote. The spread across samples shows how stable a score is.
+
+export const MAX_JUDGE_SAMPLES = 9;
+
+export const DEFAULT_SAMPLING_TEMPERATURE = 0.7;
+
+/** The median; an even count takes the lower of the two middle values. */
+export function lowerMedian(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor((sorted.length - 1) / 2)];
+}
+
+export function standardDeviation(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Settled draws split into those that came back, in order, and the first
+ * failure. Callers record the spend of the completed draws before they
+ * rethrow it, so one failed sample does not hide what the others cost.
+ */
+export function splitSettledDraws<T>(results: PromiseSettledResult<T>[]): {
+  drawn: T[];
+  failure?: PromiseRejectedResult;
+} {
+  return {
+    drawn: results.flatMap((r) => (r.status === "fulfilled" ? [r.value] : [])),
+    failure: results.find((r): r is PromiseRejectedResult => r.status === "rejected"),
+  };
+}
+
+/**
+ * One score per criterion: the median across samples, with the reasoning
+ * (and any per-criterion extras) of the first sample that gave it.
+ */
+export function medianCriterionScores(
+  rubric: Rubric,
+  samples: CriterionScore[][]
+): CriterionScore[] {
+  return rubric.criteria.map((_, i) => {
+    const scores = samples.map((s) => s[i]);
+    const median = lowerMedian(scores.map((cs) => cs.score));
+    return scores.find((cs) => cs.score === median) ?? scores[0];
+  });
+}
+
+export function criterionSpreads(rubric: Rubric, samples: CriterionScore[][]): CriterionSpread[] {
+  return rubric.criteria.map((c, i) => {
+    const scores = samples.map((s) => s[i].score);
+    const median = lowerMedian(scores);
+    return {
+      criterionId: c.id,
+      min: Math.min(...scores),
+      max: Math.max(...scores),
+      stdDev: round(standardDeviation(scores), 2),
+      agreement: round(scores.filter((s) => s === median).length / scores.length, 2),
+    };
+  });
+}
+
+export function meanAgreement(spreads: CriterionSpread[]): number {
+  if (spreads.length === 0) return 1;
+  return round(spreads.reduce((sum, s) => sum + s.agreement, 0) / spreads.length, 2);
+}
+
+/** The most-voted verdict; a tie between the top votes is a tie. */
+export function majorityVerdict(verdicts: PairwiseVerdict[]): {
+  verdict: PairwiseVerdict;
+  counts: Record<PairwiseVerdict, number>;
+  agreement: number;
+} {
+  const counts: Record<PairwiseVerdict, number> = { A: 0, B: 0, tie: 0 };
+  for (const v of verdicts) counts[v] += 1;
+  const top = Math.max(counts.A, counts.B, counts.tie);
+  const leaders = (["A", "B", "tie"] as const).filter((v) => counts[v] === top);
+  const verdict = leaders.length === 1 ? leaders[0] : "tie";
+  return {
+    verdict,
+    counts,
+    agreement: verdicts.length === 0 ? 1 : round(counts[verdict] / verdicts.length, 2),
+  };
+}
+
+export function summarizeSingleSamples(
+  rubric: Rubric,
+  sampling: JudgeSampling,
+  samples: SingleJudgeSample[]
+): SingleConsistency {
+  const criteria = criterionSpreads(
+    rubric,
+    samples.map((s) => s.criterionScores)
+  );
+  return {
+    sampling,
+    criteria,
+    aggregateStdDev: round(standardDeviation(samples.map((s) => s.aggregateScore)), 2),
+    agreementRate: meanAgreement(criteria),
+  };
+}
+
+export function summarizePairwiseSamples(
+  rubric: Rubric,
+  sampling: JudgeSampling,
+  samples: PairwiseJudgeSample[]
+): PairwiseConsistency {
+  const { counts, agreement } = majorityVerdict(samples.map((s) => s.verdict));
+  return {
+    sampling,
+    criteriaA: criterionSpreads(
+      rubric,
+      samples.map((s) => s.criterionScoresA)
+    ),
+    criteriaB: criterionSpreads(
+      rubric,
+      samples.map((s) => s.criterionScoresB)
+    ),
+    verdictCounts: counts,
+    agreementRate: agreement,
+  };
+}
@@ -6,12 +6,18 @@ import type {
   ExperimentRun,
 } from "./types";
 
+export interface SpendLedger {
+  byDay: Record<string, { totalUsd: number; byProvider: Record<string, number> }>;
+  byRun: Record<string, number>;
+}
+
 interface ServerMemoryState {
   datasets: Dataset[];
   datasetVersions: Record<string, DatasetVersion[]>;
   experimentRuns: ExperimentRun[];
   calibrationRuns: CalibrationRun[];
   biasChecks: BiasCheckResult[];
+  spend: SpendLedger;
 }
 
 declare global {
@@ -25,6 +31,7 @@ function createState(): ServerMemoryState {
     experimentRuns: [],
     calibrationRuns: [],
     biasChecks: [],
+    spend: { byDay: {}, byRun: {} },
   };
 }
 
@@ -35,6 +42,15 @@ export function getServerMemory(): ServerMemoryState {
   return globalThis.__rapidJudgeMemory;
 }
 
+/** The requested version, or the latest one when no id is given. */
+export function pickDatasetVersion(
+  versions: DatasetVersion[],
+  datasetVersionId?: string
+): DatasetVersion | undefined {
+  if (!datasetVersionId) return versions[versions.length - 1];
+  return versions.find((version) => version.id === datasetVersionId);
+}
+
 export function hashString(input: string): string {
   let hash = 0x811c9dc5;
   for (let i = 0; i < input.length; i++) {
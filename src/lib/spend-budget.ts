@@ -0,0 +1,305 @@
+import { estimateTextTokens } from "./cost-estimate";
+import type { JudgeTarget } from "./judge-models";
+import { estimateCostUsd } from "./models";
+import { getServerMemory, type SpendLedger } from "./server-memory";
+import type { BudgetViolation, ModelSpec, SpendBudgets } from "./types";
+
+// Server-only: projects judge spend and enforces run, daily and per-provider
+// budgets before any judge call goes out. Checked spend is held on the ledger
+// until the calls settle, so concurrent requests cannot overshoot together.
+
+export class BudgetExceededError extends Error {
+  violation: BudgetViolation;
+
+  constructor(violation: BudgetViolation) {
+    super(describeViolation(violation));
+    this.violation = violation;
+  }
+}
+
+export function describeViolation(violation: BudgetViolation): string {
+  const label =
+    violation.scope === "run"
+      ? "Run budget"
+      : violation.scope === "day"
+        ? "Daily budget"
+        : `Daily budget for ${violation.provider}`;
+  return `${label} of $${violation.limitUsd.toFixed(2)} would be exceeded: $${violation.spentUsd.toFixed(4)} spent, $${violation.projectedUsd.toFixed(4)} projected.`;
+}
+
+function envLimit(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/** JUDGE_BUDGET_PROVIDER_DAILY_USD: a JSON object of provider id → USD. */
+function envProviderLimits(): Record<string, number> | undefined {
+  const raw = process.env.JUDGE_BUDGET_PROVIDER_DAILY_USD;
+  if (!raw) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return undefined;
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        (entry): entry is [string, number] =>
+          typeof entry[1] === "number" && Number.isFinite(entry[1]) && entry[1] >= 0
+      )
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+function tighter(a: number | undefined, b: number | undefined): number | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Math.min(a, b);
+}
+
+function tighterByProvider(
+  a: Record<string, number> | undefined,
+  b: Record<string, number> | undefined
+): Record<string, number> | undefined {
+  if (!a || !b) return a ?? b;
+  const providers = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Object.fromEntries(
+    [...providers].map((provider) => [
+      provider,
+      Math.min(a[provider] ?? Infinity, b[provider] ?? Infinity),
+    ])
+  );
+}
+
+/**
+ * Budgets sent by the client, tightened by server ceilings
+ * (JUDGE_BUDGET_RUN_USD, JUDGE_BUDGET_DAILY_USD,
+ * JUDGE_BUDGET_PROVIDER_DAILY_USD) that clients cannot raise.
+ */
+export function effectiveBudgets(requested: SpendBudgets = {}): SpendBudgets {
+  return {
+    maxRunUsd: tighter(requested.maxRunUsd, envLimit("JUDGE_BUDGET_RUN_USD")),
+    maxDailyUsd: tighter(requested.maxDailyUsd, envLimit("JUDGE_BUDGET_DAILY_USD")),
+    maxProviderDailyUsd: tighterByProvider(
+      requested.maxProviderDailyUsd,
+      envProviderLimits()
+    ),
+  };
+}
+
+/**
+ * Projected cost of one judge call from the rendered prompt and the expected
+ * reply size (see `projectJudgeOutputTokens`).
+ */
+export function projectJudgeCallUsd(
+  pricing: Pick<ModelSpec, "inputCostPer1M" | "outputCostPer1M">,
+  judgePrompt: string,
+  outputTokens: number
+): number {
+  return estimateCostUsd(pricing, estimateTextTokens(judgePrompt), outputTokens);
+}
+
+// ── Ledger ───────────────────────────────────────────────────────────────────
+
+/** Run totals kept at most; the least recently charged run is dropped first. */
+const MAX_TRACKED_RUNS = 500;
+
+function ledger(): SpendLedger {
+  const memory = getServerMemory();
+  // Older in-memory state (e.g. across dev reloads) may predate the ledger.
+  memory.spend ??= { byDay: {}, byRun: {} };
+  return memory.spend;
+}
+
+function todayKey(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function sum(costs: Record<string, number>): number {
+  return Object.values(costs).reduce((total, cost) => total + cost, 0);
+}
+
+/**
+ * Returns the first budget the projected costs (provider id → USD) would
+ * exceed, or undefined when the work fits.
+ */
+export function checkBudget(
+  budgets: SpendBudgets,
+  projected: Record<string, number>,
+  runId?: string
+): BudgetViolation | undefined {
+  const spend = ledger();
+  const today = spend.byDay[todayKey()] ?? { totalUsd: 0, byProvider: {} };
+  const projectedUsd = sum(projected);
+
+  if (budgets.maxRunUsd !== undefined) {
+    const spentUsd = runId ? (spend.byRun[runId] ?? 0) : 0;
+    if (spentUsd + projectedUsd > budgets.maxRunUsd) {
+      return { scope: "run", limitUsd: budgets.maxRunUsd, spentUsd, projectedUsd };
+    }
+  }
+
+  if (budgets.maxDailyUsd !== undefined) {
+    if (today.totalUsd + projectedUsd > budgets.maxDailyUsd) {
+      return {
+        scope: "day",
+        limitUsd: budgets.maxDailyUsd,
+        spentUsd: today.totalUsd,
+        projectedUsd,
+      };
+    }
+  }
+
+  for (const [provider, cost] of Object.entries(projected)) {
+    const limitUsd = budgets.maxProviderDailyUsd?.[provider];
+    if (limitUsd === undefined) continue;
+    const spentUsd = today.byProvider[provider] ?? 0;
+    if (spentUsd + cost > limitUsd) {
+      return { scope: "provider", provider, limitUsd, spentUsd, projectedUsd: cost };
+    }
+  }
+
+  return undefined;
+}
+
+/** Throws `BudgetExceededError` when `checkBudget` finds a violation. */
+export function assertWithinBudget(
+  budgets: SpendBudgets,
+  projected: Record<string, number>,
+  runId?: string
+): void {
+  const violation = checkBudget(budgets, projected, runId);
+  if (violation) throw new BudgetExceededError(violation);
+}
+
+export interface JudgeSpendProjection {
+  budgets: SpendBudgets;
+  judge: Pick<JudgeTarget, "provider" | "ceilingPricing">;
+  pricing: Pick<ModelSpec, "inputCostPer1M" | "outputCostPer1M">;
+  judgePrompt: string;
+  outputTokens: number;
+  calls?: number;
+  runId?: string;
+}
+
+/** Spend held on the ledger between a budget check and the calls it covers. */
+export interface BudgetReservation {
+  /** Records actual spend, drawing the held amount down by as much. */
+  record(costs: Record<string, number>): void;
+  /** Takes what is still held off the ledger; call once the work has settled. */
+  release(): void;
+}
+
+/**
+ * Checks the projected costs like `assertWithinBudget`, then holds them on
+ * the ledger so concurrent checks count them as spent.
+ */
+export function reserveBudget(
+  budgets: SpendBudgets,
+  projected: Record<string, number>,
+  runId?: string
+): BudgetReservation {
+  assertWithinBudget(budgets, projected, runId);
+  const day = todayKey();
+  const held = { ...projected };
+  recordSpend(held, runId);
+
+  return {
+    record(costs) {
+      const drawn = Object.fromEntries(
+        Object.entries(costs).map(([provider, cost]) => [
+          provider,
+          Math.min(cost, held[provider] ?? 0),
+        ])
+      );
+      for (const [provider, cost] of Object.entries(drawn)) held[provider] -= cost;
+      unrecordSpend(drawn, day, runId);
+      recordSpend(costs, runId);
+    },
+    release() {
+      unrecordSpend(held, day, runId);
+      for (const provider of Object.keys(held)) held[provider] = 0;
+    },
+  };
+}
+
+/**
+ * Projects `calls` judge calls at `pricing` and reserves them against the
+ * budgets. A judge with a ceiling price must also fit the server ceilings
+ * at that price.
+ */
+export function reserveJudgeCalls({
+  budgets,
+  judge,
+  pricing,
+  judgePrompt,
+  outputTokens,
+  calls = 1,
+  runId,
+}: JudgeSpendProjection): BudgetReservation {
+  const providerId = judge.provider.id;
+  const projected = {
+    [providerId]: projectJudgeCallUsd(pricing, judgePrompt, outputTokens) * calls,
+  };
+  assertWithinBudget(budgets, projected, runId);
+  if (judge.ceilingPricing) {
+    assertWithinBudget(
+      effectiveBudgets(),
+      {
+        [providerId]:
+          projectJudgeCallUsd(judge.ceilingPricing, judgePrompt, outputTokens) * calls,
+      },
+      runId
+    );
+  }
+  return reserveBudget(budgets, projected, runId);
+}
+
+/** Records actual spend (provider id → USD) against today and the run. */
+export function recordSpend(costs: Record<string, number>, runId?: string): void {
+  const total = sum(costs);
+  if (total <= 0) return;
+
+  const spend = ledger();
+  const key = todayKey();
+  const today = (spend.byDay[key] ??= { totalUsd: 0, byProvider: {} });
+  today.totalUsd += total;
+  for (const [provider, cost] of Object.entries(costs)) {
+    today.byProvider[provider] = (today.byProvider[provider] ?? 0) + cost;
+  }
+  if (runId) {
+    const runTotal = (spend.byRun[runId] ?? 0) + total;
+    // Re-insert so key order tracks the most recent charge.
+    delete spend.byRun[runId];
+    spend.byRun[runId] = runTotal;
+  }
+  pruneLedger(spend, key);
+}
+
+/** Takes held spend back off `day` and the run; pruned entries are left alone. */
+function unrecordSpend(costs: Record<string, number>, day: string, runId?: string): void {
+  const total = sum(costs);
+  if (total <= 0) return;
+
+  const spend = ledger();
+  const entry = spend.byDay[day];
+  if (entry) {
+    entry.totalUsd = Math.max(0, entry.totalUsd - total);
+    for (const [provider, cost] of Object.entries(costs)) {
+      entry.byProvider[provider] = Math.max(0, (entry.byProvider[provider] ?? 0) - cost);
+    }
+  }
+  if (runId && spend.byRun[runId] !== undefined) {
+    spend.byRun[runId] = Math.max(0, spend.byRun[runId] - total);
+  }
+}
+
+/** Daily budgets only read today, so earlier days and stale runs can go. */
+function pruneLedger(spend: SpendLedger, today: string): void {
+  for (const day of Object.keys(spend.byDay)) {
+    if (day !== today) delete spend.byDay[day];
+  }
+  const runIds = Object.keys(spend.byRun);
+  for (const runId of runIds.slice(0, Math.max(0, runIds.length - MAX_TRACKED_RUNS))) {
+    delete spend.byRun[runId];
+  }
+}
@@ -5,7 +5,11 @@ import type {
   AppSettings,
   EvalResult,
   ExperimentRun,
-  JudgePromptVersionRef,
+  JudgePromptTemplate,
+  JudgePromptTemplateVersion,
+  ModelSpec,
+  Provider,
+  ProviderSpec,
   Rubric,
   RubricVersionRef,
 } from "./types";
@@ -14,22 +18,23 @@ import {
   getBuiltInRubricVersionRef,
   getLatestVersionRef,
 } from "./rubric-versioning";
-
-const DEFAULT_PROMPT_VERSION: JudgePromptVersionRef = {
-  id: "judge-prompt",
-  versionNumber: 1,
-  createdAt: "2026-01-01T00:00:00.000Z",
-  notes: "Structured JSON grading prompt v1",
-};
+import { withPriceChange } from "./pricing";
+import { isDegraded } from "./judge-validation";
+import {
+  DEFAULT_JUDGE_PROMPT_TEMPLATE,
+  DEFAULT_JUDGE_PROMPT_VERSION_REF,
+  judgePromptVersionKey,
+} from "./judge-prompt-templates";
 
 interface AppStore {
   // Settings
   settings: AppSettings;
   updateSettings: (patch: Partial<AppSettings>) => void;
-  updateApiKey: (
-    provider: "openai" | "anthropic" | "google",
-    key: string
-  ) => void;
+  updateApiKey: (provider: Provider, key: string) => void;
+  upsertCustomProvider: (provider: ProviderSpec) => void;
+  removeCustomProvider: (providerId: string) => void;
+  upsertCustomModel: (model: ModelSpec) => void;
+  removeCustomModel: (modelId: string) => void;
   exportSettings: () => string;
   importSettings: (raw: string) => { ok: true } | { ok: false; error: string };
 
@@ -52,6 +57,19 @@ interface AppStore {
   updateRubric: (id: string, patch: Partial<Rubric>) => void;
   deleteRubric: (id: string) => void;
   getLatestRubricVersionRef: (rubricId: string) => RubricVersionRef | undefined;
+
+  // Custom judge prompt templates; versions are append-only
+  customPromptTemplates: JudgePromptTemplate[];
+  addPromptTemplate: (template: JudgePromptTemplate) => void;
+  addPromptTemplateVersion: (
+    templateId: string,
+    content: Pick<JudgePromptTemplateVersion, "single" | "pairwise" | "notes">
+  ) => void;
+  updatePromptTemplateInfo: (
+    templateId: string,
+    patch: Partial<Pick<JudgePromptTemplate, "name" | "description">>
+  ) => void;
+  deletePromptTemplate: (templateId: string) => void;
 }
 
 function meanOfSingleResult(result: EvalResult): number {
@@ -64,6 +82,8 @@ function runFromEval(
   rubricVersionRef: RubricVersionRef
 ): ExperimentRun {
   const meanAggregateScore = meanOfSingleResult(result);
+  const judgePromptVersionRef =
+    result.judgePromptVersionRef ?? DEFAULT_JUDGE_PROMPT_VERSION_REF;
   const passRate = meanAggregateScore >= 70 ? 1 : 0;
 
   return {
@@ -75,14 +95,15 @@ function runFromEval(
     config: {
       name: `${result.mode === "single" ? "Single" : "Pairwise"} ad-hoc run`,
       evalMode: result.mode,
+      referenceGuided: result.mode === "single" ? result.referenceGuided : undefined,
       judgeModelId: result.judgeModel.id,
       rubricId: result.rubric.id,
       repeats: 1,
       rubricVersionRef,
-      judgePromptVersionRef: DEFAULT_PROMPT_VERSION,
+      judgePromptVersionRef,
     },
     rubricVersionRef,
-    judgePromptVersionRef: DEFAULT_PROMPT_VERSION,
+    judgePromptVersionRef,
     metrics: {
       caseCount: 1,
       meanAggregateScore: Math.round(meanAggregateScore * 10) / 10,
@@ -93,8 +114,18 @@ function runFromEval(
         result.mode === "pairwise" ? (result.verdict === "B" ? 1 : 0) : undefined,
       tieRate:
         result.mode === "pairwise" ? (result.verdict === "tie" ? 1 : 0) : undefined,
+      meanPreferenceMargin: result.mode === "pairwise" ? result.preference : undefined,
+      degradedCount: isDegraded(result) ? 1 : 0,
+      inconsistentCount:
+        result.mode === "pairwise" && result.input.detectPositionBias
+          ? result.positionBiasDetected
+            ? 1
+            : 0
+          : undefined,
       inputTokens: result.inputTokens,
       outputTokens: result.outputTokens,
+      billedInputTokens: result.billedInputTokens ?? (result.cacheHit ? 0 : result.inputTokens),
+      billedOutputTokens: result.billedOutputTokens ?? (result.cacheHit ? 0 : result.outputTokens),
       estimatedCostUsd: result.estimatedCostUsd,
     },
     sourceEvalResultIds: [result.id],
@@ -129,11 +160,17 @@ function defaultSettings(): AppSettings {
     apiKeys: {},
     defaultModelId: "gpt-4o",
     defaultRubricId: "builtin-overall",
+    defaultJudgePromptKey: judgePromptVersionKey(DEFAULT_JUDGE_PROMPT_TEMPLATE.versions[0]),
     alertThresholds: {
       minAgreementRate: 0.75,
       maxScoreDrift: 8,
       maxCostIncreasePct: 20,
     },
+    budgets: {},
+    customProviders: [],
+    customModels: [],
+    bypassJudgeCache: false,
+    costBasis: "recorded",
   };
 }
 
@@ -155,6 +192,54 @@ export const useStore = create<AppStore>()(
           },
         })),
 
+      upsertCustomProvider: (provider) =>
+        set((state) => ({
+          settings: {
+            ...state.settings,
+            customProviders: [
+              ...state.settings.customProviders.filter((p) => p.id !== provider.id),
+              provider,
+            ],
+          },
+        })),
+
+      removeCustomProvider: (providerId) =>
+        set((state) => {
+          const apiKeys = { ...state.settings.apiKeys };
+          delete apiKeys[providerId];
+          return {
+            settings: {
+              ...state.settings,
+              apiKeys,
+              customProviders: state.settings.customProviders.filter(
+                (p) => p.id !== providerId
+              ),
+            },
+          };
+        }),
+
+      upsertCustomModel: (model) =>
+        set((state) => ({
+          settings: {
+            ...state.settings,
+            customModels: [
+              ...state.settings.customModels.filter((m) => m.id !== model.id),
+              withPriceChange(
+                model,
+                state.settings.customModels.find((m) => m.id === model.id)
+              ),
+            ],
+          },
+        })),
+
+      removeCustomModel: (modelId) =>
+        set((state) => ({
+          settings: {
+            ...state.settings,
+            customModels: state.settings.customModels.filter((m) => m.id !== modelId),
+          },
+        })),
+
       exportSettings: () => JSON.stringify(get().settings, null, 2),
 
       importSettings: (raw) => {
@@ -173,6 +258,9 @@ export const useStore = create<AppStore>()(
                 ...current.alertThresholds,
                 ...(parsed.alertThresholds ?? {}),
               },
+              budgets: parsed.budgets ?? current.budgets,
+              customProviders: parsed.customProviders ?? current.customProviders,
+              customModels: parsed.customModels ?? current.customModels,
             },
           });
           return { ok: true };
@@ -326,6 +414,57 @@ export const useStore = create<AppStore>()(
 
       getLatestRubricVersionRef: (rubricId) =>
         getLatestVersionRef(rubricId, get().rubricVersions),
+
+      customPromptTemplates: [],
+
+      addPromptTemplate: (template) =>
+        set((state) => ({
+          customPromptTemplates: [
+            ...state.customPromptTemplates.filter((t) => t.id !== template.id),
+            template,
+          ],
+        })),
+
+      addPromptTemplateVersion: (templateId, content) =>
+        set((state) => ({
+          customPromptTemplates: state.customPromptTemplates.map((template) => {
+            if (template.id !== templateId) return template;
+            const latest = template.versions[template.versions.length - 1];
+            const version: JudgePromptTemplateVersion = {
+              templateId,
+              versionNumber: (latest?.versionNumber ?? 0) + 1,
+              createdAt: new Date().toISOString(),
+              notes: content.notes?.trim() || undefined,
+              single: content.single,
+              pairwise: content.pairwise,
+            };
+            return { ...template, versions: [...template.versions, version] };
+          }),
+        })),
+
+      updatePromptTemplateInfo: (templateId, patch) =>
+        set((state) => ({
+          customPromptTemplates: state.customPromptTemplates.map((template) =>
+            template.id === templateId ? { ...template, ...patch } : template
+          ),
+        })),
+
+      deletePromptTemplate: (templateId) =>
+        set((state) => {
+          const customPromptTemplates = state.customPromptTemplates.filter(
+            (t) => t.id !== templateId
+          );
+          // Fall back to the built-in when the default template goes away.
+          const defaultJudgePromptKey = state.settings.defaultJudgePromptKey.startsWith(
+            `${templateId}@`
+          )
+            ? defaultSettings().defaultJudgePromptKey
+            : state.settings.defaultJudgePromptKey;
+          return {
+            customPromptTemplates,
+            settings: { ...state.settings, defaultJudgePromptKey },
+          };
+        }),
     }),
     {
       name: "rapid-judge-store",
@@ -374,9 +513,14 @@ export const useStore = create<AppStore>()(
               ...defaultAppSettings.alertThresholds,
               ...(ps.settings?.alertThresholds ?? {}),
             },
+            budgets: ps.settings?.budgets ?? defaultAppSettings.budgets,
+            customProviders:
+              ps.settings?.customProviders ?? defaultAppSettings.customProviders,
+            customModels: ps.settings?.customModels ?? defaultAppSettings.customModels,
           },
           customRubrics: mergedCustomRubrics,
           rubricVersions: mergedVersionMap,
+          customPromptTemplates: ps.customPromptTemplates ?? [],
           experimentRuns: migratedRuns,
           history: historyFromRuns(migratedRuns),
         };
@@ -0,0 +1,222 @@
+import type {
+  AgentToolSpec,
+  AgentTrajectory,
+  Rubric,
+  RubricCriterion,
+  TrajectoryStep,
+  TrajectoryStepKind,
+} from "./types";
+
+// Agent trajectories: the ordered thoughts, tool calls, tool results and
+// messages of one agent run. Steps are shown to the judge numbered from 1 so
+// step-level criteria can point at them.
+
+export const TRAJECTORY_STEP_KINDS: readonly TrajectoryStepKind[] = [
+  "thought",
+  "tool_call",
+  "tool_result",
+  "message",
+  "final_answer",
+];
+
+const KIND_ALIASES: Record<string, TrajectoryStepKind> = {
+  thought: "thought",
+  reasoning: "thought",
+  thinking: "thought",
+  plan: "thought",
+  tool_call: "tool_call",
+  action: "tool_call",
+  call: "tool_call",
+  tool_use: "tool_call",
+  tool_result: "tool_result",
+  observation: "tool_result",
+  result: "tool_result",
+  message: "message",
+  assistant: "message",
+  final_answer: "final_answer",
+  final: "final_answer",
+  answer: "final_answer",
+};
+
+const KIND_LABELS: Record<TrajectoryStepKind, string> = {
+  thought: "Thought",
+  tool_call: "Tool call",
+  tool_result: "Tool result",
+  message: "Message",
+  final_answer: "Final answer",
+};
+
+export type ParsedTrajectory =
+  | { ok: true; trajectory: AgentTrajectory }
+  | { ok: false; error: string };
+
+function text(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (value === undefined || value === null) return undefined;
+  return JSON.stringify(value);
+}
+
+function parseArguments(raw: unknown): Record<string, unknown> | undefined {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw) as unknown;
+    } catch {
+      return { input: raw };
+    }
+  }
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function parseTools(raw: unknown): AgentToolSpec[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const tools = raw.flatMap((entry): AgentToolSpec[] => {
+    if (typeof entry === "string") return entry.trim() ? [{ name: entry.trim() }] : [];
+    if (!entry || typeof entry !== "object") return [];
+    const { name, description } = entry as Record<string, unknown>;
+    if (typeof name !== "string" || !name.trim()) return [];
+    return [
+      {
+        name: name.trim(),
+        ...(typeof description === "string" && description.trim()
+          ? { description: description.trim() }
+          : {}),
+      },
+    ];
+  });
+  return tools.length > 0 ? tools : undefined;
+}
+
+/**
+ * Parses a trajectory: either `{ tools?, steps }` or a bare steps array, as
+ * an object or its JSON text. Common agent-log spellings are accepted
+ * (`type`/`kind`, `tool`/`name`, `args`/`input`, `observation`/`output`);
+ * unknown step kinds are rejected rather than guessed.
+ */
+export function parseTrajectory(raw: unknown): ParsedTrajectory {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw) as unknown;
+    } catch {
+      return { ok: false, error: "trajectory must be JSON." };
+    }
+  }
+  const record =
+    value && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : undefined;
+  const rawSteps = Array.isArray(value) ? value : record?.steps;
+  if (!Array.isArray(rawSteps) || rawSteps.length === 0) {
+    return { ok: false, error: "trajectory needs a non-empty steps array." };
+  }
+
+  const steps: TrajectoryStep[] = [];
+  for (const [i, entry] of rawSteps.entries()) {
+    if (!entry || typeof entry !== "object") {
+      return { ok: false, error: `steps[${i}] must be an object.` };
+    }
+    const s = entry as Record<string, unknown>;
+    const rawKind = s.kind ?? s.type;
+    const kind = KIND_ALIASES[String(rawKind ?? "").trim().toLowerCase()];
+    if (!kind) {
+      return {
+        ok: false,
+        error: `steps[${i}] has unknown kind "${String(rawKind)}"; use ${TRAJECTORY_STEP_KINDS.join(", ")}.`,
+      };
+    }
+    // An observation without a tool name answers the call before it.
+    const toolName =
+      [s.toolName, s.tool, s.name].find(
+        (v): v is string => typeof v === "string" && v.trim() !== ""
+      ) ??
+      (kind === "tool_result"
+        ? steps.findLast((prev) => prev.kind === "tool_call")?.toolName
+        : undefined);
+    if ((kind === "tool_call" || kind === "tool_result") && !toolName) {
+      return { ok: false, error: `steps[${i}] is a ${kind} without a tool name.` };
+    }
+    const args = kind === "tool_call" ? parseArguments(s.arguments ?? s.args ?? s.input) : undefined;
+    const content = text(s.content ?? s.text ?? s.output ?? s.observation) ?? "";
+    if (kind !== "tool_call" && !content.trim()) {
+      return { ok: false, error: `steps[${i}] needs content.` };
+    }
+    const callId = s.callId ?? s.call_id ?? s.id;
+    steps.push({
+      kind,
+      content,
+      ...(toolName && { toolName: toolName.trim() }),
+      ...(args && { arguments: args }),
+      ...(typeof callId === "string" && callId.trim() && { callId: callId.trim() }),
+      ...(kind === "tool_result" && (s.isError === true || s.is_error === true) && { isError: true }),
+    });
+  }
+
+  const tools = parseTools(record?.tools);
+  return { ok: true, trajectory: { ...(tools && { tools }), steps } };
+}
+
+/** The agent's answer: its last final_answer step, else its last message. */
+export function trajectoryFinalAnswer(trajectory: AgentTrajectory): string {
+  const steps = [...trajectory.steps].reverse();
+  const final =
+    steps.find((s) => s.kind === "final_answer") ?? steps.find((s) => s.kind === "message");
+  return final?.content ?? "";
+}
+
+/**
+ * Fills an imported row's flat `response` from its trajectory, so lists,
+ * history and CSV exports still show what the agent answered.
+ */
+export function resolveTrajectoryRow(
+  trajectory: AgentTrajectory,
+  fields: { prompt: string; response: string }
+): { trajectory: AgentTrajectory; prompt: string; response: string } {
+  return {
+    trajectory,
+    prompt: fields.prompt,
+    response: fields.response || trajectoryFinalAnswer(trajectory),
+  };
+}
+
+export function stepLabel(step: TrajectoryStep): string {
+  const label = KIND_LABELS[step.kind];
+  if (step.kind === "tool_call") return `${label} → ${step.toolName}`;
+  if (step.kind === "tool_result") {
+    return `${label} ← ${step.toolName}${step.isError ? " (error)" : ""}`;
+  }
+  return label;
+}
+
+export function formatStepArguments(step: TrajectoryStep): string {
+  return JSON.stringify(step.arguments ?? {}, null, 2);
+}
+
+/** Numbered steps with explicit headers, so the judge can cite step indices. */
+export function formatTrajectory(trajectory: AgentTrajectory): string {
+  return trajectory.steps
+    .map((step, i) => {
+      const header = `**[Step ${i + 1}] ${stepLabel(step)}${step.callId ? ` (${step.callId})` : ""}:**`;
+      if (step.kind !== "tool_call") return `${header}\n${step.content}`;
+      const note = step.content.trim() ? `${step.content}\n` : "";
+      return `${header}\n${note}Arguments:\n\`\`\`json\n${formatStepArguments(step)}\n\`\`\``;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Criteria the judge backs with step annotations: those marked step-level,
+ * or every criterion when a rubric marks none.
+ */
+export function stepLevelCriteria(rubric: Rubric): RubricCriterion[] {
+  const marked = rubric.criteria.filter((c) => c.stepLevel);
+  return marked.length > 0 ? marked : rubric.criteria;
+}
+
+export function formatToolList(tools: AgentToolSpec[]): string {
+  return tools
+    .map((t) => (t.description ? `- \`${t.name}\`: ${t.description}` : `- \`${t.name}\``))
+    .join("\n");
+}
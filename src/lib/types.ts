@@ -1,6 +1,33 @@
 // ── Providers & Models ───────────────────────────────────────────────────────
 
-export type Provider = "openai" | "anthropic" | "google";
+export type BuiltInProvider = "openai" | "anthropic" | "google" | "mock";
+
+// Built-in providers plus any registered provider id (e.g. an OpenAI-compatible endpoint)
+export type Provider = BuiltInProvider | (string & {});
+
+export type ProviderKind = BuiltInProvider | "openai-compatible";
+
+export interface ProviderSpec {
+  id: Provider;
+  name: string;
+  kind: ProviderKind;
+  keyHeader: string; // request header the client uses to forward its key
+  envKey?: string; // server-side env var fallback for the key
+  baseURL?: string; // required for openai-compatible providers
+  authHeader?: string; // outbound auth header; defaults to "Authorization: Bearer"
+  requiresKey: boolean;
+  models?: ModelSpec[];
+  retry?: Partial<RetryPolicy>; // overrides the default policy for `kind`
+  structuredOutput?: boolean; // overrides schema-constrained output support for `kind`
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  initialDelayMs: number;
+  maxDelayMs: number; // cap for a single backoff step
+  backoffFactor: number;
+  maxRetryAfterMs: number; // longer Retry-After waits are returned to the caller
+}
 
 export interface ModelSpec {
   id: string;
@@ -8,18 +35,58 @@ export interface ModelSpec {
   provider: Provider;
   inputCostPer1M: number; // USD per 1M input tokens
   outputCostPer1M: number; // USD per 1M output tokens
+  priceHistory?: ModelPricing[]; // ascending by effectiveFrom; last entry mirrors the current prices
+}
+
+export interface ModelPricing {
+  version: string; // unique per model, e.g. the effective date
+  effectiveFrom: string; // ISO date
+  inputCostPer1M: number;
+  outputCostPer1M: number;
 }
 
+// "recorded": costs as billed at run time; "reference": recomputed at one price
+export type CostBasis = "recorded" | "reference";
+
 // ── Rubric ───────────────────────────────────────────────────────────────────
 
-export type ScoreRange = 5 | 10;
+/** A criterion's top score; its scale runs from `scoreMin` (default 1) up to it. */
+export type ScoreRange = number;
+
+/** What a single score level means, e.g. 3 = "minor factual error". */
+export interface ScoreAnchor {
+  score: number;
+  description: string;
+}
+
+/** Scale criteria are scored scoreMin–scoreRange; checklist criteria pass or fail. */
+export type CriterionType = "scale" | "checklist";
+
+/**
+ * How checklist criteria enter the aggregate: each counts as 100 or 0 in the
+ * weighted average, and `all_must_pass` also zeroes the aggregate on any fail.
+ */
+export type ChecklistPolicy = "pass_ratio" | "all_must_pass";
 
 export interface RubricCriterion {
   id: string;
   name: string;
   description: string;
   weight: number; // 0–1, all criteria weights should sum to 1
-  scoreRange: ScoreRange;
+  scoreRange: ScoreRange; // unused by checklist criteria
+  scoreMin?: number; // defaults to 1
+  anchors?: ScoreAnchor[]; // level descriptions, in score order
+  type?: CriterionType; // defaults to "scale"
+  stepLevel?: boolean; // trajectory grading: the judge also flags the steps behind the score
+}
+
+/** An expert-graded example shown to the judge as a scoring anchor. */
+export interface RubricExemplar {
+  id: string;
+  prompt: string;
+  response: string;
+  scores: Record<string, number>; // criterion id → expert score; 1/0 for checklist criteria
+  rationale: string;
 }
 
 export interface Rubric {
@@ -27,6 +94,8 @@ export interface Rubric {
   name: string;
   description: string;
   criteria: RubricCriterion[];
+  exemplars?: RubricExemplar[];
+  checklistPolicy?: ChecklistPolicy; // defaults to "pass_ratio"
   isBuiltIn: boolean;
   createdAt: string; // ISO date string
 }
@@ -41,22 +110,85 @@ export interface RubricVersionRef {
 }
 
 export interface JudgePromptVersionRef {
-  id: string;
+  id: string; // judge prompt template id
+  versionNumber: number;
+  createdAt: string;
+  notes?: string;
+  fingerprint?: string; // content hash; absent on refs recorded before templates
+}
+
+// ── Judge Prompt Templates ───────────────────────────────────────────────────
+
+/** One immutable revision of a template; edits append a new version. */
+export interface JudgePromptTemplateVersion {
+  templateId: string;
   versionNumber: number;
   createdAt: string;
   notes?: string;
+  single: string; // body with {{placeholders}} for single evaluation
+  pairwise: string; // body for pairwise evaluation
+}
+
+export interface JudgePromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+  isBuiltIn: boolean;
+  createdAt: string;
+  versions: JudgePromptTemplateVersion[]; // oldest first
 }
 
 // ── Evaluation Inputs ────────────────────────────────────────────────────────
 
+/**
+ * Reference-guided grading is a single-mode variant rather than a mode of its
+ * own; results and runs mark it with `referenceGuided`.
+ */
 export type EvaluationMode = "single" | "pairwise";
 
+export type ConversationRole = "system" | "user" | "assistant" | "tool";
+
+export interface ConversationMessage {
+  role: ConversationRole;
+  content: string;
+  name?: string; // tool or participant name
+}
+
+/** Which part of a conversation a single evaluation grades. */
+export type ConversationScope = "final_turn" | "dialogue";
+
+export type TrajectoryStepKind = "thought" | "tool_call" | "tool_result" | "message" | "final_answer";
+
+/** One step of an agent run, in execution order. Steps are numbered from 1. */
+export interface TrajectoryStep {
+  kind: TrajectoryStepKind;
+  content: string; // reasoning, tool output or message text; empty for a bare tool call
+  toolName?: string; // tool_call and tool_result
+  arguments?: Record<string, unknown>; // tool_call
+  callId?: string; // pairs a tool_result with its tool_call
+  isError?: boolean; // tool_result that reported a failure
+}
+
+export interface AgentToolSpec {
+  name: string;
+  description?: string;
+}
+
+export interface AgentTrajectory {
+  tools?: AgentToolSpec[]; // tools the agent could call
+  steps: TrajectoryStep[];
+}
+
 export interface SingleEvalInput {
-  prompt: string;
-  response: string;
+  prompt: string; // with `messages`: the last user message
+  response: string; // with `messages`: the final assistant turn
   rubricId: string;
   modelId: string;
   context?: string;
+  referenceAnswer?: string; // gold answer; switches to reference-guided grading (single only)
+  messages?: ConversationMessage[]; // full transcript, ending with the graded assistant turn
+  conversationScope?: ConversationScope; // defaults to "final_turn"
+  trajectory?: AgentTrajectory; // agent run graded step by step; `prompt` is the task
 }
 
 export interface PairwiseEvalInput {
@@ -69,21 +201,176 @@ export interface PairwiseEvalInput {
   modelId: string;
   doubleBlind: boolean;
   detectPositionBias: boolean;
+  positionBiasPolicy?: PositionBiasPolicy; // defaults to "keep_first"
+  preferenceScale?: PreferenceScale; // graded verdicts; plain A / B / tie when unset
+  context?: string;
+  messages?: ConversationMessage[]; // history before the two candidate assistant turns
+}
+
+/** One response in a listwise ranking, with the model that wrote it. */
+export interface ListwiseCandidate {
+  label?: string; // model name; hidden from the judge when double-blind
+  response: string;
+}
+
+export interface ListwiseEvalInput {
+  prompt: string;
+  candidates: ListwiseCandidate[];
+  rubricId: string;
+  modelId: string;
+  doubleBlind: boolean; // also shuffles the order candidates are shown in
+  orderings: number; // judge calls, each showing the candidates in a different order
   context?: string;
 }
 
 // ── Evaluation Outputs ───────────────────────────────────────────────────────
 
+/** How a response matches the gold reference answer on one criterion. */
+export type ReferenceAgreement = "agrees" | "partial" | "contradicts";
+
 export interface CriterionScore {
   criterionId: string;
   criterionName: string;
-  score: number;
-  maxScore: ScoreRange;
+  score: number; // checklist criteria: 1 = pass, 0 = fail
+  minScore?: number; // scale criteria whose scale does not start at 1
+  maxScore: ScoreRange; // 1 for checklist criteria
+  passed?: boolean; // checklist criteria only
   reasoning: string;
+  referenceAgreement?: ReferenceAgreement; // reference-guided grading only
+}
+
+export type StepAssessment = "good" | "issue";
+
+/** The judge's note on one trajectory step, tied to the criterion it bears on. */
+export interface StepAnnotation {
+  step: number; // 1-based step index
+  criterionId: string;
+  assessment: StepAssessment;
+  note: string;
 }
 
 export type PairwiseVerdict = "A" | "B" | "tie";
 
+/** How a verdict that flips when the responses swap places is reported. */
+export type PositionBiasPolicy = "keep_first" | "tie" | "average" | "tiebreak";
+
+/** Points on a graded preference scale, from A>>B (or A>>>B) to B>>A. */
+export type PreferenceScale = 5 | 7;
+
+/**
+ * How the judge's JSON reply was obtained, from least to most rescued:
+ * schema-constrained, parsed as-is, cut out of surrounding prose, repaired,
+ * or re-asked after a parse failure.
+ */
+export type JudgeParseTier =
+  | "structured"
+  | "direct"
+  | "extracted"
+  | "repaired"
+  | "reprompted";
+
+export interface JudgeParseInfo {
+  tier: JudgeParseTier;
+  raw?: string; // original reply text, kept when it had to be rescued
+}
+
+export type JudgeOutputIssueKind =
+  | "missing_score" // recorded as the lowest score
+  | "score_clamped"
+  | "aggregate_clamped"
+  | "verdict_coerced" // recorded as a tie
+  | "missing_reasoning"
+  | "missing_aggregate" // recomputed from criterion scores
+  | "missing_agreement" // reference-guided grading without a valid agreement label
+  | "invalid_step_annotation" // names a step or criterion that does not exist; dropped
+  | "ranking_coerced" // listwise ranking missing or malformed; ranked by aggregate score
+  | "unknown_criterion"; // ignored
+
+export interface JudgeOutputIssue {
+  kind: JudgeOutputIssueKind;
+  path: string; // key in the judge's JSON, e.g. "scores.accuracy_A"
+  message: string;
+  pass?: "reversed"; // raised by the position-bias pass
+}
+
+/**
+ * Strict validation of the judge's reply against the rubric. `degraded`
+ * results had a score or verdict coerced and can skew aggregate metrics.
+ */
+export interface JudgeValidationReport {
+  issues: JudgeOutputIssue[];
+  degraded: boolean;
+}
+
+export type InjectionSignal =
+  | "override_instructions"
+  | "score_demand"
+  | "judge_address"
+  | "role_spoof"
+  | "delimiter_spoof"
+  | "output_spoof"
+  | "hidden_text";
+
+/** A likely prompt-injection attempt found in evaluated content before judging. */
+export interface InjectionFlag {
+  source: string; // "response", "response A", "step 3", "turn 4"
+  signal: InjectionSignal;
+  excerpt: string;
+}
+
+/** Self-consistency: draw several judge samples at a non-zero temperature. */
+export interface JudgeSampling {
+  samples: number;
+  temperature: number;
+}
+
+/** How much one criterion's score varied across judge samples. */
+export interface CriterionSpread {
+  criterionId: string;
+  min: number;
+  max: number;
+  stdDev: number;
+  agreement: number; // share of samples that gave the median score, 0–1
+}
+
+export interface SingleJudgeSample {
+  criterionScores: CriterionScore[];
+  aggregateScore: number;
+  summary: string;
+}
+
+export interface PairwiseJudgeSample {
+  criterionScoresA: CriterionScore[];
+  criterionScoresB: CriterionScore[];
+  aggregateScoreA: number;
+  aggregateScoreB: number;
+  verdict: PairwiseVerdict;
+  preference?: number;
+}
+
+export interface SingleConsistency {
+  sampling: JudgeSampling;
+  criteria: CriterionSpread[];
+  aggregateStdDev: number;
+  agreementRate: number; // mean criterion agreement, 0–1
+}
+
+export interface PairwiseConsistency {
+  sampling: JudgeSampling;
+  criteriaA: CriterionSpread[];
+  criteriaB: CriterionSpread[];
+  verdictCounts: Record<PairwiseVerdict, number>;
+  agreementRate: number; // share of samples that voted for the verdict, 0–1
+}
+
+export interface JudgeParseTally {
+  judgeModelId: string;
+  judgeModelName: string;
+  total: number;
+  byTier: Record<JudgeParseTier, number>;
+  rescued: number; // extracted + repaired + reprompted
+}
+
 export interface SingleEvalResult {
   id: string;
   mode: "single";
@@ -94,10 +381,21 @@ export interface SingleEvalResult {
   chainOfThought: string;
   summary: string;
   criterionScores: CriterionScore[];
+  referenceGuided?: boolean; // graded against input.referenceAnswer
+  stepAnnotations?: StepAnnotation[]; // trajectory grading only
   aggregateScore: number; // 0–100
+  samples?: SingleJudgeSample[]; // self-consistency only; scores above are medians
+  consistency?: SingleConsistency;
   inputTokens: number;
   outputTokens: number;
+  billedInputTokens?: number; // excludes cache hits; the tokens estimatedCostUsd covers
+  billedOutputTokens?: number;
   estimatedCostUsd: number;
+  pricingVersion?: string; // judge model pricing used for estimatedCostUsd
+  cacheHit?: boolean; // served from the judge cache; billed at zero unless a re-asked first reply was billed
+  judgeParse?: JudgeParseInfo;
+  validation?: JudgeValidationReport;
+  injectionFlags?: InjectionFlag[];
   rubricVersionRef?: RubricVersionRef;
   judgePromptVersionRef?: JudgePromptVersionRef;
 }
@@ -116,22 +414,126 @@ export interface PairwiseEvalResult {
   aggregateScoreA: number;
   aggregateScoreB: number;
   verdict: PairwiseVerdict;
+  preference?: number; // graded scales only: signed margin, positive for A
   verdictReasoning: string;
   reversedVerdict?: PairwiseVerdict;
   reversedChainOfThought?: string;
   positionBiasDetected?: boolean;
+  primaryVerdict?: PairwiseVerdict; // first-order verdict, when a policy resolved a flip
+  tiebreakVerdict?: PairwiseVerdict; // "tiebreak" policy only
+  samples?: PairwiseJudgeSample[]; // self-consistency only, primary pass
+  consistency?: PairwiseConsistency;
   inputTokens: number;
   outputTokens: number;
+  billedInputTokens?: number; // excludes cache hits
+  billedOutputTokens?: number;
   estimatedCostUsd: number;
+  pricingVersion?: string;
+  cacheHit?: boolean; // every judge call was served from the cache
+  judgeParse?: JudgeParseInfo; // the most rescued of the judge passes
+  validation?: JudgeValidationReport; // covers every judge pass
+  injectionFlags?: InjectionFlag[];
   rubricVersionRef?: RubricVersionRef;
   judgePromptVersionRef?: JudgePromptVersionRef;
 }
 
 export type EvalResult = SingleEvalResult | PairwiseEvalResult;
 
+/** One candidate's place in a listwise ranking. */
+export interface ListwiseRankedCandidate {
+  candidateIndex: number; // into `input.candidates`
+  label: string; // model label, or "Response N"
+  rank: number; // 1 = best; tied candidates share a rank
+  meanRank: number; // judge's rank averaged over orderings
+  aggregateScore: number; // 0–100
+  criterionScores: CriterionScore[]; // medians over orderings
+}
+
+/** One judge call of a listwise ranking. */
+export interface ListwiseOrdering {
+  order: number[]; // candidate indices in the order shown
+  ranks: number[]; // the judge's rank for each candidate, by candidate index
+  aggregateScores: number[]; // by candidate index
+}
+
+/** How the order candidates were shown in moved their ranks. */
+export interface ListwisePositionEffect {
+  slotMeanRanks: number[]; // mean rank of whichever candidate was shown in each slot
+  positionRankCorrelation: number; // slot vs rank, -1–1; negative favours later slots
+  rankAgreement: number; // Kendall's W across orderings, 0–1
+}
+
+export interface ListwiseEvalResult {
+  id: string;
+  mode: "listwise";
+  createdAt: string;
+  input: ListwiseEvalInput;
+  rubric: Rubric;
+  judgeModel: ModelSpec;
+  chainOfThought: string; // from the first ordering
+  summary: string;
+  ranking: ListwiseRankedCandidate[]; // best first
+  orderings: ListwiseOrdering[];
+  positionEffect?: ListwisePositionEffect; // two or more orderings only
+  inputTokens: number;
+  outputTokens: number;
+  billedInputTokens?: number; // excludes cache hits
+  billedOutputTokens?: number;
+  estimatedCostUsd: number;
+  pricingVersion?: string;
+  cacheHit?: boolean; // every judge call was served from the cache
+  judgeParse?: JudgeParseInfo; // the most rescued of the orderings
+  validation?: JudgeValidationReport; // covers every ordering
+  injectionFlags?: InjectionFlag[];
+  rubricVersionRef?: RubricVersionRef;
+}
+
+// ── Streaming ────────────────────────────────────────────────────────────────
+
+/** What a streaming single evaluation has produced so far. */
+export interface SingleEvalPartial {
+  mode: "single";
+  streaming: true;
+  rubric: Rubric;
+  chainOfThought: string;
+  summary: string;
+  criterionScores: CriterionScore[]; // only criteria scored so far
+  samplesDrawn?: { done: number; total: number }; // first sample done, the rest running
+}
+
+export interface PairwiseEvalPartial {
+  mode: "pairwise";
+  streaming: true;
+  rubric: Rubric;
+  chainOfThought: string;
+  summary: string;
+  criterionScoresA: CriterionScore[];
+  criterionScoresB: CriterionScore[];
+  verdict?: PairwiseVerdict;
+  verdictReasoning: string;
+  checkingPositionBias?: boolean; // primary pass done, reversed pass running
+  samplesDrawn?: { done: number; total: number }; // first sample done, the rest running
+}
+
+export type EvalPartial = SingleEvalPartial | PairwiseEvalPartial;
+
+export interface EvalStreamErrorBody {
+  error: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Server-Sent Events of a streaming evaluation: any number of `progress`
+ * events, then exactly one `result` or `error`.
+ */
+export type EvalStreamEvent =
+  | { type: "progress"; partial: EvalPartial }
+  | { type: "result"; result: EvalResult }
+  | { type: "error"; status: number; body: EvalStreamErrorBody };
+
 // ── Datasets ─────────────────────────────────────────────────────────────────
 
-export type DatasetMode = "single" | "pairwise";
+export type DatasetMode = "single" | "pairwise" | "listwise";
 
 export interface DatasetItem {
   id: string;
@@ -140,7 +542,14 @@ export interface DatasetItem {
   response?: string;
   responseA?: string;
   responseB?: string;
+  modelLabelA?: string; // model that wrote responseA; credited in leaderboards
+  modelLabelB?: string;
+  responses?: ListwiseCandidate[];
   context?: string;
+  referenceAnswer?: string;
+  messages?: ConversationMessage[];
+  conversationScope?: ConversationScope;
+  trajectory?: AgentTrajectory;
   tags: string[];
   metadata?: Record<string, string>;
   goldScore?: number;
@@ -186,12 +595,16 @@ export interface RunConfig {
   datasetId?: string;
   datasetVersionId?: string;
   evalMode: EvaluationMode;
+  referenceGuided?: boolean; // single runs graded against reference answers
   judgeModelId: string;
   rubricId: string;
   repeats: number;
   rubricVersionRef?: RubricVersionRef;
   judgePromptVersionRef?: JudgePromptVersionRef;
   ensemble?: Array<{ modelId: string; weight: number }>;
+  detectPositionBias?: boolean;
+  positionBiasPolicy?: PositionBiasPolicy;
+  preferenceScale?: PreferenceScale;
   gates?: {
     minMeanAggregateScore?: number;
     minPassRate?: number;
@@ -205,8 +618,13 @@ export interface RunMetricSummary {
   winRateA?: number;
   winRateB?: number;
   tieRate?: number;
+  meanPreferenceMargin?: number; // graded scales only; positive favours A
+  degradedCount?: number; // cases whose judge output failed strict validation
+  inconsistentCount?: number; // pairs whose verdict changed when the order was swapped
   inputTokens: number;
   outputTokens: number;
+  billedInputTokens?: number; // excludes cache hits; absent means every token was billed
+  billedOutputTokens?: number;
   estimatedCostUsd: number;
 }
 
@@ -221,20 +639,35 @@ export interface ExperimentRun {
   rubricVersionRef?: RubricVersionRef;
   judgePromptVersionRef?: JudgePromptVersionRef;
   metrics: RunMetricSummary;
+  pricingVersions?: Record<string, string>; // judge model id → pricing version
+  partial?: {
+    reason: string; // e.g. the budget that stopped the run
+    evaluatedCases: number;
+    plannedCases: number;
+  };
   regression?: {
     passed: boolean;
     reasons: string[];
   };
   sourceEvalResultIds: string[];
   evalResults?: EvalResult[];
+  pairwiseOutcomes?: PairwiseCaseOutcome[]; // dataset pairwise runs, one per evaluated case
+  synthetic?: boolean; // scores and verdicts were seeded, not judged
   notes?: string;
 }
 
+/** The verdict of one evaluated case of a dataset pairwise run. */
+export interface PairwiseCaseOutcome {
+  itemId: string;
+  verdict: PairwiseVerdict;
+}
+
 export interface RunComparison {
   baselineRunId: string;
   candidateRunId: string;
   compatible: boolean;
   warnings: string[];
+  judgePromptChanged?: boolean; // template text differs, whatever the version numbers
   verdict: "improved" | "regressed" | "mixed" | "inconclusive";
   deltas: {
     meanAggregateScore: number;
@@ -245,15 +678,64 @@ export interface RunComparison {
     winRateA?: number;
     winRateB?: number;
     tieRate?: number;
+    meanPreferenceMargin?: number;
+  };
+  cost?: {
+    basis: CostBasis;
+    referenceDate?: string; // pricing date used when basis is "reference"
+    baselineCostUsd: number;
+    candidateCostUsd: number;
   };
 }
 
+// ── Leaderboard ──────────────────────────────────────────────────────────────
+
+export type RatingMethod = "bradley_terry" | "elo";
+
+/** One pairwise comparison between two named models. */
+export interface LeaderboardMatch {
+  modelA: string;
+  modelB: string;
+  verdict: PairwiseVerdict;
+  rubricId: string;
+  judgeModelId: string;
+  tags?: string[]; // dataset item tags; ad-hoc results have none
+  synthetic?: boolean; // from a synthetic dataset run, not a judge verdict
+  createdAt: string;
+}
+
+export interface LeaderboardFilters {
+  rubricId?: string;
+  judgeModelId?: string;
+  slice?: string; // dataset slice id, e.g. "difficulty:hard"
+}
+
+export interface LeaderboardEntry {
+  model: string;
+  rank: number; // 1 = best; equal ratings share a rank
+  rating: number; // Elo scale, centred on 1000
+  ciLow: number; // 95% bootstrap interval
+  ciHigh: number;
+  matches: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export interface Leaderboard {
+  method: RatingMethod;
+  entries: LeaderboardEntry[]; // best first
+  matchCount: number;
+  bootstrapRounds: number;
+}
+
 // ── Judge QA ─────────────────────────────────────────────────────────────────
 
 export interface AgreementMetrics {
   sampleSize: number;
   exactMatchRate: number;
   cohenKappa: number;
+  weightedKappa?: number; // graded preferences, quadratic weights
   scoreCorrelation?: number;
   meanAbsoluteError?: number;
 }
@@ -263,6 +745,8 @@ export interface CalibrationItem {
   prompt?: string;
   humanVerdict?: PairwiseVerdict;
   judgeVerdict?: PairwiseVerdict;
+  humanPreference?: number; // signed margin on a graded scale
+  judgePreference?: number;
   humanScore?: number;
   judgeScore?: number;
 }
@@ -294,7 +778,13 @@ export interface BiasCheckResult {
 
 // ── Batch ────────────────────────────────────────────────────────────────────
 
-export type BatchRowStatus = "pending" | "running" | "done" | "error";
+export type BatchRowStatus =
+  | "pending"
+  | "running"
+  | "waiting"
+  | "done"
+  | "error"
+  | "skipped";
 
 export interface BatchRow {
   index: number;
@@ -303,6 +793,73 @@ export interface BatchRow {
   status: BatchRowStatus;
   result?: EvalResult;
   error?: string;
+  errorCode?: JudgeErrorCode;
+  retry?: JudgeRetryInfo;
+}
+
+// ── Judge call errors ────────────────────────────────────────────────────────
+
+export type JudgeErrorCode = "rate_limited" | "provider_unavailable";
+
+export interface JudgeRetryInfo {
+  provider: Provider;
+  attempts: number; // judge calls made, including the first
+  statusCode?: number;
+  retryAfterMs?: number; // provider-requested wait before the next attempt
+}
+
+/** Error body returned by evaluate routes when a judge call is given up on. */
+export interface JudgeErrorResponse {
+  error: string;
+  code: JudgeErrorCode;
+  retry: JudgeRetryInfo;
+}
+
+// ── Spend budgets ────────────────────────────────────────────────────────────
+
+export type BudgetScope = "run" | "day" | "provider";
+
+export interface SpendBudgets {
+  maxRunUsd?: number; // per request, or per batch when a runId is sent
+  maxDailyUsd?: number; // all providers, per UTC day
+  maxProviderDailyUsd?: Record<string, number>; // provider id → USD per UTC day
+}
+
+export interface BudgetViolation {
+  scope: BudgetScope;
+  provider?: Provider;
+  limitUsd: number;
+  spentUsd: number; // already recorded against this scope
+  projectedUsd: number; // projected cost of the refused work
+}
+
+/** Error body returned when a request would exceed a spend budget. */
+export interface BudgetErrorResponse {
+  error: string;
+  code: "budget_exceeded";
+  budget: BudgetViolation;
+}
+
+// ── Cost estimates ───────────────────────────────────────────────────────────
+
+export interface ModelCostEstimate {
+  modelId: string;
+  provider: Provider;
+  pricingVersion: string;
+  weight: number; // normalized ensemble weight
+  judgeCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number; // weighted share of the run cost
+}
+
+export interface CostEstimate {
+  caseCount: number;
+  judgeCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+  byModel: ModelCostEstimate[];
 }
 
 // ── Settings ─────────────────────────────────────────────────────────────────
@@ -311,6 +868,7 @@ export interface ApiKeys {
   openai?: string;
   anthropic?: string;
   google?: string;
+  [providerId: string]: string | undefined;
 }
 
 export interface AlertThresholds {
@@ -323,5 +881,11 @@ export interface AppSettings {
   apiKeys: ApiKeys;
   defaultModelId: string;
   defaultRubricId: string;
+  defaultJudgePromptKey: string; // e.g. "judge-prompt@1"; see judgePromptVersionKey
   alertThresholds: AlertThresholds;
+  budgets: SpendBudgets;
+  customProviders: ProviderSpec[];
+  customModels: ModelSpec[];
+  bypassJudgeCache: boolean;
+  costBasis: CostBasis;
 }
@@ -1,6 +1,6 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
-import type { CriterionScore, RubricCriterion } from "./types";
+import type { CriterionScore, Rubric, RubricCriterion } from "./types";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -21,24 +21,52 @@ export function scoreToBarColor(score: number, maxScore: number): string {
   return "bg-red-500";
 }
 
-// Compute aggregate score (0–100) from criterion scores
+// Valid scores for a criterion: scoreMin–scoreRange, or 0/1 (fail/pass) for a check.
+export function criterionScoreBounds(criterion: RubricCriterion): { min: number; max: number } {
+  return criterion.type === "checklist"
+    ? { min: 0, max: 1 }
+    : { min: criterion.scoreMin ?? 1, max: criterion.scoreRange };
+}
+
+// Compute aggregate score (0–100) from criterion scores. Scale scores count
+// as score/max; checklist criteria count as 100 when passed and 0 when failed.
 export function computeAggregateScore(
   criterionScores: CriterionScore[],
-  criteria: RubricCriterion[]
+  rubric: Pick<Rubric, "criteria" | "checklistPolicy">
 ): number {
+  if (failsChecklistGate(criterionScores, rubric)) return 0;
+
   let weightedSum = 0;
   let totalWeight = 0;
 
   for (const cs of criterionScores) {
-    const criterion = criteria.find((c) => c.id === cs.criterionId);
+    const criterion = rubric.criteria.find((c) => c.id === cs.criterionId);
     if (!criterion) continue;
-    const normalized = (cs.score / cs.maxScore) * 100;
+    const normalized =
+      cs.passed !== undefined
+        ? cs.passed
+          ? 100
+          : 0
+        : (Math.max(cs.minScore ?? 1, Math.min(cs.maxScore, cs.score)) / cs.maxScore) * 100;
     weightedSum += normalized * criterion.weight;
     totalWeight += criterion.weight;
   }
 
   if (totalWeight === 0) return 0;
-  return Math.round((weightedSum / totalWeight) * 10) / 10;
+  const score = weightedSum / totalWeight;
+  return Math.round(Math.max(0, Math.min(100, score)) * 10) / 10;
+}
+
+// Under `all_must_pass`, one failed checklist criterion zeroes the aggregate,
+// whatever the judge reported.
+export function failsChecklistGate(
+  criterionScores: CriterionScore[],
+  rubric: Pick<Rubric, "checklistPolicy">
+): boolean {
+  return (
+    rubric.checklistPolicy === "all_must_pass" &&
+    criterionScores.some((cs) => cs.passed === false)
+  );
 }
 
 // Format cost in USD
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  flattenConversation,
+  parseConversationMessages,
+  resolveConversationRow,
+} from "@/lib/conversation";
+import type { ConversationMessage } from "@/lib/types";
+
+const CHAT: ConversationMessage[] = [
+  { role: "system", content: "Be brief." },
+  { role: "user", content: "What is 2+2?" },
+  { role: "assistant", content: "4" },
+  { role: "user", content: "And 3+3?" },
+  { role: "assistant", content: "6" },
+];
+
+describe("parseConversationMessages", () => {
+  it("parses JSON text as found in a CSV cell", () => {
+    expect(parseConversationMessages(JSON.stringify(CHAT))).toEqual({ ok: true, messages: CHAT });
+  });
+
+  it("normalizes role aliases and keeps trimmed names", () => {
+    const parsed = parseConversationMessages([
+      { role: " Developer ", content: "Be brief." },
+      { role: "human", content: "Look it up." },
+      { role: "function", name: " search ", content: "No results." },
+      { role: "model", name: "  ", content: "Nothing found." },
+    ]);
+
+    expect(parsed).toEqual({
+      ok: true,
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Look it up." },
+        { role: "tool", name: "search", content: "No results." },
+        { role: "assistant", content: "Nothing found." },
+      ],
+    });
+  });
+
+  it("joins the text parts of multi-part content", () => {
+    const parsed = parseConversationMessages([
+      {
+        role: "user",
+        content: ["Describe", { type: "image_url", image_url: "x" }, { type: "text", text: "this." }],
+      },
+    ]);
+
+    expect(parsed).toEqual({ ok: true, messages: [{ role: "user", content: "Describe\nthis." }] });
+  });
+
+  it.each([
+    ["invalid JSON", "[{role: user}", "messages must be a JSON array."],
+    ["an empty array", [], "messages must be a non-empty array."],
+    ["a non-array", { role: "user", content: "Hi" }, "messages must be a non-empty array."],
+    ["a non-object entry", ["Hi"], "messages[0] must be an object."],
+    [
+      "an unknown role",
+      [{ role: "user", content: "Hi" }, { role: "narrator", content: "Meanwhile" }],
+      'messages[1] has unknown role "narrator"; use system, user, assistant, tool.',
+    ],
+    [
+      "content without text",
+      [{ role: "user", content: [{ type: "image_url", image_url: "x" }] }],
+      "messages[0] needs text content.",
+    ],
+  ])("rejects %s", (_, raw, error) => {
+    expect(parseConversationMessages(raw)).toEqual({ ok: false, error });
+  });
+});
+
+describe("flattenConversation", () => {
+  it("takes the last user message and the final assistant turn", () => {
+    expect(flattenConversation(CHAT)).toEqual({ prompt: "And 3+3?", response: "6" });
+  });
+
+  it("has no response when the transcript ends on a user turn", () => {
+    expect(flattenConversation(CHAT.slice(0, 4))).toEqual({ prompt: "And 3+3?", response: "" });
+  });
+});
+
+describe("resolveConversationRow", () => {
+  it("appends a separate response column as the graded turn", () => {
+    const row = resolveConversationRow(CHAT.slice(0, 4), "single", { prompt: "", response: "6" });
+
+    expect(row).toEqual({ messages: CHAT, prompt: "And 3+3?", response: "6" });
+  });
+
+  it("keeps a pairwise transcript as history before the candidates", () => {
+    const history = CHAT.slice(0, 4);
+
+    expect(resolveConversationRow(history, "pairwise", { prompt: "", response: "" })).toEqual({
+      messages: history,
+      prompt: "And 3+3?",
+      response: "",
+    });
+  });
+});
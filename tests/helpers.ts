@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import { getBuiltInRubricById } from "@/lib/rubric-templates";
+import type { Rubric } from "@/lib/types";
+
+// Shared fixtures for route tests. Every judge call goes to the offline mock
+// judge, so the suite needs no API keys and no network.
+
+export const MOCK_MODEL_ID = "mock-judge";
+
+export type RouteHandler = (req: NextRequest) => Promise<Response>;
+
+export async function postJson<T = Record<string, unknown>>(
+  handler: RouteHandler,
+  path: string,
+  body: unknown
+): Promise<{ status: number; data: T }> {
+  const res = await handler(
+    new NextRequest(`http://localhost${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  );
+  return { status: res.status, data: (await res.json()) as T };
+}
+
+export function builtInRubric(id = "builtin-helpfulness"): Rubric {
+  const rubric = getBuiltInRubricById(id);
+  if (!rubric) throw new Error(`No built-in rubric ${id}`);
+  return rubric;
+}
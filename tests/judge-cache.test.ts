@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { LanguageModel } from "ai";
+import { z } from "zod";
+import {
+  createMemoryJudgeCacheStore,
+  generateJudgeJson,
+  generateJudgeText,
+  judgeCacheKey,
+  judgeCallCostUsd,
+  setJudgeCacheStore,
+  type JudgeCallParams,
+} from "@/lib/judge-cache";
+import type { JudgeTarget } from "@/lib/judge-models";
+import { JudgeJsonParseError } from "@/lib/judge-output";
+import { openAICompatibleProvider } from "@/lib/providers";
+import type { ModelSpec } from "@/lib/types";
+
+// Judge cache hits, misses and key isolation against a scripted judge.
+
+type ScriptedModel = Extract<LanguageModel, { specificationVersion: "v3" }>;
+
+/** A judge that answers with `replies` in order, repeating the last one. */
+function scriptedJudge(replies: string[], baseURL = "http://scripted.test/v1") {
+  let calls = 0;
+  const model: ScriptedModel = {
+    specificationVersion: "v3",
+    provider: "scripted",
+    modelId: "scripted-judge",
+    supportedUrls: {},
+    async doGenerate() {
+      const text = replies[Math.min(calls, replies.length - 1)];
+      calls += 1;
+      return {
+        content: [{ type: "text", text }],
+        finishReason: { unified: "stop", raw: "stop" },
+        usage: {
+          inputTokens: { total: 100, noCache: 100, cacheRead: undefined, cacheWrite: undefined },
+          outputTokens: { total: 20, text: 20, reasoning: undefined },
+        },
+        warnings: [],
+      };
+    },
+    async doStream() {
+      throw new Error("The scripted judge does not stream");
+    },
+  };
+  const provider = openAICompatibleProvider({ id: "scripted", name: "Scripted", baseURL });
+  const judgeModel: ModelSpec = {
+    id: "scripted-judge",
+    name: "Scripted judge",
+    provider: provider.id,
+    inputCostPer1M: 1,
+    outputCostPer1M: 1,
+  };
+  const judge: JudgeTarget = { judgeModel, provider, model };
+  return { judge, calls: () => calls };
+}
+
+const VALID = JSON.stringify({ scores: { accuracy: 8 }, summary: "Fine." });
+
+beforeEach(() => {
+  globalThis.__rapidJudgeCache = undefined;
+  setJudgeCacheStore(createMemoryJudgeCacheStore());
+});
+
+describe("judge cache", () => {
+  it("serves a repeated call from the cache", async () => {
+    const { judge, calls } = scriptedJudge([VALID]);
+
+    const first = await generateJudgeText({ judge, prompt: "Grade this." });
+    const second = await generateJudgeText({ judge, prompt: "Grade this." });
+
+    expect(first.cacheHit).toBe(false);
+    expect(second).toMatchObject({ cacheHit: true, text: first.text, inputTokens: 100 });
+    expect(calls()).toBe(1);
+  });
+
+  it("misses on a bypassed call and on a new sample", async () => {
+    const { judge, calls } = scriptedJudge([VALID]);
+
+    await generateJudgeText({ judge, prompt: "Grade this." });
+    const bypassed = await generateJudgeText({ judge, prompt: "Grade this.", bypassCache: true });
+    const sampled = await generateJudgeText({ judge, prompt: "Grade this.", sample: 1 });
+
+    expect(bypassed.cacheHit).toBe(false);
+    expect(sampled.cacheHit).toBe(false);
+    expect(calls()).toBe(3);
+  });
+
+  it("never stores an unparseable reply", async () => {
+    const { judge, calls } = scriptedJudge(["not json"]);
+
+    await generateJudgeText({ judge, prompt: "Grade this." });
+    const second = await generateJudgeText({ judge, prompt: "Grade this." });
+
+    expect(second.cacheHit).toBe(false);
+    expect(calls()).toBe(2);
+  });
+
+  it("keeps OpenAI-compatible servers with the same model id apart", async () => {
+    const local = scriptedJudge([VALID], "http://localhost:11434/v1");
+    const remote = scriptedJudge([VALID], "https://llm.example.com/v1");
+
+    await generateJudgeText({ judge: local.judge, prompt: "Grade this." });
+    const other = await generateJudgeText({ judge: remote.judge, prompt: "Grade this." });
+
+    expect(other.cacheHit).toBe(false);
+    expect(remote.calls()).toBe(1);
+  });
+
+  it("reports a re-ask served from the cache and still bills the first reply", async () => {
+    const unparseable = "I would rate this an 8.";
+    const first = scriptedJudge([unparseable, VALID]);
+    await generateJudgeJson({ judge: first.judge, prompt: "Grade this." });
+
+    // The same bad first reply again; its re-ask is now a cache hit.
+    const second = scriptedJudge([unparseable]);
+    const result = await generateJudgeJson({ judge: second.judge, prompt: "Grade this." });
+
+    expect(second.calls()).toBe(1);
+    expect(result).toMatchObject({
+      cacheHit: true,
+      parse: { tier: "reprompted" },
+      inputTokens: 200,
+      billedInputTokens: 100,
+      billedOutputTokens: 20,
+    });
+    expect(judgeCallCostUsd({ inputCostPer1M: 1e6, outputCostPer1M: 1e6 }, result)).toBe(120);
+  });
+});
+
+describe("re-asking the judge", () => {
+  const schema = z.object({ scores: z.object({ accuracy: z.number(), clarity: z.number() }) });
+  const complete = JSON.stringify({ scores: { accuracy: 8, clarity: 7 } });
+
+  it("re-asks a reply truncated before its scores", async () => {
+    const { judge, calls } = scriptedJudge(['Sure! {"scores": {"accuracy": 8, "clar', complete]);
+
+    const result = await generateJudgeJson({ judge, prompt: "Grade this.", schema });
+
+    expect(calls()).toBe(2);
+    expect(result).toMatchObject({
+      parsed: { scores: { accuracy: 8, clarity: 7 } },
+      parse: { tier: "reprompted" },
+      inputTokens: 200,
+      outputTokens: 40,
+    });
+  });
+
+  it("throws the first parse error when the re-ask fails too", async () => {
+    const { judge, calls } = scriptedJudge(["I would rate this an 8."]);
+
+    const failure = generateJudgeJson({ judge, prompt: "Grade this.", schema });
+
+    await expect(failure).rejects.toBeInstanceOf(JudgeJsonParseError);
+    await expect(failure).rejects.toMatchObject({ raw: "I would rate this an 8." });
+    expect(calls()).toBe(2);
+  });
+});
+
+describe("judgeCacheKey", () => {
+  const params: JudgeCallParams = {
+    modelId: "openai/gpt-4o-mini",
+    prompt: "Grade <untrusted_response_0123456789abcdef>\nHi\n</untrusted_response_0123456789abcdef>",
+    temperature: 0.1,
+    maxOutputTokens: 4096,
+    structured: true,
+  };
+
+  it("ignores fence nonces", () => {
+    expect(
+      judgeCacheKey({ ...params, prompt: params.prompt.replaceAll("0123456789abcdef", "fedcba9876543210") })
+    ).toBe(judgeCacheKey(params));
+  });
+
+  it.each([
+    ["model", { modelId: "openai/gpt-4o" }],
+    ["base URL", { baseURL: "http://localhost:11434/v1" }],
+    ["temperature", { temperature: 0.7 }],
+    ["output limit", { maxOutputTokens: 1024 }],
+    ["structured output", { structured: false }],
+    ["sample", { sample: 2 }],
+  ] as const)("changes with the %s", (_, change) => {
+    expect(judgeCacheKey({ ...params, ...change })).not.toBe(judgeCacheKey(params));
+  });
+});
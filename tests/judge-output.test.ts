@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { JudgeJsonParseError, recoverJudgeJson } from "@/lib/judge-output";
+
+// Recovery tiers of free-text judge replies; the re-ask tier is covered in
+// judge-cache.test.ts, where the judge is called.
+
+const SCORE_KEYS = ["accuracy", "clarity"];
+const REPLY = { chain_of_thought: "- good", scores: { accuracy: 8, clarity: 7 } };
+
+describe("recoverJudgeJson", () => {
+  it("parses a clean reply directly", () => {
+    expect(recoverJudgeJson(JSON.stringify(REPLY), SCORE_KEYS)).toEqual({
+      value: REPLY,
+      tier: "direct",
+    });
+  });
+
+  it("parses a fenced reply directly", () => {
+    const text = "```json\n" + JSON.stringify(REPLY) + "\n```";
+    expect(recoverJudgeJson(text, SCORE_KEYS).tier).toBe("direct");
+  });
+
+  it("extracts the first balanced object from surrounding prose", () => {
+    const text = `Here is my grade: ${JSON.stringify(REPLY)} Let me know if {anything} else.`;
+    expect(recoverJudgeJson(text, SCORE_KEYS)).toEqual({ value: REPLY, tier: "extracted" });
+  });
+
+  it("repairs almost-JSON with bare keys, single quotes and a trailing comma", () => {
+    const text = "{chain_of_thought: '- good', scores: {accuracy: 8, clarity: 7,},}";
+    expect(recoverJudgeJson(text, SCORE_KEYS)).toEqual({ value: REPLY, tier: "repaired" });
+  });
+
+  it("repairs a reply truncated after its scores", () => {
+    const text = '{"chain_of_thought": "- good", "scores": {"accuracy": 8, "clarity": 7}, "summ';
+    expect(recoverJudgeJson(text, SCORE_KEYS)).toEqual({ value: REPLY, tier: "repaired" });
+  });
+
+  it("fails a reply truncated before all of its scores", () => {
+    const text = 'Sure! {"chain_of_thought": "- good", "scores": {"accuracy": 8, "clar';
+    expect(() => recoverJudgeJson(text, SCORE_KEYS)).toThrow(
+      new JudgeJsonParseError("Judge reply was cut off before the scores for clarity", text)
+    );
+  });
+
+  it("fails a reply with no object at all", () => {
+    expect(() => recoverJudgeJson("I would rate this an 8.", SCORE_KEYS)).toThrow(
+      JudgeJsonParseError
+    );
+  });
+});
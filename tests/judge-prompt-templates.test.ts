@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_JUDGE_PROMPT_VERSION,
+  DEFAULT_JUDGE_PROMPT_VERSION_REF,
+  effectivePromptFingerprint,
+  findTemplateProblems,
+  judgePromptFingerprint,
+  renderJudgePrompt,
+} from "@/lib/judge-prompt-templates";
+import { buildSinglePrompt } from "@/lib/prompts";
+import type { JudgePromptTemplateVersion } from "@/lib/types";
+import { MOCK_MODEL_ID, builtInRubric } from "./helpers";
+
+const CUSTOM: JudgePromptTemplateVersion = {
+  templateId: "custom",
+  versionNumber: 1,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  single: "Grade {{response}} to {{prompt}}.\n{{rubric}}\n{{output_schema}}",
+  pairwise:
+    "Compare {{response_a}} and {{response_b}} for {{prompt}}.\n{{rubric}}\n{{output_schema}}",
+};
+
+describe("renderJudgePrompt", () => {
+  it("fills placeholders, tolerating inner spaces", () => {
+    expect(renderJudgePrompt("Q: {{prompt}} / A: {{ response }}", { prompt: "2+2", response: "4" })).toBe(
+      "Q: 2+2 / A: 4"
+    );
+  });
+
+  it("leaves unknown placeholders as written", () => {
+    expect(renderJudgePrompt("{{prompt}} {{tone}}", { prompt: "Hi" })).toBe("Hi {{tone}}");
+  });
+
+  it("never expands placeholders inside the values", () => {
+    expect(
+      renderJudgePrompt("{{response}} / {{rubric}}", { response: "{{rubric}}", rubric: "R" })
+    ).toBe("{{rubric}} / R");
+  });
+
+  it("renders a custom template into the judge prompt", () => {
+    const judgePrompt = buildSinglePrompt(
+      { prompt: "What is 2+2?", response: "4", rubricId: "builtin-helpfulness", modelId: MOCK_MODEL_ID },
+      builtInRubric(),
+      CUSTOM
+    );
+
+    expect(judgePrompt.startsWith("Grade <untrusted_response_")).toBe(true);
+    expect(judgePrompt).not.toMatch(/\{\{\s*[a-z_]+\s*\}\}/);
+  });
+});
+
+describe("findTemplateProblems", () => {
+  it("accepts the built-in template and a minimal custom one", () => {
+    expect(findTemplateProblems(DEFAULT_JUDGE_PROMPT_VERSION)).toEqual([]);
+    expect(findTemplateProblems(CUSTOM)).toEqual([]);
+  });
+
+  it("reports missing required placeholders per mode", () => {
+    expect(
+      findTemplateProblems({
+        single: "Grade {{response}}.\n{{rubric}}\n{{output_schema}}",
+        pairwise: CUSTOM.pairwise.replace("{{response_b}}", ""),
+      })
+    ).toEqual([
+      "Single template is missing {{prompt}}.",
+      "Pairwise template is missing {{response_b}}.",
+    ]);
+  });
+
+  it("reports unknown placeholders, including those of the other mode", () => {
+    expect(
+      findTemplateProblems({
+        single: `${CUSTOM.single} {{response_a}} {{tone}}`,
+        pairwise: CUSTOM.pairwise,
+      })
+    ).toEqual([
+      "Single template uses unknown placeholder {{response_a}}.",
+      "Single template uses unknown placeholder {{tone}}.",
+    ]);
+  });
+
+  it("leaves optional placeholders out without complaint", () => {
+    expect(
+      findTemplateProblems({ single: CUSTOM.single, pairwise: `${CUSTOM.pairwise} {{evaluation_mode}}` })
+    ).toEqual([]);
+  });
+});
+
+describe("prompt fingerprints", () => {
+  it("change with either body and ignore version metadata", () => {
+    const base = judgePromptFingerprint(CUSTOM);
+    const next: JudgePromptTemplateVersion = { ...CUSTOM, versionNumber: 2, notes: "Same text" };
+
+    expect(judgePromptFingerprint(next)).toBe(base);
+    expect(judgePromptFingerprint({ ...CUSTOM, single: `${CUSTOM.single}\n` })).not.toBe(base);
+    expect(judgePromptFingerprint({ ...CUSTOM, pairwise: `${CUSTOM.pairwise}\n` })).not.toBe(base);
+  });
+
+  it("credit refs recorded before templates to the built-in text", () => {
+    const { fingerprint, ...legacy } = DEFAULT_JUDGE_PROMPT_VERSION_REF;
+
+    expect(effectivePromptFingerprint(undefined)).toBe(fingerprint);
+    expect(effectivePromptFingerprint(legacy)).toBe(fingerprint);
+    expect(effectivePromptFingerprint({ ...legacy, id: "custom" })).toBeUndefined();
+  });
+});
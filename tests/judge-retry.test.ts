@@ -0,0 +1,361 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { NextRequest } from "next/server";
+import { afterEach, describe, expect, it } from "vitest";
+import { APICallError, generateText, type LanguageModel } from "ai";
+import { POST as single } from "@/app/api/evaluate/single/route";
+import { generateJudgeText } from "@/lib/judge-cache";
+import { createJudgeModel, type JudgeTarget } from "@/lib/judge-models";
+import { JudgeCallError, withJudgeRetry } from "@/lib/judge-retry";
+import { openAICompatibleProvider } from "@/lib/providers";
+import { getServerMemory } from "@/lib/server-memory";
+import type { JudgeErrorResponse, ModelSpec, ProviderSpec, RetryPolicy } from "@/lib/types";
+import { builtInRubric } from "./helpers";
+
+// Judge-call retries against a local stub of an OpenAI-compatible server.
+
+interface StubReply {
+  status: number;
+  headers?: Record<string, string>;
+  content?: string; // assistant message of a 200 reply
+}
+
+interface Stub {
+  provider: ProviderSpec;
+  model: ModelSpec;
+  hits: () => number;
+}
+
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(
+    servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve)))
+  );
+});
+
+/** Serves `replies` in order, repeating the last one. */
+async function startStub(replies: StubReply[]): Promise<Stub> {
+  let hits = 0;
+  const server = createServer((req, res) => {
+    req.resume();
+    req.on("end", () => {
+      const reply = replies[Math.min(hits, replies.length - 1)];
+      hits += 1;
+      res.writeHead(reply.status, { "Content-Type": "application/json", ...reply.headers });
+      res.end(
+        JSON.stringify(
+          reply.status === 200
+            ? {
+                id: "stub",
+                object: "chat.completion",
+                created: 0,
+                model: "stub-judge",
+                choices: [
+                  {
+                    index: 0,
+                    message: { role: "assistant", content: reply.content ?? "{}" },
+                    finish_reason: "stop",
+                  },
+                ],
+                usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+              }
+            : { error: { message: `stub ${reply.status}` } }
+        )
+      );
+    });
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const provider = openAICompatibleProvider({
+    id: "stub",
+    name: "Stub",
+    baseURL: `http://127.0.0.1:${port}/v1`,
+  });
+  const model: ModelSpec = {
+    id: "stub-judge",
+    name: "Stub judge",
+    provider: provider.id,
+    inputCostPer1M: 0,
+    outputCostPer1M: 0,
+  };
+  return { provider, model, hits: () => hits };
+}
+
+const FAST_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  initialDelayMs: 0,
+  maxDelayMs: 0,
+  backoffFactor: 2,
+  maxRetryAfterMs: 5000,
+};
+
+function callStub(stub: Stub, policy: RetryPolicy = FAST_POLICY) {
+  const model = createJudgeModel(stub.provider, stub.model.id, "");
+  return withJudgeRetry(
+    stub.provider,
+    () => generateText({ model, prompt: "Grade this.", maxRetries: 0 }),
+    { policy }
+  );
+}
+
+async function rejection(promise: Promise<unknown>): Promise<JudgeCallError> {
+  const err = await promise.then(
+    () => undefined,
+    (e: unknown) => e
+  );
+  expect(err).toBeInstanceOf(JudgeCallError);
+  return err as JudgeCallError;
+}
+
+describe("withJudgeRetry against a stub server", () => {
+  it("waits for retry-after-ms before retrying a 429", async () => {
+    const stub = await startStub([
+      { status: 429, headers: { "retry-after-ms": "250" } },
+      { status: 200, content: "ok" },
+    ]);
+
+    const startedAt = Date.now();
+    const { text } = await callStub(stub);
+
+    expect(text).toBe("ok");
+    expect(stub.hits()).toBe(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(240);
+  });
+
+  it("waits for Retry-After seconds before retrying a 503", async () => {
+    const stub = await startStub([
+      { status: 503, headers: { "Retry-After": "1" } },
+      { status: 200, content: "ok" },
+    ]);
+
+    const startedAt = Date.now();
+    await callStub(stub);
+
+    expect(stub.hits()).toBe(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(950);
+  });
+
+  it("gives up on 429s after the retry cap", async () => {
+    const stub = await startStub([{ status: 429, headers: { "retry-after-ms": "0" } }]);
+
+    const err = await rejection(callStub(stub));
+
+    expect(stub.hits()).toBe(FAST_POLICY.maxRetries + 1);
+    expect(err.code).toBe("rate_limited");
+    expect(err.status).toBe(429);
+    expect(err.retry).toMatchObject({ attempts: 4, statusCode: 429, retryAfterMs: 0 });
+  });
+
+  it("returns a Retry-After longer than the policy allows to the caller", async () => {
+    const stub = await startStub([{ status: 429, headers: { "Retry-After": "120" } }]);
+
+    const err = await rejection(callStub(stub));
+
+    expect(stub.hits()).toBe(1);
+    expect(err.retry.retryAfterMs).toBe(120_000);
+    expect(err.responseHeaders()).toEqual({ "Retry-After": "120" });
+  });
+
+  it("maps exhausted 5xx failures to provider_unavailable", async () => {
+    const stub = await startStub([{ status: 503 }]);
+
+    const err = await rejection(callStub(stub));
+
+    expect(stub.hits()).toBe(FAST_POLICY.maxRetries + 1);
+    expect(err.code).toBe("provider_unavailable");
+    expect(err.status).toBe(503);
+  });
+
+  it("does not retry client errors", async () => {
+    const stub = await startStub([{ status: 400 }]);
+
+    await expect(callStub(stub)).rejects.toSatisfy(APICallError.isInstance);
+    expect(stub.hits()).toBe(1);
+  });
+});
+
+describe("evaluate route error mapping", () => {
+  const rubric = builtInRubric();
+
+  async function evaluate(stub: Stub) {
+    const res = await single(
+      new NextRequest("http://localhost/api/evaluate/single", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prompt: "Explain recursion.",
+          response: "A function that calls itself.",
+          rubricId: rubric.id,
+          modelId: stub.model.id,
+          model: stub.model,
+          provider: stub.provider,
+          bypassCache: true,
+        }),
+      })
+    );
+    return { res, body: (await res.json()) as JudgeErrorResponse };
+  }
+
+  it("answers 429 with the retry metadata once retries run out", async () => {
+    const stub = await startStub([{ status: 429, headers: { "retry-after-ms": "0" } }]);
+
+    const { res, body } = await evaluate(stub);
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBe("0");
+    expect(body.code).toBe("rate_limited");
+    expect(body.retry).toMatchObject({ provider: stub.provider.id, statusCode: 429 });
+    expect(body.retry.attempts).toBe(stub.hits());
+  });
+
+  it("answers 503 when the provider stays unavailable", async () => {
+    const stub = await startStub([{ status: 502, headers: { "retry-after-ms": "0" } }]);
+
+    const { res, body } = await evaluate(stub);
+
+    expect(res.status).toBe(503);
+    expect(body.code).toBe("provider_unavailable");
+  });
+});
+
+describe("sampled judge calls", () => {
+  const rubric = builtInRubric();
+  const reply = JSON.stringify({
+    chain_of_thought: "- Stub",
+    scores: Object.fromEntries(rubric.criteria.map((c) => [c.id, c.scoreRange])),
+    criterion_reasoning: {},
+    summary: "Stub reply.",
+    aggregate_score: 100,
+  });
+
+  it("records the spend of completed samples when another one fails", async () => {
+    const stub = await startStub([
+      { status: 200, content: reply },
+      { status: 200, content: reply },
+      { status: 400 },
+    ]);
+    // $1 per token: each stub reply bills 10 input and 5 output tokens.
+    const model = { ...stub.model, inputCostPer1M: 1_000_000, outputCostPer1M: 1_000_000 };
+
+    const res = await single(
+      new NextRequest("http://localhost/api/evaluate/single", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prompt: "Explain recursion.",
+          response: "A function that calls itself.",
+          rubricId: rubric.id,
+          modelId: model.id,
+          model,
+          provider: stub.provider,
+          sampling: { samples: 3, temperature: 0.7 },
+          bypassCache: true,
+          runId: "sampled-run",
+        }),
+      })
+    );
+
+    expect(res.ok).toBe(false);
+    expect(stub.hits()).toBe(3);
+    expect(getServerMemory().spend.byRun["sampled-run"]).toBeCloseTo(30, 6);
+  });
+});
+
+describe("streamed judge calls", () => {
+  /** A model whose stream sends `chunks`, then fails with a 503 while `failures` last. */
+  function flakyStreamTarget(chunks: string[], failures: number) {
+    let calls = 0;
+    const model: Extract<LanguageModel, { specificationVersion: "v3" }> = {
+      specificationVersion: "v3",
+      provider: "flaky",
+      modelId: "flaky-judge",
+      supportedUrls: {},
+      async doGenerate() {
+        throw new Error("stream only");
+      },
+      async doStream() {
+        calls += 1;
+        const fail = calls <= failures;
+        return {
+          stream: new ReadableStream({
+            start(controller) {
+              controller.enqueue({ type: "stream-start", warnings: [] });
+              controller.enqueue({ type: "text-start", id: "0" });
+              for (const delta of chunks) controller.enqueue({ type: "text-delta", id: "0", delta });
+              if (fail) {
+                controller.enqueue({
+                  type: "error",
+                  error: new APICallError({
+                    message: "stub 503",
+                    url: "http://stub",
+                    requestBodyValues: {},
+                    statusCode: 503,
+                    responseHeaders: { "retry-after-ms": "0" },
+                  }),
+                });
+              } else {
+                controller.enqueue({ type: "text-end", id: "0" });
+                controller.enqueue({
+                  type: "finish",
+                  finishReason: { unified: "stop", raw: "stop" },
+                  usage: {
+                    inputTokens: { total: 1, noCache: 1, cacheRead: undefined, cacheWrite: undefined },
+                    outputTokens: { total: 1, text: 1, reasoning: undefined },
+                  },
+                });
+              }
+              controller.close();
+            },
+          }),
+        };
+      },
+    };
+    const provider = openAICompatibleProvider({
+      id: "flaky",
+      name: "Flaky",
+      baseURL: "http://127.0.0.1:9",
+    });
+    const judge: JudgeTarget = {
+      judgeModel: { id: "flaky-judge", name: "Flaky", provider: provider.id, inputCostPer1M: 0, outputCostPer1M: 0 },
+      provider,
+      model,
+    };
+    return { judge, calls: () => calls };
+  }
+
+  it("retries a stream that failed before any output", async () => {
+    const { judge, calls } = flakyStreamTarget([], 1);
+    const partials: unknown[] = [];
+
+    await generateJudgeText({
+      judge,
+      prompt: "Grade this.",
+      bypassCache: true,
+      onPartial: (partial) => partials.push(partial),
+    });
+
+    expect(calls()).toBe(2);
+  });
+
+  it("does not restart a stream that already reported output", async () => {
+    const { judge, calls } = flakyStreamTarget(['{"summary": "half'], 1);
+    const partials: unknown[] = [];
+
+    const err = await rejection(
+      generateJudgeText({
+        judge,
+        prompt: "Grade this.",
+        bypassCache: true,
+        onPartial: (partial) => partials.push(partial),
+      })
+    );
+
+    expect(calls()).toBe(1);
+    expect(partials.length).toBeGreaterThan(0);
+    expect(err.code).toBe("provider_unavailable");
+    expect(err.retry.attempts).toBe(1);
+  });
+});
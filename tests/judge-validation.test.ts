@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import {
+  isDegraded,
+  mergeValidationReports,
+  validateListwiseJudgeOutput,
+  validatePairwiseJudgeOutput,
+  validateSingleJudgeOutput,
+} from "@/lib/judge-validation";
+import type { EvalResult, JudgeValidationReport, Rubric } from "@/lib/types";
+
+const RUBRIC: Rubric = {
+  id: "test-validation",
+  name: "Validation",
+  description: "A scale criterion next to a pass/fail check.",
+  isBuiltIn: false,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  criteria: [
+    { id: "quality", name: "Quality", description: "Overall quality", weight: 0.5, scoreRange: 10 },
+    {
+      id: "cites",
+      name: "Cites sources",
+      description: "Names at least one source",
+      weight: 0.5,
+      scoreRange: 5,
+      type: "checklist",
+    },
+  ],
+};
+
+const CLEAN_SINGLE = {
+  scores: { quality: 7, cites: true },
+  criterion_reasoning: { quality_reasoning: "Clear.", cites_reasoning: "Cites one." },
+  aggregate_score: 80,
+};
+
+function kinds(report: JudgeValidationReport): string[] {
+  return report.issues.map((issue) => issue.kind);
+}
+
+describe("validateSingleJudgeOutput", () => {
+  it("reports nothing for a complete reply", () => {
+    expect(validateSingleJudgeOutput(CLEAN_SINGLE, RUBRIC)).toEqual({ issues: [], degraded: false });
+  });
+
+  it("flags clamped and missing scores as degrading", () => {
+    const report = validateSingleJudgeOutput(
+      { ...CLEAN_SINGLE, scores: { quality: 14 }, aggregate_score: 120 },
+      RUBRIC
+    );
+
+    expect(kinds(report)).toEqual(["score_clamped", "missing_score", "aggregate_clamped"]);
+    expect(report.issues[0]).toMatchObject({
+      path: "scores.quality",
+      message: 'Score 14 for "quality" is outside 1–10; clamped to 10.',
+    });
+    expect(report.degraded).toBe(true);
+  });
+
+  it("keeps cosmetic gaps from degrading the result", () => {
+    const report = validateSingleJudgeOutput(
+      {
+        ...CLEAN_SINGLE,
+        scores: { ...CLEAN_SINGLE.scores, tone: 4 },
+        criterion_reasoning: { quality_reasoning: "" },
+        aggregate_score: undefined,
+      },
+      RUBRIC
+    );
+
+    expect(kinds(report).sort()).toEqual([
+      "missing_aggregate",
+      "missing_reasoning",
+      "missing_reasoning",
+      "unknown_criterion",
+    ]);
+    expect(report.degraded).toBe(false);
+  });
+
+  it("reports every key of an empty reply", () => {
+    const report = validateSingleJudgeOutput({}, RUBRIC);
+
+    expect(report.issues).toHaveLength(5);
+    expect(kinds(report).filter((kind) => kind === "missing_score")).toHaveLength(2);
+    expect(report.degraded).toBe(true);
+  });
+});
+
+describe("validatePairwiseJudgeOutput", () => {
+  const clean = {
+    scores: { quality_A: 7, cites_A: true, quality_B: 5, cites_B: false },
+    criterion_reasoning: {
+      quality_A_reasoning: "a",
+      cites_A_reasoning: "a",
+      quality_B_reasoning: "b",
+      cites_B_reasoning: "b",
+    },
+    aggregate_score_A: 80,
+    aggregate_score_B: 40,
+    verdict: "A",
+  };
+
+  it("tags the issues of a reversed pass", () => {
+    const report = validatePairwiseJudgeOutput({ ...clean, verdict: "Response A" }, RUBRIC, "reversed");
+
+    expect(report.issues).toEqual([
+      {
+        kind: "verdict_coerced",
+        path: "verdict",
+        message: 'Verdict "Response A" is not A, B or tie; recorded as a tie.',
+        pass: "reversed",
+      },
+    ]);
+    expect(report.degraded).toBe(true);
+  });
+
+  it("accepts labels of a graded scale only", () => {
+    expect(validatePairwiseJudgeOutput({ ...clean, verdict: "A>B" }, RUBRIC, undefined, 5).issues).toEqual([]);
+    expect(kinds(validatePairwiseJudgeOutput(clean, RUBRIC, undefined, 5))).toEqual(["verdict_coerced"]);
+  });
+});
+
+describe("validateListwiseJudgeOutput", () => {
+  it("flags slots without a valid rank", () => {
+    const report = validateListwiseJudgeOutput(
+      {
+        scores: { quality_A: 7, cites_A: true, quality_B: 5, cites_B: true },
+        criterion_reasoning: {
+          quality_A_reasoning: "a",
+          cites_A_reasoning: "a",
+          quality_B_reasoning: "b",
+          cites_B_reasoning: "b",
+        },
+        aggregate_scores: { A: 80, B: 60 },
+        ranking: { A: 1, B: 0 },
+      },
+      RUBRIC,
+      2
+    );
+
+    expect(report.issues).toEqual([
+      {
+        kind: "ranking_coerced",
+        path: "ranking",
+        message: "No valid rank for B; ranked by aggregate score instead.",
+      },
+    ]);
+    expect(report.degraded).toBe(true);
+  });
+});
+
+describe("mergeValidationReports", () => {
+  it("is clean with no reports", () => {
+    expect(mergeValidationReports()).toEqual({ issues: [], degraded: false });
+  });
+
+  it("keeps every issue and degrades when any pass did", () => {
+    const clean = validateSingleJudgeOutput(CLEAN_SINGLE, RUBRIC);
+    const empty = validateSingleJudgeOutput({}, RUBRIC);
+    const merged = mergeValidationReports(clean, empty, empty);
+
+    expect(merged.issues).toHaveLength(empty.issues.length * 2);
+    expect(merged.degraded).toBe(true);
+  });
+});
+
+describe("isDegraded", () => {
+  it("treats results recorded before validation as clean", () => {
+    expect(isDegraded({} as EvalResult)).toBe(false);
+    expect(isDegraded({ validation: { issues: [], degraded: true } } as unknown as EvalResult)).toBe(true);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { POST as importDataset } from "@/app/api/datasets/import/route";
+import { POST as runExperiment } from "@/app/api/experiments/run/route";
+import { POST as leaderboard } from "@/app/api/leaderboard/route";
+import { buildLeaderboard, fitBradleyTerry, fitElo } from "@/lib/leaderboard";
+import type {
+  Dataset,
+  DatasetVersion,
+  ExperimentRun,
+  Leaderboard,
+  LeaderboardMatch,
+  PairwiseVerdict,
+} from "@/lib/types";
+import { MOCK_MODEL_ID, builtInRubric, postJson } from "./helpers";
+
+interface LeaderboardReply {
+  leaderboard: Leaderboard;
+  sources: { adhoc: number; datasetRuns: number; synthetic: number };
+}
+
+describe("leaderboard sources", () => {
+  it("leaves synthetic dataset runs out unless asked, and labels them", async () => {
+    const imported = await postJson<{ dataset: Dataset; version: DatasetVersion }>(
+      importDataset,
+      "/api/datasets/import",
+      {
+        name: "Leaderboard dataset",
+        format: "jsonl",
+        content: ["What is 2 + 2?", "Name a prime number.", "Spell cat."]
+          .map((prompt) =>
+            JSON.stringify({ prompt, response_a: "A", response_b: "B", model_a: "alpha", model_b: "beta" })
+          )
+          .join("\n"),
+      }
+    );
+    const { data } = await postJson<{ run: ExperimentRun }>(runExperiment, "/api/experiments/run", {
+      datasetId: imported.data.dataset.id,
+      datasetVersionId: imported.data.version.id,
+      evalMode: "pairwise",
+      judgeModelId: MOCK_MODEL_ID,
+      rubricId: builtInRubric().id,
+    });
+    expect(data.run.synthetic).toBe(true);
+
+    const byDefault = await postJson<LeaderboardReply>(leaderboard, "/api/leaderboard", {});
+    expect(byDefault.status).toBe(200);
+    expect(byDefault.data.sources).toEqual({ adhoc: 0, datasetRuns: 0, synthetic: 0 });
+    expect(byDefault.data.leaderboard.matchCount).toBe(0);
+
+    const included = await postJson<LeaderboardReply>(leaderboard, "/api/leaderboard", {
+      includeDatasetRuns: true,
+    });
+    expect(included.data.sources.datasetRuns).toBe(3);
+    expect(included.data.sources.synthetic).toBe(3);
+    expect(included.data.leaderboard.matchCount).toBe(3);
+  });
+});
+
+function match(modelA: string, modelB: string, verdict: PairwiseVerdict, day = 1): LeaderboardMatch {
+  return {
+    modelA,
+    modelB,
+    verdict,
+    rubricId: "builtin-helpfulness",
+    judgeModelId: MOCK_MODEL_ID,
+    createdAt: `2026-01-${String(day).padStart(2, "0")}T00:00:00.000Z`,
+  };
+}
+
+describe("fitElo", () => {
+  it("replays the matches in order with K = 32", () => {
+    const ratings = fitElo([match("alpha", "beta", "A"), match("alpha", "beta", "B")]);
+
+    // 1016 / 984 after the first game; the upset then moves 32 × 0.5459 points.
+    expect(ratings.get("alpha")).toBeCloseTo(998.53, 2);
+    expect(ratings.get("beta")).toBeCloseTo(1001.47, 2);
+  });
+
+  it("moves nobody on a tie between equals", () => {
+    const ratings = fitElo([match("alpha", "beta", "tie")]);
+    expect([...ratings.values()]).toEqual([1000, 1000]);
+  });
+});
+
+describe("fitBradleyTerry", () => {
+  it("rates a single win at the closed-form strength", () => {
+    const ratings = fitBradleyTerry([match("alpha", "beta", "A")]);
+
+    // With the virtual tie against strength 1, alpha's strength x and beta's
+    // 1/x satisfy x/(x+1) + x²/(x²+1) = 3/2, i.e. x³ − x² − x − 3 = 0, so
+    // x ≈ 2.1304 and the ratings are 1000 ± 400·log10(x).
+    expect(ratings.get("alpha")).toBeCloseTo(1131.38, 1);
+    expect(ratings.get("beta")).toBeCloseTo(868.62, 1);
+  });
+
+  it("rates even records equally, whatever their order", () => {
+    const ratings = fitBradleyTerry([
+      match("alpha", "beta", "A"),
+      match("beta", "gamma", "A"),
+      match("gamma", "alpha", "A"),
+    ]);
+
+    for (const rating of ratings.values()) expect(rating).toBeCloseTo(1000, 6);
+  });
+});
+
+describe("buildLeaderboard", () => {
+  const matches = [
+    match("alpha", "beta", "A", 1),
+    match("alpha", "gamma", "A", 2),
+    match("beta", "gamma", "tie", 3),
+    match("beta", "alpha", "A", 4),
+    match("alpha", "gamma", "A", 5),
+    match("gamma", "beta", "B", 6),
+  ];
+
+  it.each(["bradley_terry", "elo"] as const)(
+    "brackets each %s rating with a reproducible bootstrap interval",
+    (method) => {
+      const board = buildLeaderboard(matches, method, 100);
+
+      expect(buildLeaderboard(matches, method, 100)).toEqual(board);
+      expect(board.entries.map((e) => e.model)).toEqual(["alpha", "beta", "gamma"]);
+      for (const entry of board.entries) {
+        expect(entry.ciLow).toBeLessThanOrEqual(entry.rating);
+        expect(entry.ciHigh).toBeGreaterThanOrEqual(entry.rating);
+        expect(entry.rating).toBe(Math.round(entry.rating * 10) / 10);
+      }
+    }
+  );
+
+  it("tallies each model's record", () => {
+    const [alpha] = buildLeaderboard(matches, "bradley_terry", 0).entries;
+
+    expect(alpha).toMatchObject({ rank: 1, matches: 4, wins: 3, losses: 1, ties: 0 });
+    expect(alpha.ciLow).toBe(alpha.rating);
+  });
+});
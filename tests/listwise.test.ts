@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  competitionRanks,
+  listwisePositionEffect,
+  normalizeListwiseRanks,
+  rankListwiseCandidates,
+  type ListwiseJudgedOrdering,
+} from "@/lib/listwise";
+import type { CriterionScore, ListwiseEvalInput, Rubric } from "@/lib/types";
+
+const RUBRIC: Rubric = {
+  id: "test-listwise",
+  name: "Listwise",
+  description: "One scale criterion.",
+  isBuiltIn: false,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  criteria: [
+    { id: "quality", name: "Quality", description: "Overall quality", weight: 1, scoreRange: 10 },
+  ],
+};
+
+function quality(score: number): CriterionScore[] {
+  return [{ criterionId: "quality", criterionName: "Quality", score, maxScore: 10, reasoning: "" }];
+}
+
+describe("competitionRanks", () => {
+  it("ranks lower values first and skips past ties", () => {
+    expect(competitionRanks([2, 1, 2, 4])).toEqual([2, 1, 2, 4]);
+    expect(competitionRanks([1, 1, 1, 2])).toEqual([1, 1, 1, 4]);
+  });
+});
+
+describe("normalizeListwiseRanks", () => {
+  // Slot A shows candidate 2, B candidate 0 and C candidate 1.
+  const order = [2, 0, 1];
+  const aggregates = [60, 80, 80];
+
+  it("maps slot ranks back to candidates", () => {
+    expect(normalizeListwiseRanks({ A: 1, B: 3, C: 2 }, order, aggregates)).toEqual({
+      ranks: [3, 2, 1],
+      coerced: false,
+    });
+  });
+
+  it("keeps tied slots tied, competition style", () => {
+    expect(normalizeListwiseRanks({ A: 1, B: 1, C: 2 }, order, aggregates)).toEqual({
+      ranks: [1, 3, 1],
+      coerced: false,
+    });
+  });
+
+  it.each([
+    ["a missing slot", { A: 1, B: 2 }],
+    ["a non-numeric rank", { A: 1, B: "second", C: 3 }],
+    ["a rank below 1", { A: 0, B: 1, C: 2 }],
+    ["no ranking", undefined],
+  ])("falls back to aggregate scores on %s", (_, raw) => {
+    expect(normalizeListwiseRanks(raw, order, aggregates)).toEqual({
+      ranks: [3, 1, 1],
+      coerced: true,
+    });
+  });
+});
+
+describe("listwisePositionEffect", () => {
+  it("needs two orderings", () => {
+    expect(
+      listwisePositionEffect([{ order: [0, 1, 2], ranks: [1, 2, 3], aggregateScores: [90, 60, 30] }])
+    ).toBeUndefined();
+  });
+
+  it("finds no position effect when candidates keep their ranks", () => {
+    const effect = listwisePositionEffect([
+      { order: [0, 1, 2], ranks: [1, 2, 3], aggregateScores: [90, 60, 30] },
+      { order: [2, 0, 1], ranks: [1, 2, 3], aggregateScores: [90, 60, 30] },
+    ]);
+
+    // Rank sums 2, 4, 6: W = 12·8 / (2²·(3³−3)) = 1.
+    expect(effect).toEqual({
+      slotMeanRanks: [2, 1.5, 2.5],
+      positionRankCorrelation: 0.25,
+      rankAgreement: 1,
+    });
+  });
+
+  it("measures a judge that always ranks the first slot first", () => {
+    const effect = listwisePositionEffect([
+      { order: [0, 1, 2], ranks: [1, 2, 3], aggregateScores: [90, 60, 30] },
+      { order: [2, 0, 1], ranks: [2, 3, 1], aggregateScores: [60, 30, 90] },
+    ]);
+
+    // Rank sums 3, 5, 4: W = 12·2 / (2²·(3³−3)) = 0.25.
+    expect(effect).toEqual({
+      slotMeanRanks: [1, 2, 3],
+      positionRankCorrelation: 1,
+      rankAgreement: 0.25,
+    });
+  });
+
+  it("computes Kendall's W across three orderings", () => {
+    const effect = listwisePositionEffect([
+      { order: [0, 1, 2], ranks: [1, 2, 3], aggregateScores: [90, 60, 30] },
+      { order: [1, 2, 0], ranks: [1, 3, 2], aggregateScores: [90, 30, 60] },
+      { order: [2, 0, 1], ranks: [2, 1, 3], aggregateScores: [60, 90, 30] },
+    ]);
+
+    // Rank sums 4, 6, 8: W = 12·8 / (3²·(3³−3)) = 0.444…
+    expect(effect?.rankAgreement).toBe(0.44);
+  });
+});
+
+describe("rankListwiseCandidates", () => {
+  const input: ListwiseEvalInput = {
+    prompt: "Name a prime.",
+    candidates: [{ response: "2" }, { response: "4", label: "model-b" }, { response: "7" }],
+    rubricId: RUBRIC.id,
+    modelId: "mock-judge",
+    doubleBlind: true,
+    orderings: 3,
+  };
+  const judged = (ranks: number[], scores: number[]): ListwiseJudgedOrdering => ({
+    order: [0, 1, 2],
+    ranks,
+    aggregateScores: scores.map((s) => s * 10),
+    criterionScores: scores.map(quality),
+  });
+
+  it("ranks by mean judge rank, rounded to two places, with median scores", () => {
+    const ranked = rankListwiseCandidates(input, RUBRIC, [
+      judged([1, 3, 2], [9, 2, 8]),
+      judged([2, 3, 1], [8, 3, 9]),
+      judged([1, 3, 2], [9, 2, 7]),
+    ]);
+
+    expect(
+      ranked.map((c) => [c.candidateIndex, c.rank, c.meanRank, c.criterionScores[0].score])
+    ).toEqual([
+      [0, 1, 1.33, 9],
+      [2, 2, 1.67, 8],
+      [1, 3, 3, 2],
+    ]);
+    expect(ranked[2].label).toBe("model-b");
+  });
+});
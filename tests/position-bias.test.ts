@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { averageCriterionScores, tiebreakOrder } from "@/lib/position-bias";
+import type { CriterionScore } from "@/lib/types";
+
+describe("tiebreakOrder", () => {
+  const pairs = Array.from({ length: 16 }, (_, i) => ({
+    prompt: `Question ${i}`,
+    responseA: `Answer A${i}`,
+    responseB: `Answer B${i}`,
+  }));
+
+  it("repeats the same order for the same pair", () => {
+    for (const pair of pairs) expect(tiebreakOrder({ ...pair })).toBe(tiebreakOrder(pair));
+  });
+
+  it("puts either response first across pairs", () => {
+    expect(new Set(pairs.map(tiebreakOrder))).toEqual(new Set(["AB", "BA"]));
+  });
+});
+
+describe("averageCriterionScores", () => {
+  const score = (value: number, passed?: boolean): CriterionScore => ({
+    criterionId: "c",
+    criterionName: "C",
+    score: value,
+    maxScore: passed === undefined ? 10 : 1,
+    reasoning: "",
+    ...(passed !== undefined && { passed }),
+  });
+
+  it("averages scale scores and passes a check only if both orders passed it", () => {
+    expect(averageCriterionScores([score(7)], [score(4)])[0].score).toBe(5.5);
+    expect(averageCriterionScores([score(1, true)], [score(0, false)])[0].passed).toBe(false);
+  });
+
+  it("keeps an averaged check's score at 1 or 0, matching whether it passed", () => {
+    const [failed] = averageCriterionScores([score(1, true)], [score(0, false)]);
+    const [passed] = averageCriterionScores([score(1, true)], [score(1, true)]);
+
+    expect(failed).toMatchObject({ score: 0, maxScore: 1, passed: false });
+    expect(passed).toMatchObject({ score: 1, maxScore: 1, passed: true });
+  });
+});
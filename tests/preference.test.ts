@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { POST as calibrate } from "@/app/api/judge-qa/calibrate/route";
+import { alignPreference, parsePreference, preferenceLabels } from "@/lib/preference";
+import type { CalibrationRun } from "@/lib/types";
+import { postJson } from "./helpers";
+
+describe("parsePreference", () => {
+  it.each([
+    ["A>>B", 2],
+    ["b > a", -1],
+    ["B<<A", 2],
+    ["A<B", -1],
+    ["A≈B", 0],
+    ["a~b", 0],
+    ["A=B", 0],
+    ["A", 1],
+    [" b ", -1],
+    ["Tie", 0],
+    [-2, -2],
+  ] as const)("reads %j on the 5-point scale as %d", (raw, margin) => {
+    expect(parsePreference(raw, 5)).toBe(margin);
+  });
+
+  it("clamps margins past the scale", () => {
+    expect(parsePreference("A>>>B", 5)).toBe(2);
+    expect(parsePreference("A>>>B", 7)).toBe(3);
+    expect(parsePreference(-5, 7)).toBe(-3);
+  });
+
+  it.each([["A>A"], ["A>>"], ["better"], [""], [1.5], [null]])("rejects %j", (raw) => {
+    expect(parsePreference(raw, 5)).toBeUndefined();
+  });
+
+  it("reads back every label of the scale", () => {
+    expect(preferenceLabels(7).map((label) => parsePreference(label, 7))).toEqual([
+      3, 2, 1, 0, -1, -2, -3,
+    ]);
+  });
+});
+
+describe("alignPreference", () => {
+  it("keeps a margin on the verdict's side and otherwise takes the weakest one", () => {
+    expect(alignPreference(2, "A")).toBe(2);
+    expect(alignPreference(2, "B")).toBe(-1);
+    expect(alignPreference(-1, "tie")).toBe(0);
+  });
+});
+
+describe("calibration against graded preferences", () => {
+  function run(records: Record<string, unknown>[], extra: Record<string, unknown> = {}) {
+    return postJson<{ run: CalibrationRun }>(calibrate, "/api/judge-qa/calibrate", {
+      setName: "Graded",
+      records,
+      ...extra,
+    });
+  }
+
+  it("counts near misses in the quadratic weighted kappa", async () => {
+    // Margins (human, judge): (2, 2), (1, 2), (-1, -2), (-2, -1) on 5 points,
+    // weights ((i − j) / 4)². Observed 3/64 against expected 23/64, so
+    // κw = 1 − 3/23 = 20/23, while the plain verdicts all agree.
+    const { status, data } = await run([
+      { humanPreference: "A>>B", judgePreference: "A>>B" },
+      { humanPreference: "A>B", judgePreference: 2 },
+      { humanPreference: "B>A", judgePreference: "A<<B" },
+      { humanPreference: "B>>A", judgePreference: "B>A" },
+    ]);
+
+    expect(status).toBe(200);
+    expect(data.run.metrics).toMatchObject({
+      sampleSize: 4,
+      exactMatchRate: 1,
+      cohenKappa: 1,
+      weightedKappa: 0.8696,
+    });
+  });
+
+  it("is 1 for identical margins and undefined without any", async () => {
+    const same = await run([
+      { humanPreference: "A>>>B", judgePreference: 3 },
+      { humanPreference: "A≈B", judgePreference: "tie" },
+      { humanPreference: "B>A", judgePreference: "B>A" },
+    ]);
+    const none = await run([{ humanVerdict: "A", judgeVerdict: "A" }]);
+
+    expect(same.data.run.metrics.weightedKappa).toBe(1);
+    expect(none.data.run.metrics.weightedKappa).toBeUndefined();
+  });
+
+  it("rejects preferences it cannot read", async () => {
+    const { status, data } = await run([{ humanPreference: "much better", judgePreference: "A" }]);
+
+    expect(status).toBe(400);
+    expect(data).toMatchObject({
+      details: { unreadablePreferences: ['records[0].humanPreference: "much better"'] },
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { estimateCostUsd, getModelById } from "@/lib/models";
+import { runCostAtReference, runCostUsd } from "@/lib/pricing";
+import type { ExperimentRun, RunMetricSummary } from "@/lib/types";
+
+const MODEL_ID = "gpt-4o-mini";
+
+function adhocRun(metrics: Partial<RunMetricSummary>): ExperimentRun {
+  return {
+    id: "run-1",
+    identityKey: "run-1",
+    createdAt: "2025-06-01T00:00:00.000Z",
+    runType: "adhoc",
+    status: "completed",
+    config: { evalMode: "single", judgeModelId: MODEL_ID, rubricId: "builtin-helpfulness", repeats: 1 },
+    metrics: {
+      caseCount: 1,
+      meanAggregateScore: 80,
+      passRate: 1,
+      inputTokens: 0,
+      outputTokens: 0,
+      estimatedCostUsd: 0,
+      ...metrics,
+    },
+    sourceEvalResultIds: [],
+  };
+}
+
+describe("runCostAtReference", () => {
+  const model = getModelById(MODEL_ID)!;
+
+  it("leaves cache hits out, matching the recorded cost", () => {
+    // Two calls of 1000/200 tokens; the second was a cache hit billed at zero.
+    const recorded = estimateCostUsd(model, 1000, 200);
+    const run = adhocRun({
+      inputTokens: 2000,
+      outputTokens: 400,
+      billedInputTokens: 1000,
+      billedOutputTokens: 200,
+      estimatedCostUsd: recorded,
+    });
+
+    expect(runCostAtReference(run, {}, run.createdAt)).toBeCloseTo(recorded, 10);
+    expect(runCostUsd(run, "reference", {}, run.createdAt)).toBeCloseTo(
+      runCostUsd(run, "recorded"),
+      10
+    );
+  });
+
+  it("prices every token of runs recorded without billed counts", () => {
+    const run = adhocRun({ inputTokens: 2000, outputTokens: 400 });
+
+    expect(runCostAtReference(run, {}, run.createdAt)).toBeCloseTo(
+      estimateCostUsd(model, 2000, 400),
+      10
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { buildSinglePrompt } from "@/lib/prompts";
+import type { Rubric } from "@/lib/types";
+import { MOCK_MODEL_ID } from "./helpers";
+
+const RUBRIC: Rubric = {
+  id: "test-prompts",
+  name: "Prompts",
+  description: "A zero-based scale next to a pass/fail check.",
+  isBuiltIn: false,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  criteria: [
+    {
+      id: "quality",
+      name: "Quality",
+      description: "Overall quality",
+      weight: 0.5,
+      scoreMin: 0,
+      scoreRange: 4,
+    },
+    {
+      id: "cites",
+      name: "Cites sources",
+      description: "Names at least one source",
+      weight: 0.5,
+      scoreRange: 5,
+      type: "checklist",
+    },
+  ],
+};
+
+function render(rubric: Rubric): string {
+  return buildSinglePrompt(
+    { prompt: "What is 2+2?", response: "4", rubricId: rubric.id, modelId: MOCK_MODEL_ID },
+    rubric
+  );
+}
+
+describe("calibration examples", () => {
+  it("show each expert score on its criterion's range", () => {
+    const judgePrompt = render({
+      ...RUBRIC,
+      exemplars: [
+        {
+          id: "ex-1",
+          prompt: "What is 3+3?",
+          response: "6, per basic arithmetic.",
+          scores: { quality: 0, cites: 1 },
+          rationale: "Correct but cites nothing real.",
+        },
+      ],
+    });
+
+    expect(judgePrompt).toContain("- Quality: 0 (range 0–4)\n- Cites sources: pass");
+    expect(judgePrompt).not.toContain("0/4");
+  });
+});
+
+describe("score anchors", () => {
+  it("list each level lowest first under its criterion's range", () => {
+    const [quality, cites] = RUBRIC.criteria;
+    const judgePrompt = render({
+      ...RUBRIC,
+      criteria: [
+        {
+          ...quality,
+          anchors: [
+            { score: 4, description: " Fully correct. " },
+            { score: 0, description: "Wrong." },
+          ],
+        },
+        { ...cites, anchors: [{ score: 1, description: "Ignored for checks." }] },
+      ],
+    });
+
+    expect(judgePrompt).toContain(
+      "(weight: 50%, score range: 0–4)\n   Overall quality\n" +
+        "   Score levels:\n   - 0: Wrong.\n   - 4: Fully correct."
+    );
+    expect(judgePrompt).not.toContain("Ignored for checks.");
+  });
+});
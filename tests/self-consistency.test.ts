@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+  lowerMedian,
+  majorityVerdict,
+  medianCriterionScores,
+  splitSettledDraws,
+  summarizeSingleSamples,
+} from "@/lib/self-consistency";
+import type { CriterionScore, Rubric, SingleJudgeSample } from "@/lib/types";
+
+const RUBRIC: Rubric = {
+  id: "test-consistency",
+  name: "Consistency",
+  description: "A scale criterion next to a pass/fail check.",
+  isBuiltIn: false,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  criteria: [
+    { id: "quality", name: "Quality", description: "Overall quality", weight: 0.5, scoreRange: 10 },
+    {
+      id: "cites",
+      name: "Cites sources",
+      description: "Names at least one source",
+      weight: 0.5,
+      scoreRange: 5,
+      type: "checklist",
+    },
+  ],
+};
+
+function sample(quality: number, cites: boolean, aggregateScore: number): SingleJudgeSample {
+  const criterionScores: CriterionScore[] = [
+    {
+      criterionId: "quality",
+      criterionName: "Quality",
+      score: quality,
+      maxScore: 10,
+      reasoning: `Scored ${quality}.`,
+    },
+    {
+      criterionId: "cites",
+      criterionName: "Cites sources",
+      score: cites ? 1 : 0,
+      maxScore: 1,
+      passed: cites,
+      reasoning: cites ? "Cites one." : "Cites none.",
+    },
+  ];
+  return { criterionScores, aggregateScore, summary: "" };
+}
+
+// Four draws that disagree: quality 7, 5, 9, 5 and one failed check.
+const SAMPLES = [
+  sample(7, true, 70),
+  sample(5, true, 50),
+  sample(9, false, 90),
+  sample(5, true, 50),
+];
+
+describe("lowerMedian", () => {
+  it("takes the lower middle value of an even count", () => {
+    expect(lowerMedian([7, 5, 9, 5])).toBe(5);
+    expect(lowerMedian([3, 1, 2])).toBe(2);
+  });
+});
+
+describe("medianCriterionScores", () => {
+  it("keeps the median score with the reasoning of the first sample that gave it", () => {
+    const scores = medianCriterionScores(RUBRIC, SAMPLES.map((s) => s.criterionScores));
+
+    expect(scores.map((cs) => [cs.score, cs.reasoning])).toEqual([
+      [5, "Scored 5."],
+      [1, "Cites one."],
+    ]);
+  });
+});
+
+describe("summarizeSingleSamples", () => {
+  it("reports the spread and agreement of each criterion", () => {
+    const sampling = { samples: 4, temperature: 0.7 };
+
+    expect(summarizeSingleSamples(RUBRIC, sampling, SAMPLES)).toEqual({
+      sampling,
+      criteria: [
+        { criterionId: "quality", min: 5, max: 9, stdDev: 1.66, agreement: 0.5 },
+        { criterionId: "cites", min: 0, max: 1, stdDev: 0.43, agreement: 0.75 },
+      ],
+      aggregateStdDev: 16.58,
+      agreementRate: 0.63,
+    });
+  });
+
+  it("reports full agreement when every sample matches", () => {
+    const summary = summarizeSingleSamples(RUBRIC, { samples: 2, temperature: 0.7 }, [
+      SAMPLES[0],
+      SAMPLES[0],
+    ]);
+
+    expect(summary).toMatchObject({ aggregateStdDev: 0, agreementRate: 1 });
+  });
+});
+
+describe("majorityVerdict", () => {
+  it("takes the most-voted verdict", () => {
+    expect(majorityVerdict(["A", "B", "A", "tie"])).toEqual({
+      verdict: "A",
+      counts: { A: 2, B: 1, tie: 1 },
+      agreement: 0.5,
+    });
+  });
+
+  it("calls a split between the top votes a tie", () => {
+    expect(majorityVerdict(["A", "B", "A", "B", "tie"])).toMatchObject({
+      verdict: "tie",
+      agreement: 0.2,
+    });
+  });
+});
+
+describe("splitSettledDraws", () => {
+  it("keeps the completed draws in order and the first failure", async () => {
+    const first = new Error("first");
+    const settled = await Promise.allSettled([
+      Promise.resolve(1),
+      Promise.reject(first),
+      Promise.resolve(3),
+      Promise.reject(new Error("second")),
+    ]);
+
+    const { drawn, failure } = splitSettledDraws(settled);
+    expect(drawn).toEqual([1, 3]);
+    expect(failure?.reason).toBe(first);
+  });
+});
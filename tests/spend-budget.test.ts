@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { POST as importDataset } from "@/app/api/datasets/import/route";
+import { POST as runExperiment } from "@/app/api/experiments/run/route";
+import { resolveJudge } from "@/lib/judge-models";
+import { getServerMemory } from "@/lib/server-memory";
+import {
+  BudgetExceededError,
+  effectiveBudgets,
+  recordSpend,
+  reserveBudget,
+  reserveJudgeCalls,
+} from "@/lib/spend-budget";
+import type { Dataset, DatasetVersion, ExperimentRun, ModelSpec } from "@/lib/types";
+import { builtInRubric, postJson } from "./helpers";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+beforeEach(() => {
+  getServerMemory().spend = { byDay: {}, byRun: {} };
+});
+
+describe("spend ledger", () => {
+  it("drops days before today when it records spend", () => {
+    const spend = getServerMemory().spend;
+    spend.byDay["2020-01-01"] = { totalUsd: 3, byProvider: { openai: 3 } };
+
+    recordSpend({ openai: 0.5 }, "run-a");
+
+    expect(Object.keys(spend.byDay)).toEqual([today()]);
+    expect(spend.byDay[today()]).toEqual({ totalUsd: 0.5, byProvider: { openai: 0.5 } });
+  });
+
+  it("keeps the most recently charged runs", () => {
+    const spend = getServerMemory().spend;
+    for (let i = 0; i < 500; i += 1) recordSpend({ openai: 0.01 }, `run-${i}`);
+    recordSpend({ openai: 0.01 }, "run-0");
+    recordSpend({ openai: 0.01 }, "run-new");
+
+    expect(Object.keys(spend.byRun)).toHaveLength(500);
+    expect(spend.byRun["run-0"]).toBeCloseTo(0.02, 10);
+    expect(spend.byRun["run-1"]).toBeUndefined();
+  });
+
+  it("leaves synthetic experiment runs off the ledger", async () => {
+    const imported = await postJson<{ dataset: Dataset; version: DatasetVersion }>(
+      importDataset,
+      "/api/datasets/import",
+      {
+        name: "Spend dataset",
+        format: "jsonl",
+        content: JSON.stringify({ prompt: "What is 2 + 2?", response: "4" }),
+      }
+    );
+
+    const { status, data } = await postJson<{ run: ExperimentRun }>(runExperiment, "/api/experiments/run", {
+      datasetId: imported.data.dataset.id,
+      datasetVersionId: imported.data.version.id,
+      evalMode: "single",
+      judgeModelId: "gpt-4o-mini",
+      rubricId: builtInRubric().id,
+    });
+
+    expect(status).toBe(200);
+    expect(data.run.metrics.estimatedCostUsd).toBeGreaterThan(0);
+    expect(getServerMemory().spend).toEqual({ byDay: {}, byRun: {} });
+  });
+});
+
+describe("budget reservations", () => {
+  afterEach(() => {
+    delete process.env.JUDGE_BUDGET_PROVIDER_DAILY_USD;
+  });
+
+  it("counts a pending reservation against concurrent checks", () => {
+    const pending = reserveBudget({ maxDailyUsd: 1 }, { openai: 0.6 }, "run-a");
+
+    expect(() => reserveBudget({ maxDailyUsd: 1 }, { openai: 0.6 }, "run-b")).toThrow(
+      BudgetExceededError
+    );
+
+    pending.record({ openai: 0.2 });
+    pending.release();
+    expect(getServerMemory().spend.byDay[today()].totalUsd).toBeCloseTo(0.2, 10);
+    expect(getServerMemory().spend.byRun["run-a"]).toBeCloseTo(0.2, 10);
+    reserveBudget({ maxDailyUsd: 1 }, { openai: 0.6 }, "run-b").release();
+  });
+
+  it("records spend beyond the reservation in full", () => {
+    const pending = reserveBudget({}, { openai: 0.1 });
+    pending.record({ openai: 0.3 });
+    pending.release();
+
+    expect(getServerMemory().spend.byDay[today()].byProvider.openai).toBeCloseTo(0.3, 10);
+  });
+
+  it("tightens per-provider budgets with the server ceiling", () => {
+    process.env.JUDGE_BUDGET_PROVIDER_DAILY_USD = JSON.stringify({ openai: 2, anthropic: 5 });
+
+    expect(effectiveBudgets({ maxProviderDailyUsd: { openai: 3, google: 1 } })).toMatchObject({
+      maxProviderDailyUsd: { openai: 2, anthropic: 5, google: 1 },
+    });
+  });
+});
+
+describe("user-defined models on built-in providers", () => {
+  const custom: ModelSpec = {
+    id: "o3-mini",
+    name: "o3-mini",
+    provider: "openai",
+    inputCostPer1M: 1.1,
+    outputCostPer1M: 4.4,
+  };
+  const resolve = () =>
+    resolveJudge(new Headers({ "x-openai-api-key": "sk-test" }), custom.id, { model: custom });
+
+  afterEach(() => {
+    delete process.env.JUDGE_BUDGET_RUN_USD;
+  });
+
+  it("prices results from the catalog entry and keeps the provider price for ceilings", () => {
+    const judge = resolve();
+
+    expect(judge.ok).toBe(true);
+    if (!judge.ok) return;
+    expect(judge.judgeModel).toBe(custom);
+    expect(judge.ceilingPricing).toEqual({ inputCostPer1M: 10, outputCostPer1M: 30 });
+  });
+
+  it("checks the server ceilings at the ceiling price and client budgets at the catalog price", () => {
+    const judge = resolve();
+    if (!judge.ok) throw new Error(judge.error);
+    // 1M output tokens: $4.40 at the catalog price, $30 at the ceiling price.
+    const projection = {
+      judge,
+      pricing: custom,
+      judgePrompt: "",
+      outputTokens: 1_000_000,
+      runId: "ceiling-run",
+    };
+
+    reserveJudgeCalls({ ...projection, budgets: { maxRunUsd: 5 } }).release();
+
+    process.env.JUDGE_BUDGET_RUN_USD = "5";
+    expect(() => reserveJudgeCalls({ ...projection, budgets: {} })).toThrow(BudgetExceededError);
+  });
+});
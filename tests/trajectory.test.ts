@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import { normalizeStepAnnotations } from "@/lib/judge-output";
+import { buildSinglePrompt } from "@/lib/prompts";
+import {
+  formatTrajectory,
+  parseTrajectory,
+  stepLevelCriteria,
+  trajectoryFinalAnswer,
+} from "@/lib/trajectory";
+import type { AgentTrajectory, Rubric } from "@/lib/types";
+import { MOCK_MODEL_ID } from "./helpers";
+
+const RUBRIC: Rubric = {
+  id: "test-trajectory",
+  name: "Agent",
+  description: "Tool use next to answer quality.",
+  isBuiltIn: false,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  criteria: [
+    {
+      id: "tool_use",
+      name: "Tool use",
+      description: "Right tools",
+      weight: 0.5,
+      scoreRange: 10,
+      stepLevel: true,
+    },
+    { id: "answer", name: "Answer", description: "Correct answer", weight: 0.5, scoreRange: 10 },
+  ],
+};
+
+const TRAJECTORY: AgentTrajectory = {
+  tools: [{ name: "search", description: "Web search" }],
+  steps: [
+    { kind: "thought", content: "I should look it up." },
+    {
+      kind: "tool_call",
+      content: "",
+      toolName: "search",
+      arguments: { q: "capital of France" },
+      callId: "c1",
+    },
+    { kind: "tool_result", content: "Paris", toolName: "search", callId: "c1" },
+    { kind: "final_answer", content: "Paris." },
+  ],
+};
+
+describe("parseTrajectory", () => {
+  it("accepts common agent-log spellings", () => {
+    const parsed = parseTrajectory(
+      JSON.stringify({
+        tools: ["search", { name: " lookup ", description: " " }, { description: "nameless" }],
+        steps: [
+          { type: "reasoning", text: "Look it up." },
+          { type: "action", tool: "search", args: '{"q":"x"}', call_id: "c1" },
+          { type: "observation", output: { hits: 0 }, is_error: true },
+          { kind: "answer", content: "Unknown." },
+        ],
+      })
+    );
+
+    expect(parsed).toEqual({
+      ok: true,
+      trajectory: {
+        tools: [{ name: "search" }, { name: "lookup" }],
+        steps: [
+          { kind: "thought", content: "Look it up." },
+          { kind: "tool_call", content: "", toolName: "search", arguments: { q: "x" }, callId: "c1" },
+          // An observation without a tool name answers the call before it.
+          { kind: "tool_result", content: '{"hits":0}', toolName: "search", isError: true },
+          { kind: "final_answer", content: "Unknown." },
+        ],
+      },
+    });
+  });
+
+  it("takes a bare steps array and keeps non-JSON arguments as input", () => {
+    const parsed = parseTrajectory([{ kind: "tool_call", name: "shell", input: "ls -la" }]);
+
+    expect(parsed).toEqual({
+      ok: true,
+      trajectory: {
+        steps: [{ kind: "tool_call", content: "", toolName: "shell", arguments: { input: "ls -la" } }],
+      },
+    });
+  });
+
+  it.each([
+    ["invalid JSON", "{steps: []", "trajectory must be JSON."],
+    ["no steps", { tools: ["search"] }, "trajectory needs a non-empty steps array."],
+    ["a non-object step", ["Look it up."], "steps[0] must be an object."],
+    [
+      "an unknown kind",
+      [{ kind: "reflection", content: "Hmm." }],
+      'steps[0] has unknown kind "reflection"; use thought, tool_call, tool_result, message, final_answer.',
+    ],
+    [
+      "a tool call without a tool",
+      [{ kind: "tool_call", args: {} }],
+      "steps[0] is a tool_call without a tool name.",
+    ],
+    [
+      "a result with no call before it",
+      [{ kind: "tool_result", content: "x" }],
+      "steps[0] is a tool_result without a tool name.",
+    ],
+    ["an empty message", [{ kind: "message", content: "  " }], "steps[0] needs content."],
+  ])("rejects %s", (_, raw, error) => {
+    expect(parseTrajectory(raw)).toEqual({ ok: false, error });
+  });
+});
+
+describe("trajectoryFinalAnswer", () => {
+  it("prefers the last final answer, then the last message", () => {
+    expect(trajectoryFinalAnswer(TRAJECTORY)).toBe("Paris.");
+    expect(
+      trajectoryFinalAnswer({
+        steps: [
+          { kind: "message", content: "Searching." },
+          { kind: "message", content: "It is Paris." },
+        ],
+      })
+    ).toBe("It is Paris.");
+  });
+});
+
+describe("formatTrajectory", () => {
+  it("numbers steps from 1 with their tool and call id", () => {
+    const text = formatTrajectory(TRAJECTORY);
+
+    expect(text).toContain("**[Step 1] Thought:**\nI should look it up.");
+    expect(text).toContain(
+      '**[Step 2] Tool call → search (c1):**\nArguments:\n```json\n{\n  "q": "capital of France"\n}\n```'
+    );
+    expect(text).toContain("**[Step 3] Tool result ← search (c1):**\nParis");
+    expect(text).toContain("**[Step 4] Final answer:**\nParis.");
+  });
+});
+
+describe("step-level criteria", () => {
+  it("are the marked criteria, or every criterion when none is marked", () => {
+    expect(stepLevelCriteria(RUBRIC).map((c) => c.id)).toEqual(["tool_use"]);
+
+    const unmarked = { ...RUBRIC, criteria: RUBRIC.criteria.map((c) => ({ ...c, stepLevel: undefined })) };
+    expect(stepLevelCriteria(unmarked).map((c) => c.id)).toEqual(["tool_use", "answer"]);
+  });
+
+  it("are the ones the judge is asked to annotate", () => {
+    const judgePrompt = buildSinglePrompt(
+      {
+        prompt: "Capital of France?",
+        response: "",
+        rubricId: RUBRIC.id,
+        modelId: MOCK_MODEL_ID,
+        trajectory: TRAJECTORY,
+      },
+      RUBRIC
+    );
+
+    expect(judgePrompt).toContain('back your scores for "tool_use" (Tool use) with the steps');
+    expect(judgePrompt).toContain("- `search`: Web search");
+    expect(judgePrompt).toContain('"step_annotations": [');
+  });
+});
+
+describe("normalizeStepAnnotations", () => {
+  it("keeps annotations on real steps and criteria, in step order", () => {
+    const annotations = normalizeStepAnnotations(
+      [
+        { step: 3, criterion: "answer", assessment: "GOOD", note: " Read it right. " },
+        { step: "2", criterion: "tool_use", assessment: "meh", note: "Vague query." },
+        { step: 5, criterion: "tool_use", assessment: "issue" },
+        { step: 1, criterion: "tone", assessment: "issue" },
+      ],
+      TRAJECTORY.steps.length,
+      RUBRIC
+    );
+
+    expect(annotations).toEqual([
+      { step: 2, criterionId: "tool_use", assessment: "issue", note: "Vague query." },
+      { step: 3, criterionId: "answer", assessment: "good", note: "Read it right." },
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { RubricSchema } from "@/lib/eval-validation";
+import { normalizeCriterionScore } from "@/lib/judge-output";
+import { averageCriterionScores } from "@/lib/position-bias";
+import type { CriterionScore, Rubric, RubricCriterion } from "@/lib/types";
+import { computeAggregateScore, criterionScoreBounds, failsChecklistGate } from "@/lib/utils";
+
+const RUBRIC: Pick<Rubric, "criteria" | "checklistPolicy"> = {
+  criteria: [
+    { id: "quality", name: "Quality", description: "Overall quality", weight: 0.5, scoreRange: 10 },
+    {
+      id: "cites",
+      name: "Cites sources",
+      description: "Names at least one source",
+      weight: 0.5,
+      scoreRange: 5,
+      type: "checklist",
+    },
+  ],
+};
+
+function scores(quality: number, cites: boolean): CriterionScore[] {
+  return [
+    { criterionId: "quality", criterionName: "Quality", score: quality, maxScore: 10, reasoning: "" },
+    {
+      criterionId: "cites",
+      criterionName: "Cites sources",
+      score: cites ? 1 : 0,
+      maxScore: 1,
+      passed: cites,
+      reasoning: "",
+    },
+  ];
+}
+
+describe("computeAggregateScore", () => {
+  it("counts a passed check as 100 and a failed one as 0 under pass_ratio", () => {
+    expect(computeAggregateScore(scores(8, true), RUBRIC)).toBe(90);
+    expect(computeAggregateScore(scores(8, false), RUBRIC)).toBe(40);
+  });
+
+  it("zeroes the aggregate when any check fails under all_must_pass", () => {
+    const gated = { ...RUBRIC, checklistPolicy: "all_must_pass" as const };
+
+    expect(computeAggregateScore(scores(8, true), gated)).toBe(90);
+    expect(computeAggregateScore(scores(8, false), gated)).toBe(0);
+  });
+
+  it("scores a zero-based scale from its own minimum", () => {
+    const rubric = {
+      criteria: [{ ...RUBRIC.criteria[0], scoreMin: 0, scoreRange: 4 }],
+    };
+    const [quality] = scores(0, true);
+
+    expect(computeAggregateScore([{ ...quality, minScore: 0, maxScore: 4 }], rubric)).toBe(0);
+  });
+
+  it("gates and weights position-averaged checks like single-pass ones", () => {
+    const gated = { ...RUBRIC, checklistPolicy: "all_must_pass" as const };
+    const averaged = averageCriterionScores(scores(8, true), scores(6, false));
+
+    expect(averaged[1]).toMatchObject({ score: 0, passed: false });
+    expect(computeAggregateScore(averaged, RUBRIC)).toBe(35);
+    expect(computeAggregateScore(averaged, gated)).toBe(0);
+  });
+});
+
+describe("failsChecklistGate", () => {
+  it("applies only to all_must_pass rubrics with a failed check", () => {
+    expect(failsChecklistGate(scores(8, false), { checklistPolicy: "all_must_pass" })).toBe(true);
+    expect(failsChecklistGate(scores(8, true), { checklistPolicy: "all_must_pass" })).toBe(false);
+    expect(failsChecklistGate(scores(8, false), { checklistPolicy: "pass_ratio" })).toBe(false);
+    expect(failsChecklistGate(scores(8, false), {})).toBe(false);
+  });
+});
+
+describe("criterionScoreBounds", () => {
+  const zeroBased: RubricCriterion = { ...RUBRIC.criteria[0], scoreMin: 0, scoreRange: 4 };
+
+  it("runs from 1 by default, from a custom minimum, and 0–1 for checks", () => {
+    expect(criterionScoreBounds(RUBRIC.criteria[0])).toEqual({ min: 1, max: 10 });
+    expect(criterionScoreBounds(zeroBased)).toEqual({ min: 0, max: 4 });
+    expect(criterionScoreBounds(RUBRIC.criteria[1])).toEqual({ min: 0, max: 1 });
+  });
+
+  it("clamps judge scores into the custom range", () => {
+    expect(normalizeCriterionScore(-2, zeroBased)).toBe(0);
+    expect(normalizeCriterionScore(3.6, zeroBased)).toBe(4);
+    expect(normalizeCriterionScore(undefined, zeroBased)).toBe(0);
+  });
+
+  it("bound the anchors a rubric may define", () => {
+    const rubric = (anchors: RubricCriterion["anchors"]) => ({
+      id: "anchored",
+      name: "Anchored",
+      description: "",
+      isBuiltIn: false,
+      createdAt: "2025-01-01T00:00:00.000Z",
+      criteria: [{ ...zeroBased, weight: 1, anchors }],
+    });
+    const issues = (anchors: RubricCriterion["anchors"]) =>
+      RubricSchema.safeParse(rubric(anchors)).error?.issues.map((i) => i.path.join("."));
+
+    expect(issues([{ score: 0, description: "Wrong" }, { score: 4, description: "Right" }])).toBe(
+      undefined
+    );
+    expect(issues([{ score: 5, description: "Beyond" }])).toEqual(["criteria.0.anchors.0.score"]);
+    expect(
+      issues([
+        { score: 2, description: "Partly" },
+        { score: 2, description: "Again" },
+      ])
+    ).toEqual(["criteria.0.anchors.1.score"]);
+  });
+});